@@ -0,0 +1,79 @@
+import { FullConfig, request } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startMockServer, MockServer } from './mock-server/content-hub-mock-server';
+import { cleanupJournal, ContentHubAPIClient, formatSweepReport, sweepTestArtifacts } from './src';
+
+/**
+ * Creates the run state shared by all workers (rate limiter window, cleanup journal)
+ * and starts the local Content Hub stand-in when CONTENT_HUB_MOCK=true.
+ * The returned function is run by Playwright as the global teardown.
+ */
+async function globalSetup(_config: FullConfig): Promise<() => Promise<void>> {
+  // Workers inherit these variables, so every client in the run draws from one budget
+  // and journals what it creates
+  const stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-hub-run-'));
+  process.env.CONTENT_HUB_RATE_LIMIT_STATE = path.join(stateDir, 'grants.json');
+  process.env.CONTENT_HUB_CLEANUP_JOURNAL = path.join(stateDir, 'created-resources.ndjson');
+
+  let mockServer: MockServer | undefined;
+  if (process.env.CONTENT_HUB_MOCK === 'true') {
+    mockServer = await startMockServer({
+      port: Number(new URL(process.env.CONTENT_HUB_BASE_URL!).port),
+      credentials: {
+        clientId: process.env.CONTENT_HUB_CLIENT_ID,
+        clientSecret: process.env.CONTENT_HUB_CLIENT_SECRET,
+        username: process.env.CONTENT_HUB_USERNAME,
+        password: process.env.CONTENT_HUB_PASSWORD
+      }
+    });
+    console.log(`Content Hub mock server listening on ${mockServer.url}`);
+  }
+
+  return async () => {
+    try {
+      await cleanupRun(process.env.CONTENT_HUB_CLEANUP_JOURNAL!);
+    } finally {
+      await mockServer?.close();
+      await fs.rm(stateDir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * Delete resources that tests created but never removed, then sweep old
+ * artifacts from earlier runs when CONTENT_HUB_SWEEP_OLDER_THAN_HOURS is set
+ */
+async function cleanupRun(journalPath: string): Promise<void> {
+  const context = await request.newContext();
+  try {
+    // The journal exists once any test created something. cleanupJournal deletes what it lists as
+    // created but never as deleted: resources of tests that never reached their cleanup, skipped
+    // it, or whose delete call failed.
+    const hasJournal = (await fs.stat(journalPath).catch(() => undefined)) !== undefined;
+    const sweepHours = process.env.CONTENT_HUB_SWEEP_OLDER_THAN_HOURS;
+    if (!hasJournal && !sweepHours) {
+      return;
+    }
+
+    const client = new ContentHubAPIClient(context);
+    const { deleted, failed } = await cleanupJournal(client, journalPath);
+    if (deleted.length > 0 || failed.length > 0) {
+      console.log(`Global teardown removed ${deleted.length} leftover test resource(s), ${failed.length} failed`);
+    }
+
+    if (sweepHours) {
+      const report = await sweepTestArtifacts(client, {
+        olderThanHours: Number(sweepHours),
+        // A read-only profile can only report what it would sweep
+        dryRun: process.env.CONTENT_HUB_SWEEP_DRY_RUN === 'true' || client.readOnly
+      });
+      console.log(formatSweepReport(report));
+    }
+  } finally {
+    await context.dispose();
+  }
+}
+
+export default globalSetup;
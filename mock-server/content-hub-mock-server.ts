@@ -0,0 +1,2350 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * In-memory stand-in for the Content Hub REST API.
+ *
+ * Covers the endpoints exercised by the test suite so it can run offline and in CI
+ * without an instance or secrets. State lives in memory for the lifetime of the server.
+ */
+
+export interface MockCredentials {
+  clientId: string;
+  clientSecret: string;
+  username: string;
+  password: string;
+}
+
+/**
+ * A user signing in with the password grant besides the one in `credentials`, who may only call
+ * the operations its permissions name. Permissions are `<area>:<action>` with `*` for any, e.g.
+ * `entities:read` or `selections:*`. The area is the path segment after /api (entities, jobs,
+ * optionlists, ...). The action is read for GETs and queries, create for a POST to a collection
+ * (/api/entities), delete for a DELETE of one resource (/api/entities/1), and update for the
+ * rest: PUTs, bulk updates, adding options or selection entities, cancelling jobs.
+ */
+export interface MockUser {
+  username: string;
+  password: string;
+  permissions: string[];
+  /** Definitions whose entities the user can neither read nor change, nor find in listings */
+  hiddenDefinitions?: string[];
+  /** Tokens of a disabled user are rejected with 401, including ones issued before */
+  disabled?: boolean;
+}
+
+export interface MockRateLimit {
+  /** Bucket capacity: requests a token may burst */
+  limit: number;
+  /** Time in milliseconds for an empty bucket to refill completely */
+  windowMs: number;
+  /** One bucket per access token (default) or one for the whole instance */
+  scope?: 'token' | 'instance';
+}
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+  credentials?: Partial<MockCredentials>;
+  /** Users with restricted permissions; defaults to `mock-editor` and `mock-reader` (see DEFAULT_USERS) */
+  users?: MockUser[];
+  /** Throttle applied to authenticated calls; `false` disables it */
+  rateLimit?: MockRateLimit | false;
+  /** Lifetime reported in `expires_in` for issued tokens */
+  tokenTtlSeconds?: number;
+  /** Chunk size announced in upload configurations (default 1 MiB) */
+  uploadChunkSize?: number;
+  /** Time jobs started by uploads and bulk operations take to complete (default 100ms) */
+  jobDurationMs?: number;
+  /** Largest `skip + take` entity listings and queries accept; deeper pages need a scroll (default 10000) */
+  maxResultWindow?: number;
+  /** Delays applied to matching requests before they are answered */
+  latency?: MockLatency[];
+}
+
+/**
+ * A canned response returned instead of the normal handler for matching requests
+ */
+export interface MockFault {
+  method?: string;
+  path: string | RegExp;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Number of matching requests to fail; unlimited when omitted */
+  times?: number;
+}
+
+/**
+ * A fixed delay before matching requests are answered, e.g. to push an endpoint past a latency SLO
+ */
+export interface MockLatency {
+  method?: string;
+  /** Every route when omitted */
+  path?: string | RegExp;
+  delayMs: number;
+}
+
+/**
+ * A value of a member: in a culture, or with culture null for members that are not culture sensitive
+ */
+export interface MockPropertyValue {
+  culture?: string | null;
+  value: unknown;
+}
+
+export type MockProperties = Record<string, MockPropertyValue[]>;
+
+export interface MockEntity {
+  id: number;
+  identifier: string;
+  definition: string;
+  culture?: string;
+  properties: MockProperties;
+  /** Related entity ids by relation name */
+  relations?: Record<string, number[]>;
+  created_on: string;
+  modified_on: string;
+  /** Raised by every change; sent as the `ETag` and checked against `If-Match` on PUT */
+  version: number;
+}
+
+export interface MockJob {
+  id: number;
+  type: string;
+  status: string;
+  created_on: string;
+  modified_on?: string;
+  /** Reason given for Failed and Cancelled jobs */
+  status_message?: string;
+}
+
+/**
+ * A status a scheduled job moves to once `afterMs` have passed since it was created
+ */
+export interface MockJobStep {
+  status: string;
+  afterMs: number;
+  message?: string;
+}
+
+export interface MockSelection {
+  id: number;
+  name: string;
+  query: string;
+  entities: number[];
+  created_on: string;
+}
+
+export interface MockOption {
+  key: string;
+  labels: Record<string, string>;
+}
+
+export interface MockOptionList {
+  id: number;
+  name: string;
+  options: MockOption[];
+}
+
+export interface MockMemberDefinition {
+  name: string;
+  type: string;
+  is_multilanguage: boolean;
+  is_required: boolean;
+  option_list?: string;
+  relation?: {
+    associated_definition: string;
+    cardinality: 'OneToMany' | 'ManyToMany';
+    role: 'Parent' | 'Child';
+  };
+}
+
+export interface MockCulture {
+  name: string;
+  is_default: boolean;
+}
+
+export interface MockEntityDefinition {
+  id: number;
+  name: string;
+  members: MockMemberDefinition[];
+}
+
+export interface MockUpload {
+  upload_identifier: string;
+  filename: string;
+  filesize: number;
+  content_type: string;
+  /** Pending while chunks arrive, Processing after finalize, then Completed or Failed */
+  status: string;
+  chunk_size: number;
+  chunks: Map<number, Buffer>;
+  asset_id?: number;
+  /** Job processing the upload once finalized */
+  job_id?: number;
+  /** Why the upload failed, shaped like the 400 body that rejected it */
+  failure?: { error: string; message: string };
+}
+
+/**
+ * The original file of an uploaded asset, kept for its renditions
+ */
+export interface MockFile {
+  filename: string;
+  content_type: string;
+  content: Buffer;
+}
+
+/**
+ * An anonymous URL to one rendition of an asset. Revoking keeps the link, so its URL can answer 410.
+ */
+export interface MockPublicLink {
+  id: number;
+  asset_id: number;
+  rendition: string;
+  token: string;
+  status: 'Active' | 'Revoked';
+  created_on: string;
+  expires_on?: string;
+  revoked_on?: string;
+}
+
+export type MockWebhookEventType = 'EntityCreated' | 'EntityUpdated' | 'EntityDeleted';
+
+/**
+ * An external URL called when entities change, like the API call action of a Content Hub trigger.
+ * The body is a `saveEntityMessage` as the instance sends it.
+ */
+export interface MockWebhook {
+  id: number;
+  url: string;
+  /** Event types delivered; every type when omitted */
+  events?: MockWebhookEventType[];
+  /** Only changes to entities of these definitions; every definition when omitted */
+  definitions?: string[];
+  /** Sign each body with HMAC-SHA256 under this secret, sent as `X-Signature-256: sha256=<hex>` */
+  secret?: string;
+  /** Sent with every callback, e.g. a shared-secret header */
+  headers?: Record<string, string>;
+}
+
+/**
+ * A callback made to a webhook, with the status its receiver answered or why it could not be sent
+ */
+export interface MockWebhookDelivery {
+  webhookId: number;
+  type: MockWebhookEventType;
+  entityId: number;
+  status?: number;
+  error?: string;
+  time: number;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  status: number;
+  time: number;
+}
+
+export interface MockState {
+  entities: Map<number, MockEntity>;
+  jobs: Map<number, MockJob>;
+  selections: Map<number, MockSelection>;
+  optionLists: Map<number, MockOptionList>;
+  entityDefinitions: Map<number, MockEntityDefinition>;
+  cultures: MockCulture[];
+  uploads: Map<string, MockUpload>;
+  /** Original files by the id of the asset their upload created */
+  files: Map<number, MockFile>;
+  publicLinks: Map<number, MockPublicLink>;
+  /** Open scroll cursors: the matching entity ids at the time the scroll started */
+  scrolls: Map<string, { ids: number[]; position: number }>;
+  /** Access tokens and the user they were issued to; client_credentials tokens have none */
+  tokens: Map<string, { expiresAt: number; username?: string }>;
+  refreshTokens: Set<string>;
+  /** Restricted users by username; the `credentials` user may call everything */
+  users: Map<string, MockUser>;
+  webhooks: Map<number, MockWebhook>;
+  /** Callbacks made to webhooks, in the order they were answered */
+  deliveries: MockWebhookDelivery[];
+  /** Every request answered by the server, in arrival order */
+  requests: MockRequestRecord[];
+  nextId: number;
+}
+
+export interface MockServer {
+  url: string;
+  state: MockState;
+  injectFault(fault: MockFault): void;
+  clearFaults(): void;
+  /** Delay matching requests until `reset()`, on top of the `latency` option */
+  injectLatency(latency: MockLatency): void;
+  /** Invalidate access and refresh tokens; revokes every token when called without arguments */
+  revokeTokens(...tokens: string[]): void;
+  /**
+   * Start a job that moves through `steps` as time passes; `onStatus` runs for each status reached
+   */
+  scheduleJob(type: string, steps: MockJobStep[], onStatus?: (job: MockJob) => void): MockJob;
+  /** Call `url` whenever a matching entity is created, updated or deleted, until `reset()` */
+  addWebhook(webhook: Omit<MockWebhook, 'id'>): MockWebhook;
+  removeWebhook(id: number): void;
+  /** Resolves once every callback made so far has been answered */
+  flushWebhooks(): Promise<void>;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface MockJobRun {
+  startedAt: number;
+  steps: MockJobStep[];
+  onStatus?: (job: MockJob) => void;
+}
+
+const TERMINAL_JOB_STATUSES = ['Completed', 'Failed', 'Cancelled'];
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  rawBody: string;
+  body: Buffer;
+  params: string[];
+  /** Restricted user the access token was issued to */
+  user?: MockUser;
+}
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Sent as is instead of a JSON body; its Content-Type goes in `headers` */
+  raw?: Buffer;
+}
+
+type RouteHandler = (req: MockRequest) => MockResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  /** Routes that do not require an X-Auth-Token */
+  anonymous?: boolean;
+}
+
+const DEFAULT_CREDENTIALS: MockCredentials = {
+  clientId: 'mock-client-id',
+  clientSecret: 'mock-client-secret',
+  username: 'mock-user',
+  password: 'mock-password'
+};
+
+const DEFAULT_USERS: MockUser[] = [
+  {
+    username: 'mock-editor',
+    password: 'mock-editor-password',
+    permissions: ['*:read', 'entities:create', 'entities:update', 'publiclinks:*', 'selections:*', 'upload:*']
+  },
+  {
+    username: 'mock-reader',
+    password: 'mock-reader-password',
+    permissions: ['*:read'],
+    hiddenDefinitions: ['M.Content']
+  }
+];
+
+/** POSTs that only read: queries, searches and scrolls */
+const READING_POSTS = /^\/api\/entities\/(query|scroll)$/;
+
+const DEFAULT_RATE_LIMIT: MockRateLimit = { limit: 13, windowMs: 1000 };
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 1000;
+/** Longest value String members take; Text members are unbounded */
+const MAX_STRING_LENGTH = 4000;
+
+class BadRequest extends Error {
+  constructor(message: string, readonly code = 'bad_request') {
+    super(message);
+  }
+}
+
+/**
+ * Leading bytes of the content types the upload finalize step recognises
+ */
+const FILE_SIGNATURES: Record<string, number[]> = {
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/gif': [0x47, 0x49, 0x46, 0x38],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46]
+};
+
+/**
+ * Content type recognised from the file's leading bytes, if any
+ */
+function sniffContentType(content: Buffer): string | undefined {
+  return Object.keys(FILE_SIGNATURES).find(type =>
+    FILE_SIGNATURES[type].every((byte, index) => content[index] === byte)
+  );
+}
+
+/** 1×1 PNG standing in for the thumbnail generated for every uploaded file */
+const THUMBNAIL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+/**
+ * Renditions of an uploaded asset by name: the original file and a thumbnail
+ */
+function renditionFiles(file: MockFile): Record<string, MockFile> {
+  return {
+    downloadOriginal: file,
+    thumbnail: {
+      filename: `${file.filename.replace(/\.[^.]*$/, '')}-thumbnail.png`,
+      content_type: 'image/png',
+      content: THUMBNAIL_PNG
+    }
+  };
+}
+
+function uploadProgress(upload: MockUpload) {
+  return {
+    upload_identifier: upload.upload_identifier,
+    status: upload.status,
+    filesize: upload.filesize,
+    received_bytes: [...upload.chunks.values()].reduce((total, chunk) => total + chunk.length, 0),
+    received_chunks: [...upload.chunks.keys()].sort((a, b) => a - b),
+    upload_configuration: uploadConfiguration(upload),
+    ...(upload.job_id !== undefined && { job_id: upload.job_id }),
+    ...(upload.asset_id !== undefined && { asset_id: upload.asset_id }),
+    ...(upload.failure && { failure: upload.failure })
+  };
+}
+
+function uploadConfiguration(upload: MockUpload) {
+  return {
+    name: 'AssetUploadConfiguration',
+    parameters: {
+      chunk_size: upload.chunk_size,
+      chunk_url: `/api/upload/${upload.upload_identifier}/chunks`,
+      finalize_url: '/api/upload/finalize'
+    }
+  };
+}
+
+function json(status: number, body?: unknown, headers?: Record<string, string>): MockResponse {
+  return { status, body, headers };
+}
+
+function notFound(what: string): MockResponse {
+  return json(404, { error: 'not_found', message: `${what} not found` });
+}
+
+function entityTag({ version }: MockEntity): Record<string, string> {
+  return { ETag: `"${version}"` };
+}
+
+/**
+ * 412 when `If-Match` names none of the entity's current tag, 409 when the body's `version` is
+ * not the current one; undefined when the update may go ahead. `If-Match` compares strongly
+ * (RFC 9110), so a weak tag such as `W/"2"` never matches.
+ */
+function versionConflict(entity: MockEntity, ifMatch: string | undefined, version: unknown): MockResponse | undefined {
+  const current = `"${entity.version}"`;
+  const conflict = (status: number, expected: string) =>
+    json(status, {
+      error: 'version_conflict',
+      message: `Entity ${entity.id} is at version ${entity.version}, not ${expected}`,
+      current_version: entity.version
+    });
+  if (ifMatch !== undefined && ifMatch.trim() !== '*') {
+    const tags = ifMatch.split(',').map(tag => tag.trim());
+    if (!tags.includes(current)) {
+      return conflict(412, ifMatch);
+    }
+  }
+  if (version !== undefined && version !== entity.version) {
+    return conflict(409, String(version));
+  }
+  return undefined;
+}
+
+function parseJsonBody(req: MockRequest): Record<string, unknown> {
+  if (!req.rawBody) {
+    return {};
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(req.rawBody);
+  } catch {
+    throw new BadRequest('Request body is not valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new BadRequest('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+interface FieldTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+}
+
+/**
+ * Field `name` of a JSON body, undefined when absent or null; BadRequest when it has another type
+ */
+function optionalField<T extends keyof FieldTypes>(body: Record<string, unknown>, name: string, type: T): FieldTypes[T] | undefined {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== type) {
+    throw new BadRequest(`Field '${name}' must be a ${type}`);
+  }
+  return value as FieldTypes[T];
+}
+
+/**
+ * The `sort` field of a query body: a list of `{ field, direction }`
+ */
+function parseSort(sort: unknown): { field: string; direction?: string }[] | undefined {
+  if (sort === undefined || sort === null) {
+    return undefined;
+  }
+  if (!Array.isArray(sort) || !sort.every(entry => typeof entry?.field === 'string')) {
+    throw new BadRequest("Field 'sort' must list { field, direction } entries");
+  }
+  return sort;
+}
+
+/**
+ * A list of entity ids in field `name` of a JSON body
+ */
+function parseIds(body: Record<string, unknown>, name: string): number[] | undefined {
+  const ids = body[name];
+  if (ids === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(ids) || !ids.every(Number.isInteger)) {
+    throw new BadRequest(`Field '${name}' must be a list of entity ids`);
+  }
+  return ids;
+}
+
+function parsePaging(query: URLSearchParams | Record<string, unknown>): { take: number; skip: number } {
+  const read = (name: string) =>
+    query instanceof URLSearchParams ? query.get(name) : query[name] === undefined ? null : String(query[name]);
+
+  const parse = (name: string, fallback: number) => {
+    const raw = read(name);
+    if (raw === null || raw === '') {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new BadRequest(`Parameter '${name}' must be a non-negative integer`);
+    }
+    return value;
+  };
+
+  return {
+    take: Math.min(parse('take', DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+    skip: parse('skip', 0)
+  };
+}
+
+function page<T>(items: T[], paging: { take: number; skip: number }) {
+  return {
+    items: items.slice(paging.skip, paging.skip + paging.take),
+    total_items: items.length
+  };
+}
+
+type QueryRange = { min?: string; max?: string; minInclusive: boolean; maxInclusive: boolean };
+
+interface QueryClause {
+  field: string;
+  /** `:` matches text by substring and ids exactly, `==` matches exactly */
+  operator: ':' | '==';
+  value: { text: string; quoted: boolean } | QueryRange;
+}
+
+type QueryNode = QueryClause | { all: true } | { op: 'AND' | 'OR'; nodes: QueryNode[] };
+
+/**
+ * Parses the subset of Content Hub query syntax the suite uses: `*`, `Field:"text"`, `Field==value`,
+ * ranges such as `Field:[1 TO 5}` (`*` for an open bound), and clauses joined by AND / OR with
+ * parentheses. Fields are `Definition.Name`, `Identifier`, `id`, `CreatedOn`, `ModifiedOn`,
+ * `Relation.<name>` and `Prop` or `Prop.culture`.
+ */
+function parseQuery(query: string): QueryNode {
+  let position = 0;
+  const invalid = (reason: string) =>
+    new BadRequest(`Invalid query at position ${position}: ${reason}`, 'invalid_query');
+  const skipSpace = () => {
+    while (/\s/.test(query[position] ?? '')) position++;
+  };
+  const readQuoted = (): string => {
+    let text = '';
+    position++;
+    while (position < query.length && query[position] !== '"') {
+      if (query[position] === '\\') position++;
+      text += query[position++] ?? '';
+    }
+    if (query[position] !== '"') throw invalid('unterminated string');
+    position++;
+    return text;
+  };
+  const readBare = (): string => {
+    const match = /^[^\s()[\]{}"]+/.exec(query.slice(position));
+    if (!match) throw invalid('expected a value');
+    position += match[0].length;
+    return match[0];
+  };
+  const readBound = (): string | undefined => {
+    skipSpace();
+    const quoted = query[position] === '"';
+    const bound = quoted ? readQuoted() : readBare();
+    return !quoted && bound === '*' ? undefined : bound;
+  };
+  const keyword = (word: string): boolean => {
+    skipSpace();
+    const match = new RegExp(`^${word}(?=[\\s(])`, 'i').exec(query.slice(position));
+    if (match) position += word.length;
+    return !!match;
+  };
+
+  const parseClause = (): QueryNode => {
+    skipSpace();
+    if (query[position] === '(') {
+      position++;
+      const node = parseOr();
+      skipSpace();
+      if (query[position] !== ')') throw invalid("expected ')'");
+      position++;
+      return node;
+    }
+    if (query[position] === '*') {
+      position++;
+      return { all: true };
+    }
+    const field = /^[\w.-]+/.exec(query.slice(position))?.[0];
+    if (!field) throw invalid('expected a field');
+    position += field.length;
+
+    const operator = query.startsWith('==', position) ? '==' : query[position] === ':' ? ':' : undefined;
+    if (!operator) throw invalid(`expected ':' or '==' after '${field}'`);
+    position += operator.length;
+
+    const opening = query[position];
+    if (opening === '[' || opening === '{') {
+      position++;
+      const min = readBound();
+      if (!keyword('TO')) throw invalid("expected 'TO' in range");
+      const max = readBound();
+      skipSpace();
+      const closing = query[position++];
+      if (closing !== ']' && closing !== '}') throw invalid("expected ']' or '}'");
+      return { field, operator, value: { min, max, minInclusive: opening === '[', maxInclusive: closing === ']' } };
+    }
+    const quoted = opening === '"';
+    return { field, operator, value: { text: quoted ? readQuoted() : readBare(), quoted } };
+  };
+  const parseJoined = (op: 'AND' | 'OR', parseOperand: () => QueryNode) => (): QueryNode => {
+    const nodes = [parseOperand()];
+    while (keyword(op)) nodes.push(parseOperand());
+    return nodes.length === 1 ? nodes[0] : { op, nodes };
+  };
+  const parseAnd = parseJoined('AND', parseClause);
+  const parseOr = parseJoined('OR', parseAnd);
+
+  const root = parseOr();
+  skipSpace();
+  if (position < query.length) throw invalid(`unexpected '${query[position]}'`);
+  return root;
+}
+
+const SYSTEM_FIELDS = ['Definition.Name', 'Identifier', 'id', 'CreatedOn', 'ModifiedOn'];
+
+function fieldValues(entity: MockEntity, field: string): unknown[] {
+  switch (field) {
+    case 'Definition.Name':
+      return [entity.definition];
+    case 'Identifier':
+      return [entity.identifier];
+    case 'id':
+      return [entity.id];
+    case 'CreatedOn':
+      return [entity.created_on];
+    case 'ModifiedOn':
+      return [entity.modified_on];
+  }
+  if (field.startsWith('Relation.')) {
+    return entity.relations?.[field.slice('Relation.'.length)] ?? [];
+  }
+  const [property, culture] = field.split(/\.(.*)/s, 2);
+  const values = entity.properties[property] ?? [];
+  return values.filter(entry => !culture || entry.culture === culture).map(entry => entry.value);
+}
+
+function compareQueryValues(value: unknown, bound: string): number {
+  const numeric = Number(bound);
+  if (typeof value === 'number' && bound.trim() !== '' && !Number.isNaN(numeric)) {
+    return value - numeric;
+  }
+  const text = String(value);
+  return text < bound ? -1 : text > bound ? 1 : 0;
+}
+
+function matchesClause(entity: MockEntity, { field, operator, value }: QueryClause): boolean {
+  return fieldValues(entity, field).some(fieldValue => {
+    if (fieldValue === null || fieldValue === undefined) {
+      return false;
+    }
+    if ('text' in value) {
+      // Only quoted property values match as free text; system fields and relations match exactly
+      const isProperty = !SYSTEM_FIELDS.includes(field) && !field.startsWith('Relation.');
+      const exact = operator === '==' || !value.quoted || !isProperty;
+      const text = String(fieldValue);
+      return exact ? text === value.text : text.toLowerCase().includes(value.text.toLowerCase());
+    }
+    const { min, max, minInclusive, maxInclusive } = value;
+    const fromMin = min === undefined ? 1 : compareQueryValues(fieldValue, min);
+    const toMax = max === undefined ? -1 : compareQueryValues(fieldValue, max);
+    return (minInclusive ? fromMin >= 0 : fromMin > 0) && (maxInclusive ? toMax <= 0 : toMax < 0);
+  });
+}
+
+function evaluateQuery(entity: MockEntity, node: QueryNode): boolean {
+  if ('all' in node) {
+    return true;
+  }
+  if ('op' in node) {
+    return node.op === 'AND'
+      ? node.nodes.every(child => evaluateQuery(entity, child))
+      : node.nodes.some(child => evaluateQuery(entity, child));
+  }
+  return matchesClause(entity, node);
+}
+
+/**
+ * Predicate for the entities a query matches. Throws BadRequest (`invalid_query`) for syntax the mock does not understand.
+ */
+function compileQuery(query: string | null | undefined): (entity: MockEntity) => boolean {
+  if (!query || query.trim() === '*') {
+    return () => true;
+  }
+  const root = parseQuery(query);
+  return entity => evaluateQuery(entity, root);
+}
+
+function matchesText(entity: MockEntity, text: string | null): boolean {
+  if (!text) {
+    return true;
+  }
+  const needle = text.toLowerCase();
+  if (entity.identifier.toLowerCase().includes(needle)) {
+    return true;
+  }
+  return Object.values(entity.properties).some(values =>
+    values.some(entry => String(entry.value ?? '').toLowerCase().includes(needle))
+  );
+}
+
+function sortEntities(entities: MockEntity[], sort?: { field: string; direction?: string }[]): MockEntity[] {
+  if (!sort || sort.length === 0) {
+    return entities;
+  }
+  // Fields as in queries, e.g. `Title.en-US` for the value in one culture or `Definition.Name`
+  const fieldValue = (entity: MockEntity, field: string): string | number => {
+    const [value] = fieldValues(entity, field);
+    return typeof value === 'number' ? value : String(value ?? '');
+  };
+  return [...entities].sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const left = fieldValue(a, field);
+      const right = fieldValue(b, field);
+      if (left !== right) {
+        const order = left < right ? -1 : 1;
+        return direction?.toLowerCase() === 'desc' ? -order : order;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Permission a request needs, as `<area>:<action>` (see MockUser)
+ */
+function requiredPermission({ method, path }: MockRequest): string {
+  const [, , area, id, ...rest] = path.split('/');
+  if (method === 'GET' || (method === 'POST' && READING_POSTS.test(path))) {
+    return `${area}:read`;
+  }
+  if (method === 'PUT' || (id !== undefined && (rest.length > 0 || !/^\d+$/.test(id)))) {
+    return `${area}:update`;
+  }
+  return `${area}:${method === 'POST' ? 'create' : 'delete'}`;
+}
+
+function isPermitted(user: MockUser, permission: string): boolean {
+  const [area, action] = permission.split(':');
+  return user.permissions.some(granted => {
+    const [grantedArea, grantedAction = '*'] = granted.split(':');
+    return (grantedArea === '*' || grantedArea === area) && (grantedAction === '*' || grantedAction === action);
+  });
+}
+
+function createInitialState(users: MockUser[]): MockState {
+  const now = new Date().toISOString();
+  const state: MockState = {
+    entities: new Map(),
+    jobs: new Map(),
+    selections: new Map(),
+    optionLists: new Map(),
+    entityDefinitions: new Map(),
+    cultures: [
+      { name: 'en-US', is_default: true },
+      { name: 'fr-FR', is_default: false },
+      { name: 'de-DE', is_default: false }
+    ],
+    uploads: new Map(),
+    files: new Map(),
+    publicLinks: new Map(),
+    scrolls: new Map(),
+    tokens: new Map(),
+    refreshTokens: new Set(),
+    webhooks: new Map(),
+    deliveries: [],
+    users: new Map(users.map(user => [user.username, { ...user, permissions: [...user.permissions] }])),
+    requests: [],
+    nextId: 1000
+  };
+
+  const definitions: MockEntityDefinition[] = [
+    {
+      id: 1,
+      name: 'M.Asset',
+      members: [
+        { name: 'Title', type: 'String', is_multilanguage: true, is_required: false },
+        { name: 'Description', type: 'String', is_multilanguage: true, is_required: false },
+        { name: 'FileName', type: 'String', is_multilanguage: false, is_required: false },
+        { name: 'FileSize', type: 'Long', is_multilanguage: false, is_required: false },
+        { name: 'MimeType', type: 'String', is_multilanguage: false, is_required: false },
+        { name: 'Status', type: 'Option', is_multilanguage: false, is_required: false, option_list: 'M.AssetStatus' },
+        {
+          name: 'AssetToCollection',
+          type: 'Relation',
+          is_multilanguage: false,
+          is_required: false,
+          relation: { associated_definition: 'M.Collection', cardinality: 'ManyToMany', role: 'Child' }
+        },
+        {
+          name: 'ContentToAsset',
+          type: 'Relation',
+          is_multilanguage: false,
+          is_required: false,
+          relation: { associated_definition: 'M.Content', cardinality: 'OneToMany', role: 'Child' }
+        }
+      ]
+    },
+    {
+      id: 2,
+      name: 'M.Content',
+      members: [
+        { name: 'Title', type: 'String', is_multilanguage: true, is_required: false },
+        { name: 'Description', type: 'String', is_multilanguage: true, is_required: false },
+        {
+          name: 'ContentToAsset',
+          type: 'Relation',
+          is_multilanguage: false,
+          is_required: false,
+          relation: { associated_definition: 'M.Asset', cardinality: 'OneToMany', role: 'Parent' }
+        }
+      ]
+    },
+    {
+      id: 3,
+      name: 'M.Collection',
+      members: [
+        { name: 'Title', type: 'String', is_multilanguage: true, is_required: false },
+        {
+          name: 'AssetToCollection',
+          type: 'Relation',
+          is_multilanguage: false,
+          is_required: false,
+          relation: { associated_definition: 'M.Asset', cardinality: 'ManyToMany', role: 'Parent' }
+        }
+      ]
+    }
+  ];
+  definitions.forEach(definition => state.entityDefinitions.set(definition.id, definition));
+
+  for (let i = 1; i <= 3; i++) {
+    const id = state.nextId++;
+    state.entities.set(id, {
+      id,
+      identifier: `seed-asset-${i}`,
+      definition: 'M.Asset',
+      properties: {
+        Title: [{ culture: 'en-US', value: `Seed content asset ${i}` }],
+        FileName: [{ culture: null, value: `seed-${i}.jpg` }]
+      },
+      created_on: now,
+      modified_on: now,
+      version: 1
+    });
+  }
+
+  [
+    { id: 9001, type: 'Processing', status: 'Completed' },
+    { id: 9002, type: 'Processing', status: 'Failed' },
+    { id: 9003, type: 'Processing', status: 'Running' },
+    { id: 9004, type: 'Import', status: 'Completed' }
+  ].forEach(job => state.jobs.set(job.id, { ...job, created_on: now }));
+
+  state.optionLists.set(501, {
+    id: 501,
+    name: 'M.AssetStatus',
+    options: [
+      { key: 'approved', labels: { 'en-US': 'Approved' } },
+      { key: 'rejected', labels: { 'en-US': 'Rejected' } }
+    ]
+  });
+
+  return state;
+}
+
+/**
+ * Start a mock Content Hub server. Use port 0 for an ephemeral port.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const credentials: MockCredentials = { ...DEFAULT_CREDENTIALS };
+  Object.entries(options.credentials ?? {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      credentials[key as keyof MockCredentials] = value;
+    }
+  });
+  const rateLimit = options.rateLimit === undefined ? DEFAULT_RATE_LIMIT : options.rateLimit;
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  const uploadChunkSize = options.uploadChunkSize ?? 1024 * 1024;
+  const jobDurationMs = options.jobDurationMs ?? 100;
+  const maxResultWindow = options.maxResultWindow ?? 10000;
+  const host = options.host ?? '127.0.0.1';
+
+  const users = options.users ?? DEFAULT_USERS;
+
+  let state = createInitialState(users);
+  let faults: MockFault[] = [];
+  let latencies: MockLatency[] = [...(options.latency ?? [])];
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const jobRuns = new Map<number, MockJobRun>();
+  /** User each outstanding refresh token was issued to */
+  const refreshTokenUsers = new Map<string, string>();
+  /** Callbacks go out one after another, so receivers see changes in the order they happened */
+  let deliveries: Promise<void> = Promise.resolve();
+
+  const nextId = () => state.nextId++;
+  const findEntity = (req: MockRequest) => state.entities.get(Number(req.params[0]));
+
+  /** Entities a listing may show the caller: all but those of definitions hidden from its user */
+  const visibleEntities = (req: MockRequest) =>
+    [...state.entities.values()].filter(entity => !req.user?.hiddenDefinitions?.includes(entity.definition));
+
+  const definitionMembers = (definition: string) =>
+    [...state.entityDefinitions.values()].find(candidate => candidate.name === definition)?.members ?? [];
+
+  const relationMember = (definition: string, name: string) =>
+    definitionMembers(definition).find(member => member.name === name && member.relation);
+
+  const singleValued = ({ cardinality, role }: NonNullable<MockMemberDefinition['relation']>) =>
+    cardinality === 'OneToMany' && role === 'Child';
+
+  /**
+   * Related entity ids by relation name, checked against the relation members of `definition`
+   */
+  const parseRelations = (definition: string, relations: unknown): Record<string, number[]> => {
+    if (typeof relations !== 'object' || relations === null || Array.isArray(relations)) {
+      throw new BadRequest("Field 'relations' must map relation names to entity ids");
+    }
+    for (const [name, ids] of Object.entries(relations)) {
+      const relation = relationMember(definition, name)?.relation;
+      if (!relation) {
+        throw new BadRequest(`${definition} has no relation '${name}'`, 'invalid_relation');
+      }
+      if (!Array.isArray(ids) || !ids.every(id => state.entities.get(id)?.definition === relation.associated_definition)) {
+        throw new BadRequest(`Relation '${name}' must list ids of existing ${relation.associated_definition} entities`, 'invalid_relation');
+      }
+      if (singleValued(relation) && ids.length > 1) {
+        throw new BadRequest(
+          `Relation '${name}' links a ${definition} to at most one ${relation.associated_definition}`,
+          'relation_cardinality'
+        );
+      }
+    }
+    return relations as Record<string, number[]>;
+  };
+
+  const unlink = (entity: MockEntity | undefined, name: string, id: number) => {
+    if (entity?.relations?.[name]?.includes(id)) {
+      entity.relations[name] = entity.relations[name].filter(other => other !== id);
+      entity.version++;
+    }
+  };
+
+  /**
+   * Set the `name` relation of `entity` and keep the other side of every link in step. A child
+   * on the single side of a one-to-many relation moves away from its previous parent. Entities
+   * linked or unlinked on the other side change version too, so guarded writes there see it.
+   */
+  const relate = (entity: MockEntity, name: string, ids: number[]) => {
+    const previous = entity.relations?.[name] ?? [];
+    previous.filter(id => !ids.includes(id)).forEach(id => unlink(state.entities.get(id), name, entity.id));
+    for (const id of ids.filter(id => !previous.includes(id))) {
+      const other = state.entities.get(id)!;
+      const otherRelation = relationMember(other.definition, name)!.relation!;
+      if (singleValued(otherRelation)) {
+        (other.relations?.[name] ?? []).forEach(parentId => unlink(state.entities.get(parentId), name, id));
+        other.relations = { ...other.relations, [name]: [entity.id] };
+      } else {
+        other.relations = { ...other.relations, [name]: [...(other.relations?.[name] ?? []), entity.id] };
+      }
+      other.version++;
+    }
+    entity.relations = { ...entity.relations, [name]: [...new Set(ids)] };
+  };
+
+  const entityRelation = (entity: MockEntity, member: MockMemberDefinition) => ({
+    name: member.name,
+    ...member.relation!,
+    related: entity.relations?.[member.name] ?? []
+  });
+
+  /**
+   * A culture the instance holds, or undefined when none is asked for
+   */
+  const parseCulture = (culture: unknown): string | undefined => {
+    if (culture === undefined || culture === null || culture === '') {
+      return undefined;
+    }
+    if (!state.cultures.some(({ name }) => name === culture)) {
+      throw new BadRequest(`Culture '${culture}' is not one of the instance's cultures`, 'unknown_culture');
+    }
+    return culture as string;
+  };
+
+  /**
+   * Reject a value of the wrong type for `member`, a String over MAX_STRING_LENGTH or an option key
+   * its option list does not hold
+   */
+  const checkValue = (definition: string, member: MockMemberDefinition, value: unknown) => {
+    const invalid = (expected: string) =>
+      new BadRequest(`Member '${member.name}' of ${definition} takes ${expected}, got ${JSON.stringify(value)}`, 'invalid_value');
+    switch (member.type) {
+      case 'String':
+      case 'Text':
+        if (typeof value !== 'string') {
+          throw invalid('a string');
+        }
+        if (member.type === 'String' && value.length > MAX_STRING_LENGTH) {
+          throw new BadRequest(
+            `Member '${member.name}' of ${definition} takes at most ${MAX_STRING_LENGTH} characters, got ${value.length}`,
+            'value_too_long'
+          );
+        }
+        return;
+      case 'Integer':
+      case 'Long':
+        if (!Number.isInteger(value)) {
+          throw invalid('an integer');
+        }
+        return;
+      case 'Decimal':
+      case 'Double':
+        if (typeof value !== 'number') {
+          throw invalid('a number');
+        }
+        return;
+      case 'Boolean':
+        if (typeof value !== 'boolean') {
+          throw invalid('true or false');
+        }
+        return;
+      case 'DateTime':
+      case 'DateTimeOffset':
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          throw invalid('an ISO 8601 date-time');
+        }
+        return;
+      case 'Option': {
+        if (typeof value !== 'string') {
+          throw invalid('an option key');
+        }
+        const list = [...state.optionLists.values()].find(({ name }) => name === member.option_list);
+        if (list && !list.options.some(({ key }) => key === value)) {
+          throw new BadRequest(`'${value}' is not a key of option list ${list.name}`, 'invalid_option');
+        }
+      }
+    }
+  };
+
+  /**
+   * Reject property values the members of `definition` do not allow: anything but lists of
+   * `{ culture, value }` entries, cultures on members that are not multilanguage or that the
+   * instance does not hold, and values `checkValue` refuses. Values of unknown members are kept as sent.
+   */
+  const checkProperties = (definition: string, properties: unknown): MockProperties => {
+    if (properties === undefined) {
+      return {};
+    }
+    if (typeof properties !== 'object' || properties === null || Array.isArray(properties)) {
+      throw new BadRequest("Field 'properties' must map member names to lists of values", 'invalid_property');
+    }
+    const members = definitionMembers(definition);
+    for (const [name, values] of Object.entries(properties)) {
+      if (!Array.isArray(values) || values.some(entry => typeof entry !== 'object' || entry === null || Array.isArray(entry))) {
+        throw new BadRequest(`Property '${name}' must be a list of { culture, value } entries`, 'invalid_property');
+      }
+      const member = members.find(candidate => candidate.name === name);
+      for (const { culture, value } of values) {
+        if (culture !== null && culture !== undefined) {
+          if (member && !member.is_multilanguage) {
+            throw new BadRequest(`Member '${name}' of ${definition} is not culture sensitive; its values take culture null`, 'invalid_culture');
+          }
+          parseCulture(culture);
+        }
+        if (member && value !== null && value !== undefined) {
+          checkValue(definition, member, value);
+        }
+      }
+    }
+    return properties as MockProperties;
+  };
+
+  /**
+   * Reject an entity without a value for each required member of its definition
+   */
+  const checkRequired = ({ definition, properties }: Pick<MockEntity, 'definition' | 'properties'>) => {
+    const missing = definitionMembers(definition).filter(
+      member =>
+        member.is_required &&
+        !member.relation &&
+        !(properties[member.name] ?? []).some((entry: { value: unknown }) => entry.value !== null && entry.value !== undefined)
+    );
+    if (missing.length > 0) {
+      throw new BadRequest(
+        `Required members of ${definition} have no value: ${missing.map(({ name }) => name).join(', ')}`,
+        'missing_required'
+      );
+    }
+  };
+
+  /**
+   * `entity` with its multilanguage values narrowed to `culture`, or to the default culture's
+   * value where `culture` has none. Without a culture every value is returned.
+   */
+  const localize = (entity: MockEntity, culture: string | undefined): MockEntity => {
+    if (!culture) {
+      return entity;
+    }
+    const fallback = state.cultures.find(({ is_default }) => is_default)?.name;
+    const members = definitionMembers(entity.definition);
+    const properties = Object.fromEntries(
+      Object.entries(entity.properties).map(([name, values]) => {
+        if (!members.find(member => member.name === name)?.is_multilanguage || !Array.isArray(values)) {
+          return [name, values];
+        }
+        const translated = values.filter(entry => entry.culture === culture);
+        return [name, translated.length > 0 ? translated : values.filter(entry => entry.culture === fallback)];
+      })
+    );
+    return { ...entity, properties };
+  };
+
+  const pageEntities = (entities: MockEntity[], paging: { take: number; skip: number }) => {
+    if (paging.skip + paging.take > maxResultWindow) {
+      throw new BadRequest(
+        `skip + take may not exceed ${maxResultWindow}; use /api/entities/scroll for deeper result sets`,
+        'result_window_exceeded'
+      );
+    }
+    return page(entities, paging);
+  };
+
+  /**
+   * Values of `entity` that differ from `previous`, per member and culture; every value for a new entity
+   */
+  const propertyChanges = (entity: MockEntity, previous?: MockEntity) =>
+    Object.entries(entity.properties).flatMap(([property, values]) =>
+      (Array.isArray(values) ? values : [])
+        .map(({ culture = null, value }) => ({
+          Property: property,
+          Culture: culture,
+          OriginalValue: previous?.properties[property]?.find(entry => (entry.culture ?? null) === culture)?.value ?? null,
+          NewValue: value
+        }))
+        .filter(change => JSON.stringify(change.OriginalValue) !== JSON.stringify(change.NewValue))
+    );
+
+  const deliver = async (webhook: MockWebhook, type: MockWebhookEventType, entityId: number, body: string) => {
+    const headers: Record<string, string> = { ...webhook.headers, 'Content-Type': 'application/json' };
+    if (webhook.secret) {
+      headers['X-Signature-256'] = `sha256=${createHmac('sha256', webhook.secret).update(body).digest('hex')}`;
+    }
+    const delivery: MockWebhookDelivery = { webhookId: webhook.id, type, entityId, time: Date.now() };
+    try {
+      const response = await fetch(webhook.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(5000) });
+      delivery.status = response.status;
+    } catch (error) {
+      delivery.error = (error as Error).message;
+    }
+    state.deliveries.push(delivery);
+  };
+
+  /**
+   * Send a `saveEntityMessage` for the change to every webhook subscribed to it
+   */
+  const notify = (type: MockWebhookEventType, entity: MockEntity, previous?: MockEntity) => {
+    const webhooks = [...state.webhooks.values()].filter(
+      webhook =>
+        (!webhook.events || webhook.events.includes(type)) &&
+        (!webhook.definitions || webhook.definitions.includes(entity.definition))
+    );
+    if (webhooks.length === 0) {
+      return;
+    }
+    const changes = type === 'EntityDeleted' ? [] : propertyChanges(entity, previous);
+    const body = JSON.stringify({
+      saveEntityMessage: {
+        EventType: type,
+        TimeStamp: new Date().toISOString(),
+        IsNew: type === 'EntityCreated',
+        TargetDefinition: entity.definition,
+        TargetId: entity.id,
+        TargetIdentifier: entity.identifier,
+        ChangeSet: {
+          PropertyChanges: changes,
+          Cultures: [...new Set(changes.map(({ Culture }) => Culture).filter(culture => culture !== null))],
+          RelationChanges: []
+        }
+      },
+      context: {}
+    });
+    const current = state;
+    deliveries = deliveries.then(async () => {
+      for (const webhook of webhooks) {
+        // Callbacks still queued when the server is reset are dropped with the rest of its state
+        if (state === current) {
+          await deliver(webhook, type, entity.id, body);
+        }
+      }
+    });
+  };
+
+  /**
+   * Create the asset for a processed upload the way the real pipeline does
+   */
+  const completeUpload = (upload: MockUpload) => {
+    const now = new Date().toISOString();
+    const asset: MockEntity = {
+      id: nextId(),
+      identifier: `asset-${upload.upload_identifier}`,
+      definition: 'M.Asset',
+      properties: {
+        Title: [{ culture: 'en-US', value: upload.filename }],
+        FileName: [{ culture: null, value: upload.filename }],
+        FileSize: [{ culture: null, value: upload.filesize }],
+        MimeType: [{ culture: null, value: upload.content_type }]
+      },
+      created_on: now,
+      modified_on: now,
+      version: 1
+    };
+    state.entities.set(asset.id, asset);
+    const indexes = [...upload.chunks.keys()].sort((a, b) => a - b);
+    state.files.set(asset.id, {
+      filename: upload.filename,
+      content_type: upload.content_type,
+      content: Buffer.concat(indexes.map(index => upload.chunks.get(index)!))
+    });
+    notify('EntityCreated', asset);
+    upload.asset_id = asset.id;
+    upload.status = 'Completed';
+  };
+
+  const scheduleJob = (type: string, steps: MockJobStep[], onStatus?: (job: MockJob) => void): MockJob => {
+    const now = new Date().toISOString();
+    const job: MockJob = { id: nextId(), type, status: 'Pending', created_on: now, modified_on: now };
+    state.jobs.set(job.id, job);
+    jobRuns.set(job.id, { startedAt: Date.now(), steps: [...steps].sort((a, b) => a.afterMs - b.afterMs), onStatus });
+    return job;
+  };
+
+  /**
+   * Pending, Running halfway through `jobDurationMs`, then the outcome
+   */
+  const defaultSteps = (outcome: MockJobStep = { status: 'Completed', afterMs: jobDurationMs }): MockJobStep[] => [
+    { status: 'Running', afterMs: jobDurationMs / 2 },
+    outcome
+  ];
+
+  /**
+   * Apply the steps whose time has come; jobs only move when they are looked at
+   */
+  const advanceJob = (job: MockJob): MockJob => {
+    const run = jobRuns.get(job.id);
+    while (run && run.steps.length > 0 && Date.now() - run.startedAt >= run.steps[0].afterMs) {
+      const step = run.steps.shift()!;
+      job.status = step.status;
+      job.status_message = step.message;
+      job.modified_on = new Date().toISOString();
+      run.onStatus?.(job);
+      if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+        jobRuns.delete(job.id);
+      }
+    }
+    return job;
+  };
+
+  /** Scheme and host the request was sent to, for absolute URLs in responses */
+  const origin = (req: MockRequest) => `http://${req.headers.host}`;
+
+  const download = ({ filename, content_type, content }: MockFile): MockResponse => ({
+    status: 200,
+    headers: { 'Content-Type': content_type, 'Content-Disposition': `attachment; filename="${filename}"` },
+    raw: content
+  });
+
+  const publicLink = (req: MockRequest, { token, ...link }: MockPublicLink) => ({
+    ...link,
+    url: `${origin(req)}/api/public/content/${token}`
+  });
+
+  const routes: Route[] = [
+    {
+      method: 'POST',
+      pattern: /^\/api\/oauth\/token$/,
+      anonymous: true,
+      handler: req => {
+        const form = new URLSearchParams(req.rawBody);
+        const validClient =
+          form.get('client_id') === credentials.clientId &&
+          form.get('client_secret') === credentials.clientSecret;
+        if (!validClient) {
+          return json(400, { error: 'invalid_client', error_description: 'Invalid client credentials' });
+        }
+
+        const grantType = form.get('grant_type');
+        let issueRefreshToken = true;
+        let username: string | undefined;
+        if (grantType === 'password') {
+          username = form.get('username') ?? '';
+          const password = username === credentials.username ? credentials.password : state.users.get(username)?.password;
+          if (password === undefined || form.get('password') !== password) {
+            return json(400, { error: 'invalid_grant', error_description: 'Invalid user credentials' });
+          }
+        } else if (grantType === 'refresh_token') {
+          const refreshToken = form.get('refresh_token') ?? '';
+          if (!state.refreshTokens.delete(refreshToken)) {
+            return json(400, { error: 'invalid_grant', error_description: 'Unknown or revoked refresh token' });
+          }
+          username = refreshTokenUsers.get(refreshToken);
+          refreshTokenUsers.delete(refreshToken);
+        } else if (grantType === 'client_credentials') {
+          issueRefreshToken = false;
+        } else {
+          return json(400, { error: 'unsupported_grant_type', error_description: `Unsupported grant '${grantType}'` });
+        }
+
+        const randomSuffix = () => `${nextId()}-${Math.random().toString(36).slice(2)}`;
+        const accessToken = `mock-token-${randomSuffix()}`;
+        state.tokens.set(accessToken, { expiresAt: Date.now() + tokenTtlSeconds * 1000, username });
+
+        const tokenData: Record<string, unknown> = {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          expires_in: tokenTtlSeconds
+        };
+        if (issueRefreshToken) {
+          const refreshToken = `mock-refresh-${randomSuffix()}`;
+          state.refreshTokens.add(refreshToken);
+          if (username !== undefined) {
+            refreshTokenUsers.set(refreshToken, username);
+          }
+          tokenData.refresh_token = refreshToken;
+        }
+        return json(200, tokenData);
+      }
+    },
+
+    // Entities
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities$/,
+      handler: req => {
+        const paging = parsePaging(req.query);
+        const culture = parseCulture(req.query.get('culture'));
+        const items = visibleEntities(req).filter(compileQuery(req.query.get('query')));
+        return json(200, pageEntities(items.map(entity => localize(entity, culture)), paging));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/entities$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const identifier = optionalField(body, 'identifier', 'string');
+        if (!identifier) {
+          throw new BadRequest("Field 'identifier' is required");
+        }
+        const now = new Date().toISOString();
+        const definition = optionalField(body, 'definition', 'string') ?? 'M.Content';
+        const properties = checkProperties(definition, body.properties);
+        checkRequired({ definition, properties });
+        const relations = body.relations !== undefined ? parseRelations(definition, body.relations) : {};
+        const entity: MockEntity = {
+          id: nextId(),
+          identifier,
+          definition,
+          culture: optionalField(body, 'culture', 'string'),
+          properties,
+          created_on: now,
+          modified_on: now,
+          version: 1
+        };
+        state.entities.set(entity.id, entity);
+        Object.entries(relations).forEach(([name, ids]) => relate(entity, name, ids));
+        notify('EntityCreated', entity);
+        return json(201, entity, entityTag(entity));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/query$/,
+      handler: req => {
+        const paging = parsePaging(req.query);
+        const culture = parseCulture(req.query.get('culture'));
+        const items = visibleEntities(req).filter(compileQuery(req.query.get('query')));
+        // GET takes the sort as `Field:Direction` pairs separated by commas
+        const sort = req.query
+          .get('sort')
+          ?.split(',')
+          .map(pair => {
+            const [field, direction] = pair.split(':');
+            return { field, direction };
+          });
+        return json(200, pageEntities(sortEntities(items, sort).map(entity => localize(entity, culture)), paging));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/entities\/query$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const paging = parsePaging(body);
+        const culture = parseCulture(body.culture);
+        const items = visibleEntities(req).filter(compileQuery(optionalField(body, 'query', 'string')));
+        return json(200, pageEntities(sortEntities(items, parseSort(body.sort)).map(entity => localize(entity, culture)), paging));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/search$/,
+      handler: req => {
+        const paging = parsePaging(req.query);
+        const items = visibleEntities(req).filter(entity => matchesText(entity, req.query.get('q')));
+        return json(200, pageEntities(items, paging));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/entities\/scroll$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const { take } = parsePaging({ take: body.take });
+        let scrollId = optionalField(body, 'scroll_id', 'string');
+        if (scrollId === undefined) {
+          const matching = visibleEntities(req).filter(compileQuery(optionalField(body, 'query', 'string')));
+          scrollId = `scroll-${nextId()}`;
+          state.scrolls.set(scrollId, { ids: sortEntities(matching, parseSort(body.sort)).map(({ id }) => id), position: 0 });
+        }
+        const scroll = state.scrolls.get(scrollId);
+        if (!scroll) {
+          return notFound('Scroll');
+        }
+
+        // The cursor walks the ids matched when it opened; entities deleted since are skipped
+        const items: MockEntity[] = [];
+        while (items.length < take && scroll.position < scroll.ids.length) {
+          const entity = state.entities.get(scroll.ids[scroll.position++]);
+          if (entity) {
+            items.push(entity);
+          }
+        }
+        if (scroll.position >= scroll.ids.length) {
+          state.scrolls.delete(scrollId);
+          return json(200, { items, total_items: scroll.ids.length });
+        }
+        return json(200, { items, total_items: scroll.ids.length, scroll_id: scrollId });
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/entities\/bulk$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const entityIds = parseIds(body, 'entity_ids');
+        if (!entityIds || entityIds.length === 0) {
+          throw new BadRequest("Field 'entity_ids' must be a non-empty array");
+        }
+        if (typeof body.properties !== 'object' || body.properties === null) {
+          throw new BadRequest("Field 'properties' is required");
+        }
+        const properties = body.properties as MockProperties;
+        // Missing entities only surface when the job runs, as they would on an instance
+        const missing = entityIds.filter(id => !state.entities.has(id));
+        const outcome: MockJobStep =
+          missing.length > 0
+            ? { status: 'Failed', afterMs: jobDurationMs, message: `Entities ${missing.join(', ')} not found` }
+            : { status: 'Completed', afterMs: jobDurationMs };
+        const job = scheduleJob('BulkUpdate', defaultSteps(outcome), ({ status }) => {
+          if (status !== 'Completed') {
+            return;
+          }
+          const now = new Date().toISOString();
+          entityIds.forEach(id => {
+            const entity = state.entities.get(id);
+            if (entity) {
+              const previous = { ...entity };
+              entity.properties = { ...entity.properties, ...properties };
+              entity.modified_on = now;
+              entity.version++;
+              notify('EntityUpdated', entity, previous);
+            }
+          });
+        });
+        return json(202, { job_id: job.id });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        return entity
+          ? json(200, localize(entity, parseCulture(req.query.get('culture'))), entityTag(entity))
+          : notFound('Entity');
+      }
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/entities\/(\d+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const body = parseJsonBody(req);
+        const conflict = versionConflict(entity, req.headers['if-match'], optionalField(body, 'version', 'number'));
+        if (conflict) {
+          return conflict;
+        }
+        const properties = checkProperties(entity.definition, body.properties);
+        const relations = body.relations !== undefined ? parseRelations(entity.definition, body.relations) : {};
+        const updated: MockEntity = {
+          ...entity,
+          identifier: optionalField(body, 'identifier', 'string') ?? entity.identifier,
+          culture: optionalField(body, 'culture', 'string') ?? entity.culture,
+          properties: { ...entity.properties, ...properties },
+          modified_on: new Date().toISOString(),
+          version: entity.version + 1
+        };
+        checkRequired(updated);
+        state.entities.set(updated.id, updated);
+        Object.entries(relations).forEach(([name, ids]) => relate(updated, name, ids));
+        notify('EntityUpdated', updated, entity);
+        return json(200, updated, entityTag(updated));
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/entities\/(\d+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        state.entities.delete(entity.id);
+        state.files.delete(entity.id);
+        state.publicLinks.forEach(link => {
+          if (link.asset_id === entity.id) {
+            state.publicLinks.delete(link.id);
+          }
+        });
+        state.selections.forEach(selection => {
+          selection.entities = selection.entities.filter(id => id !== entity.id);
+        });
+        Object.entries(entity.relations ?? {}).forEach(([name, ids]) =>
+          ids.forEach(id => unlink(state.entities.get(id), name, entity.id))
+        );
+        notify('EntityDeleted', entity);
+        return json(204);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)\/relations$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const members = definitionMembers(entity.definition).filter(member => member.relation);
+        return json(200, { items: members.map(member => entityRelation(entity, member)), total_items: members.length });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)\/relations\/([^/]+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const member = relationMember(entity.definition, req.params[1]);
+        return member ? json(200, entityRelation(entity, member)) : notFound('Relation');
+      }
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/entities\/(\d+)\/relations\/([^/]+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const name = req.params[1];
+        const member = relationMember(entity.definition, name);
+        if (!member) {
+          return notFound('Relation');
+        }
+        const conflict = versionConflict(entity, req.headers['if-match'], undefined);
+        if (conflict) {
+          return conflict;
+        }
+        const body = parseJsonBody(req);
+        relate(entity, name, parseRelations(entity.definition, { [name]: body.related })[name]);
+        entity.modified_on = new Date().toISOString();
+        entity.version++;
+        notify('EntityUpdated', entity, entity);
+        return json(200, entityRelation(entity, member), entityTag(entity));
+      }
+    },
+
+    // Uploads
+    {
+      method: 'POST',
+      pattern: /^\/api\/upload\/initiate$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const { filename, filesize } = body;
+        if (typeof filename !== 'string' || typeof filesize !== 'number' || !Number.isInteger(filesize) || filesize < 0) {
+          throw new BadRequest("Fields 'filename' and 'filesize' are required");
+        }
+        const upload: MockUpload = {
+          upload_identifier: `upload-${nextId()}`,
+          filename,
+          filesize,
+          content_type: optionalField(body, 'content_type', 'string') ?? 'application/octet-stream',
+          status: 'Pending',
+          chunk_size: uploadChunkSize,
+          chunks: new Map()
+        };
+        state.uploads.set(upload.upload_identifier, upload);
+        return json(200, {
+          upload_identifier: upload.upload_identifier,
+          upload_configuration: uploadConfiguration(upload)
+        });
+      }
+    },
+    {
+      method: 'PUT',
+      pattern: /^\/api\/upload\/([\w-]+)\/chunks\/(\d+)$/,
+      handler: req => {
+        const upload = state.uploads.get(req.params[0]);
+        if (!upload) {
+          return notFound('Upload');
+        }
+        if (upload.status !== 'Pending') {
+          throw new BadRequest(`Upload is ${upload.status}`, 'upload_closed');
+        }
+        const index = Number(req.params[1]);
+        const start = index * upload.chunk_size;
+        if (req.body.length === 0 || req.body.length > upload.chunk_size) {
+          throw new BadRequest(`Chunks must hold 1 to ${upload.chunk_size} bytes`, 'invalid_chunk');
+        }
+        if (start + req.body.length > upload.filesize) {
+          throw new BadRequest(
+            `Chunk ${index} ends at byte ${start + req.body.length}, past the declared filesize ${upload.filesize}`,
+            'filesize_exceeded'
+          );
+        }
+        upload.chunks.set(index, req.body);
+        return json(200, uploadProgress(upload));
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/upload\/finalize$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const upload = state.uploads.get(optionalField(body, 'upload_identifier', 'string') ?? '');
+        if (!upload) {
+          return notFound('Upload');
+        }
+        if (upload.status !== 'Pending') {
+          throw new BadRequest(`Upload is ${upload.status}`, 'upload_closed');
+        }
+
+        const indexes = [...upload.chunks.keys()].sort((a, b) => a - b);
+        if (indexes.some((chunkIndex, position) => chunkIndex !== position)) {
+          throw new BadRequest('Chunks are missing', 'incomplete_upload');
+        }
+        const content = Buffer.concat(indexes.map(chunkIndex => upload.chunks.get(chunkIndex)!));
+        // A rejected upload is closed and has to be started again
+        const reject = (message: string, code: string) => {
+          upload.status = 'Failed';
+          upload.failure = { error: code, message };
+          return new BadRequest(message, code);
+        };
+        if (content.length !== upload.filesize) {
+          throw reject(`Received ${content.length} bytes, but ${upload.filesize} were declared`, 'filesize_mismatch');
+        }
+        const checksum = createHash('sha256').update(content).digest('hex');
+        if (body.checksum !== undefined && body.checksum !== checksum) {
+          throw reject(`SHA-256 of the received content is ${checksum}, not ${body.checksum}`, 'checksum_mismatch');
+        }
+        const sniffed = sniffContentType(content);
+        if (FILE_SIGNATURES[upload.content_type] && sniffed !== upload.content_type) {
+          throw reject(
+            `Content does not look like ${upload.content_type}${sniffed ? ` but like ${sniffed}` : ''}`,
+            'content_type_mismatch'
+          );
+        }
+
+        upload.status = 'Processing';
+        const job = scheduleJob('AssetProcessing', defaultSteps(), ({ status, status_message }) => {
+          if (status === 'Completed') {
+            completeUpload(upload);
+          } else if (status === 'Failed' || status === 'Cancelled') {
+            upload.status = 'Failed';
+            upload.failure = { error: 'processing_failed', message: status_message ?? `Processing job ${status}` };
+          }
+        });
+        upload.job_id = job.id;
+        return json(202, { upload_identifier: upload.upload_identifier, status: upload.status, job_id: job.id });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/upload\/progress\/([\w-]+)$/,
+      handler: req => {
+        const upload = state.uploads.get(req.params[0]);
+        if (!upload) {
+          return notFound('Upload');
+        }
+        const job = upload.job_id !== undefined ? state.jobs.get(upload.job_id) : undefined;
+        if (job) {
+          advanceJob(job);
+        }
+        return json(200, uploadProgress(upload));
+      }
+    },
+
+    // Renditions and public links
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)\/renditions$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const file = state.files.get(entity.id);
+        const items = Object.entries(file ? renditionFiles(file) : {}).map(([name, { content_type, content }]) => ({
+          name,
+          content_type,
+          filesize: content.length,
+          href: `${origin(req)}/api/entities/${entity.id}/renditions/${name}`
+        }));
+        return json(200, { items, total_items: items.length });
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)\/renditions\/([^/]+)$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const file = state.files.get(entity.id);
+        const rendition = file && renditionFiles(file)[req.params[1]];
+        return rendition ? download(rendition) : notFound(`Rendition '${req.params[1]}' of entity ${entity.id}`);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entities\/(\d+)\/publiclinks$/,
+      handler: req => {
+        const entity = findEntity(req);
+        if (!entity) {
+          return notFound('Entity');
+        }
+        const items = [...state.publicLinks.values()]
+          .filter(link => link.asset_id === entity.id)
+          .map(link => publicLink(req, link));
+        return json(200, { items, total_items: items.length });
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/publiclinks$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const assetId = optionalField(body, 'asset_id', 'number');
+        const rendition = optionalField(body, 'rendition', 'string') ?? '';
+        const expiresOn = optionalField(body, 'expires_on', 'string');
+        const file = assetId === undefined ? undefined : state.files.get(assetId);
+        if (assetId === undefined || !state.entities.has(assetId) || !file) {
+          throw new BadRequest(`Entity ${assetId} is not an asset with a file`, 'invalid_asset');
+        }
+        if (!renditionFiles(file)[rendition]) {
+          throw new BadRequest(`Asset ${assetId} has no rendition '${rendition}'`, 'invalid_rendition');
+        }
+        if (expiresOn !== undefined && !(Date.parse(expiresOn) > Date.now())) {
+          throw new BadRequest(`expires_on must be a date-time in the future, got '${expiresOn}'`, 'invalid_expiry');
+        }
+        const link: MockPublicLink = {
+          id: nextId(),
+          asset_id: assetId,
+          rendition,
+          token: randomBytes(16).toString('hex'),
+          status: 'Active',
+          created_on: new Date().toISOString(),
+          ...(expiresOn !== undefined && { expires_on: new Date(expiresOn).toISOString() })
+        };
+        state.publicLinks.set(link.id, link);
+        return json(201, publicLink(req, link));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/publiclinks\/(\d+)$/,
+      handler: req => {
+        const link = state.publicLinks.get(Number(req.params[0]));
+        return link ? json(200, publicLink(req, link)) : notFound('Public link');
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/publiclinks\/(\d+)$/,
+      handler: req => {
+        const link = state.publicLinks.get(Number(req.params[0]));
+        if (!link || link.status === 'Revoked') {
+          return notFound('Public link');
+        }
+        link.status = 'Revoked';
+        link.revoked_on = new Date().toISOString();
+        return json(204);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/public\/content\/(\w+)$/,
+      anonymous: true,
+      handler: req => {
+        const link = [...state.publicLinks.values()].find(candidate => candidate.token === req.params[0]);
+        if (!link) {
+          return notFound('Public link');
+        }
+        if (link.status === 'Revoked') {
+          return json(410, { error: 'link_revoked', message: `Public link ${link.id} was revoked` });
+        }
+        if (link.expires_on && Date.parse(link.expires_on) <= Date.now()) {
+          return json(410, { error: 'link_expired', message: `Public link ${link.id} expired on ${link.expires_on}` });
+        }
+        return download(renditionFiles(state.files.get(link.asset_id)!)[link.rendition]);
+      }
+    },
+
+    // Jobs
+    {
+      method: 'GET',
+      pattern: /^\/api\/jobs$/,
+      handler: req => {
+        const paging = parsePaging(req.query);
+        const status = req.query.get('status');
+        const items = [...state.jobs.values()].map(advanceJob).filter(job => !status || job.status === status);
+        return json(200, page(items, paging));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/jobs\/(\d+)$/,
+      handler: req => {
+        const job = state.jobs.get(Number(req.params[0]));
+        return job ? json(200, advanceJob(job)) : notFound('Job');
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/jobs\/(\d+)\/cancel$/,
+      handler: req => {
+        const job = state.jobs.get(Number(req.params[0]));
+        if (!job) {
+          return notFound('Job');
+        }
+        advanceJob(job);
+        if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+          throw new BadRequest(`Job ${job.id} already ${job.status}`, 'job_not_cancellable');
+        }
+        const run = jobRuns.get(job.id);
+        jobRuns.delete(job.id);
+        job.status = 'Cancelled';
+        job.status_message = 'Cancelled by request';
+        job.modified_on = new Date().toISOString();
+        run?.onStatus?.(job);
+        return json(200, job);
+      }
+    },
+
+    // Selections
+    {
+      method: 'GET',
+      pattern: /^\/api\/selections$/,
+      handler: req => json(200, page([...state.selections.values()], parsePaging(req.query)))
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/selections$/,
+      handler: req => {
+        const body = parseJsonBody(req);
+        const name = optionalField(body, 'name', 'string');
+        if (!name) {
+          throw new BadRequest("Field 'name' is required");
+        }
+        const selection: MockSelection = {
+          id: nextId(),
+          name,
+          query: optionalField(body, 'query', 'string') ?? '*',
+          entities: parseIds(body, 'entities') ?? [],
+          created_on: new Date().toISOString()
+        };
+        state.selections.set(selection.id, selection);
+        return json(201, selection);
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/selections\/(\d+)$/,
+      handler: req => {
+        const selection = state.selections.get(Number(req.params[0]));
+        return selection ? json(200, selection) : notFound('Selection');
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/selections\/(\d+)\/entities$/,
+      handler: req => {
+        const selection = state.selections.get(Number(req.params[0]));
+        if (!selection) {
+          return notFound('Selection');
+        }
+        const entityIds = parseIds(parseJsonBody(req), 'entity_ids');
+        if (!entityIds) {
+          throw new BadRequest("Field 'entity_ids' must be an array");
+        }
+        const missing = entityIds.filter(id => !state.entities.has(id));
+        if (missing.length > 0) {
+          return notFound(`Entities ${missing.join(', ')}`);
+        }
+        selection.entities = [...new Set([...selection.entities, ...entityIds])];
+        return json(200, selection);
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/selections\/(\d+)$/,
+      handler: req => {
+        const id = Number(req.params[0]);
+        return state.selections.delete(id) ? json(204) : notFound('Selection');
+      }
+    },
+
+    // Option lists
+    {
+      method: 'GET',
+      pattern: /^\/api\/optionlists$/,
+      handler: req => json(200, page([...state.optionLists.values()], parsePaging(req.query)))
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/optionlists\/(\d+)$/,
+      handler: req => {
+        const optionList = state.optionLists.get(Number(req.params[0]));
+        return optionList ? json(200, optionList) : notFound('Option list');
+      }
+    },
+    {
+      method: 'POST',
+      pattern: /^\/api\/optionlists\/(\d+)\/options$/,
+      handler: req => {
+        const optionList = state.optionLists.get(Number(req.params[0]));
+        if (!optionList) {
+          return notFound('Option list');
+        }
+        const body = parseJsonBody(req);
+        const key = optionalField(body, 'key', 'string');
+        if (!key) {
+          throw new BadRequest("Field 'key' is required");
+        }
+        if (optionList.options.some(option => option.key === key)) {
+          throw new BadRequest(`Option '${key}' already exists`);
+        }
+        const { labels = {} } = body;
+        if (typeof labels !== 'object' || labels === null || !Object.values(labels).every(label => typeof label === 'string')) {
+          throw new BadRequest("Field 'labels' must map cultures to labels");
+        }
+        const option: MockOption = { key, labels: labels as Record<string, string> };
+        optionList.options.push(option);
+        return json(201, option);
+      }
+    },
+    {
+      method: 'DELETE',
+      pattern: /^\/api\/optionlists\/(\d+)\/options\/([^/]+)$/,
+      handler: req => {
+        const optionList = state.optionLists.get(Number(req.params[0]));
+        const key = decodeURIComponent(req.params[1]);
+        const index = optionList ? optionList.options.findIndex(option => option.key === key) : -1;
+        if (!optionList || index === -1) {
+          return notFound('Option');
+        }
+        optionList.options.splice(index, 1);
+        return json(204);
+      }
+    },
+
+    // Entity definitions
+    {
+      method: 'GET',
+      pattern: /^\/api\/entitydefinitions$/,
+      handler: req => {
+        const definitions = [...state.entityDefinitions.values()].map(({ id, name }) => ({ id, name }));
+        return json(200, page(definitions, parsePaging(req.query)));
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entitydefinitions\/(\d+)$/,
+      handler: req => {
+        const definition = state.entityDefinitions.get(Number(req.params[0]));
+        return definition ? json(200, { id: definition.id, name: definition.name }) : notFound('Entity definition');
+      }
+    },
+    {
+      method: 'GET',
+      pattern: /^\/api\/entitydefinitions\/(\d+)\/members$/,
+      handler: req => {
+        const definition = state.entityDefinitions.get(Number(req.params[0]));
+        return definition
+          ? json(200, { items: definition.members, total_items: definition.members.length })
+          : notFound('Entity definition');
+      }
+    },
+
+    // Cultures
+    {
+      method: 'GET',
+      pattern: /^\/api\/cultures$/,
+      handler: () => json(200, { items: state.cultures, total_items: state.cultures.length })
+    }
+  ];
+
+  /**
+   * Token-bucket throttle per access token or instance, answering 429 with Retry-After like the instance does
+   */
+  const checkRateLimit = (token: string): MockResponse | null => {
+    if (!rateLimit) {
+      return null;
+    }
+    const now = Date.now();
+    const key = rateLimit.scope === 'instance' ? '*' : token;
+    const refillPerMs = rateLimit.limit / rateLimit.windowMs;
+    const bucket = buckets.get(key) ?? { tokens: rateLimit.limit, updatedAt: now };
+    bucket.tokens = Math.min(rateLimit.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      const retryAfterMs = (1 - bucket.tokens) / refillPerMs;
+      return json(
+        429,
+        { error: 'too_many_requests', message: `Rate limit of ${rateLimit.limit} requests exceeded` },
+        { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterMs / 1000))) }
+      );
+    }
+    bucket.tokens -= 1;
+    return null;
+  };
+
+  /**
+   * 403 for a restricted user calling an operation it lacks the permission for, or touching an
+   * entity of a definition hidden from it
+   */
+  const checkPermission = (req: MockRequest, user: MockUser): MockResponse | null => {
+    const permission = requiredPermission(req);
+    if (!isPermitted(user, permission)) {
+      return json(403, { error: 'forbidden', message: `User '${user.username}' lacks permission '${permission}'` });
+    }
+    const entityId = req.path.match(/^\/api\/entities\/(\d+)/)?.[1];
+    const entity = entityId === undefined ? undefined : state.entities.get(Number(entityId));
+    if (entity && user.hiddenDefinitions?.includes(entity.definition)) {
+      return json(403, { error: 'forbidden', message: `User '${user.username}' may not access ${entity.definition} entities` });
+    }
+    return null;
+  };
+
+  const takeFault = (req: MockRequest): MockFault | undefined => {
+    const index = faults.findIndex(fault =>
+      (!fault.method || fault.method.toUpperCase() === req.method) &&
+      (typeof fault.path === 'string' ? fault.path === req.path : fault.path.test(req.path))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const fault = faults[index];
+    if (fault.times !== undefined && --fault.times <= 0) {
+      faults.splice(index, 1);
+    }
+    return fault;
+  };
+
+  /**
+   * Delay of the first latency matching the request; 0 when none does
+   */
+  const latencyOf = (req: MockRequest): number => {
+    const latency = latencies.find(entry =>
+      (!entry.method || entry.method.toUpperCase() === req.method) &&
+      (entry.path === undefined || (typeof entry.path === 'string' ? entry.path === req.path : entry.path.test(req.path)))
+    );
+    return latency?.delayMs ?? 0;
+  };
+
+  /**
+   * Control endpoints so tests running in another process can inject faults or reset state
+   */
+  const handleControl = (req: MockRequest): MockResponse | null => {
+    if (req.method === 'POST' && req.path === '/__mock/faults') {
+      const body = parseJsonBody(req);
+      const path = typeof body.pattern === 'string' ? new RegExp(body.pattern) : body.path;
+      if (typeof body.status !== 'number' || (typeof path !== 'string' && !(path instanceof RegExp))) {
+        return json(400, { error: 'bad_request', message: "Fields 'status' and 'path' or 'pattern' are required" });
+      }
+      faults.push({ ...(body as Partial<MockFault>), path, status: body.status });
+      return json(204);
+    }
+    if (req.method === 'DELETE' && req.path === '/__mock/faults') {
+      faults = [];
+      return json(204);
+    }
+    if (req.method === 'POST' && req.path === '/__mock/tokens/revoke') {
+      const body = parseJsonBody(req);
+      server.revokeTokens(...(Array.isArray(body.tokens) ? body.tokens : []));
+      return json(204);
+    }
+    if (req.method === 'POST' && req.path === '/__mock/webhooks') {
+      const body = parseJsonBody(req);
+      if (typeof body.url !== 'string') {
+        return json(400, { error: 'bad_request', message: "Field 'url' is required" });
+      }
+      return json(201, server.addWebhook({ ...(body as Partial<MockWebhook>), url: body.url }));
+    }
+    const webhookId = req.method === 'DELETE' && req.path.match(/^\/__mock\/webhooks\/(\d+)$/)?.[1];
+    if (webhookId) {
+      server.removeWebhook(Number(webhookId));
+      return json(204);
+    }
+    if (req.method === 'POST' && req.path === '/__mock/reset') {
+      server.reset();
+      return json(204);
+    }
+    return null;
+  };
+
+  const dispatch = (req: MockRequest): MockResponse => {
+    const control = handleControl(req);
+    if (control) {
+      return control;
+    }
+
+    const candidates = routes.filter(route => route.pattern.test(req.path));
+    if (candidates.length === 0) {
+      return notFound(`Route ${req.path}`);
+    }
+    const route = candidates.find(candidate => candidate.method === req.method);
+    if (!route) {
+      return json(405, { error: 'method_not_allowed', message: `${req.method} not allowed on ${req.path}` });
+    }
+
+    if (!route.anonymous) {
+      const token = req.headers['x-auth-token'];
+      const session = typeof token === 'string' ? state.tokens.get(token) : undefined;
+      if (!session || session.expiresAt <= Date.now()) {
+        return json(401, { error: 'unauthorized', message: 'Missing, expired or revoked access token' });
+      }
+      const user = session.username === undefined ? undefined : state.users.get(session.username);
+      if (user?.disabled) {
+        return json(401, { error: 'unauthorized', message: `User '${user.username}' is disabled` });
+      }
+      const throttled = checkRateLimit(token as string);
+      if (throttled) {
+        return throttled;
+      }
+      const forbidden = user && checkPermission(req, user);
+      if (forbidden) {
+        return forbidden;
+      }
+      req.user = user;
+    }
+
+    const fault = takeFault(req);
+    if (fault) {
+      return json(fault.status, fault.body, fault.headers);
+    }
+
+    req.params = req.path.match(route.pattern)!.slice(1);
+    try {
+      return route.handler(req);
+    } catch (error) {
+      if (error instanceof BadRequest) {
+        return json(400, { error: error.code, message: error.message });
+      }
+      throw error;
+    }
+  };
+
+  const httpServer = http.createServer((incoming, outgoing) => {
+    const chunks: Buffer[] = [];
+    incoming.on('data', chunk => chunks.push(chunk));
+    incoming.on('end', () => {
+      const url = new URL(incoming.url ?? '/', 'http://localhost');
+      const req: MockRequest = {
+        method: (incoming.method ?? 'GET').toUpperCase(),
+        path: url.pathname.replace(/\/+$/, '') || '/',
+        query: url.searchParams,
+        headers: incoming.headers,
+        rawBody: Buffer.concat(chunks).toString('utf8'),
+        body: Buffer.concat(chunks),
+        params: []
+      };
+
+      let response: MockResponse;
+      try {
+        response = dispatch(req);
+      } catch (error) {
+        response = json(500, { error: 'internal_error', message: (error as Error).message });
+      }
+      if (!req.path.startsWith('/__mock/')) {
+        state.requests.push({ method: req.method, path: req.path, status: response.status, time: Date.now() });
+      }
+
+      const headers: Record<string, string> = { ...response.headers };
+      let payload: string | Buffer | undefined;
+      if (response.raw) {
+        payload = response.raw;
+        headers['Content-Length'] = String(response.raw.length);
+      } else if (response.body !== undefined) {
+        payload = JSON.stringify(response.body);
+        headers['Content-Type'] = 'application/json';
+      }
+      const respond = () => {
+        outgoing.writeHead(response.status, headers);
+        outgoing.end(payload);
+      };
+      const delayMs = req.path.startsWith('/__mock/') ? 0 : latencyOf(req);
+      if (delayMs > 0) {
+        setTimeout(respond, delayMs);
+      } else {
+        respond();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  const server: MockServer = {
+    url: `http://${host}:${port}`,
+    get state() {
+      return state;
+    },
+    injectFault(fault) {
+      faults.push({ ...fault });
+    },
+    clearFaults() {
+      faults = [];
+    },
+    injectLatency(latency) {
+      latencies.unshift({ ...latency });
+    },
+    revokeTokens(...tokens) {
+      if (tokens.length === 0) {
+        state.tokens.clear();
+        state.refreshTokens.clear();
+        return;
+      }
+      tokens.forEach(token => {
+        state.tokens.delete(token);
+        state.refreshTokens.delete(token);
+      });
+    },
+    scheduleJob,
+    addWebhook(webhook) {
+      const added: MockWebhook = { ...webhook, id: nextId() };
+      state.webhooks.set(added.id, added);
+      return added;
+    },
+    removeWebhook(id) {
+      state.webhooks.delete(id);
+    },
+    flushWebhooks() {
+      return deliveries;
+    },
+    reset() {
+      state = createInitialState(users);
+      faults = [];
+      latencies = [...(options.latency ?? [])];
+      buckets.clear();
+      jobRuns.clear();
+      refreshTokenUsers.clear();
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        httpServer.closeAllConnections();
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+
+  return server;
+}
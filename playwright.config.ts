@@ -1,5 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
 import * as dotenv from 'dotenv';
+import { CONNECTION_SETTINGS, profileVariable } from './src/environment-profiles';
+import { identitySettings } from './src/identities';
 
 /**
  * Read environment variables from file.
@@ -7,30 +9,65 @@ import * as dotenv from 'dotenv';
  */
 dotenv.config();
 
+/**
+ * CONTENT_HUB_MOCK=true points the suite at the local in-memory stand-in
+ * (see mock-server/) instead of a real instance, so it runs offline and in CI.
+ */
+const useMockServer = process.env.CONTENT_HUB_MOCK === 'true';
+if (useMockServer) {
+  process.env.CONTENT_HUB_BASE_URL = `http://127.0.0.1:${process.env.CONTENT_HUB_MOCK_PORT || 4010}`;
+  process.env.CONTENT_HUB_CLIENT_ID ||= 'mock-client-id';
+  process.env.CONTENT_HUB_CLIENT_SECRET ||= 'mock-client-secret';
+  process.env.CONTENT_HUB_USERNAME ||= 'mock-user';
+  process.env.CONTENT_HUB_PASSWORD ||= 'mock-password';
+  // The mock's own users: the account above, an editor and a reader (see DEFAULT_USERS)
+  if (!process.env.CONTENT_HUB_IDENTITIES) {
+    process.env.CONTENT_HUB_IDENTITIES = 'admin,editor,reader';
+    process.env.CONTENT_HUB_IDENTITY_ADMIN_USERNAME = process.env.CONTENT_HUB_USERNAME;
+    process.env.CONTENT_HUB_IDENTITY_ADMIN_PASSWORD = process.env.CONTENT_HUB_PASSWORD;
+    process.env.CONTENT_HUB_IDENTITY_EDITOR_USERNAME = 'mock-editor';
+    process.env.CONTENT_HUB_IDENTITY_EDITOR_PASSWORD = 'mock-editor-password';
+    process.env.CONTENT_HUB_IDENTITY_READER_USERNAME = 'mock-reader';
+    process.env.CONTENT_HUB_IDENTITY_READER_PASSWORD = 'mock-reader-password';
+  }
+
+  // The mock also stands in for the instance of a selected profile; its rate limit and
+  // read-only flag still apply
+  const profile = process.env.CONTENT_HUB_PROFILE;
+  for (const setting of [...CONNECTION_SETTINGS, ...identitySettings(process.env.CONTENT_HUB_IDENTITIES)]) {
+    process.env[profileVariable(profile, setting)] = process.env[profileVariable(undefined, setting)];
+  }
+}
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: './tests',
-  /* Run tests sequentially for API rate limiting compliance */
-  fullyParallel: false,
+  testMatch: '**/*-test-cases.ts',
+  /* Creates the shared rate limiter state and starts the mock server when CONTENT_HUB_MOCK=true */
+  globalSetup: './global-setup.ts',
+  /* Tests may run in parallel: every client shares one rate limiter across workers (see global-setup.ts) */
+  fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
-  /* Retry on CI only */
-  retries: process.env.CI ? 2 : 0,
-  /* Use single worker to respect API rate limits */
-  workers: 1,
+  /* No test-level retries: the API client retries throttled and transient failures itself,
+     so a failing test points at a real problem instead of API flakiness */
+  retries: 0,
+  /* Workers only add concurrency, not API load: the shared limiter keeps the run within the instance throttle */
+  workers: process.env.CI ? 4 : undefined,
   /* Increase timeout for API calls that may be rate limited */
   timeout: 60000,
-  /* Reporter to use. See https://playwright.dev/docs/test-reporters */
-  reporter: 'html',
+  /* Reporter to use. See https://playwright.dev/docs/test-reporters
+     The API metrics reporter summarises calls, bytes, rate limit waits and latency per test and endpoint */
+  reporter: [['html'], ['./reporters/api-metrics-reporter.ts']],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
     // baseURL: 'http://localhost:3000',
 
-    /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
-    trace: 'on-first-retry',
+    /* Keep the trace of failed tests. See https://playwright.dev/docs/trace-viewer */
+    trace: 'retain-on-failure',
   },
 
   /* Configure projects for major browsers */
@@ -0,0 +1,132 @@
+import type { FullConfig, FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  API_METRICS_ATTACHMENT,
+  ApiCallSample,
+  ApiMetricsReport,
+  compareWithBaseline,
+  formatRegressions,
+  summarizeSamples,
+  TestApiMetrics,
+  toJUnitXml,
+  TrendOptions
+} from '../src/api-metrics';
+
+/**
+ * Playwright reporter summarising the API metrics tests attach with `attachApiMetrics()`.
+ *
+ * Writes a JSON report (per test and per endpoint) and a JUnit file carrying the metrics as
+ * test properties. With a baseline report, endpoints whose p95 latency grew and tests making
+ * more calls are listed as regressions, and fail the run when `failOnRegression` is set.
+ */
+
+export interface ApiMetricsReporterOptions extends TrendOptions {
+  /** Default `test-results/api-metrics.json` */
+  outputFile?: string;
+  /** Default `test-results/api-metrics-junit.xml` */
+  junitFile?: string;
+  /** Earlier report to compare with (defaults to CONTENT_HUB_METRICS_BASELINE) */
+  baseline?: string;
+  /** Write this run's report to the baseline file (defaults to CONTENT_HUB_METRICS_UPDATE_BASELINE) */
+  updateBaseline?: boolean;
+  /** Fail the run on regressions (defaults to CONTENT_HUB_METRICS_FAIL_ON_REGRESSION) */
+  failOnRegression?: boolean;
+  logger?: (message: string) => void;
+}
+
+class ApiMetricsReporter implements Reporter {
+  private rootDir = process.cwd();
+  private readonly results: { test: TestCase; result: TestResult; samples: ApiCallSample[] }[] = [];
+
+  constructor(private readonly options: ApiMetricsReporterOptions = {}) {}
+
+  onBegin(config: FullConfig): void {
+    // File paths in the report are relative to the project, not to the test directory
+    this.rootDir = config.configFile ? path.dirname(config.configFile) : config.rootDir;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const attachments = result.attachments.filter(({ name, body }) => name === API_METRICS_ATTACHMENT && body);
+    if (attachments.length > 0) {
+      const samples = attachments.flatMap(({ body }) => JSON.parse(body!.toString('utf8')) as ApiCallSample[]);
+      this.results.push({ test, result, samples });
+    }
+  }
+
+  async onEnd(_result: FullResult): Promise<{ status?: FullResult['status'] } | undefined> {
+    if (this.results.length === 0) {
+      return;
+    }
+    const {
+      outputFile = 'test-results/api-metrics.json',
+      junitFile = 'test-results/api-metrics-junit.xml',
+      baseline = process.env.CONTENT_HUB_METRICS_BASELINE || undefined,
+      updateBaseline = process.env.CONTENT_HUB_METRICS_UPDATE_BASELINE === 'true',
+      failOnRegression = process.env.CONTENT_HUB_METRICS_FAIL_ON_REGRESSION === 'true',
+      logger = message => console.log(message)
+    } = this.options;
+
+    const tests: TestApiMetrics[] = this.results.map(({ test, result, samples }) => ({
+      // titlePath is ['', project, file, ...describes, title]
+      title: test.titlePath().slice(3).join(' › '),
+      file: path.relative(this.rootDir, test.location.file).split(path.sep).join('/'),
+      project: test.parent.project()?.name ?? '',
+      status: result.status,
+      ...summarizeSamples(samples)
+    }));
+    const report: ApiMetricsReport = {
+      generatedAt: new Date().toISOString(),
+      totals: summarizeSamples(this.results.flatMap(({ samples }) => samples)),
+      tests
+    };
+
+    const previous = baseline && !updateBaseline ? await readReport(baseline) : undefined;
+    if (baseline && !updateBaseline && !previous) {
+      logger(`No API metrics baseline at ${baseline} yet; set CONTENT_HUB_METRICS_UPDATE_BASELINE=true to store this run`);
+    }
+    if (previous) {
+      report.trend = { baseline: baseline!, regressions: compareWithBaseline(report, previous, this.options) };
+    }
+
+    await writeFile(outputFile, `${JSON.stringify(report, null, 2)}\n`);
+    await writeFile(junitFile, toJUnitXml(report));
+    if (baseline && updateBaseline) {
+      await writeFile(baseline, `${JSON.stringify(report, null, 2)}\n`);
+    }
+
+    const { calls, bytesSent, bytesReceived, rateLimitWaitMs } = report.totals;
+    logger(
+      `API metrics: ${calls} calls, ${bytesSent} bytes sent, ${bytesReceived} bytes received, ` +
+        `${rateLimitWaitMs}ms waiting for the rate limit (${outputFile})`
+    );
+    if (report.trend) {
+      logger(formatRegressions(report.trend.regressions));
+      if (failOnRegression && report.trend.regressions.length > 0) {
+        return { status: 'failed' };
+      }
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
+
+async function readReport(file: string): Promise<ApiMetricsReport | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function writeFile(file: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, contents);
+}
+
+export default ApiMetricsReporter;
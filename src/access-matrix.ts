@@ -0,0 +1,104 @@
+import { APIResponse } from '@playwright/test';
+import type { ContentHubAPIClient } from './client';
+
+/**
+ * Access matrices: which operations each identity may call.
+ *
+ * An operation sends one call as an identity's client and its status decides the outcome: 2xx
+ * allows, 401 and 403 deny, anything else is an error (the operation itself is broken, e.g. a 404
+ * for a missing target). Probing every operation as every identity gives the actual matrix, which
+ * is compared with, and reported next to, the one a suite declares.
+ */
+
+export type AccessDecision = 'allow' | 'deny';
+
+export type AccessOutcome = AccessDecision | 'error';
+
+export interface AccessOperation<T> {
+  /** Area and action, e.g. `entities.delete` */
+  name: string;
+  /** Send the call as `client`, acting on the resources in `targets` */
+  send(client: ContentHubAPIClient, targets: T): Promise<APIResponse>;
+}
+
+export interface AccessResult {
+  operation: string;
+  expected: AccessDecision;
+  actual: AccessOutcome;
+  status: number;
+}
+
+/** Expected decision per operation name */
+export type AccessExpectations = Record<string, AccessDecision>;
+
+/** Probe results per identity name */
+export type AccessMatrix = Record<string, AccessResult[]>;
+
+/**
+ * Outcome of a call answered with `status`
+ */
+export function accessOutcome(status: number): AccessOutcome {
+  if (status >= 200 && status < 300) {
+    return 'allow';
+  }
+  return status === 401 || status === 403 ? 'deny' : 'error';
+}
+
+/**
+ * Send every operation of `expected` as `client`, one at a time in the order given
+ */
+export async function probeAccess<T>(
+  client: ContentHubAPIClient,
+  operations: AccessOperation<T>[],
+  targets: T,
+  expected: AccessExpectations
+): Promise<AccessResult[]> {
+  const unknown = Object.keys(expected).filter(name => !operations.some(operation => operation.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`No operation named ${unknown.join(', ')}`);
+  }
+
+  const results: AccessResult[] = [];
+  for (const operation of operations.filter(({ name }) => name in expected)) {
+    const status = (await operation.send(client, targets)).status();
+    results.push({ operation: operation.name, expected: expected[operation.name], actual: accessOutcome(status), status });
+  }
+  return results;
+}
+
+/**
+ * Results whose outcome differs from the expected decision, per identity; empty when the matrix matches
+ */
+export function accessMismatches(matrix: AccessMatrix): AccessMatrix {
+  return Object.fromEntries(
+    Object.entries(matrix)
+      .map(([identity, results]) => [identity, results.filter(({ expected, actual }) => expected !== actual)] as const)
+      .filter(([, mismatches]) => mismatches.length > 0)
+  );
+}
+
+/**
+ * The matrix as a table with one row per operation and, per identity, the expected decision next
+ * to the actual outcome and status. Rows with a mismatch are marked with `!`.
+ */
+export function formatAccessMatrix(matrix: AccessMatrix): string {
+  const identities = Object.keys(matrix);
+  const operations = [...new Set(Object.values(matrix).flatMap(results => results.map(({ operation }) => operation)))];
+  const cells = (operation: string) =>
+    identities.flatMap(identity => {
+      const result = matrix[identity].find(candidate => candidate.operation === operation);
+      return result ? [result.expected, `${result.actual} ${result.status}`] : ['-', '-'];
+    });
+
+  const rows = [
+    ['', 'operation', ...identities.flatMap(identity => [`${identity} expected`, 'actual'])],
+    ...operations.map(operation => {
+      const mismatch = identities.some(identity =>
+        matrix[identity].some(result => result.operation === operation && result.expected !== result.actual)
+      );
+      return [mismatch ? '!' : '', operation, ...cells(operation)];
+    })
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
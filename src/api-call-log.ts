@@ -0,0 +1,190 @@
+import { APIResponse } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { OutgoingRequest, REDACTED, redactJson } from './cassette';
+
+/**
+ * Structured log of every request a client puts on the wire (or answers from a cassette).
+ *
+ * Each entry holds the method, URL, parameters, status, duration, time spent waiting for the
+ * rate limiter and the retry it belongs to, plus request and response bodies truncated to
+ * `maxBodyLength`. `client_secret`, `password` and token fields in bodies and the
+ * `X-Auth-Token` header are replaced with `[REDACTED]`.
+ *
+ * Entries are kept in memory for attaching to test results, and can also be summarised one
+ * line per call through the client's logger or appended to an NDJSON file.
+ */
+
+export interface ApiCallLogEntry {
+  /** When the request was sent, after any rate limit wait */
+  timestamp: string;
+  method: string;
+  url: string;
+  params?: Record<string, string>;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  /** Missing when the request failed without a response */
+  status?: number;
+  durationMs: number;
+  rateLimitWaitMs: number;
+  /** 0 for the first attempt, 1 for the first retry, ... */
+  retry: number;
+  responseBody?: string;
+  error?: string;
+  /** Answered from a cassette rather than the network */
+  replayed?: boolean;
+  /** What the client reported while making the call: rate limit waits and the retry it announces */
+  notes?: string[];
+}
+
+export interface ApiCallLogOptions {
+  /** Summarise every call through the client's logger */
+  stdout?: boolean;
+  /** Append every entry as one JSON line to this file */
+  file?: string;
+  /** Bodies are cut to this many characters (default 2000) */
+  maxBodyLength?: number;
+}
+
+/**
+ * A call as handed to the log by the client
+ */
+export interface ApiCall {
+  outgoing: OutgoingRequest;
+  url: string;
+  headers: Record<string, string>;
+  sentAt: number;
+  durationMs: number;
+  rateLimitWaitMs: number;
+  retry: number;
+  response?: APIResponse;
+  error?: unknown;
+  replayed?: boolean;
+  notes?: string[];
+}
+
+export const DEFAULT_MAX_BODY_LENGTH = 2000;
+
+const REDACTED_HEADERS = ['x-auth-token', 'authorization'];
+
+/**
+ * Cut `text` to `maxLength` characters, saying how much was dropped
+ */
+export function truncateBody(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength)}… (${text.length - maxLength} more characters)`;
+}
+
+function describeBody(body: string | Buffer, maxLength: number): string {
+  if (Buffer.isBuffer(body)) {
+    return `<binary, ${body.length} bytes>`;
+  }
+  return truncateBody(redactJson(body), maxLength);
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : value])
+  );
+}
+
+/**
+ * One line per call: `GET https://.../api/jobs?take=1 -> 200 in 45ms (rate limit wait 0ms, retry 0)`
+ */
+export function formatApiCall(entry: ApiCallLogEntry): string {
+  const query = entry.params ? `?${new URLSearchParams(entry.params)}` : '';
+  const outcome = entry.status !== undefined ? String(entry.status) : `error "${entry.error}"`;
+  const replayed = entry.replayed ? ', replayed' : '';
+  return (
+    `${entry.method} ${entry.url}${query} -> ${outcome} in ${entry.durationMs}ms ` +
+    `(rate limit wait ${entry.rateLimitWaitMs}ms, retry ${entry.retry}${replayed})`
+  );
+}
+
+export class ApiCallLogger {
+  readonly entries: ApiCallLogEntry[] = [];
+  private readonly maxBodyLength: number;
+
+  /**
+   * `logger` receives the one-line summaries, and only when `stdout` asks for them
+   */
+  constructor(
+    private readonly options: ApiCallLogOptions = {},
+    private readonly logger: (message: string) => void = message => console.log(message)
+  ) {
+    this.maxBodyLength = options.maxBodyLength ?? DEFAULT_MAX_BODY_LENGTH;
+  }
+
+  async record(call: ApiCall): Promise<ApiCallLogEntry> {
+    const { outgoing, response } = call;
+    const entry: ApiCallLogEntry = {
+      timestamp: new Date(call.sentAt).toISOString(),
+      method: outgoing.method,
+      url: call.url,
+      requestHeaders: redactHeaders(call.headers),
+      durationMs: call.durationMs,
+      rateLimitWaitMs: call.rateLimitWaitMs,
+      retry: call.retry
+    };
+
+    const params = Object.entries(outgoing.params ?? {}).filter(([, value]) => value !== undefined);
+    if (params.length > 0) {
+      entry.params = Object.fromEntries(params.map(([key, value]) => [key, String(value)]));
+    }
+    const requestBody = outgoing.form ? JSON.stringify(outgoing.form) : outgoing.data;
+    if (requestBody !== undefined) {
+      entry.requestBody = describeBody(requestBody, this.maxBodyLength);
+    }
+    if (response) {
+      entry.status = response.status();
+      const contentType = response.headers()['content-type'] ?? '';
+      const body = await response.body().catch(() => Buffer.alloc(0));
+      if (body.length > 0) {
+        entry.responseBody = /json|text|xml/.test(contentType) || contentType === ''
+          ? describeBody(body.toString('utf8'), this.maxBodyLength)
+          : describeBody(body, this.maxBodyLength);
+      }
+    } else {
+      entry.error = call.error instanceof Error ? call.error.message : String(call.error);
+    }
+    if (call.replayed) {
+      entry.replayed = true;
+    }
+    if (call.notes && call.notes.length > 0) {
+      entry.notes = [...call.notes];
+    }
+
+    this.entries.push(entry);
+    if (this.options.stdout) {
+      this.logger(formatApiCall(entry));
+    }
+    if (this.options.file) {
+      await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+      await fs.appendFile(this.options.file, `${JSON.stringify(entry)}\n`);
+    }
+    return entry;
+  }
+
+  /**
+   * Entries as NDJSON, e.g. for a test attachment
+   */
+  toNdjson(): string {
+    return this.entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+  }
+}
+
+/**
+ * Log options from DEBUG_API_CALLS (`true` to summarise calls on stdout), DEBUG_API_CALLS_FILE
+ * (NDJSON file) and DEBUG_API_CALLS_BODY_LIMIT; undefined when neither is set
+ */
+export function apiCallLogOptionsFromEnv(): ApiCallLogOptions | undefined {
+  const stdout = process.env.DEBUG_API_CALLS === 'true';
+  const file = process.env.DEBUG_API_CALLS_FILE || undefined;
+  if (!stdout && !file) {
+    return undefined;
+  }
+  const limit = process.env.DEBUG_API_CALLS_BODY_LIMIT;
+  return { stdout, file, maxBodyLength: limit ? Number(limit) : undefined };
+}
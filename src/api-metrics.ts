@@ -0,0 +1,232 @@
+import { TestInfo } from '@playwright/test';
+
+/**
+ * API usage metrics: what each test costs in calls, bytes and rate limit budget, and how
+ * fast each endpoint answers.
+ *
+ * Every client records one sample per request it sends. Tests attach their samples with
+ * `attachApiMetrics()`, and the `ApiMetricsReporter` (reporters/api-metrics-reporter.ts)
+ * summarises them per test and per endpoint, writes JSON and JUnit properties, and compares
+ * the run with a stored baseline.
+ *
+ * Endpoints are grouped by template, so `/api/entities/1005` counts as `/api/entities/{id}`.
+ */
+
+export const API_METRICS_ATTACHMENT = 'api-metrics';
+
+export interface ApiCallSample {
+  method: string;
+  /** Endpoint with ids replaced by `{id}` */
+  endpoint: string;
+  /** Missing when the request failed without a response */
+  status?: number;
+  durationMs: number;
+  rateLimitWaitMs: number;
+  requestBytes: number;
+  responseBytes: number;
+  /** 0 for the first attempt, 1 for the first retry, ... */
+  retry: number;
+}
+
+export interface LatencyStats {
+  calls: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface ApiMetricsSummary {
+  calls: number;
+  bytesSent: number;
+  bytesReceived: number;
+  rateLimitWaitMs: number;
+  retries: number;
+  /** Latency per `METHOD /endpoint/{id}` */
+  endpoints: Record<string, LatencyStats>;
+}
+
+export interface TestApiMetrics extends ApiMetricsSummary {
+  /** Describe and test titles, joined with ` › ` */
+  title: string;
+  file: string;
+  project: string;
+  status: string;
+}
+
+export interface Regression {
+  kind: 'latency' | 'calls';
+  /** `METHOD /endpoint` for latency, `project › title` for calls */
+  subject: string;
+  baseline: number;
+  current: number;
+}
+
+export interface ApiMetricsReport {
+  generatedAt: string;
+  totals: ApiMetricsSummary;
+  tests: TestApiMetrics[];
+  trend?: {
+    baseline: string;
+    regressions: Regression[];
+  };
+}
+
+export interface TrendOptions {
+  /** Growth over the baseline tolerated before flagging, as a fraction (default 0.2) */
+  tolerance?: number;
+  /** Latency growth below this is noise, however large relative to the baseline (default 25ms) */
+  minLatencyDeltaMs?: number;
+}
+
+/** Path segments that identify a resource: numbers, GUIDs and upload identifiers */
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f-]{27}|(?=[\w-]*\d)[\w-]{16,})$/i;
+
+/**
+ * `/api/entities/1005/relations` -> `/api/entities/{id}/relations`
+ */
+export function endpointTemplate(endpoint: string): string {
+  return endpoint
+    .split('?')[0]
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? '{id}' : segment))
+    .join('/');
+}
+
+/**
+ * Nearest-rank percentile of `values`; 0 when there are none
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeSamples(samples: ApiCallSample[]): ApiMetricsSummary {
+  const durations = new Map<string, number[]>();
+  for (const { method, endpoint, durationMs } of samples) {
+    const key = `${method} ${endpoint}`;
+    durations.set(key, [...(durations.get(key) ?? []), durationMs]);
+  }
+
+  const endpoints: Record<string, LatencyStats> = {};
+  for (const key of [...durations.keys()].sort()) {
+    const values = durations.get(key)!;
+    endpoints[key] = { calls: values.length, p50: percentile(values, 50), p95: percentile(values, 95), p99: percentile(values, 99) };
+  }
+  const sum = (pick: (sample: ApiCallSample) => number) => samples.reduce((total, sample) => total + pick(sample), 0);
+  return {
+    calls: samples.length,
+    bytesSent: sum(sample => sample.requestBytes),
+    bytesReceived: sum(sample => sample.responseBytes),
+    rateLimitWaitMs: sum(sample => sample.rateLimitWaitMs),
+    retries: samples.filter(sample => sample.retry > 0).length,
+    endpoints
+  };
+}
+
+/**
+ * Samples of the requests one client sent
+ */
+export class ApiMetrics {
+  readonly samples: ApiCallSample[] = [];
+
+  record(sample: ApiCallSample): void {
+    this.samples.push(sample);
+  }
+
+  summary(): ApiMetricsSummary {
+    return summarizeSamples(this.samples);
+  }
+}
+
+/**
+ * Attach the samples of `clients` to the test result for the ApiMetricsReporter. Call from afterEach.
+ */
+export async function attachApiMetrics(testInfo: TestInfo, ...clients: { metrics: ApiMetrics }[]): Promise<void> {
+  const samples = clients.flatMap(client => client.metrics.samples);
+  await testInfo.attach(API_METRICS_ATTACHMENT, { body: JSON.stringify(samples), contentType: 'application/json' });
+}
+
+const testKey = (test: TestApiMetrics) => `${test.project} › ${test.title}`;
+
+/**
+ * Regressions of `current` against `baseline`: endpoints whose p95 latency grew, and tests
+ * making more calls. Endpoints and tests missing from either run are not compared.
+ */
+export function compareWithBaseline(
+  current: ApiMetricsReport,
+  baseline: ApiMetricsReport,
+  options: TrendOptions = {}
+): Regression[] {
+  const tolerance = options.tolerance ?? 0.2;
+  const minLatencyDeltaMs = options.minLatencyDeltaMs ?? 25;
+  const regressions: Regression[] = [];
+
+  for (const [endpoint, stats] of Object.entries(current.totals.endpoints)) {
+    const before = baseline.totals.endpoints[endpoint];
+    if (before && stats.p95 > before.p95 * (1 + tolerance) && stats.p95 - before.p95 >= minLatencyDeltaMs) {
+      regressions.push({ kind: 'latency', subject: endpoint, baseline: before.p95, current: stats.p95 });
+    }
+  }
+
+  const baselineTests = new Map(baseline.tests.map(test => [testKey(test), test]));
+  for (const test of current.tests) {
+    const before = baselineTests.get(testKey(test));
+    if (before && test.calls > before.calls * (1 + tolerance)) {
+      regressions.push({ kind: 'calls', subject: testKey(test), baseline: before.calls, current: test.calls });
+    }
+  }
+  return regressions;
+}
+
+export function formatRegressions(regressions: Regression[]): string {
+  if (regressions.length === 0) {
+    return 'No API metric regressions against the baseline';
+  }
+  const lines = regressions.map(({ kind, subject, baseline, current }) =>
+    kind === 'latency'
+      ? `  ${subject}: p95 ${baseline}ms -> ${current}ms`
+      : `  ${subject}: ${baseline} -> ${current} calls`
+  );
+  return `${regressions.length} API metric regression(s) against the baseline:\n${lines.join('\n')}`;
+}
+
+function escapeXml(value: string | number): string {
+  return String(value).replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * JUnit XML with the metrics of every test as `<properties>`, one `<testsuite>` per spec file
+ */
+export function toJUnitXml(report: ApiMetricsReport): string {
+  const files = [...new Set(report.tests.map(test => test.file))];
+  const suites = files.map(file => {
+    const tests = report.tests.filter(test => test.file === file);
+    const cases = tests.map(test => {
+      const properties: [string, string | number][] = [
+        ['api.calls', test.calls],
+        ['api.bytesSent', test.bytesSent],
+        ['api.bytesReceived', test.bytesReceived],
+        ['api.rateLimitWaitMs', test.rateLimitWaitMs],
+        ['api.retries', test.retries],
+        ...Object.entries(test.endpoints).flatMap(([endpoint, stats]): [string, number][] => [
+          [`api.latency.${endpoint}.p50`, stats.p50],
+          [`api.latency.${endpoint}.p95`, stats.p95],
+          [`api.latency.${endpoint}.p99`, stats.p99]
+        ])
+      ];
+      const lines = properties.map(([name, value]) => `        <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`);
+      return [
+        `    <testcase name="${escapeXml(test.title)}" classname="${escapeXml(`${test.project}.${file}`)}">`,
+        '      <properties>',
+        ...lines,
+        '      </properties>',
+        '    </testcase>'
+      ].join('\n');
+    });
+    return [`  <testsuite name="${escapeXml(file)}" tests="${tests.length}">`, ...cases, '  </testsuite>'].join('\n');
+  });
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites name="api-metrics">', ...suites, '</testsuites>', ''].join('\n');
+}
@@ -0,0 +1,335 @@
+import { APIResponse, TestInfo } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { QueryParams } from './client';
+import { ContentHubCassetteError } from './errors';
+
+/**
+ * Record/replay of the HTTP interactions a client makes.
+ *
+ * In `record` mode every request sent through the client (token requests included) is
+ * stored with its response and written out by `eject()`. In `replay` mode responses are
+ * served from the file and nothing goes over the network.
+ *
+ * Secrets never reach the file: `client_secret`, `password` and token fields are replaced
+ * with `[REDACTED]` and auth headers are dropped. Requests are matched on method, endpoint,
+ * parameters and body, with `Date.now()` timestamps treated as wildcards; timestamps in
+ * replayed responses are rewritten to the ones the current run sent. Identical requests are
+ * answered in recorded order. A lenient replay answers further repeats (such as polls) with
+ * the last matching response; a strict one fails on any request it cannot answer from an
+ * unused interaction and, in `eject()`, on interactions never requested.
+ */
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Replay only: fail on unmatched requests and on unused interactions */
+  strict?: boolean;
+}
+
+export interface RecordedRequest {
+  method: string;
+  endpoint: string;
+  params?: Record<string, string>;
+  /** JSON text, form fields as JSON, or base64 for binary bodies */
+  body?: string;
+  encoding?: 'base64';
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body: string;
+  encoding?: 'base64';
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: Interaction[];
+}
+
+/**
+ * Request as handed to the cassette by the client
+ */
+export interface OutgoingRequest {
+  method: string;
+  endpoint: string;
+  params?: QueryParams;
+  data?: string | Buffer;
+  form?: Record<string, string>;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const SECRET_FIELDS = ['client_secret', 'password', 'access_token', 'refresh_token'];
+const OMITTED_HEADERS = ['x-auth-token', 'authorization', 'set-cookie'];
+
+/** Millisecond epoch timestamps from July 2017 to November 2286 (13 digits), as produced by Date.now() */
+const TIMESTAMP = /(?<!\d)(?:1[5-9]|[2-9]\d)\d{11}(?!\d)/g;
+const TIMESTAMP_PLACEHOLDER = '{timestamp}';
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, SECRET_FIELDS.includes(key) ? REDACTED : redactValue(child)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace secret fields of a JSON text; other text is returned unchanged
+ */
+export function redactJson(text: string): string {
+  try {
+    return JSON.stringify(redactValue(JSON.parse(text)));
+  } catch {
+    return text;
+  }
+}
+
+function isTextual(contentType = ''): boolean {
+  return contentType === '' || /json|text|xml|x-www-form-urlencoded/.test(contentType);
+}
+
+function recordRequest({ method, endpoint, params, data, form }: OutgoingRequest): RecordedRequest {
+  const request: RecordedRequest = { method, endpoint };
+  const definedParams = Object.entries(params ?? {}).filter(([, value]) => value !== undefined);
+  if (definedParams.length > 0) {
+    request.params = Object.fromEntries(definedParams.map(([key, value]) => [key, String(value)]));
+  }
+  if (form) {
+    request.body = JSON.stringify(redactValue(form));
+  } else if (Buffer.isBuffer(data)) {
+    request.body = data.toString('base64');
+    request.encoding = 'base64';
+  } else if (data !== undefined) {
+    request.body = redactJson(data);
+  }
+  return request;
+}
+
+/**
+ * Key identifying a request, with timestamps as wildcards
+ */
+function matchKey(request: RecordedRequest): string {
+  const params = Object.entries(request.params ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([request.method, request.endpoint, params, request.body ?? null]).replace(
+    TIMESTAMP,
+    TIMESTAMP_PLACEHOLDER
+  );
+}
+
+function describeRequest(request: RecordedRequest): string {
+  const query = request.params ? `?${new URLSearchParams(request.params)}` : '';
+  return `${request.method} ${request.endpoint}${query}`;
+}
+
+/**
+ * A recorded response served back in place of a live one
+ */
+class ReplayedResponse implements APIResponse {
+  private readonly content: Buffer;
+
+  constructor(
+    private readonly recorded: RecordedResponse,
+    private readonly requestUrl: string,
+    rewrite: (text: string) => string
+  ) {
+    this.content =
+      recorded.encoding === 'base64' ? Buffer.from(recorded.body, 'base64') : Buffer.from(rewrite(recorded.body), 'utf8');
+  }
+
+  async body(): Promise<Buffer> {
+    return this.content;
+  }
+
+  async text(): Promise<string> {
+    return this.content.toString('utf8');
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(await this.text());
+  }
+
+  headers(): Record<string, string> {
+    return { ...this.recorded.headers };
+  }
+
+  headersArray(): { name: string; value: string }[] {
+    return Object.entries(this.recorded.headers).map(([name, value]) => ({ name, value }));
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status < 300;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText ?? '';
+  }
+
+  url(): string {
+    return this.requestUrl;
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+}
+
+export class Cassette {
+  private readonly used = new Set<Interaction>();
+  /** Timestamps in the recording mapped to the ones sent during replay */
+  private readonly timestamps = new Map<string, string>();
+
+  constructor(
+    readonly file: string,
+    readonly mode: CassetteMode,
+    readonly strict = false,
+    private readonly interactions: Interaction[] = []
+  ) {}
+
+  /**
+   * Open a cassette: empty for recording, or read from `file` for replay
+   */
+  static async load(file: string, options: CassetteOptions): Promise<Cassette> {
+    if (options.mode === 'record') {
+      return new Cassette(file, 'record', false);
+    }
+    let contents: CassetteFile;
+    try {
+      contents = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      throw new ContentHubCassetteError(`Cannot replay cassette ${file}: ${(error as Error).message}`, file);
+    }
+    return new Cassette(file, 'replay', options.strict ?? false, contents.interactions);
+  }
+
+  /**
+   * Interactions recorded so far, or loaded for replay
+   */
+  get recorded(): readonly Interaction[] {
+    return this.interactions;
+  }
+
+  /**
+   * Replay interactions no request has been answered from
+   */
+  get unused(): Interaction[] {
+    return this.interactions.filter(interaction => !this.used.has(interaction));
+  }
+
+  async record(outgoing: OutgoingRequest, response: APIResponse): Promise<void> {
+    const headers = Object.fromEntries(
+      Object.entries(response.headers()).filter(([name]) => !OMITTED_HEADERS.includes(name.toLowerCase()))
+    );
+    const body = await response.body();
+    const textual = isTextual(headers['content-type']);
+    this.interactions.push({
+      request: recordRequest(outgoing),
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers,
+        body: textual ? redactJson(body.toString('utf8')) : body.toString('base64'),
+        ...(!textual && { encoding: 'base64' as const })
+      }
+    });
+  }
+
+  /**
+   * Answer a request from the recording. Throws ContentHubCassetteError when nothing matches.
+   */
+  replay(outgoing: OutgoingRequest, url: string): APIResponse {
+    const request = recordRequest(outgoing);
+    const key = matchKey(request);
+    const matching = this.interactions.filter(interaction => matchKey(interaction.request) === key);
+    const interaction =
+      matching.find(candidate => !this.used.has(candidate)) ?? (this.strict ? undefined : matching[matching.length - 1]);
+    if (!interaction) {
+      const reason = matching.length > 0 ? 'every matching interaction was already used' : 'no recorded interaction matches';
+      throw new ContentHubCassetteError(`Cannot replay ${describeRequest(request)} from ${this.file}: ${reason}`, this.file);
+    }
+
+    this.used.add(interaction);
+    this.mapTimestamps(interaction.request, request);
+    return new ReplayedResponse(interaction.response, url, text =>
+      text.replace(TIMESTAMP, timestamp => this.timestamps.get(timestamp) ?? timestamp)
+    );
+  }
+
+  /**
+   * Finish with the cassette: write a recording, or check a strict replay used every interaction
+   */
+  async eject(): Promise<void> {
+    if (this.mode === 'record') {
+      const contents: CassetteFile = { version: 1, interactions: this.interactions };
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      // Written whole and renamed into place, so projects recording the same test cannot interleave
+      const partial = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(partial, `${JSON.stringify(contents, null, 2)}\n`);
+      await fs.rename(partial, this.file);
+      return;
+    }
+    const unused = this.unused;
+    if (this.strict && unused.length > 0) {
+      const list = unused.map(({ request }) => `  ${describeRequest(request)}`).join('\n');
+      throw new ContentHubCassetteError(`${unused.length} recorded interaction(s) of ${this.file} were not used:\n${list}`, this.file);
+    }
+  }
+
+  private mapTimestamps(recorded: RecordedRequest, live: RecordedRequest): void {
+    const recordedTimestamps = JSON.stringify(recorded).match(TIMESTAMP) ?? [];
+    const liveTimestamps = JSON.stringify(live).match(TIMESTAMP) ?? [];
+    recordedTimestamps.forEach((timestamp, index) => {
+      if (liveTimestamps[index] !== undefined) {
+        this.timestamps.set(timestamp, liveTimestamps[index]);
+      }
+    });
+  }
+}
+
+/**
+ * Cassette file of a test: `<dir>/<spec file>/<describe and test titles>.json`
+ */
+export function cassetteFile(testInfo: TestInfo, dir: string): string {
+  const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.[jt]s$/, '');
+  const slug = testInfo.titlePath
+    .slice(1)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 120);
+  return path.join(dir, spec, `${slug}.json`);
+}
+
+/**
+ * The cassette of a test as configured by CONTENT_HUB_CASSETTE (`record` or `replay`),
+ * CONTENT_HUB_CASSETTE_STRICT and CONTENT_HUB_CASSETTE_DIR; undefined when cassettes are off
+ */
+export async function cassetteForTest(testInfo: TestInfo): Promise<Cassette | undefined> {
+  const mode = process.env.CONTENT_HUB_CASSETTE;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`CONTENT_HUB_CASSETTE must be 'record', 'replay' or 'off', got '${mode}'`);
+  }
+  const file = cassetteFile(testInfo, process.env.CONTENT_HUB_CASSETTE_DIR || 'cassettes');
+  return Cassette.load(file, { mode, strict: process.env.CONTENT_HUB_CASSETTE_STRICT === 'true' });
+}
@@ -0,0 +1,186 @@
+import { APIResponse } from '@playwright/test';
+import { promises as fs } from 'fs';
+import type { ContentHubAPIClient, HttpMethod } from './client';
+
+/**
+ * Bookkeeping for resources created through a client, so tests can remove what they made.
+ *
+ * Every successful create is recorded, and forgotten again once it is deleted. When
+ * CONTENT_HUB_CLEANUP_JOURNAL is set (by the global setup), records are also appended
+ * to a run-wide journal so the global teardown can delete leftovers from workers that
+ * never reached their afterEach.
+ */
+
+export type CreatedResource =
+  | { kind: 'entity'; id: number }
+  | { kind: 'selection'; id: number }
+  | { kind: 'option'; optionListId: number; key: string }
+  | { kind: 'publicLink'; id: number };
+
+export interface CleanupResult {
+  deleted: CreatedResource[];
+  failed: { resource: CreatedResource; error: string }[];
+}
+
+interface JournalRecord {
+  op: 'created' | 'deleted';
+  baseUrl: string;
+  resource: CreatedResource;
+}
+
+const sameResource = (a: CreatedResource, b: CreatedResource) => resourceEndpoint(a) === resourceEndpoint(b);
+
+/**
+ * Endpoint that deletes a created resource
+ */
+export function resourceEndpoint(resource: CreatedResource): string {
+  switch (resource.kind) {
+    case 'entity':
+      return `/api/entities/${resource.id}`;
+    case 'selection':
+      return `/api/selections/${resource.id}`;
+    case 'option':
+      return `/api/optionlists/${resource.optionListId}/options/${encodeURIComponent(resource.key)}`;
+    case 'publicLink':
+      return `/api/publiclinks/${resource.id}`;
+  }
+}
+
+export class CleanupRegistry {
+  private readonly resources: CreatedResource[] = [];
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly journalPath: string | undefined = process.env.CONTENT_HUB_CLEANUP_JOURNAL
+  ) {}
+
+  /**
+   * Resources still to be deleted, oldest first
+   */
+  get pending(): CreatedResource[] {
+    return [...this.resources];
+  }
+
+  async track(resource: CreatedResource): Promise<void> {
+    this.resources.push(resource);
+    await this.journal('created', resource);
+  }
+
+  async forget(resource: CreatedResource): Promise<void> {
+    const index = this.resources.findIndex(tracked => sameResource(tracked, resource));
+    if (index !== -1) {
+      this.resources.splice(index, 1);
+    }
+    await this.journal('deleted', resource);
+  }
+
+  /**
+   * Track creates and deletes seen by the client, whichever method issued them
+   */
+  async recordResponse(method: HttpMethod, endpoint: string, response: APIResponse): Promise<void> {
+    const path = endpoint.split('?')[0];
+    const status = response.status();
+
+    if (method === 'POST' && status >= 200 && status < 300) {
+      const created = await this.createdResource(path, response);
+      if (created) {
+        await this.track(created);
+      }
+      return;
+    }
+
+    // A 404 means someone else already removed it
+    if (method === 'DELETE' && ((status >= 200 && status < 300) || status === 404)) {
+      const deleted = this.resources.find(resource => resourceEndpoint(resource) === path);
+      if (deleted) {
+        await this.forget(deleted);
+      }
+    }
+  }
+
+  /**
+   * Delete every pending resource, newest first, so dependants go before what they depend on
+   */
+  async deleteAll(client: ContentHubAPIClient): Promise<CleanupResult> {
+    return deleteResources(client, [...this.resources].reverse());
+  }
+
+  private async createdResource(path: string, response: APIResponse): Promise<CreatedResource | undefined> {
+    const body = await response.json().catch(() => undefined);
+    if (!body) {
+      return undefined;
+    }
+    if (path === '/api/entities' && typeof body.id === 'number') {
+      return { kind: 'entity', id: body.id };
+    }
+    if (path === '/api/selections' && typeof body.id === 'number') {
+      return { kind: 'selection', id: body.id };
+    }
+    if (path === '/api/publiclinks' && typeof body.id === 'number') {
+      return { kind: 'publicLink', id: body.id };
+    }
+    const optionMatch = path.match(/^\/api\/optionlists\/(\d+)\/options$/);
+    if (optionMatch && typeof body.key === 'string') {
+      return { kind: 'option', optionListId: Number(optionMatch[1]), key: body.key };
+    }
+    return undefined;
+  }
+
+  private async journal(op: JournalRecord['op'], resource: CreatedResource): Promise<void> {
+    if (!this.journalPath) {
+      return;
+    }
+    const record: JournalRecord = { op, baseUrl: this.baseUrl, resource };
+    await fs.appendFile(this.journalPath, `${JSON.stringify(record)}\n`);
+  }
+}
+
+/**
+ * Delete resources in the given order; ones already gone (404) count as deleted
+ */
+export async function deleteResources(client: ContentHubAPIClient, resources: CreatedResource[]): Promise<CleanupResult> {
+  const result: CleanupResult = { deleted: [], failed: [] };
+  for (const resource of resources) {
+    const response = await client.delete(resourceEndpoint(resource)).catch((error: Error) => error);
+    if (response instanceof Error) {
+      result.failed.push({ resource, error: response.message });
+    } else if (response.ok() || response.status() === 404) {
+      result.deleted.push(resource);
+    } else {
+      result.failed.push({ resource, error: `status ${response.status()}` });
+    }
+  }
+  return result;
+}
+
+/**
+ * Resources created against `baseUrl` according to the journal and never deleted, oldest first
+ */
+export async function readJournal(journalPath: string, baseUrl: string): Promise<CreatedResource[]> {
+  const text = await fs.readFile(journalPath, 'utf8').catch(() => '');
+  const outstanding: CreatedResource[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    const record: JournalRecord = JSON.parse(line);
+    if (record.baseUrl !== baseUrl) {
+      continue;
+    }
+    const index = outstanding.findIndex(resource => sameResource(resource, record.resource));
+    if (record.op === 'created' && index === -1) {
+      outstanding.push(record.resource);
+    } else if (record.op === 'deleted' && index !== -1) {
+      outstanding.splice(index, 1);
+    }
+  }
+  return outstanding;
+}
+
+/**
+ * Delete what the journal says is still outstanding on the client's instance, newest first
+ */
+export async function cleanupJournal(client: ContentHubAPIClient, journalPath: string): Promise<CleanupResult> {
+  const outstanding = await readJournal(journalPath, client.baseUrl);
+  return deleteResources(client, outstanding.reverse());
+}
@@ -0,0 +1,693 @@
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import { ApiCallLogger, ApiCallLogOptions, apiCallLogOptionsFromEnv } from './api-call-log';
+import { ApiMetrics, endpointTemplate } from './api-metrics';
+import { Cassette, OutgoingRequest } from './cassette';
+import { CleanupRegistry, CleanupResult } from './cleanup-registry';
+import { ContractOptions, ContractValidator } from './contract-validator';
+import { EnvironmentProfile, isMutatingRequest, resolveProfile } from './environment-profiles';
+import { ContentHubAuthError, ContentHubCassetteError, ContentHubReadOnlyError } from './errors';
+import { Identity } from './identities';
+import { AuthToken, EntityDefinition, GrantType, MemberDefinition } from './models';
+import { IterateOptions, paginate } from './pagination';
+import { AssetsResource } from './resources/assets';
+import { CulturesResource } from './resources/cultures';
+import { EntitiesResource } from './resources/entities';
+import { EntityDefinitionsResource } from './resources/entity-definitions';
+import { JobsResource } from './resources/jobs';
+import { OptionListsResource } from './resources/option-lists';
+import { SelectionsResource } from './resources/selections';
+import { UploadsResource } from './resources/uploads';
+import { getSharedRateLimiter, RateLimiter } from './shared-rate-limiter';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds after which the token is renewed before use */
+  refreshAt: number;
+}
+
+export interface RetryPolicy {
+  /** Attempts including the first one */
+  maxAttempts: number;
+  /** Give up once waiting for the next attempt would exceed this budget */
+  maxElapsedMs: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatuses: number[];
+}
+
+/**
+ * GET parameters, e.g. `{ take: 10, culture: 'en-US' }`; values are sent as strings and undefined ones left out
+ */
+export type QueryParams = object;
+
+export interface RequestOptions {
+  /** Retry throttled and transient failures; on by default except for POST */
+  retry?: boolean;
+  /** Sent with the request, e.g. `If-Match` */
+  headers?: Record<string, string>;
+}
+
+interface SendOptions {
+  params?: QueryParams;
+  data?: string | Buffer;
+  /** Added to, or overriding, the authentication headers */
+  headers?: Record<string, string>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  maxElapsedMs: 30000,
+  baseDelayMs: 250,
+  maxDelayMs: 8000,
+  retryOnStatuses: [429, 502, 503, 504]
+};
+
+export interface ContentHubClientOptions {
+  /** Profile the other settings default to; CONTENT_HUB_PROFILE when omitted */
+  profile?: EnvironmentProfile;
+  baseUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  username?: string;
+  password?: string;
+  /** Sign in as a named identity with the password grant, instead of the username and password */
+  identity?: Identity;
+  grantType?: GrantType;
+  /** Initial refresh token, required for the `refresh_token` grant */
+  refreshToken?: string;
+  /** Renew tokens this many seconds before `expires_in` runs out */
+  tokenRefreshMarginSeconds?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+  /**
+   * Receives rate limit waits, retries and, with `callLog.stdout`, call summaries. Those messages
+   * are kept on the call log entries either way; by default they reach the console only when
+   * DEBUG_API_CALLS=true.
+   */
+  logger?: (message: string) => void;
+  /** Defaults to the limiter shared by every client and worker in the run, at the profile's rate */
+  rateLimiter?: RateLimiter;
+  /** State file of the default limiter (default CONTENT_HUB_RATE_LIMIT_STATE); clients naming one file share a budget */
+  rateLimitState?: string;
+  /** Refuse calls to mutating routes with ContentHubReadOnlyError (default the profile's flag) */
+  readOnly?: boolean;
+  /** Journal created resources are recorded in for the global teardown */
+  cleanupJournal?: string;
+  /**
+   * Validate responses against the contract catalog, or `false` to skip validation.
+   * Defaults to CONTENT_HUB_CONTRACTS (`throw`, `record` or `off`) and CONTENT_HUB_CONTRACT_VERSION.
+   */
+  contracts?: ContractOptions | false;
+  /** Record every request and response to, or replay them from, a cassette */
+  cassette?: Cassette;
+  /**
+   * Log every call, or `false` for no log.
+   * Defaults to DEBUG_API_CALLS, DEBUG_API_CALLS_FILE and DEBUG_API_CALLS_BODY_LIMIT.
+   */
+  callLog?: ApiCallLogOptions | false;
+}
+
+/**
+ * Contract options from the environment, against the current catalog unless configured. Without
+ * CONTENT_HUB_CONTRACTS, violations throw under the mock, whose responses the catalog describes
+ * exactly, and are recorded against an instance, so that a field it adds or renames is reported
+ * without failing unrelated tests.
+ */
+export function contractOptionsFromEnv(
+  defaultMode: ContractOptions['mode'] = process.env.CONTENT_HUB_MOCK === 'true' ? 'throw' : 'record'
+): ContractOptions | false {
+  const mode = process.env.CONTENT_HUB_CONTRACTS || defaultMode;
+  if (mode === 'off') {
+    return false;
+  }
+  if (mode !== 'throw' && mode !== 'record') {
+    throw new Error(`CONTENT_HUB_CONTRACTS must be 'throw', 'record' or 'off', got '${mode}'`);
+  }
+  return { mode, version: process.env.CONTENT_HUB_CONTRACT_VERSION || undefined };
+}
+
+/**
+ * Entity definition ids by name, and member definitions by definition name, as one account sees
+ * them. Shared by every client of the process signing in as that account, so that the definitions
+ * are read once per run and worker rather than once per test.
+ */
+interface DefinitionCache {
+  ids?: Promise<Map<string, number>>;
+  members: Map<string, Promise<MemberDefinition[] | undefined>>;
+}
+
+/** Definition caches by base URL, then by identity name ('' for the profile's own account) */
+const definitionCaches = new Map<string, Map<string, DefinitionCache>>();
+
+/**
+ * Forget the entity definitions looked up for contract validation on `baseUrl`, or on every base
+ * URL, e.g. after changing the definitions of a mock
+ */
+export function forgetEntityDefinitions(baseUrl?: string): void {
+  if (baseUrl === undefined) {
+    definitionCaches.clear();
+  } else {
+    definitionCaches.delete(baseUrl);
+  }
+}
+
+/**
+ * `params` as Playwright takes them: strings, without the undefined ones
+ */
+function searchParams(params: QueryParams): Record<string, string> {
+  const defined = Object.entries(params).filter(([, value]) => value !== undefined);
+  return Object.fromEntries(defined.map(([name, value]) => [name, String(value)]));
+}
+
+function requestSize({ data, form }: OutgoingRequest): number {
+  if (form) {
+    return Buffer.byteLength(new URLSearchParams(form).toString());
+  }
+  return data === undefined ? 0 : Buffer.byteLength(data);
+}
+
+async function responseSize(response: APIResponse): Promise<number> {
+  const contentLength = Number(response.headers()['content-length']);
+  if (Number.isInteger(contentLength)) {
+    return contentLength;
+  }
+  return (await response.body().catch(() => Buffer.alloc(0))).length;
+}
+
+/**
+ * Helper class for Content Hub API operations with rate limiting
+ */
+export class ContentHubAPIClient {
+  private request: APIRequestContext;
+  private readonly options: Required<
+    Omit<
+      ContentHubClientOptions,
+      'profile' | 'identity' | 'refreshToken' | 'rateLimiter' | 'rateLimitState' | 'cleanupJournal' | 'contracts' | 'cassette' | 'callLog'
+    >
+  > & {
+    refreshToken?: string;
+  };
+  private readonly retryPolicy: RetryPolicy;
+  private token: CachedToken | null = null;
+  private pendingToken: Promise<string> | null = null;
+  private readonly rateLimiter: RateLimiter;
+  private readonly RATE_LIMIT_WINDOW = 1000; // 1 second in milliseconds
+
+  readonly entities: EntitiesResource;
+  readonly jobs: JobsResource;
+  readonly selections: SelectionsResource;
+  readonly optionLists: OptionListsResource;
+  readonly entityDefinitions: EntityDefinitionsResource;
+  readonly uploads: UploadsResource;
+  readonly cultures: CulturesResource;
+  readonly assets: AssetsResource;
+  /** Entities, selections and options created through this client and not yet deleted */
+  readonly createdResources: CleanupRegistry;
+  /** Checks responses against the contract catalog; undefined when validation is off */
+  readonly contracts?: ContractValidator;
+  readonly cassette?: Cassette;
+  readonly profile: EnvironmentProfile;
+  /** Name of the identity this client signs in as; undefined for the profile's own account */
+  readonly identity?: string;
+  /** Structured log of the calls this client made; undefined when logging is off */
+  readonly callLog?: ApiCallLogger;
+  /** Latency, size and rate limit wait of every request this client sent */
+  readonly metrics = new ApiMetrics();
+
+  /**
+   * Options not given fall back to the environment profile (see environment-profiles.ts)
+   */
+  constructor(request: APIRequestContext, options: ContentHubClientOptions = {}) {
+    this.request = request;
+    this.profile = options.profile ?? resolveProfile();
+    const profile = this.profile;
+    const { identity, ...settings } = options;
+    this.options = {
+      baseUrl: profile.baseUrl,
+      clientId: profile.clientId,
+      clientSecret: profile.clientSecret,
+      username: profile.username,
+      password: profile.password,
+      grantType: profile.grantType,
+      refreshToken: profile.refreshToken,
+      readOnly: profile.readOnly,
+      tokenRefreshMarginSeconds: 60,
+      retryPolicy: {},
+      logger: process.env.DEBUG_API_CALLS === 'true' ? message => console.log(message) : () => {},
+      ...settings,
+      ...(identity && { username: identity.username, password: identity.password, grantType: 'password', refreshToken: undefined })
+    };
+    this.identity = identity?.name;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...this.options.retryPolicy };
+    this.rateLimiter =
+      options.rateLimiter ?? getSharedRateLimiter(profile.requestsPerSecond, this.RATE_LIMIT_WINDOW, options.rateLimitState);
+
+    this.entities = new EntitiesResource(this);
+    this.jobs = new JobsResource(this);
+    this.selections = new SelectionsResource(this);
+    this.optionLists = new OptionListsResource(this);
+    this.entityDefinitions = new EntityDefinitionsResource(this);
+    this.uploads = new UploadsResource(this);
+    this.cultures = new CulturesResource(this);
+    this.assets = new AssetsResource(this);
+    this.createdResources = new CleanupRegistry(
+      this.options.baseUrl,
+      'cleanupJournal' in options ? options.cleanupJournal : process.env.CONTENT_HUB_CLEANUP_JOURNAL
+    );
+    this.cassette = options.cassette;
+    const contracts = options.contracts ?? contractOptionsFromEnv();
+    if (contracts) {
+      this.contracts = new ContractValidator(contracts, definition => this.memberDefinitions(definition));
+    }
+    const callLog = options.callLog ?? apiCallLogOptionsFromEnv();
+    if (callLog) {
+      // Summaries were asked for, so they reach the console unless the caller brought a logger
+      this.callLog = new ApiCallLogger(callLog, options.logger ?? (message => console.log(message)));
+    }
+  }
+
+  /**
+   * Base URL of the instance this client talks to
+   */
+  get baseUrl(): string {
+    return this.options.baseUrl;
+  }
+
+  /**
+   * Whether calls to mutating routes are refused
+   */
+  get readOnly(): boolean {
+    return this.options.readOnly;
+  }
+
+  private log(message: string): void {
+    this.options.logger(message);
+  }
+
+  /**
+   * Log `message` and keep it with the call log entry of the call it is about
+   */
+  private note(notes: string[], message: string): void {
+    notes.push(message);
+    this.log(message);
+  }
+
+  /**
+   * Rate limiting implementation to respect API throttling.
+   * Waits for a slot in the sliding window shared with every other client and worker
+   * and resolves with the milliseconds spent waiting.
+   */
+  private async enforceRateLimit(notes: string[]): Promise<number> {
+    const start = Date.now();
+    await this.rateLimiter.acquire(timeToWait => {
+      this.note(notes, `Rate limit reached, waiting ${timeToWait}ms before next request...`);
+    });
+    return Date.now() - start;
+  }
+
+  /**
+   * Get OAuth token for authentication with rate limiting.
+   * Cached tokens are renewed ahead of expiry, preferring the refresh token when one was issued.
+   */
+  async getAuthToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.refreshAt) {
+      return this.token.accessToken;
+    }
+
+    // Concurrent callers share a single token request
+    if (!this.pendingToken) {
+      this.pendingToken = this.acquireToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  /**
+   * Drop the cached access token so the next call re-authenticates.
+   * The refresh token is kept and tried first.
+   */
+  invalidateToken(): void {
+    if (this.token) {
+      this.token = { ...this.token, refreshAt: 0 };
+    }
+  }
+
+  private async acquireToken(): Promise<string> {
+    const { grantType } = this.options;
+    const refreshToken = this.token?.refreshToken ?? (grantType === 'refresh_token' ? this.options.refreshToken : undefined);
+    let tokenData: AuthToken | undefined;
+
+    if (refreshToken) {
+      try {
+        tokenData = await this.requestToken('refresh_token', { refresh_token: refreshToken });
+      } catch (error) {
+        // A rejected refresh token can only be recovered from with the primary grant
+        if (grantType === 'refresh_token') {
+          throw error;
+        }
+      }
+    }
+
+    if (!tokenData) {
+      tokenData = grantType === 'client_credentials'
+        ? await this.requestToken('client_credentials', {})
+        : await this.requestToken('password', { username: this.options.username, password: this.options.password });
+    }
+
+    // Never renew earlier than half-way through the token lifetime
+    const lifetimeSeconds = tokenData.expires_in;
+    const renewAfterSeconds = Math.max(lifetimeSeconds - this.options.tokenRefreshMarginSeconds, lifetimeSeconds / 2);
+    this.token = {
+      accessToken: tokenData.access_token,
+      refreshToken: tokenData.refresh_token ?? refreshToken,
+      refreshAt: Date.now() + renewAfterSeconds * 1000
+    };
+
+    return this.token.accessToken;
+  }
+
+  private async requestToken(grantType: GrantType, grantFields: Record<string, string>): Promise<AuthToken> {
+    const response = await this.transmit(
+      {
+        method: 'POST',
+        endpoint: '/api/oauth/token',
+        form: {
+          grant_type: grantType,
+          client_id: this.options.clientId,
+          client_secret: this.options.clientSecret,
+          ...grantFields,
+          scope: 'api'
+        }
+      },
+      { 'Content-Type': 'application/x-www-form-urlencoded' }
+    );
+
+    if (response.status() !== 200) {
+      const body = await response.json().catch(() => undefined);
+      throw new ContentHubAuthError(
+        `Token request with '${grantType}' grant failed with status ${response.status()}`,
+        response.status(),
+        grantType,
+        body
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Get authenticated request headers
+   */
+  async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAuthToken();
+    return {
+      'X-Auth-Token': token,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Make authenticated GET request with rate limiting
+   */
+  async get(endpoint: string, params?: QueryParams, requestOptions?: RequestOptions) {
+    return this.send('GET', endpoint, { params }, requestOptions);
+  }
+
+  /**
+   * Make authenticated POST request with rate limiting.
+   * POSTs are not idempotent, so they are only retried when `retry: true` is passed.
+   */
+  async post(endpoint: string, data?: unknown, requestOptions?: RequestOptions) {
+    return this.send('POST', endpoint, { data: JSON.stringify(data) }, requestOptions);
+  }
+
+  /**
+   * Make authenticated PUT request with rate limiting.
+   * A Buffer is sent as is with an `application/octet-stream` content type.
+   */
+  async put(endpoint: string, data?: unknown, requestOptions?: RequestOptions) {
+    const options: SendOptions = Buffer.isBuffer(data)
+      ? { data, headers: { 'Content-Type': 'application/octet-stream' } }
+      : { data: JSON.stringify(data) };
+    return this.send('PUT', endpoint, options, requestOptions);
+  }
+
+  /**
+   * Make authenticated DELETE request with rate limiting
+   */
+  async delete(endpoint: string, requestOptions?: RequestOptions) {
+    return this.send('DELETE', endpoint, {}, requestOptions);
+  }
+
+  /**
+   * Iterate over every item of a paged endpoint, fetching `pageSize` items at a time:
+   * `for await (const entity of client.iterate('/api/entities/query', { query }))`.
+   * `/query` endpoints and scrolls receive `query` as a POST body, other endpoints as GET parameters.
+   */
+  iterate<T = unknown>(
+    endpoint: string,
+    query?: object,
+    options?: IterateOptions<T>
+  ): AsyncGenerator<T, void, undefined> {
+    return paginate<T>(this, endpoint, query, options);
+  }
+
+  /**
+   * Delete everything this client created, newest first. Call from afterEach.
+   */
+  async deleteCreatedResources(): Promise<CleanupResult> {
+    return this.createdResources.deleteAll(this);
+  }
+
+  private async send(
+    method: HttpMethod,
+    endpoint: string,
+    options: SendOptions,
+    requestOptions: RequestOptions = {}
+  ): Promise<APIResponse> {
+    if (this.readOnly && isMutatingRequest(method, endpoint)) {
+      throw new ContentHubReadOnlyError(
+        `Refusing ${method} ${endpoint}: profile '${this.profile.name}' is read-only`,
+        this.profile.name,
+        { method, endpoint }
+      );
+    }
+    if (requestOptions.headers) {
+      options = { ...options, headers: { ...options.headers, ...requestOptions.headers } };
+    }
+    const response = await this.sendWithRetry(method, endpoint, options, requestOptions);
+    await this.createdResources.recordResponse(method, endpoint, response);
+    await this.contracts?.check(method, endpoint, response);
+    return response;
+  }
+
+  /**
+   * Member definitions of an entity definition, looked up by name for contract validation
+   */
+  private memberDefinitions(definition: string): Promise<MemberDefinition[] | undefined> {
+    let identities = definitionCaches.get(this.options.baseUrl);
+    if (!identities) {
+      identities = new Map();
+      definitionCaches.set(this.options.baseUrl, identities);
+    }
+    // Identities may see different definitions, so none fills the cache of another
+    let cache = identities.get(this.identity ?? '');
+    if (!cache) {
+      cache = { members: new Map() };
+      identities.set(this.identity ?? '', cache);
+    }
+    const shared = cache;
+    if (!shared.ids) {
+      shared.ids = (async () => {
+        const ids = new Map<string, number>();
+        for await (const { id, name } of this.iterate<EntityDefinition>('/api/entitydefinitions')) {
+          ids.set(name, id);
+        }
+        return ids;
+      })();
+      // A failed lookup is tried again by the next caller
+      shared.ids.catch(() => {
+        shared.ids = undefined;
+      });
+    }
+    let members = shared.members.get(definition);
+    if (!members) {
+      const ids = shared.ids;
+      members = (async () => {
+        const id = (await ids).get(definition);
+        return id === undefined ? undefined : (await this.entityDefinitions.members(id)).items;
+      })();
+      shared.members.set(definition, members);
+      members.catch(() => shared.members.delete(definition));
+    }
+    return members;
+  }
+
+  /**
+   * Send a request, retrying throttled (429) and transient (5xx, network) failures
+   * with Retry-After or jittered exponential backoff until the retry policy is exhausted
+   */
+  private async sendWithRetry(
+    method: HttpMethod,
+    endpoint: string,
+    options: SendOptions,
+    requestOptions: RequestOptions
+  ): Promise<APIResponse> {
+    const retryEnabled = requestOptions.retry ?? method !== 'POST';
+    const { maxAttempts, maxElapsedMs, retryOnStatuses } = this.retryPolicy;
+    const startTime = Date.now();
+    let notes: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      let response: APIResponse | undefined;
+      let failure: unknown;
+      try {
+        response = await this.sendAuthenticated(method, endpoint, options, attempt - 1, notes);
+      } catch (error) {
+        // A cassette answers the same way however often it is asked
+        if (error instanceof ContentHubAuthError || error instanceof ContentHubCassetteError) {
+          throw error;
+        }
+        failure = error;
+      }
+
+      const retryable = response ? retryOnStatuses.includes(response.status()) : true;
+      const delay = this.retryDelay(attempt, response);
+      if (!retryEnabled || !retryable || attempt >= maxAttempts || Date.now() - startTime + delay > maxElapsedMs) {
+        if (response) {
+          return response;
+        }
+        throw failure;
+      }
+
+      const reason = response ? `status ${response.status()}` : `error "${(failure as Error).message}"`;
+      // Kept with the entry of the attempt it announces
+      notes = [];
+      this.note(notes, `Retrying ${method} ${endpoint} after ${reason} (attempt ${attempt + 1}/${maxAttempts}), waiting ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Delay before the next attempt: the server's Retry-After when given, otherwise
+   * exponential backoff with equal jitter
+   */
+  private retryDelay(attempt: number, response?: APIResponse): number {
+    const retryAfter = response?.headers()['retry-after'];
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) {
+        return Math.max(0, Math.ceil(delay));
+      }
+    }
+
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  /**
+   * Send an authenticated request, re-authenticating and retrying once when the token is rejected
+   */
+  private async sendAuthenticated(
+    method: HttpMethod,
+    endpoint: string,
+    options: SendOptions,
+    retry: number,
+    notes: string[] = []
+  ): Promise<APIResponse> {
+    const dispatch = async (dispatchNotes: string[]) => {
+      // Resolve the token first so the rate limit slot is taken right before sending
+      const headers = { ...(await this.getAuthHeaders()), ...options.headers };
+      return this.transmit({ method, endpoint, params: options.params, data: options.data }, headers, retry, dispatchNotes);
+    };
+
+    const response = await dispatch(notes);
+    if (response.status() !== 401) {
+      return response;
+    }
+
+    this.invalidateToken();
+    return dispatch([]);
+  }
+
+  /**
+   * Put a request on the wire within the rate limit, recording it to the cassette, or
+   * answer it from the cassette when replaying. `retry` and `notes` only label the call log entry.
+   */
+  private async transmit(
+    outgoing: OutgoingRequest,
+    headers: Record<string, string>,
+    retry = 0,
+    notes: string[] = []
+  ): Promise<APIResponse> {
+    const url = `${this.options.baseUrl}${outgoing.endpoint}`;
+    const replayed = this.cassette?.mode === 'replay';
+    const rateLimitWaitMs = replayed ? 0 : await this.enforceRateLimit(notes);
+    const sentAt = Date.now();
+    const observe = async (outcome: { response?: APIResponse; error?: unknown }) => {
+      const durationMs = Date.now() - sentAt;
+      this.metrics.record({
+        method: outgoing.method,
+        endpoint: endpointTemplate(outgoing.endpoint),
+        status: outcome.response?.status(),
+        durationMs,
+        rateLimitWaitMs,
+        requestBytes: requestSize(outgoing),
+        responseBytes: outcome.response ? await responseSize(outcome.response) : 0,
+        retry
+      });
+      await this.callLog?.record({ outgoing, url, headers, sentAt, durationMs, rateLimitWaitMs, retry, replayed, notes, ...outcome });
+    };
+
+    let response: APIResponse;
+    try {
+      response = replayed
+        ? this.cassette!.replay(outgoing, url)
+        : await this.request.fetch(url, {
+            method: outgoing.method,
+            headers,
+            params: outgoing.params && searchParams(outgoing.params),
+            data: outgoing.data,
+            form: outgoing.form
+          });
+    } catch (error) {
+      await observe({ error });
+      throw error;
+    }
+    await observe({ response });
+    if (!replayed) {
+      await this.cassette?.record(outgoing, response);
+    }
+    return response;
+  }
+
+  /**
+   * Execute multiple requests sequentially with rate limiting
+   * Useful for operations that need to maintain order or respect strict rate limits
+   */
+  async executeSequentially<T>(
+    operations: (() => Promise<T>)[]
+  ): Promise<T[]> {
+    const results: T[] = [];
+    
+    for (const operation of operations) {
+      const result = await operation();
+      results.push(result);
+    }
+    
+    return results;
+  }
+
+  /**
+   * Reset rate limiting counters (useful for testing).
+   * The limiter is shared, so this frees the budget for every client in the run.
+   */
+  async resetRateLimit(): Promise<void> {
+    await this.rateLimiter.reset();
+  }
+}
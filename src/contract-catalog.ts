@@ -0,0 +1,246 @@
+import type { HttpMethod } from './client';
+
+/**
+ * Versioned catalog of response contracts for the Content Hub endpoints the suite relies on.
+ *
+ * Schemas are a subset of JSON Schema: `type`, `properties`, `required`, `additionalProperties`,
+ * `items`, `enum`, `format: 'date-time'`, `minimum` and `$ref` to another schema of the same
+ * catalog. Fields may be added by the API without breaking a contract; renaming, retyping or
+ * dropping a required field does. A breaking change gets a new catalog version rather than an
+ * edit to an existing one.
+ */
+
+export type JsonType = 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Schema for properties not listed in `properties`; `false` forbids them (default allowed) */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: 'date-time';
+  minimum?: number;
+  /** Name of another schema in the catalog */
+  $ref?: string;
+}
+
+/**
+ * Successful responses of `method` on endpoints matching `pattern` follow `schema`
+ */
+export interface ContractRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  schema: string;
+}
+
+export interface ContractCatalog {
+  version: string;
+  schemas: Record<string, JsonSchema>;
+  routes: ContractRoute[];
+}
+
+const id: JsonSchema = { type: 'integer', minimum: 1 };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+
+const pageOf = (schema: string): JsonSchema => ({
+  type: 'object',
+  required: ['items', 'total_items'],
+  properties: {
+    items: { type: 'array', items: { $ref: schema } },
+    total_items: { type: 'integer', minimum: 0 }
+  }
+});
+
+const V1: ContractCatalog = {
+  version: 'v1',
+  schemas: {
+    Entity: {
+      type: 'object',
+      required: ['id', 'identifier', 'properties'],
+      properties: {
+        id,
+        identifier: { type: 'string' },
+        definition: { type: 'string' },
+        culture: { type: ['string', 'null'] },
+        properties: { type: 'object', additionalProperties: { type: 'array', items: { $ref: 'PropertyValue' } } },
+        relations: { type: 'object', additionalProperties: { type: 'array', items: id } },
+        created_on: dateTime,
+        modified_on: dateTime,
+        version: { type: 'integer', minimum: 1 }
+      }
+    },
+    PropertyValue: {
+      type: 'object',
+      required: ['culture', 'value'],
+      properties: {
+        culture: { type: ['string', 'null'] }
+      }
+    },
+    EntityPage: pageOf('Entity'),
+    EntityScrollPage: {
+      ...pageOf('Entity'),
+      properties: { ...pageOf('Entity').properties, scroll_id: { type: 'string' } }
+    },
+    Job: {
+      type: 'object',
+      required: ['id', 'status'],
+      properties: {
+        id,
+        type: { type: 'string' },
+        status: { enum: ['Pending', 'Running', 'Completed', 'Failed', 'Cancelled'] },
+        created_on: dateTime,
+        modified_on: dateTime,
+        status_message: { type: 'string' }
+      }
+    },
+    JobPage: pageOf('Job'),
+    JobReference: {
+      type: 'object',
+      required: ['job_id'],
+      properties: { job_id: id }
+    },
+    Selection: {
+      type: 'object',
+      required: ['id', 'name', 'entities'],
+      properties: {
+        id,
+        name: { type: 'string' },
+        query: { type: 'string' },
+        entities: { type: 'array', items: id },
+        created_on: dateTime
+      }
+    },
+    SelectionPage: pageOf('Selection'),
+    Option: {
+      type: 'object',
+      required: ['key', 'labels'],
+      properties: {
+        key: { type: 'string' },
+        labels: { type: 'object', additionalProperties: { type: 'string' } }
+      }
+    },
+    OptionList: {
+      type: 'object',
+      required: ['id', 'options'],
+      properties: {
+        id,
+        name: { type: 'string' },
+        options: { type: 'array', items: { $ref: 'Option' } }
+      }
+    },
+    OptionListPage: pageOf('OptionList'),
+    EntityDefinition: {
+      type: 'object',
+      required: ['id', 'name'],
+      properties: {
+        id,
+        name: { type: 'string' }
+      }
+    },
+    EntityDefinitionPage: pageOf('EntityDefinition'),
+    MemberDefinition: {
+      type: 'object',
+      required: ['name', 'type'],
+      properties: {
+        name: { type: 'string' },
+        type: { type: 'string' },
+        is_multilanguage: { type: 'boolean' },
+        is_required: { type: 'boolean' },
+        option_list: { type: 'string' },
+        relation: {
+          type: 'object',
+          required: ['associated_definition', 'cardinality', 'role'],
+          properties: {
+            associated_definition: { type: 'string' },
+            cardinality: { enum: ['OneToMany', 'ManyToMany'] },
+            role: { enum: ['Parent', 'Child'] }
+          }
+        }
+      }
+    },
+    MemberDefinitionPage: pageOf('MemberDefinition'),
+    EntityRelation: {
+      type: 'object',
+      required: ['name', 'associated_definition', 'cardinality', 'role', 'related'],
+      properties: {
+        name: { type: 'string' },
+        associated_definition: { type: 'string' },
+        cardinality: { enum: ['OneToMany', 'ManyToMany'] },
+        role: { enum: ['Parent', 'Child'] },
+        related: { type: 'array', items: id }
+      }
+    },
+    EntityRelationPage: pageOf('EntityRelation'),
+    Culture: {
+      type: 'object',
+      required: ['name', 'is_default'],
+      properties: {
+        name: { type: 'string' },
+        is_default: { type: 'boolean' }
+      }
+    },
+    CulturePage: pageOf('Culture'),
+    Rendition: {
+      type: 'object',
+      required: ['name', 'content_type', 'href'],
+      properties: {
+        name: { type: 'string' },
+        content_type: { type: 'string' },
+        filesize: { type: 'integer', minimum: 0 },
+        href: { type: 'string' }
+      }
+    },
+    RenditionPage: pageOf('Rendition'),
+    PublicLink: {
+      type: 'object',
+      required: ['id', 'asset_id', 'rendition', 'status', 'url'],
+      properties: {
+        id,
+        asset_id: id,
+        rendition: { type: 'string' },
+        status: { enum: ['Active', 'Revoked'] },
+        url: { type: 'string' },
+        created_on: dateTime,
+        expires_on: dateTime,
+        revoked_on: dateTime
+      }
+    },
+    PublicLinkPage: pageOf('PublicLink')
+  },
+  routes: [
+    { method: 'GET', pattern: /^\/api\/entities(\/query|\/search)?$/, schema: 'EntityPage' },
+    { method: 'POST', pattern: /^\/api\/entities\/query$/, schema: 'EntityPage' },
+    { method: 'POST', pattern: /^\/api\/entities\/scroll$/, schema: 'EntityScrollPage' },
+    { method: 'POST', pattern: /^\/api\/entities$/, schema: 'Entity' },
+    { method: 'GET', pattern: /^\/api\/entities\/\d+$/, schema: 'Entity' },
+    { method: 'PUT', pattern: /^\/api\/entities\/\d+$/, schema: 'Entity' },
+    { method: 'GET', pattern: /^\/api\/entities\/\d+\/relations$/, schema: 'EntityRelationPage' },
+    { method: 'GET', pattern: /^\/api\/entities\/\d+\/relations\/[^/]+$/, schema: 'EntityRelation' },
+    { method: 'PUT', pattern: /^\/api\/entities\/\d+\/relations\/[^/]+$/, schema: 'EntityRelation' },
+    { method: 'GET', pattern: /^\/api\/entities\/\d+\/renditions$/, schema: 'RenditionPage' },
+    { method: 'GET', pattern: /^\/api\/entities\/\d+\/publiclinks$/, schema: 'PublicLinkPage' },
+    { method: 'POST', pattern: /^\/api\/entities\/bulk$/, schema: 'JobReference' },
+    { method: 'GET', pattern: /^\/api\/jobs$/, schema: 'JobPage' },
+    { method: 'GET', pattern: /^\/api\/jobs\/\d+$/, schema: 'Job' },
+    { method: 'POST', pattern: /^\/api\/jobs\/\d+\/cancel$/, schema: 'Job' },
+    { method: 'GET', pattern: /^\/api\/selections$/, schema: 'SelectionPage' },
+    { method: 'POST', pattern: /^\/api\/selections$/, schema: 'Selection' },
+    { method: 'GET', pattern: /^\/api\/selections\/\d+$/, schema: 'Selection' },
+    { method: 'POST', pattern: /^\/api\/selections\/\d+\/entities$/, schema: 'Selection' },
+    { method: 'GET', pattern: /^\/api\/optionlists$/, schema: 'OptionListPage' },
+    { method: 'GET', pattern: /^\/api\/optionlists\/\d+$/, schema: 'OptionList' },
+    { method: 'POST', pattern: /^\/api\/optionlists\/\d+\/options$/, schema: 'Option' },
+    { method: 'GET', pattern: /^\/api\/entitydefinitions$/, schema: 'EntityDefinitionPage' },
+    { method: 'GET', pattern: /^\/api\/entitydefinitions\/\d+$/, schema: 'EntityDefinition' },
+    { method: 'GET', pattern: /^\/api\/entitydefinitions\/\d+\/members$/, schema: 'MemberDefinitionPage' },
+    { method: 'GET', pattern: /^\/api\/cultures$/, schema: 'CulturePage' },
+    { method: 'POST', pattern: /^\/api\/publiclinks$/, schema: 'PublicLink' },
+    { method: 'GET', pattern: /^\/api\/publiclinks\/\d+$/, schema: 'PublicLink' }
+  ]
+};
+
+export const CONTRACT_CATALOGS: Record<string, ContractCatalog> = { v1: V1 };
+
+export const CURRENT_CONTRACT_VERSION = 'v1';
@@ -0,0 +1,342 @@
+import { APIResponse } from '@playwright/test';
+import type { HttpMethod } from './client';
+import { CONTRACT_CATALOGS, ContractCatalog, CURRENT_CONTRACT_VERSION, JsonSchema, JsonType } from './contract-catalog';
+import { ContentHubContractError } from './errors';
+import { Entity, MemberDefinition } from './models';
+
+/**
+ * Validation of API responses against the contract catalog.
+ *
+ * Successful responses of catalogued routes are checked against their schema. Every entity in
+ * them is also checked against the member definitions of its entity definition: undeclared
+ * properties, values of the wrong type, cultures on members that are not multilanguage (or
+ * missing on ones that are) and required members without a value.
+ */
+
+/**
+ * One difference between a response and its contract
+ */
+export interface ContractViolation {
+  /** Location in the body, e.g. `$.items[0].properties.Title[0].culture` */
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ContractReport {
+  method: HttpMethod;
+  endpoint: string;
+  /** Schema and catalog version, e.g. `Entity@v1` */
+  contract: string;
+  violations: ContractViolation[];
+}
+
+export interface ContractOptions {
+  /** Catalog version to validate against (default the current one) */
+  version?: string;
+  /** `throw` raises ContentHubContractError; `record` only collects reports (default `throw`) */
+  mode?: 'throw' | 'record';
+}
+
+/**
+ * Member definitions of the entity definition called `definition`, or undefined when there is none
+ */
+export type MemberLookup = (definition: string) => Promise<MemberDefinition[] | undefined>;
+
+type RefVisitor = (ref: string, value: unknown, path: string) => void;
+
+const JSON_TYPES_OF_MEMBERS: Record<string, JsonType> = {
+  String: 'string',
+  Text: 'string',
+  DateTime: 'string',
+  DateTimeOffset: 'string',
+  Integer: 'integer',
+  Long: 'integer',
+  Decimal: 'number',
+  Double: 'number',
+  Boolean: 'boolean'
+};
+
+const MAX_VALUE_LENGTH = 60;
+
+function typeOf(value: unknown): JsonType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') return typeof value as JsonType;
+  return 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isDateTime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * A value as shown in a diff: truncated JSON and its type, or `missing`
+ */
+function describe(value: unknown): string {
+  if (value === undefined) {
+    return 'missing';
+  }
+  const json = JSON.stringify(value);
+  const shown = json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH - 1)}…` : json;
+  return `${shown} (${typeOf(value)})`;
+}
+
+function describeSchema(schema: JsonSchema): string {
+  if (schema.$ref) return schema.$ref;
+  if (schema.enum) return `one of ${schema.enum.map(value => JSON.stringify(value)).join(' | ')}`;
+  const types = ([] as JsonType[]).concat(schema.type ?? []);
+  const described = types.length > 0 ? types.join(' | ') : 'any value';
+  return schema.format ? `${described} (${schema.format})` : described;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Violations of `value` against `schema`. `visit` is called for every value validated through a `$ref`.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  catalog: ContractCatalog,
+  path = '$',
+  visit?: RefVisitor
+): ContractViolation[] {
+  if (schema.$ref) {
+    const target = catalog.schemas[schema.$ref];
+    if (!target) {
+      throw new Error(`Contract catalog ${catalog.version} has no schema '${schema.$ref}'`);
+    }
+    const violations = validateSchema(value, target, catalog, path, visit);
+    visit?.(schema.$ref, value, path);
+    return violations;
+  }
+
+  const mismatch = (): ContractViolation[] => [{ path, expected: describeSchema(schema), actual: describe(value) }];
+  if (schema.enum && !schema.enum.includes(value)) {
+    return mismatch();
+  }
+  const types = ([] as JsonType[]).concat(schema.type ?? []);
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return mismatch();
+  }
+  if (schema.format === 'date-time' && typeof value === 'string' && !isDateTime(value)) {
+    return mismatch();
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    return [{ path, expected: `>= ${schema.minimum}`, actual: describe(value) }];
+  }
+
+  const violations: ContractViolation[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => violations.push(...validateSchema(item, schema.items!, catalog, childPath(path, index), visit)));
+  } else if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    // Contract fields in contract order, then whatever else the body has
+    const keys = new Set([...Object.keys(schema.properties ?? {}), ...(schema.required ?? []), ...Object.keys(object)]);
+    for (const key of keys) {
+      const child = object[key];
+      if (child === undefined) {
+        if (schema.required?.includes(key)) {
+          const expected = schema.properties?.[key] ? describeSchema(schema.properties[key]) : 'a value';
+          violations.push({ path: childPath(path, key), expected, actual: 'missing' });
+        }
+        continue;
+      }
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties ?? true;
+      if (propertySchema === false) {
+        violations.push({ path: childPath(path, key), expected: 'no such field', actual: describe(child) });
+      } else if (propertySchema !== true) {
+        violations.push(...validateSchema(child, propertySchema, catalog, childPath(path, key), visit));
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Violations of an entity's properties against the member definitions of its entity definition
+ */
+export function validateEntityMembers(entity: Entity, members: MemberDefinition[], path = '$'): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const propertiesPath = childPath(path, 'properties');
+  const properties = entity.properties ?? {};
+  const byName = new Map(members.map(member => [member.name, member]));
+
+  for (const [name, values] of Object.entries(properties)) {
+    const propertyPath = childPath(propertiesPath, name);
+    const member = byName.get(name);
+    if (!member) {
+      violations.push({ path: propertyPath, expected: `no such member of ${entity.definition}`, actual: describe(values) });
+      continue;
+    }
+    if (!Array.isArray(values)) {
+      continue;
+    }
+    values.forEach((entry, index) => {
+      const entryPath = childPath(propertyPath, index);
+      if (member.is_multilanguage && typeof entry?.culture !== 'string') {
+        violations.push({ path: childPath(entryPath, 'culture'), expected: 'culture (member is multilanguage)', actual: describe(entry?.culture) });
+      }
+      if (!member.is_multilanguage && entry?.culture !== null && entry?.culture !== undefined) {
+        violations.push({ path: childPath(entryPath, 'culture'), expected: 'null (member is not multilanguage)', actual: describe(entry.culture) });
+      }
+      const type = JSON_TYPES_OF_MEMBERS[member.type];
+      const value = entry?.value;
+      if (!type || value === null || value === undefined) {
+        return;
+      }
+      const isDate = member.type.startsWith('DateTime');
+      if (!matchesType(value, type) || (isDate && !isDateTime(value as string))) {
+        violations.push({ path: childPath(entryPath, 'value'), expected: `${type} (${member.type} member)`, actual: describe(value) });
+      }
+    });
+  }
+
+  for (const member of members) {
+    const values = properties[member.name];
+    if (member.is_required && !values?.some(entry => entry?.value !== null && entry?.value !== undefined)) {
+      violations.push({ path: childPath(propertiesPath, member.name), expected: `${member.type} (required member)`, actual: 'missing' });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Violations as a diff: each path followed by the expected (-) and actual (+) value
+ */
+export function formatViolations(violations: ContractViolation[]): string {
+  return violations.map(({ path, expected, actual }) => `  ${path}\n    - ${expected}\n    + ${actual}`).join('\n');
+}
+
+export function formatContractReport({ method, endpoint, contract, violations }: ContractReport): string {
+  const count = violations.length === 1 ? '1 violation' : `${violations.length} violations`;
+  return `${method} ${endpoint} response violates contract ${contract} (${count}):\n${formatViolations(violations)}`;
+}
+
+/**
+ * Checks responses against one version of the contract catalog
+ */
+export class ContractValidator {
+  readonly catalog: ContractCatalog;
+  readonly mode: 'throw' | 'record';
+  /** Reports of violations found in `record` mode */
+  readonly reports: ContractReport[] = [];
+  /**
+   * Why the members of a definition could not be looked up (a 403 for a restricted identity, say),
+   * by definition name. Entities of those definitions are checked against the catalog only.
+   */
+  readonly unverified = new Map<string, string>();
+  private readonly members = new Map<string, Promise<MemberDefinition[] | undefined>>();
+
+  constructor(
+    options: ContractOptions = {},
+    private readonly lookupMembers?: MemberLookup
+  ) {
+    const version = options.version ?? CURRENT_CONTRACT_VERSION;
+    const catalog = CONTRACT_CATALOGS[version];
+    if (!catalog) {
+      throw new Error(`Unknown contract catalog version '${version}' (known: ${Object.keys(CONTRACT_CATALOGS).join(', ')})`);
+    }
+    this.catalog = catalog;
+    this.mode = options.mode ?? 'throw';
+  }
+
+  /**
+   * Name of the schema successful responses of `method` on `endpoint` follow, if catalogued
+   */
+  contractFor(method: HttpMethod, endpoint: string): string | undefined {
+    const path = endpoint.split('?')[0];
+    return this.catalog.routes.find(route => route.method === method && route.pattern.test(path))?.schema;
+  }
+
+  /**
+   * Violations of `body` against a schema of the catalog, including member checks of the entities in it
+   */
+  async validate(schema: string, body: unknown): Promise<ContractViolation[]> {
+    const entities: { entity: Entity; path: string }[] = [];
+    const violations = validateSchema(body, { $ref: schema }, this.catalog, '$', (ref, value, path) => {
+      if (ref === 'Entity' && typeOf(value) === 'object') {
+        entities.push({ entity: value as Entity, path });
+      }
+    });
+
+    if (this.lookupMembers) {
+      for (const { entity, path } of entities) {
+        if (typeof entity.definition !== 'string') {
+          continue;
+        }
+        let members: MemberDefinition[] | undefined;
+        try {
+          members = await this.membersOf(entity.definition);
+        } catch (error) {
+          this.unverified.set(entity.definition, (error as Error).message);
+          continue;
+        }
+        if (members) {
+          violations.push(...validateEntityMembers(entity, members, path));
+        } else {
+          violations.push({ path: childPath(path, 'definition'), expected: 'a known entity definition', actual: describe(entity.definition) });
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Validate a response of a catalogued route. Error responses are left to the caller.
+   */
+  async check(method: HttpMethod, endpoint: string, response: APIResponse): Promise<void> {
+    const schema = this.contractFor(method, endpoint);
+    if (!schema || response.status() < 200 || response.status() >= 300) {
+      return;
+    }
+
+    let body: unknown;
+    let violations: ContractViolation[];
+    try {
+      body = await response.json();
+      violations = await this.validate(schema, body);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      violations = [{ path: '$', expected: 'JSON body', actual: describe(await response.text()) }];
+    }
+    if (violations.length === 0) {
+      return;
+    }
+
+    const report: ContractReport = { method, endpoint, contract: `${schema}@${this.catalog.version}`, violations };
+    if (this.mode === 'record') {
+      this.reports.push(report);
+      return;
+    }
+    throw new ContentHubContractError(formatContractReport(report), report.contract, violations, response.status(), body, {
+      method,
+      endpoint
+    });
+  }
+
+  /**
+   * A failed lookup stays failed for this validator; the shared cache behind `lookupMembers`
+   * tries it again for the next client
+   */
+  private membersOf(definition: string): Promise<MemberDefinition[] | undefined> {
+    let members = this.members.get(definition);
+    if (!members) {
+      members = this.lookupMembers!(definition);
+      this.members.set(definition, members);
+    }
+    return members;
+  }
+}
@@ -0,0 +1,50 @@
+import { APIResponse } from '@playwright/test';
+import { createHash } from 'crypto';
+
+/**
+ * Downloaded files (renditions, originals, public links) and what their response said about them.
+ *
+ * Playwright hands a response body over in one piece, so a download is not streamed: it is
+ * buffered in memory as a whole, in `body`.
+ */
+
+export interface Download {
+  /** Media type without parameters, e.g. `image/png` */
+  contentType: string;
+  /** Bytes received */
+  size: number;
+  /** Content-Length, when sent */
+  declaredSize?: number;
+  /** From Content-Disposition, when sent */
+  filename?: string;
+  /** The whole file, read into memory */
+  body: Buffer;
+}
+
+/**
+ * The download a successful response carries
+ */
+export async function readDownload(response: APIResponse): Promise<Download> {
+  const headers = response.headers();
+  const body = await response.body();
+  const contentLength = Number(headers['content-length']);
+  const filename = headers['content-disposition']?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1];
+  return {
+    contentType: (headers['content-type'] ?? 'application/octet-stream').split(';')[0].trim(),
+    size: body.length,
+    ...(Number.isInteger(contentLength) && { declaredSize: contentLength }),
+    ...(filename !== undefined && { filename: decodeURIComponent(filename) }),
+    body
+  };
+}
+
+/**
+ * Hex SHA-256 of everything a stream or list of chunks yields, e.g. `sha256Hex(createReadStream(path))`
+ */
+export async function sha256Hex(source: AsyncIterable<Buffer | string> | Iterable<Buffer | string>): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of source) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
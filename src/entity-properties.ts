@@ -0,0 +1,56 @@
+import { EntityProperties, PropertyValue } from './models';
+
+/**
+ * Culture-aware access to entity property values.
+ *
+ * Multilanguage members hold one value per culture (`{ culture: 'fr-FR', value }`); other
+ * members hold a single value with culture `null`. These helpers read and write one culture
+ * without disturbing the others, so tests stop indexing `properties.Title[0]` and assuming
+ * the first value is the one they wrote.
+ */
+
+/**
+ * Value of `member` in `culture`, or its culture-less value when `culture` is null; undefined when there is none
+ */
+export function getPropertyValue<T = unknown>(
+  properties: EntityProperties | undefined,
+  member: string,
+  culture: string | null = null
+): T | undefined {
+  return properties?.[member]?.find(entry => (entry.culture ?? null) === culture)?.value as T | undefined;
+}
+
+/**
+ * Copy of `properties` with the value of `member` in `culture` set, leaving its other cultures as they were
+ */
+export function setPropertyValue(
+  properties: EntityProperties | undefined,
+  member: string,
+  value: unknown,
+  culture: string | null = null
+): EntityProperties {
+  const others = (properties?.[member] ?? []).filter(entry => (entry.culture ?? null) !== culture);
+  const entry: PropertyValue = { culture, value };
+  return { ...properties, [member]: [...others, entry] };
+}
+
+/**
+ * Cultures holding a value of `member`, or of any member, in the order they first appear
+ */
+export function propertyCultures(properties: EntityProperties | undefined, member?: string): string[] {
+  const values = member === undefined ? Object.values(properties ?? {}).flat() : (properties?.[member] ?? []);
+  return [...new Set(values.map(entry => entry.culture).filter((culture): culture is string => typeof culture === 'string'))];
+}
+
+/**
+ * Value of `member` in `culture`, or in `fallbackCulture` when that has no translation. This is
+ * what the instance returns for an entity read in `culture`.
+ */
+export function localizedValue<T = unknown>(
+  properties: EntityProperties | undefined,
+  member: string,
+  culture: string,
+  fallbackCulture: string
+): T | undefined {
+  return getPropertyValue<T>(properties, member, culture) ?? getPropertyValue<T>(properties, member, fallbackCulture);
+}
@@ -0,0 +1,113 @@
+import type { HttpMethod } from './client';
+import { GrantType } from './models';
+
+/**
+ * Named environment profiles (dev, qa, staging, prod) selected with CONTENT_HUB_PROFILE.
+ *
+ * A profile reads its settings from CONTENT_HUB_<PROFILE>_* variables, e.g.
+ * CONTENT_HUB_PROD_BASE_URL, so one `.env` can describe every instance. A named profile never
+ * falls back to the unqualified CONTENT_HUB_BASE_URL: selecting `dev` cannot end up pointing at
+ * whatever instance the plain variables name. Without CONTENT_HUB_PROFILE the plain variables
+ * are used as before.
+ *
+ * Read-only profiles (prod by default) make the client refuse every call to a mutating route.
+ */
+
+export type ProfileName = 'dev' | 'qa' | 'staging' | 'prod';
+
+export interface EnvironmentProfile {
+  /** Profile name, or `default` when CONTENT_HUB_PROFILE is not set */
+  name: ProfileName | 'default';
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  username: string;
+  password: string;
+  grantType: GrantType;
+  refreshToken?: string;
+  /** Requests per second shared by every client and worker in the run */
+  requestsPerSecond: number;
+  /** Refuse POST, PUT and DELETE calls to mutating routes */
+  readOnly: boolean;
+}
+
+export const PROFILE_NAMES: readonly ProfileName[] = ['dev', 'qa', 'staging', 'prod'];
+
+export const DEFAULT_REQUESTS_PER_SECOND = 13;
+
+/** Settings of a profile CONTENT_HUB_<PROFILE>_RATE_LIMIT and _READ_ONLY do not override */
+const PROFILE_DEFAULTS: Record<ProfileName | 'default', Pick<EnvironmentProfile, 'requestsPerSecond' | 'readOnly'>> = {
+  default: { requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND, readOnly: false },
+  dev: { requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND, readOnly: false },
+  qa: { requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND, readOnly: false },
+  staging: { requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND, readOnly: false },
+  prod: { requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND, readOnly: true }
+};
+
+/** Settings naming the instance and the account used on it */
+export const CONNECTION_SETTINGS = ['BASE_URL', 'CLIENT_ID', 'CLIENT_SECRET', 'USERNAME', 'PASSWORD'] as const;
+
+/** POSTs that only read: queries and scrolls */
+const READING_POSTS = [/^\/api\/entities\/query$/, /^\/api\/entities\/scroll$/];
+
+/**
+ * Variable holding `setting` for a profile: CONTENT_HUB_PROD_BASE_URL, or CONTENT_HUB_BASE_URL without one
+ */
+export function profileVariable(profile: string | undefined, setting: string): string {
+  return profile ? `CONTENT_HUB_${profile.toUpperCase()}_${setting}` : `CONTENT_HUB_${setting}`;
+}
+
+/**
+ * The profile named by CONTENT_HUB_PROFILE (or `name`), with its settings read from `env`
+ */
+export function resolveProfile(
+  name: string | undefined = process.env.CONTENT_HUB_PROFILE,
+  env: NodeJS.ProcessEnv = process.env
+): EnvironmentProfile {
+  const profile = name || undefined;
+  if (profile !== undefined && !PROFILE_NAMES.includes(profile as ProfileName)) {
+    throw new Error(`CONTENT_HUB_PROFILE must be one of ${PROFILE_NAMES.join(', ')}, got '${profile}'`);
+  }
+  const setting = (key: string) => env[profileVariable(profile, key)] || undefined;
+
+  const baseUrl = setting('BASE_URL');
+  if (profile && !baseUrl) {
+    throw new Error(`Profile '${profile}' needs ${profileVariable(profile, 'BASE_URL')}`);
+  }
+
+  const defaults = PROFILE_DEFAULTS[(profile as ProfileName) ?? 'default'];
+  const rateLimit = setting('RATE_LIMIT');
+  const requestsPerSecond = rateLimit === undefined ? defaults.requestsPerSecond : Number(rateLimit);
+  if (!Number.isInteger(requestsPerSecond) || requestsPerSecond < 1) {
+    throw new Error(`${profileVariable(profile, 'RATE_LIMIT')} must be a positive integer, got '${rateLimit}'`);
+  }
+  const readOnly = setting('READ_ONLY')?.toLowerCase();
+  // Anything but true or false is refused, so a typo cannot lift the guard of a read-only profile
+  if (readOnly !== undefined && readOnly !== 'true' && readOnly !== 'false') {
+    throw new Error(`${profileVariable(profile, 'READ_ONLY')} must be true or false, got '${setting('READ_ONLY')}'`);
+  }
+
+  return {
+    name: (profile as ProfileName) ?? 'default',
+    baseUrl: baseUrl ?? 'https://your-instance.stylelabs.cloud',
+    clientId: setting('CLIENT_ID') ?? 'your-client-id',
+    clientSecret: setting('CLIENT_SECRET') ?? 'your-client-secret',
+    username: setting('USERNAME') ?? 'your-username',
+    password: setting('PASSWORD') ?? 'your-password',
+    grantType: (setting('GRANT_TYPE') ?? 'password') as GrantType,
+    refreshToken: setting('REFRESH_TOKEN'),
+    requestsPerSecond,
+    readOnly: readOnly === undefined ? defaults.readOnly : readOnly === 'true'
+  };
+}
+
+/**
+ * Whether a call changes data on the instance: every PUT and DELETE, and POSTs other than queries
+ */
+export function isMutatingRequest(method: HttpMethod, endpoint: string): boolean {
+  if (method === 'GET') {
+    return false;
+  }
+  const path = endpoint.split('?')[0];
+  return !(method === 'POST' && READING_POSTS.some(pattern => pattern.test(path)));
+}
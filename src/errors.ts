@@ -0,0 +1,221 @@
+import { APIResponse } from '@playwright/test';
+import type { ContractViolation } from './contract-validator';
+import type { LoadResult, SloViolation } from './load-profile';
+import { GrantType, Job, JobTransition } from './models';
+import type { WebhookEvent } from './webhook-receiver';
+
+export interface FailedRequest {
+  method: string;
+  endpoint: string;
+}
+
+/**
+ * Raised when Content Hub answers a call with an unexpected status
+ */
+export class ContentHubError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body?: unknown,
+    readonly request?: FailedRequest
+  ) {
+    super(message);
+    this.name = 'ContentHubError';
+  }
+
+  /**
+   * Build the error for a failed response, picking the subclass that matches its status
+   */
+  static async fromResponse(response: APIResponse, request: FailedRequest): Promise<ContentHubError> {
+    const text = await response.text().catch(() => '');
+    let body: unknown = text || undefined;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep the raw text for non-JSON error bodies
+    }
+
+    const status = response.status();
+    const message = `${request.method} ${request.endpoint} failed with status ${status}`;
+    if (status === 404) {
+      return new ContentHubNotFoundError(message, status, body, request);
+    }
+    if (status === 409 || status === 412) {
+      return new ContentHubConflictError(message, status, body, request);
+    }
+    return new ContentHubError(message, status, body, request);
+  }
+}
+
+/**
+ * Raised when the requested resource does not exist
+ */
+export class ContentHubNotFoundError extends ContentHubError {
+  constructor(message: string, status: number, body?: unknown, request?: FailedRequest) {
+    super(message, status, body, request);
+    this.name = 'ContentHubNotFoundError';
+  }
+}
+
+/**
+ * Raised when an update is refused because the resource changed since it was read: a stale
+ * `If-Match` (412) or version (409)
+ */
+export class ContentHubConflictError extends ContentHubError {
+  constructor(message: string, status: number, body?: unknown, request?: FailedRequest) {
+    super(message, status, body, request);
+    this.name = 'ContentHubConflictError';
+  }
+
+  /**
+   * Version the resource is at now, when Content Hub reports it
+   */
+  get currentVersion(): number | undefined {
+    const body = this.body as { current_version?: unknown } | undefined;
+    return typeof body?.current_version === 'number' ? body.current_version : undefined;
+  }
+}
+
+/**
+ * Raised when the token endpoint rejects a grant
+ */
+export class ContentHubAuthError extends ContentHubError {
+  constructor(
+    message: string,
+    status: number,
+    readonly grantType: GrantType,
+    body?: unknown
+  ) {
+    super(message, status, body, { method: 'POST', endpoint: '/api/oauth/token' });
+    this.name = 'ContentHubAuthError';
+  }
+}
+
+/**
+ * Raised when a chunked upload is rejected, fails processing or does not finish in time.
+ * Interrupted uploads can be resumed with the `uploadIdentifier`.
+ */
+export class ContentHubUploadError extends ContentHubError {
+  constructor(
+    message: string,
+    readonly uploadIdentifier: string,
+    status: number,
+    body?: unknown,
+    request?: FailedRequest
+  ) {
+    super(message, status, body, request);
+    this.name = 'ContentHubUploadError';
+  }
+
+  /**
+   * Error code reported by Content Hub, such as `checksum_mismatch`
+   */
+  get code(): string | undefined {
+    const body = this.body as { error?: unknown } | undefined;
+    return typeof body?.error === 'string' ? body.error : undefined;
+  }
+}
+
+/**
+ * Raised when a job fails, is cancelled or does not reach the awaited status in time.
+ * Carries the last job state and every status change seen while waiting.
+ */
+export class ContentHubJobError extends ContentHubError {
+  constructor(
+    message: string,
+    readonly job: Job,
+    readonly transitions: JobTransition[]
+  ) {
+    super(message, 200, job, { method: 'GET', endpoint: `/api/jobs/${job.id}` });
+    this.name = 'ContentHubJobError';
+  }
+}
+
+/**
+ * Raised when a successful response does not match its contract. The message lists every
+ * violation as a path with the expected (-) and actual (+) value.
+ */
+export class ContentHubContractError extends ContentHubError {
+  constructor(
+    message: string,
+    readonly contract: string,
+    readonly violations: ContractViolation[],
+    status: number,
+    body?: unknown,
+    request?: FailedRequest
+  ) {
+    super(message, status, body, request);
+    this.name = 'ContentHubContractError';
+  }
+}
+
+/**
+ * Raised when a cassette cannot be replayed: a request matches no recorded interaction, or a
+ * strict replay leaves interactions unused
+ */
+export class ContentHubCassetteError extends Error {
+  constructor(
+    message: string,
+    readonly file: string
+  ) {
+    super(message);
+    this.name = 'ContentHubCassetteError';
+  }
+}
+
+/**
+ * Raised when a fixture file cannot be read, parsed or resolved: unknown or circular references,
+ * unknown option lists, or fields of the wrong type
+ */
+export class ContentHubFixtureError extends Error {
+  constructor(
+    message: string,
+    readonly file: string
+  ) {
+    super(message);
+    this.name = 'ContentHubFixtureError';
+  }
+}
+
+/**
+ * Raised instead of sending a mutating call from a client whose profile is read-only
+ */
+export class ContentHubReadOnlyError extends Error {
+  constructor(
+    message: string,
+    readonly profile: string,
+    readonly request: FailedRequest
+  ) {
+    super(message);
+    this.name = 'ContentHubReadOnlyError';
+  }
+}
+
+/**
+ * Raised when a load scenario misses its service level objectives. Carries the measured
+ * result and every threshold it crossed.
+ */
+export class ContentHubSloError extends Error {
+  constructor(
+    message: string,
+    readonly result: LoadResult,
+    readonly violations: SloViolation[]
+  ) {
+    super(message);
+    this.name = 'ContentHubSloError';
+  }
+}
+
+/**
+ * Raised when an expected webhook callback does not arrive in time, or an unexpected one does.
+ * Carries every callback the receiver accepted.
+ */
+export class ContentHubWebhookError extends Error {
+  constructor(
+    message: string,
+    readonly received: WebhookEvent[]
+  ) {
+    super(message);
+    this.name = 'ContentHubWebhookError';
+  }
+}
@@ -0,0 +1,350 @@
+import { promises as fs } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import type { ContentHubAPIClient } from './client';
+import { CleanupResult, CreatedResource, deleteResources } from './cleanup-registry';
+import { ContentHubFixtureError } from './errors';
+import { Entity, Option, PropertyValue, Selection } from './models';
+
+/**
+ * Declarative test data: fixture files (JSON or YAML) declaring options, entities and
+ * selections under symbolic names, created through a client and removed again afterwards.
+ *
+ * A string `$name` anywhere in a fixture refers to another fixture of the same seed: it
+ * becomes the id of an entity or selection, or the key of an option. Fixtures are created
+ * in dependency order, so an entity related to a collection is created after it. Names,
+ * identifiers and keys get the seed's `Date.now()` stamp appended, which keeps parallel
+ * seeds apart and lets the artifact sweeper date leftovers.
+ */
+
+export interface EntityFixture {
+  definition: string;
+  /** Default `test-entity-<name>` */
+  identifier?: string;
+  culture?: string;
+  /**
+   * Per member: a plain value (stored without culture), a map of culture to value, or the
+   * property values as the API takes them
+   */
+  properties?: Record<string, unknown>;
+  /** Related entities by relation name */
+  relations?: Record<string, (string | number)[]>;
+}
+
+export interface OptionFixture {
+  /** Name or id of the option list the option is added to */
+  optionList: string | number;
+  /** Default `test-option-<name>` */
+  key?: string;
+  labels?: Record<string, string>;
+}
+
+export interface SelectionFixture {
+  /** Default `Test Selection <name>` */
+  name?: string;
+  query?: string;
+  entities?: (string | number)[];
+}
+
+export interface FixtureFile {
+  options?: Record<string, OptionFixture>;
+  entities?: Record<string, EntityFixture>;
+  selections?: Record<string, SelectionFixture>;
+}
+
+export interface SeededOption extends Option {
+  optionListId: number;
+}
+
+export interface SeededFixtures {
+  /** Entity and selection ids by fixture name */
+  ids: Record<string, number>;
+  /** Option keys by fixture name */
+  keys: Record<string, string>;
+  entities: Record<string, Entity>;
+  selections: Record<string, Selection>;
+  options: Record<string, SeededOption>;
+}
+
+export type FixtureKind = 'option' | 'entity' | 'selection';
+
+/**
+ * One fixture of a seed, with the names it refers to
+ */
+export type FixtureNode = {
+  name: string;
+  file: string;
+  /** Names of the fixtures this one refers to */
+  references: string[];
+} & (
+  | { kind: 'option'; spec: OptionFixture }
+  | { kind: 'entity'; spec: EntityFixture }
+  | { kind: 'selection'; spec: SelectionFixture }
+);
+
+/** Fixtures as created, their references replaced by ids: related and selected entities */
+type ResolvedEntityFixture = Omit<EntityFixture, 'relations'> & { relations?: Record<string, number[]> };
+type ResolvedSelectionFixture = Omit<SelectionFixture, 'entities'> & { entities?: number[] };
+
+const REFERENCE = /^\$([A-Za-z_][\w.-]*)$/;
+
+const SECTIONS: [keyof FixtureFile, FixtureKind][] = [
+  ['options', 'option'],
+  ['entities', 'entity'],
+  ['selections', 'selection']
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function references(value: unknown): string[] {
+  if (typeof value === 'string') {
+    const match = REFERENCE.exec(value);
+    return match ? [match[1]] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(references);
+  }
+  if (isRecord(value)) {
+    return Object.values(value).flatMap(references);
+  }
+  return [];
+}
+
+/**
+ * Check the shape of a parsed fixture file, naming the offending field
+ */
+function validateFixtures(fixtures: unknown, file: string): FixtureFile {
+  const fail = (message: string): never => {
+    throw new ContentHubFixtureError(`${file}: ${message}`, file);
+  };
+  if (!isRecord(fixtures)) {
+    return fail('expected an object with options, entities and selections');
+  }
+  for (const key of Object.keys(fixtures)) {
+    if (!SECTIONS.some(([section]) => section === key)) {
+      fail(`unknown section '${key}' (expected options, entities or selections)`);
+    }
+  }
+  for (const [section] of SECTIONS) {
+    const entries = fixtures[section] ?? {};
+    if (!isRecord(entries)) {
+      fail(`${section} must map fixture names to fixtures`);
+    }
+    for (const [name, spec] of Object.entries(entries as Record<string, unknown>)) {
+      const at = `${section}.${name}`;
+      if (!REFERENCE.test(`$${name}`)) {
+        fail(`${at}: names may only hold letters, digits, '_', '-' and '.'`);
+      }
+      if (!isRecord(spec)) {
+        fail(`${at} must be an object`);
+      }
+      const fixture = spec as Record<string, unknown>;
+      if (section === 'entities' && typeof fixture.definition !== 'string') {
+        fail(`${at}.definition must name an entity definition`);
+      }
+      if (section === 'options' && typeof fixture.optionList !== 'string' && typeof fixture.optionList !== 'number') {
+        fail(`${at}.optionList must be the name or id of an option list`);
+      }
+      if (fixture.relations !== undefined && (!isRecord(fixture.relations) || !Object.values(fixture.relations).every(Array.isArray))) {
+        fail(`${at}.relations must map relation names to lists of entities`);
+      }
+      if (fixture.entities !== undefined && !Array.isArray(fixture.entities)) {
+        fail(`${at}.entities must be a list of entities`);
+      }
+    }
+  }
+  return fixtures as FixtureFile;
+}
+
+/**
+ * Read a `.json`, `.yaml` or `.yml` fixture file
+ */
+export async function loadFixtureFile(file: string): Promise<FixtureFile> {
+  const text = await fs.readFile(file, 'utf8').catch((error: Error) => {
+    throw new ContentHubFixtureError(`Cannot read fixture file ${file}: ${error.message}`, file);
+  });
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ContentHubFixtureError(`${file}: ${(error as Error).message}`, file);
+  }
+  return validateFixtures(parsed, file);
+}
+
+/**
+ * Fixtures of all files in the order they can be created: everything a fixture refers to
+ * comes before it, otherwise options, entities and selections in the order declared
+ */
+export function seedOrder(files: { file: string; fixtures: FixtureFile }[]): FixtureNode[] {
+  const nodes: FixtureNode[] = [];
+  for (const [section, kind] of SECTIONS) {
+    for (const { file, fixtures } of files) {
+      for (const [name, spec] of Object.entries(fixtures[section] ?? {})) {
+        const duplicate = nodes.find(node => node.name === name);
+        if (duplicate) {
+          throw new ContentHubFixtureError(`Fixture '${name}' is declared in ${duplicate.file} and again in ${file}`, file);
+        }
+        // validateFixtures checked that the section's fixtures have its kind's shape
+        nodes.push({ kind, name, file, spec, references: [...new Set(references(spec))] } as FixtureNode);
+      }
+    }
+  }
+
+  const names = new Set(nodes.map(node => node.name));
+  for (const node of nodes) {
+    const unknown = node.references.find(name => !names.has(name));
+    if (unknown) {
+      throw new ContentHubFixtureError(`${node.file}: unknown reference '$${unknown}' in ${node.kind} '${node.name}'`, node.file);
+    }
+  }
+
+  const ordered: FixtureNode[] = [];
+  const done = new Set<string>();
+  while (ordered.length < nodes.length) {
+    const next = nodes.find(node => !done.has(node.name) && node.references.every(name => done.has(name)));
+    if (!next) {
+      const cycle = nodes.filter(node => !done.has(node.name));
+      throw new ContentHubFixtureError(
+        `Circular references between ${cycle.map(node => `$${node.name}`).join(', ')}`,
+        cycle[0].file
+      );
+    }
+    ordered.push(next);
+    done.add(next.name);
+  }
+  return ordered;
+}
+
+/**
+ * `value` with every `$name` replaced by the id or key seeded for it
+ */
+function resolveReferences(value: unknown, seeded: SeededFixtures): unknown {
+  if (typeof value === 'string') {
+    const match = REFERENCE.exec(value);
+    return match ? (seeded.keys[match[1]] ?? seeded.ids[match[1]]) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveReferences(item, seeded));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, seeded)]));
+  }
+  return value;
+}
+
+/**
+ * `value` as property values: raw lists as they are, maps of culture to value, plain values without culture
+ */
+function propertyValues(value: unknown): PropertyValue[] {
+  if (Array.isArray(value)) {
+    return value as PropertyValue[];
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).map(([culture, cultureValue]) => ({ culture, value: cultureValue }));
+  }
+  return [{ culture: null, value }];
+}
+
+/**
+ * Creates the fixtures of one or more files through a client, and deletes them again
+ */
+export class FixtureSeeder {
+  private readonly created: CreatedResource[] = [];
+  private optionListIds?: Map<string, number>;
+
+  constructor(
+    private readonly client: ContentHubAPIClient,
+    /** Appended to names, identifiers and keys */
+    readonly stamp: number = Date.now()
+  ) {}
+
+  /**
+   * Load and create the fixtures of `files` as one seed, so they may refer to each other
+   */
+  async seed(...files: string[]): Promise<SeededFixtures> {
+    const loaded = await Promise.all(files.map(async file => ({ file, fixtures: await loadFixtureFile(file) })));
+    return this.seedFixtures(...loaded);
+  }
+
+  /**
+   * Create fixtures declared in code; `file` only names them in errors
+   */
+  async seedFixtures(...sources: { file: string; fixtures: FixtureFile }[]): Promise<SeededFixtures> {
+    const seeded: SeededFixtures = { ids: {}, keys: {}, entities: {}, selections: {}, options: {} };
+    // seedOrder only lets fixtures through whose references are all seeded before them
+    const resolve = <T>(spec: unknown): T => resolveReferences(spec, seeded) as T;
+
+    for (const node of seedOrder(sources)) {
+      switch (node.kind) {
+        case 'option': {
+          const spec = resolve<OptionFixture>(node.spec);
+          const optionListId = await this.optionListId(spec.optionList, node);
+          const option = await this.client.optionLists.addOption(optionListId, {
+            key: `${spec.key ?? `test-option-${node.name}`}-${this.stamp}`,
+            labels: spec.labels ?? {}
+          });
+          this.created.push({ kind: 'option', optionListId, key: option.key });
+          seeded.options[node.name] = { ...option, optionListId };
+          seeded.keys[node.name] = option.key;
+          break;
+        }
+        case 'entity': {
+          const spec = resolve<ResolvedEntityFixture>(node.spec);
+          const entity = await this.client.entities.create({
+            identifier: `${spec.identifier ?? `test-entity-${node.name}`}-${this.stamp}`,
+            definition: spec.definition,
+            culture: spec.culture,
+            properties: Object.fromEntries(Object.entries(spec.properties ?? {}).map(([member, value]) => [member, propertyValues(value)])),
+            relations: spec.relations
+          });
+          this.created.push({ kind: 'entity', id: entity.id });
+          seeded.entities[node.name] = entity;
+          seeded.ids[node.name] = entity.id;
+          break;
+        }
+        case 'selection': {
+          const spec = resolve<ResolvedSelectionFixture>(node.spec);
+          const selection = await this.client.selections.create({
+            name: `${spec.name ?? `Test Selection ${node.name}`} ${this.stamp}`,
+            query: spec.query,
+            entities: spec.entities ?? []
+          });
+          this.created.push({ kind: 'selection', id: selection.id });
+          seeded.selections[node.name] = selection;
+          seeded.ids[node.name] = selection.id;
+          break;
+        }
+      }
+    }
+    return seeded;
+  }
+
+  /**
+   * Delete everything seeded so far, newest first, so selections go before the entities in them
+   */
+  async teardown(): Promise<CleanupResult> {
+    const result = await deleteResources(this.client, [...this.created].reverse());
+    this.created.length = 0;
+    return result;
+  }
+
+  private async optionListId(optionList: string | number, node: FixtureNode): Promise<number> {
+    if (typeof optionList === 'number') {
+      return optionList;
+    }
+    if (!this.optionListIds) {
+      this.optionListIds = new Map();
+      for await (const { id, name } of this.client.optionLists.iterate()) {
+        if (name) {
+          this.optionListIds.set(name, id);
+        }
+      }
+    }
+    const id = this.optionListIds.get(optionList);
+    if (id === undefined) {
+      throw new ContentHubFixtureError(`${node.file}: option '${node.name}' refers to unknown option list '${optionList}'`, node.file);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,68 @@
+import { profileVariable } from './environment-profiles';
+
+/**
+ * Named identities: further accounts on the profile's instance, such as a reader and an editor,
+ * so tests can check what each user group may and may not do.
+ *
+ * CONTENT_HUB_IDENTITIES lists their names (e.g. `editor,reader`); each then reads its password
+ * grant credentials from CONTENT_HUB_IDENTITY_<NAME>_USERNAME and _PASSWORD. Like every other
+ * setting they are qualified by the selected profile, e.g. CONTENT_HUB_QA_IDENTITY_READER_USERNAME.
+ * The client, and the OAuth client id and secret, are those of the profile.
+ */
+
+export interface Identity {
+  name: string;
+  username: string;
+  password: string;
+}
+
+const IDENTITY_NAME = /^[a-z][a-z0-9_]*$/i;
+
+/**
+ * Names listed in a CONTENT_HUB_IDENTITIES value
+ */
+function identityNames(list: string | undefined): string[] {
+  return (list ?? '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(name => name !== '');
+}
+
+/**
+ * Settings the identities listed in `list` read, relative to the profile like CONNECTION_SETTINGS
+ */
+export function identitySettings(list: string | undefined): string[] {
+  return [
+    'IDENTITIES',
+    ...identityNames(list).flatMap(name => [`IDENTITY_${name.toUpperCase()}_USERNAME`, `IDENTITY_${name.toUpperCase()}_PASSWORD`])
+  ];
+}
+
+/**
+ * The identities configured for the profile named by CONTENT_HUB_PROFILE (or `profile`), in the order listed
+ */
+export function resolveIdentities(
+  profile: string | undefined = process.env.CONTENT_HUB_PROFILE,
+  env: NodeJS.ProcessEnv = process.env
+): Identity[] {
+  const qualified = profile || undefined;
+  const names = identityNames(env[profileVariable(qualified, 'IDENTITIES')]);
+
+  return names.map((name, index) => {
+    if (!IDENTITY_NAME.test(name)) {
+      throw new Error(`${profileVariable(qualified, 'IDENTITIES')} lists '${name}'; names take letters, digits and underscores`);
+    }
+    if (names.indexOf(name) !== index) {
+      throw new Error(`${profileVariable(qualified, 'IDENTITIES')} lists '${name}' twice`);
+    }
+    const setting = (key: string) => {
+      const variable = profileVariable(qualified, `IDENTITY_${name.toUpperCase()}_${key}`);
+      const value = env[variable];
+      if (!value) {
+        throw new Error(`Identity '${name}' needs ${variable}`);
+      }
+      return value;
+    };
+    return { name, username: setting('USERNAME'), password: setting('PASSWORD') };
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Content Hub REST API client: typed resources, token lifecycle, retries and shared rate limiting
+ */
+export { ContentHubAPIClient, contractOptionsFromEnv, DEFAULT_RETRY_POLICY, forgetEntityDefinitions } from './client';
+export type { ContentHubClientOptions, HttpMethod, QueryParams, RequestOptions, RetryPolicy } from './client';
+export { accessMismatches, accessOutcome, formatAccessMatrix, probeAccess } from './access-matrix';
+export type { AccessDecision, AccessExpectations, AccessMatrix, AccessOperation, AccessOutcome, AccessResult } from './access-matrix';
+export {
+  ApiCallLogger,
+  apiCallLogOptionsFromEnv,
+  DEFAULT_MAX_BODY_LENGTH,
+  formatApiCall,
+  truncateBody
+} from './api-call-log';
+export type { ApiCall, ApiCallLogEntry, ApiCallLogOptions } from './api-call-log';
+export {
+  API_METRICS_ATTACHMENT,
+  ApiMetrics,
+  attachApiMetrics,
+  compareWithBaseline,
+  endpointTemplate,
+  formatRegressions,
+  percentile,
+  summarizeSamples,
+  toJUnitXml
+} from './api-metrics';
+export type {
+  ApiCallSample,
+  ApiMetricsReport,
+  ApiMetricsSummary,
+  LatencyStats,
+  Regression,
+  TestApiMetrics,
+  TrendOptions
+} from './api-metrics';
+export { Cassette, cassetteFile, cassetteForTest, REDACTED, redactJson } from './cassette';
+export type { CassetteMode, CassetteOptions, Interaction, OutgoingRequest, RecordedRequest, RecordedResponse } from './cassette';
+export { CleanupRegistry, cleanupJournal, deleteResources, readJournal, resourceEndpoint } from './cleanup-registry';
+export type { CleanupResult, CreatedResource } from './cleanup-registry';
+export { CONTRACT_CATALOGS, CURRENT_CONTRACT_VERSION } from './contract-catalog';
+export type { ContractCatalog, ContractRoute, JsonSchema, JsonType } from './contract-catalog';
+export {
+  ContractValidator,
+  formatContractReport,
+  formatViolations,
+  validateEntityMembers,
+  validateSchema
+} from './contract-validator';
+export type { ContractOptions, ContractReport, ContractViolation, MemberLookup } from './contract-validator';
+export { readDownload, sha256Hex } from './downloads';
+export type { Download } from './downloads';
+export { getPropertyValue, localizedValue, propertyCultures, setPropertyValue } from './entity-properties';
+export {
+  CONNECTION_SETTINGS,
+  DEFAULT_REQUESTS_PER_SECOND,
+  isMutatingRequest,
+  PROFILE_NAMES,
+  profileVariable,
+  resolveProfile
+} from './environment-profiles';
+export type { EnvironmentProfile, ProfileName } from './environment-profiles';
+export { FixtureSeeder, loadFixtureFile, seedOrder } from './fixture-seeder';
+export type {
+  EntityFixture,
+  FixtureFile,
+  FixtureKind,
+  FixtureNode,
+  OptionFixture,
+  SeededFixtures,
+  SeededOption,
+  SelectionFixture
+} from './fixture-seeder';
+export { identitySettings, resolveIdentities } from './identities';
+export type { Identity } from './identities';
+export {
+  arrivalTimes,
+  checkSlo,
+  formatLoadResult,
+  formatSloViolations,
+  LATENCY_BUCKETS_MS,
+  runLoadProfile,
+  sloFromEnv,
+  weightedSequence
+} from './load-profile';
+export type {
+  LatencyHistogram,
+  LoadPhase,
+  LoadRequest,
+  LoadResult,
+  LoadScenario,
+  LoadStats,
+  SloThresholds,
+  SloViolation
+} from './load-profile';
+export {
+  ContentHubError,
+  ContentHubNotFoundError,
+  ContentHubAuthError,
+  ContentHubCassetteError,
+  ContentHubConflictError,
+  ContentHubContractError,
+  ContentHubFixtureError,
+  ContentHubJobError,
+  ContentHubReadOnlyError,
+  ContentHubSloError,
+  ContentHubUploadError,
+  ContentHubWebhookError
+} from './errors';
+export type { FailedRequest } from './errors';
+export * from './models';
+export { paginate } from './pagination';
+export type { IterateOptions } from './pagination';
+export {
+  buildFuzzCases,
+  DEFAULT_FUZZ_SEED,
+  formatFuzzReport,
+  FUZZ_KINDS,
+  fuzzEntityPayloads,
+  fuzzFailures,
+  fuzzOutcome,
+  fuzzRequest,
+  fuzzSeedFromEnv,
+  loadFuzzSchema,
+  runFuzzCases,
+  seededRandom,
+  sendFuzzCase,
+  shrinkFuzzCase
+} from './payload-fuzzer';
+export type { FuzzAttempt, FuzzCase, FuzzKind, FuzzOptions, FuzzOutcome, FuzzReport, FuzzResult, FuzzSchema } from './payload-fuzzer';
+export { escapeQueryValue, PropertyFilter, q, QueryBuilder, RelationFilter } from './query-builder';
+export type { QueryValue, RangeOptions } from './query-builder';
+export { AssetsResource } from './resources/assets';
+export { CulturesResource } from './resources/cultures';
+export { EntitiesResource, isSingleValued } from './resources/entities';
+export type { EntityUpdateOptions, ModifyEntityOptions } from './resources/entities';
+export { EntityDefinitionsResource } from './resources/entity-definitions';
+export { JobsResource } from './resources/jobs';
+export type { JobWaitResult, WaitForJobOptions } from './resources/jobs';
+export { OptionListsResource } from './resources/option-lists';
+export { SelectionsResource } from './resources/selections';
+export { UploadsResource } from './resources/uploads';
+export type { UploadFileOptions } from './resources/uploads';
+export { captureSchema, diffSchemas, formatSchemaDiff, loadSchemaSnapshot, saveSchemaSnapshot } from './schema-drift';
+export type {
+  CaptureSchemaOptions,
+  MemberSnapshot,
+  SchemaDiff,
+  SchemaDifference,
+  SchemaDifferenceKind,
+  SchemaSnapshot
+} from './schema-drift';
+export { formatSweepReport, sweepTestArtifacts, TEST_ARTIFACT_PREFIXES } from './test-artifact-sweeper';
+export type { ArtifactPrefixes, SweepCandidate, SweepOptions, SweepReport } from './test-artifact-sweeper';
+export { getSharedRateLimiter, SharedRateLimiter } from './shared-rate-limiter';
+export type { RateLimiter, RateLimiterOptions } from './shared-rate-limiter';
+export { DEFAULT_SIGNATURE_HEADER, signWebhookBody, startWebhookReceiver } from './webhook-receiver';
+export type {
+  RejectedWebhook,
+  WebhookBody,
+  WebhookEvent,
+  WebhookEventMatch,
+  WebhookEventType,
+  WebhookPropertyChange,
+  WebhookReceiver,
+  WebhookReceiverOptions
+} from './webhook-receiver';
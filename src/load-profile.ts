@@ -0,0 +1,343 @@
+import type { ContentHubAPIClient, HttpMethod, QueryParams } from './client';
+import { percentile } from './api-metrics';
+import { DEFAULT_REQUESTS_PER_SECOND, isMutatingRequest } from './environment-profiles';
+import { ContentHubReadOnlyError, ContentHubSloError } from './errors';
+
+/**
+ * Load profiles: a declarative scenario of rate phases and a weighted request mix, run
+ * through a client and measured against service level objectives.
+ *
+ * Requests are started on a fixed schedule whether or not earlier ones have answered (an
+ * open model), so a slow endpoint shows up as latency rather than as a lower request rate.
+ * Rates are capped at the profile's throttle, and requests are sent without retries so
+ * that throttling and transient failures count as errors.
+ *
+ * Latency is measured around the client call and includes any wait for the client's rate
+ * limiter, which only happens when other clients share the budget (see `rateLimitWaitMs`).
+ */
+
+export type LoadPhase =
+  /** Rate changing linearly from `fromRate` to `toRate` requests per second */
+  | { kind: 'ramp'; durationMs: number; fromRate: number; toRate: number }
+  /** Steady rate in requests per second; `throttle` is the profile's requests per second */
+  | { kind: 'constant'; durationMs: number; rate: number | 'throttle' };
+
+export interface LoadRequest {
+  /** Name the request's results are reported under */
+  name: string;
+  /** Share of the mix relative to the other requests (default 1) */
+  weight?: number;
+  method: HttpMethod;
+  endpoint: string;
+  /** Query parameters of GET requests */
+  params?: QueryParams;
+  /** JSON body, or a function building it from the request's sequence number, e.g. for unique identifiers */
+  body?: unknown;
+}
+
+export interface SloThresholds {
+  /** Highest tolerated share of failed requests, from 0 to 1 */
+  maxErrorRate?: number;
+  p95Ms?: number;
+  p99Ms?: number;
+  /** Lowest tolerated completed requests per second */
+  minThroughput?: number;
+}
+
+export interface LoadScenario {
+  name: string;
+  phases: LoadPhase[];
+  mix: LoadRequest[];
+  slo?: SloThresholds;
+}
+
+/**
+ * Latencies counted per bucket: `counts[i]` holds those up to `bucketsMs[i]` (and above the
+ * bucket before), the last count those above the largest bucket
+ */
+export interface LatencyHistogram {
+  bucketsMs: number[];
+  counts: number[];
+}
+
+export interface LoadStats {
+  requests: number;
+  /** Requests answered with a status of 400 or above, or failing without a response */
+  errors: number;
+  errorRate: number;
+  /** Requests per status; `error` for requests failing without a response */
+  statuses: Record<string, number>;
+  latency: { p50: number; p95: number; p99: number; max: number; mean: number };
+  histogram: LatencyHistogram;
+}
+
+export interface LoadResult extends LoadStats {
+  scenario: string;
+  startedAt: string;
+  /** From the first request to the last answer */
+  durationMs: number;
+  /** Completed requests per second */
+  throughput: number;
+  /** Time the requests spent waiting for the client's rate limiter */
+  rateLimitWaitMs: number;
+  /** Stats per request name of the mix */
+  operations: Record<string, LoadStats>;
+}
+
+export interface SloViolation {
+  metric: keyof SloThresholds;
+  threshold: number;
+  actual: number;
+}
+
+export const LATENCY_BUCKETS_MS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+interface Outcome {
+  name: string;
+  latencyMs: number;
+  status?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+/**
+ * Start offsets in milliseconds of every request the phases call for, one phase after the
+ * other. `throttle` is what a `throttle` rate stands for and the highest rate allowed.
+ */
+export function arrivalTimes(phases: LoadPhase[], throttle = DEFAULT_REQUESTS_PER_SECOND): number[] {
+  const times: number[] = [];
+  let phaseStart = 0;
+  phases.forEach((phase, index) => {
+    const [fromRate, toRate] =
+      phase.kind === 'ramp'
+        ? [phase.fromRate, phase.toRate]
+        : [phase.rate, phase.rate].map(rate => (rate === 'throttle' ? throttle : rate));
+    for (const rate of [fromRate, toRate]) {
+      if (!(rate >= 0 && rate <= throttle)) {
+        throw new Error(`Phase ${index + 1} asks for ${rate} requests per second; rates go from 0 to the throttle of ${throttle}`);
+      }
+    }
+    if (!(phase.durationMs > 0)) {
+      throw new Error(`Phase ${index + 1} needs a positive durationMs, got ${phase.durationMs}`);
+    }
+
+    // The k-th request starts when the rate integrated over the phase reaches k:
+    // n(t) = a·t + (b - a)·t² / 2d for rates a to b over d seconds
+    const seconds = phase.durationMs / 1000;
+    const slope = (toRate - fromRate) / seconds;
+    const count = Math.ceil(((fromRate + toRate) / 2) * seconds - 1e-9);
+    for (let k = 0; k < count; k++) {
+      const t = slope === 0 ? k / fromRate : (Math.sqrt(fromRate * fromRate + 2 * slope * k) - fromRate) / slope;
+      times.push(Math.round(phaseStart + t * 1000));
+    }
+    phaseStart += phase.durationMs;
+  });
+  return times;
+}
+
+/**
+ * `count` requests of the mix, each appearing in proportion to its weight and spread evenly
+ * (smooth weighted round-robin), so every run of a scenario sends the same sequence
+ */
+export function weightedSequence(mix: LoadRequest[], count: number): LoadRequest[] {
+  const weights = mix.map(({ name, weight = 1 }) => {
+    if (!(weight > 0)) {
+      throw new Error(`Request '${name}' needs a positive weight, got ${weight}`);
+    }
+    return weight;
+  });
+  if (mix.length === 0 && count > 0) {
+    throw new Error('A load scenario needs at least one request in its mix');
+  }
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const current = weights.map(() => 0);
+  const sequence: LoadRequest[] = [];
+  for (let i = 0; i < count; i++) {
+    weights.forEach((weight, index) => (current[index] += weight));
+    const next = current.indexOf(Math.max(...current));
+    current[next] -= total;
+    sequence.push(mix[next]);
+  }
+  return sequence;
+}
+
+function histogram(latencies: number[]): LatencyHistogram {
+  const counts = Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  for (const latency of latencies) {
+    const bucket = LATENCY_BUCKETS_MS.findIndex(bound => latency <= bound);
+    counts[bucket === -1 ? LATENCY_BUCKETS_MS.length : bucket]++;
+  }
+  return { bucketsMs: [...LATENCY_BUCKETS_MS], counts };
+}
+
+function summarizeOutcomes(outcomes: Outcome[]): LoadStats {
+  const latencies = outcomes.map(({ latencyMs }) => latencyMs);
+  const statuses: Record<string, number> = {};
+  for (const { status } of outcomes) {
+    const key = status === undefined ? 'error' : String(status);
+    statuses[key] = (statuses[key] ?? 0) + 1;
+  }
+  const errors = outcomes.filter(({ status }) => status === undefined || status >= 400).length;
+  return {
+    requests: outcomes.length,
+    errors,
+    errorRate: outcomes.length === 0 ? 0 : round(errors / outcomes.length, 4),
+    statuses,
+    latency: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+      max: latencies.length === 0 ? 0 : Math.max(...latencies),
+      mean: latencies.length === 0 ? 0 : Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+    },
+    histogram: histogram(latencies)
+  };
+}
+
+async function sendLoadRequest(client: ContentHubAPIClient, request: LoadRequest, sequence: number) {
+  const body = typeof request.body === 'function' ? request.body(sequence) : request.body;
+  switch (request.method) {
+    case 'GET':
+      return client.get(request.endpoint, request.params, { retry: false });
+    case 'POST':
+      return client.post(request.endpoint, body, { retry: false });
+    case 'PUT':
+      return client.put(request.endpoint, body, { retry: false });
+    case 'DELETE':
+      return client.delete(request.endpoint, { retry: false });
+  }
+}
+
+/**
+ * Thresholds of `slo` that `result` crossed
+ */
+export function checkSlo(result: LoadResult, slo: SloThresholds = {}): SloViolation[] {
+  const violations: SloViolation[] = [];
+  if (slo.maxErrorRate !== undefined && result.errorRate > slo.maxErrorRate) {
+    violations.push({ metric: 'maxErrorRate', threshold: slo.maxErrorRate, actual: result.errorRate });
+  }
+  if (slo.p95Ms !== undefined && result.latency.p95 > slo.p95Ms) {
+    violations.push({ metric: 'p95Ms', threshold: slo.p95Ms, actual: result.latency.p95 });
+  }
+  if (slo.p99Ms !== undefined && result.latency.p99 > slo.p99Ms) {
+    violations.push({ metric: 'p99Ms', threshold: slo.p99Ms, actual: result.latency.p99 });
+  }
+  if (slo.minThroughput !== undefined && result.throughput < slo.minThroughput) {
+    violations.push({ metric: 'minThroughput', threshold: slo.minThroughput, actual: result.throughput });
+  }
+  return violations;
+}
+
+/**
+ * `maxErrorRate 0.1 > 0.05`, `minThroughput 8.2 < 10`, ...
+ */
+export function formatSloViolations(violations: SloViolation[]): string {
+  return violations
+    .map(({ metric, threshold, actual }) => `  ${metric} ${actual} ${metric === 'minThroughput' ? '<' : '>'} ${threshold}`)
+    .join('\n');
+}
+
+/**
+ * Summary of a run, one line for the whole scenario and one per request of the mix
+ */
+export function formatLoadResult(result: LoadResult): string {
+  const describe = (stats: LoadStats) =>
+    `${stats.requests} requests, ${stats.errors} errors (${round(stats.errorRate * 100)}%), ` +
+    `p50 ${stats.latency.p50}ms, p95 ${stats.latency.p95}ms, p99 ${stats.latency.p99}ms, max ${stats.latency.max}ms`;
+  return [
+    `Load scenario '${result.scenario}': ${result.throughput} requests/s over ${result.durationMs}ms, ${describe(result)}`,
+    ...Object.entries(result.operations).map(([name, stats]) => `  ${name}: ${describe(stats)}`)
+  ].join('\n');
+}
+
+/**
+ * `defaults` overridden by CONTENT_HUB_SLO_MAX_ERROR_RATE, CONTENT_HUB_SLO_P95_MS,
+ * CONTENT_HUB_SLO_P99_MS and CONTENT_HUB_SLO_MIN_THROUGHPUT, so an instance can be held to
+ * its own objectives
+ */
+export function sloFromEnv(defaults: SloThresholds = {}, env: NodeJS.ProcessEnv = process.env): SloThresholds {
+  const variables: [keyof SloThresholds, string][] = [
+    ['maxErrorRate', 'CONTENT_HUB_SLO_MAX_ERROR_RATE'],
+    ['p95Ms', 'CONTENT_HUB_SLO_P95_MS'],
+    ['p99Ms', 'CONTENT_HUB_SLO_P99_MS'],
+    ['minThroughput', 'CONTENT_HUB_SLO_MIN_THROUGHPUT']
+  ];
+  const slo = { ...defaults };
+  for (const [metric, variable] of variables) {
+    const value = env[variable];
+    if (value) {
+      if (!(Number(value) >= 0)) {
+        throw new Error(`${variable} must be a non-negative number, got '${value}'`);
+      }
+      slo[metric] = Number(value);
+    }
+  }
+  return slo;
+}
+
+/**
+ * Run `scenario` through `client` and measure it. Throws a ContentHubSloError when the
+ * result misses the scenario's SLOs. Resources created by the mix are tracked by the client
+ * as usual, so `deleteCreatedResources()` removes them.
+ */
+export async function runLoadProfile(client: ContentHubAPIClient, scenario: LoadScenario): Promise<LoadResult> {
+  const schedule = arrivalTimes(scenario.phases, client.profile.requestsPerSecond);
+  const requests = weightedSequence(scenario.mix, schedule.length);
+  const write = scenario.mix.find(({ method, endpoint }) => isMutatingRequest(method, endpoint));
+  if (client.readOnly && write) {
+    throw new ContentHubReadOnlyError(
+      `Refusing load scenario '${scenario.name}' with ${write.method} ${write.endpoint}: profile '${client.profile.name}' is read-only`,
+      client.profile.name,
+      { method: write.method, endpoint: write.endpoint }
+    );
+  }
+
+  // Authenticate up front so the token request neither delays nor counts as part of the load
+  await client.getAuthToken();
+  const firstSample = client.metrics.samples.length;
+  const startedAt = Date.now();
+  let finishedAt = startedAt;
+
+  const outcomes = await Promise.all(
+    schedule.map(async (offset, sequence): Promise<Outcome> => {
+      await sleep(startedAt + offset - Date.now());
+      const request = requests[sequence];
+      const sentAt = Date.now();
+      let status: number | undefined;
+      try {
+        status = (await sendLoadRequest(client, request, sequence)).status();
+      } catch {
+        // Counted as an error without a status
+      }
+      finishedAt = Math.max(finishedAt, Date.now());
+      return { name: request.name, latencyMs: Date.now() - sentAt, status };
+    })
+  );
+
+  const durationMs = finishedAt - startedAt;
+  const operations: Record<string, LoadStats> = {};
+  for (const { name } of scenario.mix) {
+    operations[name] = summarizeOutcomes(outcomes.filter(outcome => outcome.name === name));
+  }
+  const result: LoadResult = {
+    scenario: scenario.name,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs,
+    throughput: durationMs === 0 ? 0 : round(outcomes.length / (durationMs / 1000)),
+    rateLimitWaitMs: client.metrics.samples.slice(firstSample).reduce((sum, sample) => sum + sample.rateLimitWaitMs, 0),
+    ...summarizeOutcomes(outcomes),
+    operations
+  };
+
+  const violations = checkSlo(result, scenario.slo);
+  if (violations.length > 0) {
+    throw new ContentHubSloError(
+      `Load scenario '${scenario.name}' missed its SLOs:\n${formatSloViolations(violations)}`,
+      result,
+      violations
+    );
+  }
+  return result;
+}
@@ -0,0 +1,257 @@
+/**
+ * Shapes of the Content Hub REST resources used by the client and the test suite
+ */
+
+export type GrantType = 'password' | 'client_credentials' | 'refresh_token';
+
+export interface AuthToken {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string;
+}
+
+/**
+ * One page of a collection endpoint
+ */
+export interface PagedResult<T> {
+  items: T[];
+  total_items: number;
+}
+
+export interface PagingParams {
+  take?: number;
+  skip?: number;
+}
+
+export interface PropertyValue<T = unknown> {
+  /** `null` for members that are not culture-sensitive */
+  culture: string | null;
+  value: T;
+}
+
+export type EntityProperties = Record<string, PropertyValue[]>;
+
+export interface Entity {
+  id: number;
+  identifier: string;
+  definition?: string;
+  culture?: string;
+  properties: EntityProperties;
+  /** Ids of related entities by relation name */
+  relations?: Record<string, number[]>;
+  created_on?: string;
+  modified_on?: string;
+  /** Raised by every change; also sent as the `ETag` */
+  version?: number;
+}
+
+export interface EntityInput {
+  identifier: string;
+  definition?: string;
+  culture?: string;
+  properties?: EntityProperties;
+  relations?: Record<string, number[]>;
+  /** On update, the version the entity must still be at */
+  version?: number;
+}
+
+export interface EntityListParams extends PagingParams {
+  query?: string;
+  culture?: string;
+  /** `Field:Direction` pairs separated by commas, e.g. `CreatedOn:Desc` */
+  sort?: string;
+}
+
+export interface BulkUpdateRequest {
+  entity_ids: number[];
+  properties: EntityProperties;
+}
+
+export interface SortField {
+  field: string;
+  direction: 'Asc' | 'Desc';
+}
+
+/**
+ * Body of POST /api/entities/query
+ */
+export interface EntityQuery extends PagingParams {
+  query: string;
+  culture?: string;
+  sort?: SortField[];
+}
+
+export interface EntitySearchParams extends PagingParams {
+  culture?: string;
+}
+
+export type JobStatus = 'Pending' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+
+export interface Job {
+  id: number;
+  type?: string;
+  status: JobStatus;
+  created_on?: string;
+  modified_on?: string;
+  /** Reason given for Failed and Cancelled jobs */
+  status_message?: string;
+}
+
+/**
+ * A status change seen while waiting for a job
+ */
+export interface JobTransition {
+  status: JobStatus;
+  observedAt: Date;
+  /** Time since waiting started */
+  elapsedMs: number;
+}
+
+/**
+ * Returned by calls that start background work
+ */
+export interface JobReference {
+  job_id: number;
+}
+
+export interface JobListParams extends PagingParams {
+  status?: JobStatus;
+}
+
+export interface Selection {
+  id: number;
+  name: string;
+  query?: string;
+  entities: number[];
+  created_on?: string;
+}
+
+export interface SelectionInput {
+  name: string;
+  query?: string;
+  entities?: number[];
+}
+
+export interface Option {
+  key: string;
+  labels: Record<string, string>;
+}
+
+export interface OptionList {
+  id: number;
+  name?: string;
+  options: Option[];
+}
+
+export interface EntityDefinition {
+  id: number;
+  name: string;
+}
+
+export type RelationCardinality = 'OneToMany' | 'ManyToMany';
+
+/**
+ * The definition a relation member points at, and which side of the relation the member is
+ */
+export interface RelationDefinition {
+  associated_definition: string;
+  cardinality: RelationCardinality;
+  role: 'Parent' | 'Child';
+}
+
+/**
+ * One relation of an entity, seen from its side
+ */
+export interface EntityRelation extends RelationDefinition {
+  /** The relation member's name, the same on both sides */
+  name: string;
+  /** Ids of the related entities; at most one on the child side of a one-to-many relation */
+  related: number[];
+}
+
+export interface MemberDefinition {
+  name: string;
+  type: string;
+  is_multilanguage?: boolean;
+  is_required?: boolean;
+  /** Option list the values of an `Option` member come from */
+  option_list?: string;
+  /** Set on `Relation` members */
+  relation?: RelationDefinition;
+}
+
+export interface Culture {
+  /** Culture code such as `en-US` */
+  name: string;
+  /** The culture values fall back to when a culture has none */
+  is_default: boolean;
+}
+
+export interface UploadRequest {
+  filename: string;
+  filesize: number;
+  content_type: string;
+}
+
+export interface UploadConfiguration {
+  name: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface UploadInitiation {
+  upload_identifier: string;
+  upload_configuration: UploadConfiguration;
+}
+
+export type UploadStatus = 'Pending' | 'Processing' | 'Completed' | 'Failed';
+
+export interface UploadProgress {
+  upload_identifier?: string;
+  status: UploadStatus;
+  filesize?: number;
+  received_bytes?: number;
+  /** Indexes of the chunks stored so far */
+  received_chunks?: number[];
+  upload_configuration?: UploadConfiguration;
+  /** Job processing the upload once finalized */
+  job_id?: number;
+  /** Set once processing created the M.Asset */
+  asset_id?: number;
+  /** Error code and message of a Failed upload */
+  failure?: { error: string; message: string };
+}
+
+export interface UploadFinalization {
+  upload_identifier: string;
+  status: UploadStatus;
+  job_id?: number;
+}
+
+export interface Rendition {
+  /** e.g. `downloadOriginal` or `thumbnail` */
+  name: string;
+  content_type: string;
+  filesize: number;
+  /** Absolute URL that downloads the rendition with an access token */
+  href: string;
+}
+
+export type PublicLinkStatus = 'Active' | 'Revoked';
+
+export interface PublicLinkInput {
+  asset_id: number;
+  /** Name of the rendition the link serves */
+  rendition: string;
+  /** The link never expires when omitted */
+  expires_on?: string;
+}
+
+export interface PublicLink extends PublicLinkInput {
+  id: number;
+  status: PublicLinkStatus;
+  /** Anonymous URL of the rendition */
+  url: string;
+  created_on: string;
+  revoked_on?: string;
+}
@@ -0,0 +1,107 @@
+import type { ContentHubAPIClient, HttpMethod } from './client';
+import { ContentHubError } from './errors';
+import { PagedResult } from './models';
+
+/**
+ * Walks a paged collection endpoint item by item.
+ *
+ * In `skip` mode pages are requested with skip/take until `total_items` is reached. Result
+ * sets that change during the walk are handled by dropping items already yielded (when
+ * inserts shift items onto the next page) and by stepping back when `total_items` shrinks
+ * (when deletes shift unseen items onto the page already read). Every item present for the
+ * whole walk is yielded exactly once, provided the endpoint's order is stable.
+ *
+ * In `scroll` mode a server-side cursor is followed, which is not bound by the skip limit.
+ */
+
+export interface IterateOptions<T> {
+  /** Items requested per page (default 100) */
+  pageSize?: number;
+  /** `skip` pages with skip/take; `scroll` follows a scroll_id cursor (default `skip`) */
+  mode?: 'skip' | 'scroll';
+  /** Identity used to recognise items seen twice (default `id`, then `key`) */
+  key?: (item: T) => unknown;
+}
+
+interface ScrollPage<T> extends PagedResult<T> {
+  scroll_id?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+const defaultKey = (item: unknown): unknown => {
+  const { id, key } = typeof item === 'object' && item !== null ? (item as { id?: unknown; key?: unknown }) : {};
+  return id ?? key ?? JSON.stringify(item);
+};
+
+/**
+ * Query endpoints and scrolls take their parameters as a POST body, lists as GET parameters
+ */
+async function fetchPage<T>(
+  client: ContentHubAPIClient,
+  endpoint: string,
+  params: object,
+  usePost: boolean
+): Promise<ScrollPage<T>> {
+  const method: HttpMethod = usePost ? 'POST' : 'GET';
+  // Reading pages is idempotent, so POSTs are retried too
+  const response = usePost ? await client.post(endpoint, params, { retry: true }) : await client.get(endpoint, params);
+  if (response.status() !== 200) {
+    throw await ContentHubError.fromResponse(response, { method, endpoint });
+  }
+  return response.json();
+}
+
+export async function* paginate<T>(
+  client: ContentHubAPIClient,
+  endpoint: string,
+  query: object = {},
+  options: IterateOptions<T> = {}
+): AsyncGenerator<T, void, undefined> {
+  const take = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const key = options.key ?? defaultKey;
+  const seen = new Set<unknown>();
+
+  if (options.mode === 'scroll') {
+    let page = await fetchPage<T>(client, endpoint, { ...query, take }, true);
+    for (;;) {
+      for (const item of page.items) {
+        if (!seen.has(key(item))) {
+          seen.add(key(item));
+          yield item;
+        }
+      }
+      if (!page.scroll_id || page.items.length === 0) {
+        return;
+      }
+      page = await fetchPage<T>(client, endpoint, { scroll_id: page.scroll_id, take }, true);
+    }
+  }
+
+  const usePost = endpoint.endsWith('/query');
+  let skip = 0;
+  let total: number | undefined;
+  for (;;) {
+    const page = await fetchPage<T>(client, endpoint, { ...query, skip, take }, usePost);
+
+    // Deletes ahead of `skip` moved unseen items back onto pages already read: reread the overlap
+    if (total !== undefined && page.total_items < total && skip > 0) {
+      skip = Math.max(0, skip - (total - page.total_items));
+      total = page.total_items;
+      continue;
+    }
+    total = page.total_items;
+
+    for (const item of page.items) {
+      if (!seen.has(key(item))) {
+        seen.add(key(item));
+        yield item;
+      }
+    }
+
+    skip += page.items.length;
+    if (page.items.length === 0 || skip >= page.total_items) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,524 @@
+import { APIResponse } from '@playwright/test';
+import { truncateBody } from './api-call-log';
+import type { ContentHubAPIClient, HttpMethod } from './client';
+import { ContentHubContractError } from './errors';
+import { Entity, EntityDefinition, MemberDefinition } from './models';
+
+/**
+ * Definition-driven negative testing of entity payloads and paging parameters.
+ *
+ * Cases are built from the member definitions of an entity definition: values of the wrong type,
+ * required members left out, String values past the length limit, unknown cultures, option keys
+ * missing from their option list, and out-of-range `take`/`skip`. Each case breaks exactly one
+ * rule and sends valid filler values alongside. Every case should be refused with a 4xx and a
+ * structured error body; one that is not is shrunk, by dropping filler and cutting oversize
+ * strings to the limit, to the smallest request that still fails the same way.
+ *
+ * Cases come from a seeded generator, so a seed always yields the same cases.
+ */
+
+export type FuzzKind =
+  | 'wrongType'
+  | 'missingRequired'
+  | 'oversizeString'
+  | 'unknownCulture'
+  | 'badOptionKey'
+  | 'pagingOutOfRange';
+
+export const FUZZ_KINDS: FuzzKind[] = [
+  'wrongType',
+  'missingRequired',
+  'oversizeString',
+  'unknownCulture',
+  'badOptionKey',
+  'pagingOutOfRange'
+];
+
+/** How a fuzz case was answered; only `rejected` is correct */
+export type FuzzOutcome = 'rejected' | 'accepted' | 'serverError' | 'unstructured';
+
+export interface FuzzCase {
+  kind: FuzzKind;
+  /** The rule the case breaks, e.g. `FileSize: "forty-two" is not a Long` */
+  description: string;
+  method: HttpMethod;
+  endpoint: string;
+  /** Sent as an entity body, as query parameters or as a plain JSON body */
+  payload: 'entity' | 'params' | 'body';
+  /** Kept by every variant: identifier, definition and required member values of entity payloads */
+  base: Record<string, unknown>;
+  /** Valid fields or property values sent alongside; shrinking drops what it can */
+  filler: Record<string, unknown>;
+  /** The fields or property values that make the request invalid */
+  invalid: Record<string, unknown>;
+}
+
+/** What the generator needs to know about an entity definition */
+export interface FuzzSchema {
+  definition: string;
+  members: MemberDefinition[];
+  /** Names of the instance's cultures */
+  cultures: string[];
+  /** Keys of the option lists `Option` members take their values from, by list name */
+  optionKeys: Record<string, string[]>;
+}
+
+export interface FuzzOptions {
+  /** The same seed always yields the same cases (default CONTENT_HUB_FUZZ_SEED, or 1) */
+  seed?: number;
+  /** Cases per kind (default 3) */
+  casesPerKind?: number;
+  /** Default every kind */
+  kinds?: FuzzKind[];
+  /** Longest value the instance takes for String members (default 4000) */
+  maxStringLength?: number;
+  /** Largest `skip + take` of paged listings (default 10000) */
+  maxResultWindow?: number;
+  /** Send entity payloads as updates of this entity instead of creates */
+  target?: Pick<Entity, 'id' | 'identifier'>;
+  /** Requests a failing case may spend on shrinking (default 50) */
+  maxShrinkAttempts?: number;
+}
+
+export interface FuzzAttempt {
+  status: number;
+  outcome: FuzzOutcome;
+  body: unknown;
+}
+
+export interface FuzzResult extends FuzzAttempt {
+  case: FuzzCase;
+  /** Smallest variant of a failing case that fails the same way */
+  minimal?: FuzzCase;
+}
+
+export interface FuzzReport {
+  seed: number;
+  results: FuzzResult[];
+}
+
+export const DEFAULT_FUZZ_SEED = 1;
+
+const DEFAULTS = { casesPerKind: 3, maxStringLength: 4000, maxResultWindow: 10000, maxShrinkAttempts: 50 };
+
+/**
+ * Values of another JSON type than members of each kind take
+ */
+const WRONG_VALUES: Record<string, unknown[]> = {
+  String: [42, true, { nested: 'object' }, ['a', 'list']],
+  Integer: ['forty-two', 4.2, true, { value: 42 }],
+  Decimal: ['4.2', true, [4.2]],
+  Boolean: ['true', 1, { value: true }],
+  DateTime: ['not a date', 20240101, true],
+  Option: [42, true, ['key']]
+};
+
+const MEMBER_KINDS: Record<string, string> = {
+  String: 'String',
+  Text: 'String',
+  Integer: 'Integer',
+  Long: 'Integer',
+  Decimal: 'Decimal',
+  Double: 'Decimal',
+  Boolean: 'Boolean',
+  DateTime: 'DateTime',
+  DateTimeOffset: 'DateTime',
+  Option: 'Option'
+};
+
+/**
+ * A deterministic pseudo-random number generator (mulberry32) yielding numbers in [0, 1)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seed from CONTENT_HUB_FUZZ_SEED, or DEFAULT_FUZZ_SEED when unset
+ */
+export function fuzzSeedFromEnv(env: NodeJS.ProcessEnv = process.env): number {
+  const value = env.CONTENT_HUB_FUZZ_SEED;
+  if (!value) {
+    return DEFAULT_FUZZ_SEED;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`CONTENT_HUB_FUZZ_SEED must be a non-negative integer, got '${value}'`);
+  }
+  return Number(value);
+}
+
+/**
+ * Members, cultures and option keys of `definition`, read from the instance
+ */
+export async function loadFuzzSchema(client: ContentHubAPIClient, definition: string): Promise<FuzzSchema> {
+  let definitionId: number | undefined;
+  for await (const { id, name } of client.iterate<EntityDefinition>('/api/entitydefinitions')) {
+    if (name === definition) {
+      definitionId = id;
+      break;
+    }
+  }
+  if (definitionId === undefined) {
+    throw new Error(`No entity definition named ${definition}`);
+  }
+
+  const { items: members } = await client.entityDefinitions.members(definitionId);
+  const { items: cultures } = await client.cultures.list();
+  const listNames = new Set(members.map(({ option_list }) => option_list).filter(Boolean));
+  const optionKeys: Record<string, string[]> = {};
+  if (listNames.size > 0) {
+    for await (const list of client.optionLists.iterate()) {
+      if (list.name && listNames.has(list.name)) {
+        optionKeys[list.name] = list.options.map(({ key }) => key);
+      }
+    }
+  }
+  return { definition, members, cultures: cultures.map(({ name }) => name), optionKeys };
+}
+
+/**
+ * Invalid requests for the members of `schema`, `casesPerKind` of each kind the definition allows:
+ * a definition without required members yields no `missingRequired` cases, and so on
+ */
+export function buildFuzzCases(schema: FuzzSchema, options: FuzzOptions = {}): FuzzCase[] {
+  const random = seededRandom(options.seed ?? fuzzSeedFromEnv());
+  const { casesPerKind, maxStringLength, maxResultWindow } = { ...DEFAULTS, ...options };
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const word = (length: number) => Array.from({ length }, () => pick([...'abcdefghijklmnopqrstuvwxyz'])).join('');
+  const members = schema.members.filter(member => !member.relation && MEMBER_KINDS[member.type]);
+
+  const validValue = (member: MemberDefinition): unknown => {
+    switch (MEMBER_KINDS[member.type]) {
+      case 'String':
+        return `fuzz ${word(8)}`;
+      case 'Integer':
+        return Math.floor(random() * 10000);
+      case 'Decimal':
+        return Math.floor(random() * 100000) / 100;
+      case 'Boolean':
+        return random() < 0.5;
+      case 'DateTime':
+        return new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * 1e11)).toISOString();
+      case 'Option': {
+        const keys = schema.optionKeys[member.option_list ?? ''] ?? [];
+        return keys.length > 0 ? pick(keys) : undefined;
+      }
+    }
+    return undefined;
+  };
+  const values = (member: MemberDefinition, value: unknown, culture = pick(schema.cultures)) => [
+    { culture: member.is_multilanguage ? culture : null, value }
+  ];
+  // Members the generator can fill with a valid value
+  const fillable = members.filter(member => member.type !== 'Option' || schema.optionKeys[member.option_list ?? '']?.length);
+
+  const entityCase = (kind: FuzzKind, description: string, member: MemberDefinition, invalid: Record<string, unknown>): FuzzCase => {
+    const required: Record<string, unknown> = {};
+    const filler: Record<string, unknown> = {};
+    for (const other of fillable.filter(candidate => candidate.name !== member.name)) {
+      if (other.is_required) {
+        required[other.name] = values(other, validValue(other));
+      } else if (random() < 0.6) {
+        filler[other.name] = values(other, validValue(other));
+      }
+    }
+    const { target } = options;
+    return {
+      kind,
+      description,
+      method: target ? 'PUT' : 'POST',
+      endpoint: target ? `/api/entities/${target.id}` : '/api/entities',
+      payload: 'entity',
+      base: {
+        identifier: target?.identifier ?? `test-entity-fuzz-${word(10)}`,
+        definition: schema.definition,
+        properties: required
+      },
+      filler,
+      invalid
+    };
+  };
+
+  const generators: Record<FuzzKind, () => FuzzCase | undefined> = {
+    wrongType: () => {
+      if (members.length === 0) {
+        return undefined;
+      }
+      const member = pick(members);
+      // Sometimes the value is right but not wrapped in a list of values
+      if (fillable.includes(member) && random() < 0.25) {
+        const value = validValue(member);
+        return entityCase('wrongType', `${member.name}: ${JSON.stringify(value)} is not a list of values`, member, {
+          [member.name]: value
+        });
+      }
+      const value = pick(WRONG_VALUES[MEMBER_KINDS[member.type]]);
+      return entityCase('wrongType', `${member.name}: ${JSON.stringify(value)} is not a ${member.type}`, member, {
+        [member.name]: values(member, value)
+      });
+    },
+    missingRequired: () => {
+      const candidates = fillable.filter(({ is_required }) => is_required);
+      if (candidates.length === 0) {
+        return undefined;
+      }
+      const member = pick(candidates);
+      // An update keeps values it is not sent, so it has to clear the member
+      const invalid = options.target ? { [member.name]: [] } : {};
+      return entityCase('missingRequired', `${member.name} is required but has no value`, member, invalid);
+    },
+    oversizeString: () => {
+      const candidates = members.filter(({ type }) => type === 'String');
+      if (candidates.length === 0) {
+        return undefined;
+      }
+      const member = pick(candidates);
+      const length = maxStringLength + 1 + Math.floor(random() * maxStringLength);
+      const value = word(Math.min(length, 64)).padEnd(length, 'x');
+      return entityCase('oversizeString', `${member.name}: ${length} characters, more than ${maxStringLength}`, member, {
+        [member.name]: values(member, value)
+      });
+    },
+    unknownCulture: () => {
+      const candidates = fillable.filter(({ is_multilanguage }) => is_multilanguage);
+      if (candidates.length === 0) {
+        return undefined;
+      }
+      const member = pick(candidates);
+      let culture: string;
+      do {
+        culture = `${word(2)}-${word(2).toUpperCase()}`;
+      } while (schema.cultures.includes(culture));
+      return entityCase('unknownCulture', `${member.name}: culture '${culture}' is not one of the instance's`, member, {
+        [member.name]: values(member, validValue(member), culture)
+      });
+    },
+    badOptionKey: () => {
+      const candidates = members.filter(({ type, option_list }) => type === 'Option' && option_list);
+      if (candidates.length === 0) {
+        return undefined;
+      }
+      const member = pick(candidates);
+      const key = `fuzz-${word(6)}`;
+      return entityCase('badOptionKey', `${member.name}: '${key}' is not a key of ${member.option_list}`, member, {
+        [member.name]: values(member, key)
+      });
+    },
+    pagingOutOfRange: () => {
+      const query = random() < 0.5;
+      const name = pick(['take', 'skip']);
+      const value = pick([-1 - Math.floor(random() * 100), Math.floor(random() * 50) + 0.5, word(5)]);
+      const invalid: Record<string, unknown> =
+        random() < 0.25 ? { skip: maxResultWindow, take: 1 + Math.floor(random() * 50) } : { [name]: value };
+      const filler: Record<string, unknown> = {};
+      if (random() < 0.6) {
+        filler.culture = pick(schema.cultures);
+      }
+      if (random() < 0.6) {
+        filler.query = `Definition.Name:"${schema.definition}"`;
+      }
+      const description = 'take' in invalid && 'skip' in invalid
+        ? `skip + take is ${Number(invalid.skip) + Number(invalid.take)}, past the result window of ${maxResultWindow}`
+        : `${name}: ${JSON.stringify(value)} is not a non-negative integer`;
+      return {
+        kind: 'pagingOutOfRange',
+        description,
+        method: query ? 'POST' : 'GET',
+        endpoint: query ? '/api/entities/query' : '/api/entities',
+        payload: query ? 'body' : 'params',
+        base: {},
+        filler,
+        invalid
+      };
+    }
+  };
+
+  const cases: FuzzCase[] = [];
+  for (const kind of options.kinds ?? FUZZ_KINDS) {
+    for (let i = 0; i < casesPerKind; i++) {
+      const fuzzCase = generators[kind]();
+      if (!fuzzCase) {
+        break;
+      }
+      cases.push(fuzzCase);
+    }
+  }
+  return cases;
+}
+
+/**
+ * The query parameters or JSON body a case is sent with
+ */
+export function fuzzRequest(fuzzCase: FuzzCase): { params?: Record<string, unknown>; data?: Record<string, unknown> } {
+  const { payload, base, filler, invalid } = fuzzCase;
+  if (payload === 'entity') {
+    return { data: { ...base, properties: { ...(base.properties as object), ...filler, ...invalid } } };
+  }
+  const fields = { ...base, ...filler, ...invalid };
+  return payload === 'params' ? { params: fields } : { data: fields };
+}
+
+/**
+ * A JSON object with a non-empty `message`, as Content Hub answers errors
+ */
+function isStructuredError(body: unknown): boolean {
+  const message = (body as { message?: unknown } | null)?.message;
+  return typeof body === 'object' && typeof message === 'string' && message !== '';
+}
+
+export function fuzzOutcome(status: number, body: unknown): FuzzOutcome {
+  if (status >= 500) {
+    return 'serverError';
+  }
+  if (status >= 400) {
+    return isStructuredError(body) ? 'rejected' : 'unstructured';
+  }
+  return status >= 200 && status < 300 ? 'accepted' : 'unstructured';
+}
+
+/**
+ * Send one case through the client. What an accepted payload creates is tracked for cleanup as usual.
+ */
+export async function sendFuzzCase(client: ContentHubAPIClient, fuzzCase: FuzzCase): Promise<FuzzAttempt> {
+  const { params, data } = fuzzRequest(fuzzCase);
+  let response: APIResponse;
+  try {
+    if (fuzzCase.method === 'GET') {
+      response = await client.get(fuzzCase.endpoint, params);
+    } else if (fuzzCase.method === 'PUT') {
+      response = await client.put(fuzzCase.endpoint, data);
+    } else {
+      response = await client.post(fuzzCase.endpoint, data);
+    }
+  } catch (error) {
+    // An accepted invalid payload tends to come back breaking its contract too
+    if (error instanceof ContentHubContractError) {
+      return { status: error.status, outcome: 'accepted', body: error.body };
+    }
+    throw error;
+  }
+  const status = response.status();
+  const body = await response.json().catch(() => undefined);
+  return { status, outcome: fuzzOutcome(status, body), body };
+}
+
+/**
+ * Smaller variants of a case, each breaking the same rule: without the filler, without one filler
+ * field, and with oversize strings cut to one character past the limit
+ */
+function* shrinkCandidates(fuzzCase: FuzzCase, maxStringLength: number): Generator<FuzzCase> {
+  const keys = Object.keys(fuzzCase.filler);
+  if (keys.length > 1) {
+    yield { ...fuzzCase, filler: {} };
+  }
+  for (const key of keys) {
+    const { [key]: _dropped, ...filler } = fuzzCase.filler;
+    yield { ...fuzzCase, filler };
+  }
+  if (fuzzCase.kind === 'oversizeString') {
+    for (const [name, values] of Object.entries(fuzzCase.invalid)) {
+      const [entry] = values as { culture: string | null; value: string }[];
+      if (entry.value.length > maxStringLength + 1) {
+        yield { ...fuzzCase, invalid: { [name]: [{ ...entry, value: entry.value.slice(0, maxStringLength + 1) }] } };
+      }
+    }
+  }
+}
+
+/**
+ * Smallest variant of a failing case that still ends in `outcome`, found greedily within
+ * `maxShrinkAttempts` requests
+ */
+export async function shrinkFuzzCase(
+  client: ContentHubAPIClient,
+  fuzzCase: FuzzCase,
+  outcome: FuzzOutcome,
+  options: FuzzOptions = {}
+): Promise<FuzzCase> {
+  const { maxStringLength, maxShrinkAttempts } = { ...DEFAULTS, ...options };
+  let current = fuzzCase;
+  let attempts = 0;
+  for (let shrunk = true; shrunk && attempts < maxShrinkAttempts; ) {
+    shrunk = false;
+    for (const candidate of shrinkCandidates(current, maxStringLength)) {
+      if (attempts++ >= maxShrinkAttempts) {
+        break;
+      }
+      // A create the server accepted took its identifier, so each variant needs another
+      const variant: FuzzCase =
+        candidate.method === 'POST' && candidate.payload === 'entity'
+          ? { ...candidate, base: { ...candidate.base, identifier: `${fuzzCase.base.identifier}-${attempts}` } }
+          : candidate;
+      if ((await sendFuzzCase(client, variant)).outcome === outcome) {
+        current = candidate;
+        shrunk = true;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * Send every case, one at a time, and shrink the ones not refused with a structured 4xx
+ */
+export async function runFuzzCases(client: ContentHubAPIClient, cases: FuzzCase[], options: FuzzOptions = {}): Promise<FuzzReport> {
+  const results: FuzzResult[] = [];
+  for (const fuzzCase of cases) {
+    const attempt = await sendFuzzCase(client, fuzzCase);
+    const minimal = attempt.outcome === 'rejected' ? undefined : await shrinkFuzzCase(client, fuzzCase, attempt.outcome, options);
+    results.push({ ...attempt, case: fuzzCase, ...(minimal && { minimal }) });
+  }
+  return { seed: options.seed ?? fuzzSeedFromEnv(), results };
+}
+
+/**
+ * Build the cases for `definition` from the instance's member definitions and run them
+ */
+export async function fuzzEntityPayloads(
+  client: ContentHubAPIClient,
+  definition: string,
+  options: FuzzOptions = {}
+): Promise<FuzzReport> {
+  const cases = buildFuzzCases(await loadFuzzSchema(client, definition), options);
+  return runFuzzCases(client, cases, options);
+}
+
+/**
+ * Results that were not refused with a structured 4xx
+ */
+export function fuzzFailures(report: FuzzReport): FuzzResult[] {
+  return report.results.filter(({ outcome }) => outcome !== 'rejected');
+}
+
+/**
+ * Each failure with its outcome and minimal request, and the seed that repeats the run
+ */
+export function formatFuzzReport(report: FuzzReport): string {
+  const failures = fuzzFailures(report);
+  const total = report.results.length;
+  if (failures.length === 0) {
+    return `All ${total} fuzz cases were refused with a structured 4xx (seed ${report.seed})`;
+  }
+  const lines = [
+    `${failures.length} of ${total} fuzz cases were not refused with a structured 4xx ` +
+      `(seed ${report.seed}; set CONTENT_HUB_FUZZ_SEED=${report.seed} to repeat):`
+  ];
+  for (const { case: fuzzCase, outcome, status, minimal = fuzzCase } of failures) {
+    const { params, data } = fuzzRequest(minimal);
+    const request = params ? `?${new URLSearchParams(params as Record<string, string>)}` : ` ${JSON.stringify(data)}`;
+    lines.push(
+      `  ${fuzzCase.kind}  ${fuzzCase.description}`,
+      `    ${outcome} ${status}`,
+      `    minimal: ${minimal.method} ${minimal.endpoint}${truncateBody(request, 300)}`
+    );
+  }
+  return lines.join('\n');
+}
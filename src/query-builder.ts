@@ -0,0 +1,291 @@
+import { EntityListParams, EntityQuery, SortField } from './models';
+
+/**
+ * Fluent builder for Content Hub query strings.
+ *
+ * Every builder is immutable: each call returns a new builder, so partial queries can be
+ * shared and extended. Clauses added in sequence are joined by AND; `and()` and `or()`
+ * combine whole builders, parenthesising where the operators differ.
+ *
+ *   q.definition('M.Asset').prop('Title', 'en-US').contains('Test').sort('CreatedOn', 'Desc').take(10)
+ *   // Definition.Name:"M.Asset" AND Title.en-US:"Test"
+ */
+
+export type QueryValue = string | number | boolean | Date;
+
+export interface RangeOptions {
+  /** Include the lower bound (default true) */
+  minInclusive?: boolean;
+  /** Include the upper bound (default true) */
+  maxInclusive?: boolean;
+}
+
+type QueryNode = { clause: string } | { op: 'AND' | 'OR'; nodes: QueryNode[] };
+
+interface QueryState {
+  root?: QueryNode;
+  sort: SortField[];
+  take?: number;
+  skip?: number;
+  culture?: string;
+}
+
+const MEMBER_NAME = /^[A-Za-z_]\w*$/;
+const RELATION_NAME = /^[A-Za-z_][\w.]*$/;
+const CULTURE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+/** A member, a member in a culture as `prop()` writes it (`Title.en-US`), or a system field such as `Definition.Name` */
+const SORT_FIELD = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*|\.[a-z]{2,3}(-[A-Za-z0-9]{2,8})*)?$/;
+
+/**
+ * Escape backslashes and double quotes so `value` can sit inside a quoted query string
+ */
+export function escapeQueryValue(value: string): string {
+  return value.replace(/[\\"]/g, '\\$&');
+}
+
+function formatValue(value: QueryValue): string {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new RangeError('Query values must be valid dates');
+    }
+    return `"${value.toISOString()}"`;
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`Query values must be finite numbers, got ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return `"${escapeQueryValue(value)}"`;
+}
+
+function checkName(kind: string, name: string, pattern: RegExp): string {
+  if (!pattern.test(name)) {
+    throw new Error(`Invalid ${kind} '${name}'`);
+  }
+  return name;
+}
+
+function checkCount(name: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new RangeError(`${name} must be a non-negative integer, got ${value}`);
+  }
+  return value;
+}
+
+function combine(op: 'AND' | 'OR', left: QueryNode | undefined, right: QueryNode | undefined): QueryNode | undefined {
+  if (!left || !right) {
+    return left ?? right;
+  }
+  const operands = (node: QueryNode) => ('op' in node && node.op === op ? node.nodes : [node]);
+  return { op, nodes: [...operands(left), ...operands(right)] };
+}
+
+function render(node: QueryNode, parent?: 'AND' | 'OR'): string {
+  if ('clause' in node) {
+    return node.clause;
+  }
+  const joined = node.nodes.map(child => render(child, node.op)).join(` ${node.op} `);
+  return parent && parent !== node.op ? `(${joined})` : joined;
+}
+
+/**
+ * Conditions on one property, culture-qualified (`Title.en-US`) when a culture is given
+ */
+export class PropertyFilter {
+  constructor(
+    private readonly builder: QueryBuilder,
+    private readonly field: string
+  ) {}
+
+  /** Case-insensitive substring match */
+  contains(text: string): QueryBuilder {
+    return this.builder.where(`${this.field}:${formatValue(text)}`);
+  }
+
+  /** Exact match */
+  equals(value: QueryValue): QueryBuilder {
+    return this.builder.where(`${this.field}==${formatValue(value)}`);
+  }
+
+  /**
+   * Values between `min` and `max`, both included unless `options` says otherwise.
+   * Either bound may be omitted for an open range.
+   */
+  between(min: QueryValue | undefined, max: QueryValue | undefined, options: RangeOptions = {}): QueryBuilder {
+    if (min === undefined && max === undefined) {
+      throw new RangeError(`Range on ${this.field} needs at least one bound`);
+    }
+    const open = options.minInclusive === false ? '{' : '[';
+    const close = options.maxInclusive === false ? '}' : ']';
+    const bound = (value: QueryValue | undefined) => (value === undefined ? '*' : formatValue(value));
+    return this.builder.where(`${this.field}:${open}${bound(min)} TO ${bound(max)}${close}`);
+  }
+
+  atLeast(min: QueryValue): QueryBuilder {
+    return this.between(min, undefined);
+  }
+
+  atMost(max: QueryValue): QueryBuilder {
+    return this.between(undefined, max);
+  }
+
+  greaterThan(min: QueryValue): QueryBuilder {
+    return this.between(min, undefined, { minInclusive: false });
+  }
+
+  lessThan(max: QueryValue): QueryBuilder {
+    return this.between(undefined, max, { maxInclusive: false });
+  }
+}
+
+/**
+ * Entities related to another entity through a named relation
+ */
+export class RelationFilter {
+  constructor(
+    private readonly builder: QueryBuilder,
+    private readonly relation: string
+  ) {}
+
+  to(entityId: number): QueryBuilder {
+    checkCount('Related entity id', entityId);
+    return this.builder.where(`Relation.${this.relation}:${entityId}`);
+  }
+}
+
+export class QueryBuilder {
+  private constructor(private readonly state: QueryState) {}
+
+  static create(): QueryBuilder {
+    return new QueryBuilder({ sort: [] });
+  }
+
+  private with(changes: Partial<QueryState>): QueryBuilder {
+    return new QueryBuilder({ ...this.state, ...changes });
+  }
+
+  /**
+   * AND a raw clause onto the query. Prefer the typed helpers, which escape their values.
+   * Clauses joined by AND or OR are parenthesised so they bind as one.
+   */
+  where(clause: string): QueryBuilder {
+    const unquoted = clause.replace(/"(?:[^"\\]|\\.)*"/g, '""');
+    const grouped = /\s(AND|OR)\s/i.test(unquoted) ? `(${clause})` : clause;
+    return this.with({ root: combine('AND', this.state.root, { clause: grouped }) });
+  }
+
+  definition(name: string): QueryBuilder {
+    return this.where(`Definition.Name:${formatValue(name)}`);
+  }
+
+  id(id: number): QueryBuilder {
+    return this.where(`id:${checkCount('Entity id', id)}`);
+  }
+
+  identifier(identifier: string): QueryBuilder {
+    return this.where(`Identifier:${formatValue(identifier)}`);
+  }
+
+  prop(name: string, culture?: string): PropertyFilter {
+    checkName('property name', name, MEMBER_NAME);
+    const field = culture === undefined ? name : `${name}.${checkName('culture', culture, CULTURE)}`;
+    return new PropertyFilter(this, field);
+  }
+
+  createdOn(): PropertyFilter {
+    return new PropertyFilter(this, 'CreatedOn');
+  }
+
+  modifiedOn(): PropertyFilter {
+    return new PropertyFilter(this, 'ModifiedOn');
+  }
+
+  relation(name: string): RelationFilter {
+    return new RelationFilter(this, checkName('relation name', name, RELATION_NAME));
+  }
+
+  /**
+   * Both this query and `other`. Sort, paging and culture are kept from this builder.
+   */
+  and(other: QueryBuilder): QueryBuilder {
+    return this.with({ root: combine('AND', this.state.root, other.state.root) });
+  }
+
+  /**
+   * Either this query or `other`. Sort, paging and culture are kept from this builder.
+   */
+  or(other: QueryBuilder): QueryBuilder {
+    return this.with({ root: combine('OR', this.state.root, other.state.root) });
+  }
+
+  /**
+   * Add a sort field, e.g. `CreatedOn`, `Title.en-US` or `Definition.Name`; fields sort in the order they were added
+   */
+  sort(field: string, direction: SortField['direction'] = 'Asc'): QueryBuilder {
+    checkName('sort field', field, SORT_FIELD);
+    return this.with({ sort: [...this.state.sort, { field, direction }] });
+  }
+
+  take(take: number): QueryBuilder {
+    return this.with({ take: checkCount('take', take) });
+  }
+
+  skip(skip: number): QueryBuilder {
+    return this.with({ skip: checkCount('skip', skip) });
+  }
+
+  /**
+   * Culture the results are returned in
+   */
+  culture(culture: string): QueryBuilder {
+    return this.with({ culture: checkName('culture', culture, CULTURE) });
+  }
+
+  /**
+   * The query string; `*` when no clauses were added
+   */
+  toQueryString(): string {
+    return this.state.root ? render(this.state.root) : '*';
+  }
+
+  toString(): string {
+    return this.toQueryString();
+  }
+
+  /**
+   * Parameters for GET /api/entities/query, with the sort as `Field:Direction` pairs
+   */
+  toParams(): EntityListParams {
+    const { sort, take, skip, culture } = this.state;
+    return {
+      query: this.toQueryString(),
+      ...(culture !== undefined && { culture }),
+      ...(sort.length > 0 && { sort: sort.map(({ field, direction }) => `${field}:${direction}`).join(',') }),
+      ...(take !== undefined && { take }),
+      ...(skip !== undefined && { skip })
+    };
+  }
+
+  /**
+   * Body for POST /api/entities/query
+   */
+  toBody(): EntityQuery {
+    const { sort, take, skip, culture } = this.state;
+    return {
+      query: this.toQueryString(),
+      ...(culture !== undefined && { culture }),
+      ...(sort.length > 0 && { sort: sort.map(field => ({ ...field })) }),
+      ...(take !== undefined && { take }),
+      ...(skip !== undefined && { skip })
+    };
+  }
+}
+
+/**
+ * Entry point for building queries, e.g. `q.definition('M.Asset')`
+ */
+export const q = QueryBuilder.create();
@@ -0,0 +1,62 @@
+import { Download, readDownload } from '../downloads';
+import { PagedResult, PublicLink, PublicLinkInput, Rendition } from '../models';
+import { Resource } from './resource';
+
+/**
+ * Files of M.Asset entities: renditions under /api/entities/{id}/renditions and /api/publiclinks
+ */
+export class AssetsResource extends Resource {
+  /**
+   * Renditions available for download; empty for an asset without a file or still being processed
+   */
+  async renditions(assetId: number): Promise<PagedResult<Rendition>> {
+    const endpoint = `/api/entities/${assetId}/renditions`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Download one rendition; ContentHubNotFoundError when the asset has no such rendition
+   */
+  async download(assetId: number, rendition: string): Promise<Download> {
+    const endpoint = `/api/entities/${assetId}/renditions/${encodeURIComponent(rendition)}`;
+    const response = await this.client.get(endpoint);
+    await this.ensureStatus(response, 'GET', endpoint, [200]);
+    return readDownload(response);
+  }
+
+  /**
+   * Download the file the asset was uploaded from
+   */
+  async downloadOriginal(assetId: number): Promise<Download> {
+    return this.download(assetId, 'downloadOriginal');
+  }
+
+  /**
+   * Publish a rendition at an anonymous URL. The link is tracked for cleanup.
+   */
+  async createPublicLink(input: PublicLinkInput): Promise<PublicLink> {
+    const endpoint = '/api/publiclinks';
+    return this.parse(await this.client.post(endpoint, input), 'POST', endpoint, [201]);
+  }
+
+  async getPublicLink(id: number): Promise<PublicLink> {
+    const endpoint = `/api/publiclinks/${id}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Links to the asset's renditions, revoked ones included
+   */
+  async publicLinks(assetId: number): Promise<PagedResult<PublicLink>> {
+    const endpoint = `/api/entities/${assetId}/publiclinks`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Stop serving the link's URL
+   */
+  async revokePublicLink(id: number): Promise<void> {
+    const endpoint = `/api/publiclinks/${id}`;
+    await this.ensureStatus(await this.client.delete(endpoint), 'DELETE', endpoint, [200, 204]);
+  }
+}
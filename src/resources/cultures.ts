@@ -0,0 +1,24 @@
+import { Culture, PagedResult } from '../models';
+import { Resource } from './resource';
+
+/**
+ * /api/cultures: the cultures the instance holds multilanguage values in
+ */
+export class CulturesResource extends Resource {
+  async list(): Promise<PagedResult<Culture>> {
+    const endpoint = '/api/cultures';
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Name of the culture values fall back to, e.g. `en-US`
+   */
+  async defaultCulture(): Promise<string> {
+    const { items } = await this.list();
+    const culture = items.find(({ is_default }) => is_default) ?? items[0];
+    if (!culture) {
+      throw new Error('The instance lists no cultures');
+    }
+    return culture.name;
+  }
+}
@@ -0,0 +1,224 @@
+import { ContentHubConflictError } from '../errors';
+import {
+  BulkUpdateRequest,
+  Entity,
+  EntityInput,
+  EntityListParams,
+  EntityQuery,
+  EntityRelation,
+  EntitySearchParams,
+  JobReference,
+  PagedResult
+} from '../models';
+import { IterateOptions } from '../pagination';
+import { Resource } from './resource';
+
+export interface EntityUpdateOptions {
+  /**
+   * Only update while the entity is still at this version, sent as `If-Match`; a
+   * ContentHubConflictError otherwise
+   */
+  expectedVersion?: number;
+}
+
+export interface ModifyEntityOptions {
+  /** Reads and updates to try before giving up with the last conflict (default 5) */
+  maxAttempts?: number;
+}
+
+const DEFAULT_MODIFY_ATTEMPTS = 5;
+
+const ifMatch = ({ expectedVersion }: EntityUpdateOptions) =>
+  expectedVersion !== undefined ? { 'If-Match': `"${expectedVersion}"` } : undefined;
+
+/**
+ * Whether `relation` links to one entity at most: the child side of a one-to-many relation
+ */
+export function isSingleValued({ cardinality, role }: Pick<EntityRelation, 'cardinality' | 'role'>): boolean {
+  return cardinality === 'OneToMany' && role === 'Child';
+}
+
+/**
+ * /api/entities: CRUD, query, full-text search and relations
+ */
+export class EntitiesResource extends Resource {
+  async list(params: EntityListParams = {}): Promise<PagedResult<Entity>> {
+    const endpoint = '/api/entities';
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  /**
+   * With a `culture`, multilanguage values come in that culture only, or in the default culture where it has none
+   */
+  async get(id: number, params: { culture?: string } = {}): Promise<Entity> {
+    const endpoint = `/api/entities/${id}`;
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  async create(input: EntityInput): Promise<Entity> {
+    const endpoint = '/api/entities';
+    return this.parse(await this.client.post(endpoint, input), 'POST', endpoint, [201]);
+  }
+
+  /**
+   * Without an `expectedVersion` the update overwrites whatever another writer saved in between
+   */
+  async update(id: number, input: EntityInput, options: EntityUpdateOptions = {}): Promise<Entity> {
+    const endpoint = `/api/entities/${id}`;
+    return this.parse(await this.client.put(endpoint, input, { headers: ifMatch(options) }), 'PUT', endpoint);
+  }
+
+  /**
+   * Read the entity, update it with what `change` makes of it, and start over from a fresh read
+   * when another writer got in first, so that no writer's changes are lost
+   */
+  async modify(
+    id: number,
+    change: (entity: Entity) => EntityInput | Promise<EntityInput>,
+    options: ModifyEntityOptions = {}
+  ): Promise<Entity> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MODIFY_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+      const entity = await this.get(id);
+      if (entity.version === undefined) {
+        throw new Error(`Entity ${id} has no version to update against`);
+      }
+      try {
+        return await this.update(id, await change(entity), { expectedVersion: entity.version });
+      } catch (error) {
+        if (!(error instanceof ContentHubConflictError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async delete(id: number): Promise<void> {
+    const endpoint = `/api/entities/${id}`;
+    await this.ensureStatus(await this.client.delete(endpoint), 'DELETE', endpoint, [200, 204]);
+  }
+
+  /**
+   * POST /api/entities/query. Read-only, so it is retried like a GET.
+   */
+  async query(query: EntityQuery): Promise<PagedResult<Entity>> {
+    const endpoint = '/api/entities/query';
+    return this.parse(await this.client.post(endpoint, query, { retry: true }), 'POST', endpoint);
+  }
+
+  /**
+   * Set the same properties on many entities. The update runs as a job; wait for it with `jobs.waitForJob`.
+   */
+  async bulkUpdate(update: BulkUpdateRequest): Promise<JobReference> {
+    const endpoint = '/api/entities/bulk';
+    return this.parse(await this.client.post(endpoint, update), 'POST', endpoint, [202]);
+  }
+
+  /**
+   * Every entity matching a query. Scroll mode reaches past the skip limit of paged queries.
+   */
+  iterate(query: Omit<EntityQuery, 'skip' | 'take'>, options: IterateOptions<Entity> = {}): AsyncGenerator<Entity> {
+    const endpoint = options.mode === 'scroll' ? '/api/entities/scroll' : '/api/entities/query';
+    return this.client.iterate<Entity>(endpoint, query, options);
+  }
+
+  async search(text: string, params: EntitySearchParams = {}): Promise<PagedResult<Entity>> {
+    const endpoint = '/api/entities/search';
+    return this.parse(await this.client.get(endpoint, { ...params, q: text }), 'GET', endpoint);
+  }
+
+  /**
+   * Every relation of an entity's definition, with the ids related on this entity's side
+   */
+  async relations(id: number): Promise<EntityRelation[]> {
+    const endpoint = `/api/entities/${id}/relations`;
+    return (await this.parse<PagedResult<EntityRelation>>(await this.client.get(endpoint), 'GET', endpoint)).items;
+  }
+
+  async relation(id: number, name: string): Promise<EntityRelation> {
+    const endpoint = `/api/entities/${id}/relations/${encodeURIComponent(name)}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Replace the related ids. The other side of each link follows; on a one-to-many relation a
+   * child given to a new parent leaves its previous one.
+   */
+  async setRelation(id: number, name: string, related: number[], options: EntityUpdateOptions = {}): Promise<EntityRelation> {
+    const endpoint = `/api/entities/${id}/relations/${encodeURIComponent(name)}`;
+    return this.parse(await this.client.put(endpoint, { related }, { headers: ifMatch(options) }), 'PUT', endpoint);
+  }
+
+  /**
+   * Link more entities, keeping the existing links and those other writers add meanwhile. On the
+   * single side of a one-to-many relation this fails once a link exists; use `setRelation` to move
+   * the entity instead.
+   */
+  async addRelated(id: number, name: string, related: number[], options: ModifyEntityOptions = {}): Promise<EntityRelation> {
+    return this.modifyRelation(id, name, current => [...current, ...related.filter(other => !current.includes(other))], options);
+  }
+
+  async removeRelated(id: number, name: string, related: number[], options: ModifyEntityOptions = {}): Promise<EntityRelation> {
+    return this.modifyRelation(id, name, current => current.filter(other => !related.includes(other)), options);
+  }
+
+  /**
+   * Set the relation to what `change` makes of the related ids, against the entity's version like
+   * `modify`. On an instance that reports no versions the write is unguarded.
+   */
+  private async modifyRelation(
+    id: number,
+    name: string,
+    change: (related: number[]) => number[],
+    options: ModifyEntityOptions
+  ): Promise<EntityRelation> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MODIFY_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+      // The version before the relation, so the relation read is never older than the version sent
+      const { version } = await this.get(id);
+      const { related } = await this.relation(id, name);
+      try {
+        return await this.setRelation(id, name, change(related), { expectedVersion: version });
+      } catch (error) {
+        if (!(error instanceof ContentHubConflictError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * The entities on the other side of a relation
+   */
+  async related(id: number, name: string): Promise<Entity[]> {
+    const { related } = await this.relation(id, name);
+    return Promise.all(related.map(other => this.get(other)));
+  }
+
+  /**
+   * The parent of a child on a one-to-many relation, if it has one
+   */
+  async parent(id: number, name: string): Promise<Entity | undefined> {
+    const relation = await this.relation(id, name);
+    if (!isSingleValued(relation)) {
+      throw new Error(`Relation '${name}' is ${relation.cardinality} with entity ${id} as ${relation.role}; it has no single parent`);
+    }
+    return relation.related.length > 0 ? this.get(relation.related[0]) : undefined;
+  }
+
+  /**
+   * Follow relations hop by hop, e.g. `traverse(contentId, 'ContentToAsset', 'AssetToCollection')`
+   * for the collections of a content item's assets. Every entity is returned once.
+   */
+  async traverse(id: number, ...names: string[]): Promise<Entity[]> {
+    let ids = [id];
+    for (const name of names) {
+      const next = new Set<number>();
+      for (const current of ids) {
+        (await this.relation(current, name)).related.forEach(other => next.add(other));
+      }
+      ids = [...next];
+    }
+    return Promise.all(ids.map(other => this.get(other)));
+  }
+}
@@ -0,0 +1,22 @@
+import { EntityDefinition, MemberDefinition, PagedResult, PagingParams } from '../models';
+import { Resource } from './resource';
+
+/**
+ * /api/entitydefinitions and their member definitions
+ */
+export class EntityDefinitionsResource extends Resource {
+  async list(params: PagingParams = {}): Promise<PagedResult<EntityDefinition>> {
+    const endpoint = '/api/entitydefinitions';
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  async get(id: number): Promise<EntityDefinition> {
+    const endpoint = `/api/entitydefinitions/${id}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  async members(id: number): Promise<PagedResult<MemberDefinition>> {
+    const endpoint = `/api/entitydefinitions/${id}/members`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+}
@@ -0,0 +1,104 @@
+import { ContentHubJobError } from '../errors';
+import { Job, JobListParams, JobStatus, JobTransition, PagedResult } from '../models';
+import { IterateOptions } from '../pagination';
+import { Resource } from './resource';
+
+export interface WaitForJobOptions {
+  /** Give up after this many milliseconds (default 60000) */
+  timeout?: number;
+  /** Delay between polls in milliseconds (default 500) */
+  interval?: number;
+  /** Status, statuses or condition to wait for (default `Completed`) */
+  until?: JobStatus | JobStatus[] | ((job: Job) => boolean);
+}
+
+export interface JobWaitResult {
+  job: Job;
+  /** Every status observed, starting with the one seen on the first poll */
+  transitions: JobTransition[];
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['Completed', 'Failed', 'Cancelled'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Statuses as an arrow-separated history, e.g. "Pending → Running → Failed"
+ */
+function describeTransitions(transitions: JobTransition[]): string {
+  return transitions.map(({ status }) => status).join(' → ');
+}
+
+/**
+ * /api/jobs
+ */
+export class JobsResource extends Resource {
+  async list(params: JobListParams = {}): Promise<PagedResult<Job>> {
+    const endpoint = '/api/jobs';
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  iterate(params: Omit<JobListParams, 'skip' | 'take'> = {}, options: IterateOptions<Job> = {}): AsyncGenerator<Job> {
+    return this.client.iterate<Job>('/api/jobs', params, options);
+  }
+
+  async get(id: number): Promise<Job> {
+    const endpoint = `/api/jobs/${id}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Cancel a Pending or Running job. Finished jobs cannot be cancelled (400).
+   */
+  async cancel(id: number): Promise<Job> {
+    const endpoint = `/api/jobs/${id}/cancel`;
+    return this.parse(await this.client.post(endpoint), 'POST', endpoint);
+  }
+
+  /**
+   * Poll a job until it reaches the awaited status and return the status history.
+   * Throws ContentHubJobError when the job finishes any other way (Failed, Cancelled, or
+   * Completed while waiting for something else) or the timeout runs out.
+   */
+  async waitForJob(id: number, options: WaitForJobOptions = {}): Promise<JobWaitResult> {
+    const timeout = options.timeout ?? 60000;
+    const interval = options.interval ?? 500;
+    const until = options.until ?? 'Completed';
+    const reached =
+      typeof until === 'function' ? until : (job: Job) => ([] as JobStatus[]).concat(until).includes(job.status);
+
+    const startedAt = Date.now();
+    const transitions: JobTransition[] = [];
+    for (;;) {
+      const job = await this.get(id);
+      const observedAt = new Date();
+      if (transitions[transitions.length - 1]?.status !== job.status) {
+        transitions.push({ status: job.status, observedAt, elapsedMs: observedAt.getTime() - startedAt });
+      }
+
+      if (reached(job)) {
+        return { job, transitions };
+      }
+
+      const label = `Job ${id}${job.type ? ` (${job.type})` : ''}`;
+      if (FINISHED_STATUSES.includes(job.status)) {
+        const outcome =
+          job.status === 'Completed' ? 'completed without reaching the awaited status' : job.status.toLowerCase();
+        const reason = job.status_message ? `: ${job.status_message}` : '';
+        throw new ContentHubJobError(
+          `${label} ${outcome}${reason} (${describeTransitions(transitions)})`,
+          job,
+          transitions
+        );
+      }
+      if (Date.now() - startedAt + interval > timeout) {
+        throw new ContentHubJobError(
+          `${label} still ${job.status} after ${timeout}ms (${describeTransitions(transitions)})`,
+          job,
+          transitions
+        );
+      }
+      await sleep(interval);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Option, OptionList, PagedResult, PagingParams } from '../models';
+import { IterateOptions } from '../pagination';
+import { Resource } from './resource';
+
+/**
+ * /api/optionlists
+ */
+export class OptionListsResource extends Resource {
+  async list(params: PagingParams = {}): Promise<PagedResult<OptionList>> {
+    const endpoint = '/api/optionlists';
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  iterate(options: IterateOptions<OptionList> = {}): AsyncGenerator<OptionList> {
+    return this.client.iterate<OptionList>('/api/optionlists', {}, options);
+  }
+
+  async get(id: number): Promise<OptionList> {
+    const endpoint = `/api/optionlists/${id}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  async addOption(id: number, option: Option): Promise<Option> {
+    const endpoint = `/api/optionlists/${id}/options`;
+    return this.parse(await this.client.post(endpoint, option), 'POST', endpoint, [200, 201]);
+  }
+}
@@ -0,0 +1,34 @@
+import { APIResponse } from '@playwright/test';
+import type { ContentHubAPIClient, HttpMethod } from '../client';
+import { ContentHubError } from '../errors';
+
+/**
+ * Base for the typed resource groups hanging off ContentHubAPIClient
+ */
+export abstract class Resource {
+  constructor(protected readonly client: ContentHubAPIClient) {}
+
+  /**
+   * Parse the JSON body of a successful response, or throw a ContentHubError
+   */
+  protected async parse<T>(
+    response: APIResponse,
+    method: HttpMethod,
+    endpoint: string,
+    expectedStatuses: number[] = [200]
+  ): Promise<T> {
+    await this.ensureStatus(response, method, endpoint, expectedStatuses);
+    return response.json();
+  }
+
+  protected async ensureStatus(
+    response: APIResponse,
+    method: HttpMethod,
+    endpoint: string,
+    expectedStatuses: number[]
+  ): Promise<void> {
+    if (!expectedStatuses.includes(response.status())) {
+      throw await ContentHubError.fromResponse(response, { method, endpoint });
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { PagedResult, PagingParams, Selection, SelectionInput } from '../models';
+import { IterateOptions } from '../pagination';
+import { Resource } from './resource';
+
+/**
+ * /api/selections
+ */
+export class SelectionsResource extends Resource {
+  async list(params: PagingParams = {}): Promise<PagedResult<Selection>> {
+    const endpoint = '/api/selections';
+    return this.parse(await this.client.get(endpoint, params), 'GET', endpoint);
+  }
+
+  iterate(options: IterateOptions<Selection> = {}): AsyncGenerator<Selection> {
+    return this.client.iterate<Selection>('/api/selections', {}, options);
+  }
+
+  async get(id: number): Promise<Selection> {
+    const endpoint = `/api/selections/${id}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  async create(input: SelectionInput): Promise<Selection> {
+    const endpoint = '/api/selections';
+    return this.parse(await this.client.post(endpoint, { entities: [], ...input }), 'POST', endpoint, [201]);
+  }
+
+  async addEntities(id: number, entityIds: number[]): Promise<void> {
+    const endpoint = `/api/selections/${id}/entities`;
+    await this.ensureStatus(await this.client.post(endpoint, { entity_ids: entityIds }), 'POST', endpoint, [200]);
+  }
+}
@@ -0,0 +1,169 @@
+import { APIResponse } from '@playwright/test';
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import type { HttpMethod } from '../client';
+import { sha256Hex } from '../downloads';
+import { ContentHubError, ContentHubUploadError } from '../errors';
+import { UploadFinalization, UploadInitiation, UploadProgress, UploadRequest } from '../models';
+import { Resource } from './resource';
+
+export interface UploadFileOptions {
+  /** Defaults to the file's base name */
+  filename?: string;
+  /** Defaults to a type guessed from the file extension */
+  contentType?: string;
+  /** Resume this upload instead of initiating a new one; chunks already received are skipped */
+  uploadIdentifier?: string;
+  /** Delay between progress polls while the asset is processed */
+  pollIntervalMs?: number;
+  /** Give up waiting for processing after this long */
+  timeoutMs?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.txt': 'text/plain'
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * /api/upload
+ */
+export class UploadsResource extends Resource {
+  async initiate(upload: UploadRequest): Promise<UploadInitiation> {
+    const endpoint = '/api/upload/initiate';
+    return this.parse(await this.client.post(endpoint, upload), 'POST', endpoint);
+  }
+
+  async progress(uploadIdentifier: string): Promise<UploadProgress> {
+    const endpoint = `/api/upload/progress/${uploadIdentifier}`;
+    return this.parse(await this.client.get(endpoint), 'GET', endpoint);
+  }
+
+  /**
+   * Send one chunk of an initiated upload to the `chunk_url` of its upload configuration
+   */
+  async uploadChunk(progress: UploadProgress | UploadInitiation, index: number, chunk: Buffer): Promise<UploadProgress> {
+    const uploadIdentifier = progress.upload_identifier!;
+    const endpoint = `${this.chunkUrl(progress)}/${index}`;
+    return this.parseUpload(await this.client.put(endpoint, chunk), 'PUT', endpoint, uploadIdentifier);
+  }
+
+  /**
+   * Ask Content Hub to assemble the chunks into an asset. `checksum` is the SHA-256 of the whole file.
+   */
+  async finalize(progress: UploadProgress | UploadInitiation, checksum?: string): Promise<UploadFinalization> {
+    const uploadIdentifier = progress.upload_identifier!;
+    const endpoint = String(progress.upload_configuration?.parameters?.finalize_url ?? '/api/upload/finalize');
+    const response = await this.client.post(endpoint, { upload_identifier: uploadIdentifier, checksum });
+    return this.parseUpload(response, 'POST', endpoint, uploadIdentifier, [200, 202]);
+  }
+
+  /**
+   * Upload a local file end to end: initiate (or resume), send the chunks the upload
+   * configuration asks for, finalize with the file's SHA-256 and wait for processing.
+   * Resolves with the id of the created M.Asset, which is tracked for cleanup.
+   */
+  async uploadFile(filePath: string, options: UploadFileOptions = {}): Promise<number> {
+    const { size } = await fs.stat(filePath);
+    const filename = options.filename ?? path.basename(filePath);
+    const contentType =
+      options.contentType ?? CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+
+    const progress: UploadProgress = options.uploadIdentifier
+      ? await this.progress(options.uploadIdentifier)
+      : { ...(await this.initiate({ filename, filesize: size, content_type: contentType })), status: 'Pending' };
+
+    if (progress.status === 'Pending') {
+      const chunkSize = Number(progress.upload_configuration?.parameters?.chunk_size ?? DEFAULT_CHUNK_SIZE);
+      const received = new Set(progress.received_chunks ?? []);
+      const file = await fs.open(filePath, 'r');
+      try {
+        for (let index = 0; index * chunkSize < size; index++) {
+          if (received.has(index)) {
+            continue;
+          }
+          const chunk = Buffer.alloc(Math.min(chunkSize, size - index * chunkSize));
+          await file.read(chunk, 0, chunk.length, index * chunkSize);
+          await this.uploadChunk(progress, index, chunk);
+        }
+      } finally {
+        await file.close();
+      }
+      await this.finalize(progress, await sha256Hex(createReadStream(filePath)));
+    }
+
+    const assetId = await this.waitForAsset(progress.upload_identifier!, options);
+    await this.client.createdResources.track({ kind: 'entity', id: assetId });
+    return assetId;
+  }
+
+  /**
+   * Poll progress until processing created the asset
+   */
+  private async waitForAsset(uploadIdentifier: string, options: UploadFileOptions): Promise<number> {
+    const pollIntervalMs = options.pollIntervalMs ?? 500;
+    const deadline = Date.now() + (options.timeoutMs ?? 60000);
+
+    for (;;) {
+      const progress = await this.progress(uploadIdentifier);
+      if (progress.status === 'Completed' && progress.asset_id !== undefined) {
+        return progress.asset_id;
+      }
+      if (progress.status === 'Failed') {
+        throw new ContentHubUploadError(
+          `Upload ${uploadIdentifier} failed: ${progress.failure?.message ?? 'no reason given'}`,
+          uploadIdentifier,
+          200,
+          progress.failure
+        );
+      }
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new ContentHubUploadError(
+          `Upload ${uploadIdentifier} still ${progress.status} after ${options.timeoutMs ?? 60000}ms`,
+          uploadIdentifier,
+          200,
+          progress
+        );
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  private chunkUrl(progress: UploadProgress | UploadInitiation): string {
+    const chunkUrl = progress.upload_configuration?.parameters?.chunk_url;
+    return String(chunkUrl ?? `/api/upload/${progress.upload_identifier}/chunks`);
+  }
+
+  /**
+   * Like `parse`, but failures are raised as ContentHubUploadError so callers can resume
+   */
+  private async parseUpload<T>(
+    response: APIResponse,
+    method: HttpMethod,
+    endpoint: string,
+    uploadIdentifier: string,
+    expectedStatuses: number[] = [200]
+  ): Promise<T> {
+    if (expectedStatuses.includes(response.status())) {
+      return response.json();
+    }
+    const error = await ContentHubError.fromResponse(response, { method, endpoint });
+    const reason = (error.body as { message?: unknown } | undefined)?.message;
+    throw new ContentHubUploadError(
+      typeof reason === 'string' ? `${error.message}: ${reason}` : error.message,
+      uploadIdentifier,
+      error.status,
+      error.body,
+      error.request
+    );
+  }
+}
@@ -0,0 +1,247 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { ContentHubAPIClient } from './client';
+import { EntityDefinition, MemberDefinition } from './models';
+import { TEST_ARTIFACT_PREFIXES } from './test-artifact-sweeper';
+
+/**
+ * Schema drift between Content Hub instances.
+ *
+ * `captureSchema()` reads the cultures, entity definitions with their members, and option
+ * lists of an instance into a snapshot keyed by name (ids differ between instances).
+ * `diffSchemas()` lists what one snapshot has that the other lacks or defines differently,
+ * so a member added on dev but never moved to QA shows up before a test trips over it.
+ * Snapshots are plain JSON and can be committed as a baseline to compare later runs with.
+ */
+
+export interface CaptureSchemaOptions {
+  /** Options whose keys start with one of these are left out (default: the suite's test option prefixes) */
+  ignoreOptionPrefixes?: string[];
+}
+
+export interface MemberSnapshot {
+  type: string;
+  is_multilanguage: boolean;
+  is_required: boolean;
+  option_list?: string;
+  relation?: {
+    associated_definition: string;
+    cardinality: string;
+    role: string;
+  };
+}
+
+export interface SchemaSnapshot {
+  /** Culture codes, the default culture first */
+  cultures: string[];
+  definitions: Record<string, { members: Record<string, MemberSnapshot> }>;
+  /** Labels per culture of every option, by option list and option key */
+  optionLists: Record<string, { options: Record<string, Record<string, string>> }>;
+}
+
+export type SchemaDifferenceKind = 'culture' | 'definition' | 'member' | 'option list' | 'option';
+
+export interface SchemaDifference {
+  kind: SchemaDifferenceKind;
+  /** `fr-FR`, `M.Asset`, `M.Asset.Title`, `M.AssetStatus`, `M.AssetStatus.approved` */
+  subject: string;
+  /** `missing` from the target, `extra` on the target, or `changed` between the two */
+  change: 'missing' | 'extra' | 'changed';
+  /** What changed, e.g. `type`, `relation.cardinality` or `labels.fr-FR` */
+  field?: string;
+  source?: unknown;
+  target?: unknown;
+}
+
+export interface SchemaDiff {
+  /** Names of the compared schemas, e.g. profiles or a baseline file */
+  source: string;
+  target: string;
+  differences: SchemaDifference[];
+}
+
+const sortedKeys = (record: object) => Object.keys(record).sort();
+
+function memberSnapshot(member: MemberDefinition): MemberSnapshot {
+  const snapshot: MemberSnapshot = {
+    type: member.type,
+    is_multilanguage: member.is_multilanguage ?? false,
+    is_required: member.is_required ?? false
+  };
+  if (member.option_list) {
+    snapshot.option_list = member.option_list;
+  }
+  if (member.relation) {
+    const { associated_definition, cardinality, role } = member.relation;
+    snapshot.relation = { associated_definition, cardinality, role };
+  }
+  return snapshot;
+}
+
+/**
+ * Snapshot of the schema `client` sees, with every name sorted so snapshots diff cleanly as files.
+ * Options created by tests running at the same time are left out.
+ */
+export async function captureSchema(client: ContentHubAPIClient, options: CaptureSchemaOptions = {}): Promise<SchemaSnapshot> {
+  const ignoreOptionPrefixes = options.ignoreOptionPrefixes ?? TEST_ARTIFACT_PREFIXES.options;
+  const cultures = (await client.cultures.list()).items;
+  const snapshot: SchemaSnapshot = {
+    cultures: [
+      ...cultures.filter(culture => culture.is_default).map(culture => culture.name),
+      ...cultures.filter(culture => !culture.is_default).map(culture => culture.name).sort()
+    ],
+    definitions: {},
+    optionLists: {}
+  };
+
+  const definitions: EntityDefinition[] = [];
+  for await (const definition of client.iterate<EntityDefinition>('/api/entitydefinitions')) {
+    definitions.push(definition);
+  }
+  for (const { id, name } of definitions.sort((a, b) => a.name.localeCompare(b.name))) {
+    const members = (await client.entityDefinitions.members(id)).items.sort((a, b) => a.name.localeCompare(b.name));
+    snapshot.definitions[name] = { members: Object.fromEntries(members.map(member => [member.name, memberSnapshot(member)])) };
+  }
+
+  const optionLists = [];
+  for await (const optionList of client.optionLists.iterate()) {
+    optionLists.push({ ...optionList, name: optionList.name ?? `#${optionList.id}` });
+  }
+  for (const { name, options } of optionLists.sort((a, b) => a.name.localeCompare(b.name))) {
+    const sorted = options
+      .filter(option => !ignoreOptionPrefixes.some(prefix => option.key.startsWith(prefix)))
+      .sort((a, b) => a.key.localeCompare(b.key));
+    snapshot.optionLists[name] = {
+      options: Object.fromEntries(
+        sorted.map(option => [option.key, Object.fromEntries(sortedKeys(option.labels).map(culture => [culture, option.labels[culture]]))])
+      )
+    };
+  }
+  return snapshot;
+}
+
+/**
+ * Entries of `source` and `target` by key: in both, only in the source, only in the target
+ */
+function pair<T>(source: Record<string, T>, target: Record<string, T>): [string, T | undefined, T | undefined][] {
+  return [...new Set([...Object.keys(source), ...Object.keys(target)])].sort().map(key => [key, source[key], target[key]]);
+}
+
+function presence(kind: SchemaDifferenceKind, subject: string, source: unknown, target: unknown): SchemaDifference | undefined {
+  if (source === undefined) {
+    return { kind, subject, change: 'extra' };
+  }
+  if (target === undefined) {
+    return { kind, subject, change: 'missing' };
+  }
+  return undefined;
+}
+
+/**
+ * Fields of two flat-ish records that differ, nested objects compared field by field (`relation.role`)
+ */
+function changedFields(source: object, target: object, prefix = ''): { field: string; source: unknown; target: unknown }[] {
+  const sourceRecord = source as Record<string, unknown>;
+  const targetRecord = target as Record<string, unknown>;
+  return pair(sourceRecord, targetRecord).flatMap(([key, before, after]) => {
+    const field = `${prefix}${key}`;
+    if (before && after && typeof before === 'object' && typeof after === 'object') {
+      return changedFields(before, after, `${field}.`);
+    }
+    return before === after ? [] : [{ field, source: before, target: after }];
+  });
+}
+
+/**
+ * Everything `target` lacks, adds or defines differently compared with `source`
+ */
+export function diffSchemas(source: SchemaSnapshot, target: SchemaSnapshot, names = { source: 'source', target: 'target' }): SchemaDiff {
+  const differences: SchemaDifference[] = [];
+  const push = (difference: SchemaDifference | undefined) => difference && differences.push(difference);
+
+  const asSet = (cultures: string[]) => Object.fromEntries(cultures.map(culture => [culture, true]));
+  for (const [culture, before, after] of pair(asSet(source.cultures), asSet(target.cultures))) {
+    push(presence('culture', culture, before, after));
+  }
+  if (source.cultures[0] && target.cultures[0] && source.cultures[0] !== target.cultures[0]) {
+    differences.push({ kind: 'culture', subject: 'default', change: 'changed', source: source.cultures[0], target: target.cultures[0] });
+  }
+
+  for (const [name, before, after] of pair(source.definitions, target.definitions)) {
+    if (!before || !after) {
+      push(presence('definition', name, before, after));
+      continue;
+    }
+    for (const [member, beforeMember, afterMember] of pair(before.members, after.members)) {
+      const subject = `${name}.${member}`;
+      if (!beforeMember || !afterMember) {
+        push(presence('member', subject, beforeMember, afterMember));
+        continue;
+      }
+      for (const change of changedFields(beforeMember, afterMember)) {
+        differences.push({ kind: 'member', subject, change: 'changed', ...change });
+      }
+    }
+  }
+
+  for (const [name, before, after] of pair(source.optionLists, target.optionLists)) {
+    if (!before || !after) {
+      push(presence('option list', name, before, after));
+      continue;
+    }
+    for (const [key, beforeLabels, afterLabels] of pair(before.options, after.options)) {
+      const subject = `${name}.${key}`;
+      if (!beforeLabels || !afterLabels) {
+        push(presence('option', subject, beforeLabels, afterLabels));
+        continue;
+      }
+      for (const change of changedFields(beforeLabels, afterLabels, 'labels.')) {
+        differences.push({ kind: 'option', subject, change: 'changed', ...change });
+      }
+    }
+  }
+
+  return { ...names, differences };
+}
+
+const show = (value: unknown) => (value === undefined ? 'unset' : JSON.stringify(value));
+
+/**
+ * One line per difference, e.g. `member M.Asset.Title: type "String" on dev, "Text" on qa`
+ */
+export function formatSchemaDiff({ source, target, differences }: SchemaDiff): string {
+  if (differences.length === 0) {
+    return `No schema drift from ${source} to ${target}`;
+  }
+  const lines = differences.map(({ kind, subject, change, field, source: before, target: after }) => {
+    switch (change) {
+      case 'missing':
+        return `  ${kind} ${subject}: missing on ${target}`;
+      case 'extra':
+        return `  ${kind} ${subject}: only on ${target}`;
+      case 'changed':
+        return `  ${kind} ${subject}: ${field ? `${field} ` : ''}${show(before)} on ${source}, ${show(after)} on ${target}`;
+    }
+  });
+  const count = differences.length === 1 ? '1 difference' : `${differences.length} differences`;
+  return `Schema drift from ${source} to ${target} (${count}):\n${lines.join('\n')}`;
+}
+
+/**
+ * Read a snapshot saved with `saveSchemaSnapshot()`; undefined when the file does not exist
+ */
+export async function loadSchemaSnapshot(file: string): Promise<SchemaSnapshot | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function saveSchemaSnapshot(file: string, snapshot: SchemaSnapshot): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
@@ -0,0 +1,168 @@
+import { randomUUID } from 'crypto';
+import { promises as fs, Stats } from 'fs';
+
+/**
+ * Sliding-window rate limiter shared by every client in a test run.
+ *
+ * Grants are recorded in a JSON state file guarded by a lock file, so clients in
+ * different Playwright workers draw from one budget. Without a state file the
+ * window is kept in memory and shared by the clients of the current process only.
+ */
+
+export interface RateLimiterOptions {
+  /** Requests allowed inside any window */
+  limit: number;
+  windowMs: number;
+  /** State file coordinating processes; in-memory when omitted */
+  statePath?: string;
+  /** A lock held longer than this is assumed abandoned by a crashed process */
+  lockStaleMs?: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Wait for a free slot. Resolves with the epoch milliseconds the slot was granted at.
+   * `onWait` is called with the delay whenever the budget is exhausted.
+   */
+  acquire(onWait?: (delayMs: number) => void): Promise<number>;
+  /** Forget all recorded grants */
+  reset(): Promise<void>;
+}
+
+const LOCK_RETRY_MS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SharedRateLimiter implements RateLimiter {
+  private readonly limit: number;
+  private readonly windowMs: number;
+  private readonly statePath?: string;
+  private readonly lockPath?: string;
+  private readonly lockStaleMs: number;
+  private grants: number[] = [];
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = options.limit;
+    this.windowMs = options.windowMs;
+    this.statePath = options.statePath;
+    this.lockPath = options.statePath && `${options.statePath}.lock`;
+    this.lockStaleMs = options.lockStaleMs ?? 2000;
+  }
+
+  async acquire(onWait?: (delayMs: number) => void): Promise<number> {
+    for (;;) {
+      const attempt = await this.withState<{ grantedAt: number } | { delayMs: number }>(grants => {
+        const now = Date.now();
+        const recent = grants.filter(time => now - time < this.windowMs);
+        if (recent.length < this.limit) {
+          return { grants: [...recent, now], result: { grantedAt: now } };
+        }
+        // The oldest grant in the window decides when the next slot opens
+        return { grants: recent, result: { delayMs: recent[0] + this.windowMs - now } };
+      });
+
+      if ('grantedAt' in attempt) {
+        return attempt.grantedAt;
+      }
+      onWait?.(attempt.delayMs);
+      await sleep(attempt.delayMs);
+    }
+  }
+
+  async reset(): Promise<void> {
+    await this.withState(() => ({ grants: [], result: undefined }));
+  }
+
+  /**
+   * Read-modify-write the grant log, under the file lock when a state file is used
+   */
+  private async withState<T>(update: (grants: number[]) => { grants: number[]; result: T }): Promise<T> {
+    if (!this.statePath) {
+      const { grants, result } = update(this.grants);
+      this.grants = grants;
+      return result;
+    }
+
+    await this.lock();
+    try {
+      const { grants, result } = update(await this.readGrants());
+      await fs.writeFile(this.statePath, JSON.stringify(grants));
+      return result;
+    } finally {
+      await fs.rm(this.lockPath!, { force: true });
+    }
+  }
+
+  private async readGrants(): Promise<number[]> {
+    try {
+      const grants = JSON.parse(await fs.readFile(this.statePath!, 'utf8'));
+      return Array.isArray(grants) ? grants : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async lock(): Promise<void> {
+    for (;;) {
+      try {
+        const handle = await fs.open(this.lockPath!, 'wx');
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stats = await fs.stat(this.lockPath!).catch(() => undefined);
+      if (stats && Date.now() - stats.mtimeMs > this.lockStaleMs) {
+        await this.breakLock(stats);
+        continue;
+      }
+      await sleep(LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Remove the abandoned lock `stale` describes. Another worker may have broken it and taken a
+   * fresh lock since it was checked, so the lock is first moved aside under a name of its own and
+   * only deleted when it is still the same file; a fresh lock is linked back in place.
+   */
+  private async breakLock(stale: Stats): Promise<void> {
+    const claimedPath = `${this.lockPath}.${randomUUID()}`;
+    try {
+      await fs.rename(this.lockPath!, claimedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    const claimed = await fs.stat(claimedPath);
+    if (claimed.ino !== stale.ino || claimed.mtimeMs !== stale.mtimeMs) {
+      // Linking never replaces a lock taken in between
+      await fs.link(claimedPath, this.lockPath!).catch(() => undefined);
+    }
+    await fs.rm(claimedPath, { force: true });
+  }
+}
+
+const sharedLimiters = new Map<string, SharedRateLimiter>();
+
+/**
+ * The limiter for a budget, shared by all callers in this process. The state file named by
+ * CONTENT_HUB_RATE_LIMIT_STATE (set by the global setup) extends it across workers.
+ */
+export function getSharedRateLimiter(
+  limit: number,
+  windowMs: number,
+  statePath: string | undefined = process.env.CONTENT_HUB_RATE_LIMIT_STATE
+): SharedRateLimiter {
+  const key = `${statePath ?? 'memory'}:${limit}:${windowMs}`;
+  let limiter = sharedLimiters.get(key);
+  if (!limiter) {
+    limiter = new SharedRateLimiter({ limit, windowMs, statePath });
+    sharedLimiters.set(key, limiter);
+  }
+  return limiter;
+}
@@ -0,0 +1,123 @@
+import type { ContentHubAPIClient } from './client';
+import { CleanupResult, CreatedResource, deleteResources, resourceEndpoint } from './cleanup-registry';
+
+/**
+ * Finds and purges test artifacts that earlier runs left behind on a shared instance,
+ * recognised by identifier prefix and age.
+ */
+
+export interface ArtifactPrefixes {
+  /** Matched against entity identifiers */
+  entities: string[];
+  /** Matched against selection names */
+  selections: string[];
+  /** Matched against option keys */
+  options: string[];
+}
+
+/**
+ * Prefixes of the resources the suite creates
+ */
+export const TEST_ARTIFACT_PREFIXES: ArtifactPrefixes = {
+  entities: ['test-entity-'],
+  selections: ['Test Selection ', 'Selection for Entities '],
+  options: ['test-option-']
+};
+
+export interface SweepOptions {
+  /** Only artifacts created longer ago than this are removed */
+  olderThanHours: number;
+  /** Report what would be removed without deleting anything */
+  dryRun?: boolean;
+  prefixes?: Partial<ArtifactPrefixes>;
+  pageSize?: number;
+  /** Reference time in epoch milliseconds, for tests */
+  now?: number;
+}
+
+export interface SweepCandidate {
+  resource: CreatedResource;
+  label: string;
+  createdAt: Date;
+}
+
+export interface SweepReport {
+  dryRun: boolean;
+  cutoff: Date;
+  candidates: SweepCandidate[];
+  /** Absent for dry runs */
+  result?: CleanupResult;
+}
+
+/**
+ * Creation time from the `created_on` field, falling back to the Date.now()
+ * stamp the suite embeds at the end of identifiers, names and keys
+ */
+function creationTime(label: string, createdOn?: string): Date | undefined {
+  if (createdOn && !Number.isNaN(Date.parse(createdOn))) {
+    return new Date(createdOn);
+  }
+  const stamp = label.match(/(\d{13})\D*$/);
+  return stamp ? new Date(Number(stamp[1])) : undefined;
+}
+
+export async function sweepTestArtifacts(client: ContentHubAPIClient, options: SweepOptions): Promise<SweepReport> {
+  const prefixes: ArtifactPrefixes = { ...TEST_ARTIFACT_PREFIXES, ...options.prefixes };
+  const pageSize = options.pageSize ?? 100;
+  const cutoff = new Date((options.now ?? Date.now()) - options.olderThanHours * 60 * 60 * 1000);
+  const candidates: SweepCandidate[] = [];
+
+  const consider = (resource: CreatedResource, label: string | undefined, labelPrefixes: string[], createdOn?: string) => {
+    // Entities without an identifier (and anything else unnamed) cannot be told apart from seed data
+    if (!label) {
+      return;
+    }
+    const createdAt = creationTime(label, createdOn);
+    // Artifacts of unknown age are left alone
+    if (createdAt && createdAt < cutoff && labelPrefixes.some(prefix => label.startsWith(prefix))) {
+      candidates.push({ resource, label, createdAt });
+    }
+  };
+
+  // Options and selections go before the entities they may reference
+  for await (const { id } of client.optionLists.iterate({ pageSize })) {
+    const optionList = await client.optionLists.get(id);
+    optionList.options.forEach(option =>
+      consider({ kind: 'option', optionListId: id, key: option.key }, option.key, prefixes.options)
+    );
+  }
+
+  for await (const selection of client.selections.iterate({ pageSize })) {
+    consider({ kind: 'selection', id: selection.id }, selection.name, prefixes.selections, selection.created_on);
+  }
+
+  // Scrolling, because a shared instance can hold more entities than skip/take reaches
+  for await (const entity of client.entities.iterate({ query: '*' }, { pageSize, mode: 'scroll' })) {
+    consider({ kind: 'entity', id: entity.id }, entity.identifier, prefixes.entities, entity.created_on);
+  }
+
+  const report: SweepReport = { dryRun: options.dryRun ?? false, cutoff, candidates };
+  if (report.dryRun) {
+    return report;
+  }
+
+  report.result = await deleteResources(client, candidates.map(({ resource }) => resource));
+  return report;
+}
+
+/**
+ * Human-readable summary of a sweep, one line per artifact
+ */
+export function formatSweepReport(report: SweepReport): string {
+  const verb = report.dryRun ? 'Would delete' : 'Deleted';
+  const failed = new Set(report.result?.failed.map(({ resource }) => resourceEndpoint(resource)));
+  const lines = [
+    `Test artifact sweep${report.dryRun ? ' (dry run)' : ''}: ${report.candidates.length} artifact(s) created before ${report.cutoff.toISOString()}`
+  ];
+  for (const { resource, label, createdAt } of report.candidates) {
+    const endpoint = resourceEndpoint(resource);
+    const action = failed.has(endpoint) ? 'Failed to delete' : verb;
+    lines.push(`  ${action} ${resource.kind} "${label}" (${endpoint}, created ${createdAt.toISOString()})`);
+  }
+  return lines.join('\n');
+}
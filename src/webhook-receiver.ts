@@ -0,0 +1,267 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ContentHubWebhookError } from './errors';
+
+/**
+ * A local HTTP listener for the callbacks Content Hub triggers make when entities change.
+ *
+ * Point a trigger's API call action (or the mock's webhooks) at `url`. Every callback is checked
+ * against the configured HMAC secret and shared-secret header, answered, and recorded; tests then
+ * wait for the one they expect with `expectEvent`. Callbacks failing the checks are answered with
+ * 401 and kept apart in `rejected`.
+ */
+
+export type WebhookEventType = 'EntityCreated' | 'EntityUpdated' | 'EntityDeleted';
+
+export interface WebhookReceiverOptions {
+  /** Defaults to an ephemeral port */
+  port?: number;
+  host?: string;
+  /** Require an HMAC-SHA256 signature of the body under this secret in `signatureHeader` */
+  secret?: string;
+  /** Header carrying `sha256=<hex>` (default `X-Signature-256`) */
+  signatureHeader?: string;
+  /** Require this header with this value on every callback */
+  sharedSecret?: { header: string; value: string };
+}
+
+/**
+ * A property changed by the save a callback reports
+ */
+export interface WebhookPropertyChange {
+  Property: string;
+  Culture: string | null;
+  OriginalValue: unknown;
+  NewValue: unknown;
+}
+
+/**
+ * Callback body as Content Hub sends it
+ */
+export interface WebhookBody {
+  saveEntityMessage: {
+    EventType: WebhookEventType;
+    TimeStamp?: string;
+    IsNew?: boolean;
+    TargetDefinition: string;
+    TargetId: number;
+    TargetIdentifier?: string;
+    ChangeSet?: {
+      PropertyChanges: WebhookPropertyChange[];
+      Cultures: string[];
+      RelationChanges: unknown[];
+    };
+  };
+  context?: unknown;
+}
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  entityId: number;
+  definition: string;
+  identifier?: string;
+  /** The `saveEntityMessage` and context as sent */
+  body: WebhookBody;
+  headers: http.IncomingHttpHeaders;
+  receivedAt: number;
+}
+
+export interface RejectedWebhook {
+  reason: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  receivedAt: number;
+}
+
+export interface WebhookEventMatch {
+  entityId?: number;
+  type?: WebhookEventType;
+  definition?: string;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  /** Accepted callbacks in arrival order */
+  readonly events: WebhookEvent[];
+  readonly rejected: RejectedWebhook[];
+  /**
+   * The first event, received before or after the call, that matches; rejects with
+   * ContentHubWebhookError when none arrives within `timeoutMs`
+   */
+  expectEvent(match: WebhookEventMatch, timeoutMs?: number): Promise<WebhookEvent>;
+  /** Rejects with ContentHubWebhookError if a matching event arrives, or has arrived, within `windowMs` */
+  expectNoEvent(match: WebhookEventMatch, windowMs?: number): Promise<void>;
+  clear(): void;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Signature-256';
+
+const DEFAULT_EVENT_TIMEOUT_MS = 5000;
+
+const matches = (event: WebhookEvent, { entityId, type, definition }: WebhookEventMatch) =>
+  (entityId === undefined || event.entityId === entityId) &&
+  (type === undefined || event.type === type) &&
+  (definition === undefined || event.definition === definition);
+
+const describeMatch = ({ entityId, type, definition }: WebhookEventMatch) => {
+  const target = [definition, entityId !== undefined && `entity ${entityId}`].filter(Boolean).join(' ');
+  return `${type ?? 'Any'} callback${target ? ` for ${target}` : ''}`;
+};
+
+/**
+ * Signature of `body` under `secret`, as `sha256=<hex>`
+ */
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Why a callback fails the receiver's checks; undefined when it passes them
+ */
+function checkCallback(options: WebhookReceiverOptions, headers: http.IncomingHttpHeaders, body: string): string | undefined {
+  const { sharedSecret, secret } = options;
+  if (sharedSecret && headers[sharedSecret.header.toLowerCase()] !== sharedSecret.value) {
+    return `Missing or wrong ${sharedSecret.header} header`;
+  }
+  if (secret) {
+    const header = options.signatureHeader ?? DEFAULT_SIGNATURE_HEADER;
+    const signature = headers[header.toLowerCase()];
+    const expected = Buffer.from(signWebhookBody(body, secret));
+    const actual = Buffer.from(typeof signature === 'string' ? signature : '');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return `Missing or invalid ${header} signature`;
+    }
+  }
+  return undefined;
+}
+
+function isWebhookBody(body: unknown): body is WebhookBody {
+  const message = typeof body === 'object' && body !== null ? (body as Partial<WebhookBody>).saveEntityMessage : undefined;
+  return typeof message?.EventType === 'string' && typeof message.TargetId === 'number';
+}
+
+/**
+ * The event a `saveEntityMessage` body describes; undefined when the body is not one
+ */
+function parseEvent(body: string, headers: http.IncomingHttpHeaders, receivedAt: number): WebhookEvent | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  if (!isWebhookBody(parsed)) {
+    return undefined;
+  }
+  const message = parsed.saveEntityMessage;
+  return {
+    type: message.EventType,
+    entityId: message.TargetId,
+    definition: message.TargetDefinition,
+    identifier: message.TargetIdentifier,
+    body: parsed,
+    headers,
+    receivedAt
+  };
+}
+
+/**
+ * Start listening for callbacks. Close the receiver when done with it.
+ */
+export async function startWebhookReceiver(options: WebhookReceiverOptions = {}): Promise<WebhookReceiver> {
+  const host = options.host ?? '127.0.0.1';
+  const events: WebhookEvent[] = [];
+  const rejected: RejectedWebhook[] = [];
+  const listeners = new Set<(event: WebhookEvent) => void>();
+
+  const httpServer = http.createServer((incoming, outgoing) => {
+    const chunks: Buffer[] = [];
+    incoming.on('data', chunk => chunks.push(chunk));
+    incoming.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const receivedAt = Date.now();
+      const refusal =
+        incoming.method === 'POST' ? checkCallback(options, incoming.headers, body) : `${incoming.method} is not a callback`;
+      const event = refusal === undefined ? parseEvent(body, incoming.headers, receivedAt) : undefined;
+      if (!event) {
+        const reason = refusal ?? 'Body is not a saveEntityMessage';
+        rejected.push({ reason, headers: incoming.headers, body, receivedAt });
+        outgoing.writeHead(refusal === undefined ? 400 : 401, { 'Content-Type': 'application/json' });
+        outgoing.end(JSON.stringify({ error: 'rejected', message: reason }));
+        return;
+      }
+      events.push(event);
+      listeners.forEach(listener => listener(event));
+      outgoing.writeHead(204);
+      outgoing.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  /**
+   * The first matching event, waiting up to `timeoutMs` for one; undefined when none arrives
+   */
+  const awaitEvent = (match: WebhookEventMatch, timeoutMs: number): Promise<WebhookEvent | undefined> => {
+    const received = events.find(event => matches(event, match));
+    if (received) {
+      return Promise.resolve(received);
+    }
+    return new Promise(resolve => {
+      const listener = (event: WebhookEvent) => {
+        if (matches(event, match)) {
+          done(event);
+        }
+      };
+      const timer = setTimeout(() => done(undefined), timeoutMs);
+      const done = (event: WebhookEvent | undefined) => {
+        clearTimeout(timer);
+        listeners.delete(listener);
+        resolve(event);
+      };
+      listeners.add(listener);
+    });
+  };
+
+  const summary = () =>
+    events.length === 0 ? 'none' : events.map(({ type, definition, entityId }) => `${type} ${definition} ${entityId}`).join(', ');
+
+  return {
+    url: `http://${host}:${port}`,
+    events,
+    rejected,
+    async expectEvent(match, timeoutMs = DEFAULT_EVENT_TIMEOUT_MS) {
+      const event = await awaitEvent(match, timeoutMs);
+      if (!event) {
+        throw new ContentHubWebhookError(`${describeMatch(match)} not received within ${timeoutMs}ms; received: ${summary()}`, [
+          ...events
+        ]);
+      }
+      return event;
+    },
+    async expectNoEvent(match, windowMs = DEFAULT_EVENT_TIMEOUT_MS) {
+      const event = await awaitEvent(match, windowMs);
+      if (event) {
+        throw new ContentHubWebhookError(`Unexpected ${event.type} callback for ${event.definition} ${event.entityId}`, [...events]);
+      }
+    },
+    clear() {
+      events.length = 0;
+      rejected.length = 0;
+    },
+    close() {
+      listeners.clear();
+      return new Promise((resolve, reject) => {
+        httpServer.closeAllConnections();
+        httpServer.close(error => (error ? reject(error) : resolve()));
+      });
+    }
+  };
+}
@@ -0,0 +1,284 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  AccessExpectations,
+  AccessMatrix,
+  AccessOperation,
+  accessMismatches,
+  ContentHubError,
+  Entity,
+  formatAccessMatrix,
+  OptionList,
+  probeAccess,
+  resolveIdentities,
+  Selection
+} from '../src';
+import { ApiClients } from './support/api-test';
+import { test, expect } from './support/identity-test';
+
+/**
+ * Resources the operations act on, created for each identity by the profile's own client
+ */
+interface AccessTargets {
+  stamp: number;
+  asset: Entity;
+  /** An entity of the definition the mock hides from its reader */
+  content: Entity;
+  disposableAsset: Entity;
+  selection: Selection;
+  disposableSelection: Selection;
+  optionList: OptionList;
+  disposableOption: string;
+  job: number;
+}
+
+const OPERATIONS: AccessOperation<AccessTargets>[] = [
+  { name: 'entities.list', send: client => client.get('/api/entities', { take: 1 }) },
+  { name: 'entities.get', send: (client, { asset }) => client.get(`/api/entities/${asset.id}`) },
+  { name: 'entities.getContent', send: (client, { content }) => client.get(`/api/entities/${content.id}`) },
+  {
+    name: 'entities.query',
+    send: client => client.post('/api/entities/query', { query: 'Definition.Name:"M.Asset"', take: 1 })
+  },
+  {
+    name: 'entities.create',
+    send: (client, { stamp }) =>
+      client.post('/api/entities', { identifier: `test-entity-access-${client.identity}-${stamp}`, definition: 'M.Asset' })
+  },
+  {
+    name: 'entities.update',
+    send: (client, { asset }) =>
+      client.put(`/api/entities/${asset.id}`, {
+        identifier: asset.identifier,
+        properties: { FileName: [{ culture: null, value: `${client.identity}.jpg` }] }
+      })
+  },
+  { name: 'entities.delete', send: (client, { disposableAsset }) => client.delete(`/api/entities/${disposableAsset.id}`) },
+  { name: 'selections.list', send: client => client.get('/api/selections', { take: 1 }) },
+  { name: 'selections.get', send: (client, { selection }) => client.get(`/api/selections/${selection.id}`) },
+  {
+    name: 'selections.create',
+    send: (client, { stamp }) => client.post('/api/selections', { name: `Test Selection access ${client.identity} ${stamp}`, entities: [] })
+  },
+  {
+    name: 'selections.addEntities',
+    send: (client, { selection, asset }) => client.post(`/api/selections/${selection.id}/entities`, { entity_ids: [asset.id] })
+  },
+  {
+    name: 'selections.delete',
+    send: (client, { disposableSelection }) => client.delete(`/api/selections/${disposableSelection.id}`)
+  },
+  { name: 'optionlists.list', send: client => client.get('/api/optionlists', { take: 1 }) },
+  { name: 'optionlists.get', send: (client, { optionList }) => client.get(`/api/optionlists/${optionList.id}`) },
+  {
+    name: 'optionlists.addOption',
+    send: (client, { optionList, stamp }) =>
+      client.post(`/api/optionlists/${optionList.id}/options`, {
+        key: `test-option-access-${client.identity}-${stamp}`,
+        labels: { 'en-US': 'Access' }
+      })
+  },
+  {
+    name: 'optionlists.deleteOption',
+    send: (client, { optionList, disposableOption }) =>
+      client.delete(`/api/optionlists/${optionList.id}/options/${encodeURIComponent(disposableOption)}`)
+  },
+  { name: 'jobs.list', send: client => client.get('/api/jobs', { take: 1 }) },
+  { name: 'jobs.get', send: (client, { job }) => client.get(`/api/jobs/${job}`) }
+];
+
+const allow = (...names: string[]): AccessExpectations => Object.fromEntries(names.map(name => [name, 'allow']));
+const deny = (...names: string[]): AccessExpectations => Object.fromEntries(names.map(name => [name, 'deny']));
+
+const READS = OPERATIONS.map(({ name }) => name).filter(name => /\.(list|get|getContent|query)$/.test(name));
+const WRITES = OPERATIONS.map(({ name }) => name).filter(name => !READS.includes(name));
+
+/**
+ * What each identity of CONTENT_HUB_IDENTITIES may do. These are the mock's users (see DEFAULT_USERS);
+ * against an instance, name identities after the user groups they belong to and adjust as needed.
+ */
+const EXPECTED_ACCESS: Record<string, AccessExpectations> = {
+  admin: allow(...READS, ...WRITES),
+  editor: {
+    ...allow(...READS, ...WRITES),
+    ...deny('entities.delete', 'optionlists.addOption', 'optionlists.deleteOption')
+  },
+  reader: { ...allow(...READS), ...deny('entities.getContent', ...WRITES) }
+};
+
+test.describe('Access Matrix Tests', () => {
+  test.describe('with the configured identities', () => {
+    test('should grant each identity the expected access', { tag: '@destructive' }, async ({ apiClients, identities }, testInfo) => {
+      const owner = apiClients.configured();
+      test.skip(process.env.CONTENT_HUB_CASSETTE === 'replay', 'Identities sign in live');
+      const names = Object.keys(EXPECTED_ACCESS).filter(name => name in identities);
+      test.skip(names.length === 0, 'No identity of CONTENT_HUB_IDENTITIES has expected access declared');
+
+      const [optionList] = (await owner.optionLists.list({ take: 1 })).items;
+      const matrix: AccessMatrix = {};
+      try {
+        for (const name of names) {
+          const stamp = Date.now();
+          const create = (kind: string, definition: string) =>
+            owner.entities.create({ identifier: `test-entity-access-${kind}-${stamp}`, definition });
+          const asset = await create('asset', 'M.Asset');
+          const targets: AccessTargets = {
+            stamp,
+            asset,
+            content: await create('content', 'M.Content'),
+            disposableAsset: await create('disposable', 'M.Asset'),
+            selection: await owner.selections.create({ name: `Test Selection access ${stamp}` }),
+            disposableSelection: await owner.selections.create({ name: `Test Selection access disposable ${stamp}` }),
+            optionList,
+            disposableOption: (await owner.optionLists.addOption(optionList.id, { key: `test-option-access-${stamp}`, labels: {} })).key,
+            job: (await owner.entities.bulkUpdate({ entity_ids: [asset.id], properties: {} })).job_id
+          };
+          matrix[name] = await probeAccess(identities[name], OPERATIONS, targets, EXPECTED_ACCESS[name]);
+        }
+      } finally {
+        await owner.deleteCreatedResources();
+      }
+
+      const report = formatAccessMatrix(matrix);
+      await testInfo.attach('access-matrix', { body: report, contentType: 'text/plain' });
+      expect(accessMismatches(matrix), `Access matrix (! marks a mismatch):\n${report}`).toEqual({});
+    });
+  });
+
+  test.describe('against the mock users', () => {
+    let mockServer: MockServer;
+
+    const identityClient = (apiClients: ApiClients, name: string, username: string) =>
+      apiClients.mock(mockServer, { identity: { name, username, password: `${username}-password` } });
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(() => {
+      mockServer.reset();
+    });
+
+    test('should read identities from the profile variables', () => {
+      const identities = resolveIdentities('qa', {
+        CONTENT_HUB_IDENTITIES: 'ignored',
+        CONTENT_HUB_QA_IDENTITIES: 'reader, content_editor',
+        CONTENT_HUB_QA_IDENTITY_READER_USERNAME: 'jane',
+        CONTENT_HUB_QA_IDENTITY_READER_PASSWORD: 'secret',
+        CONTENT_HUB_QA_IDENTITY_CONTENT_EDITOR_USERNAME: 'joe',
+        CONTENT_HUB_QA_IDENTITY_CONTENT_EDITOR_PASSWORD: 'hidden'
+      });
+
+      expect(identities).toEqual([
+        { name: 'reader', username: 'jane', password: 'secret' },
+        { name: 'content_editor', username: 'joe', password: 'hidden' }
+      ]);
+      expect(resolveIdentities(undefined, {})).toEqual([]);
+      expect(() => resolveIdentities(undefined, { CONTENT_HUB_IDENTITIES: 'reader' })).toThrow(
+        "Identity 'reader' needs CONTENT_HUB_IDENTITY_READER_USERNAME"
+      );
+      expect(() => resolveIdentities(undefined, { CONTENT_HUB_IDENTITIES: 'read-only' })).toThrow(
+        "CONTENT_HUB_IDENTITIES lists 'read-only'; names take letters, digits and underscores"
+      );
+    });
+
+    test('should sign each identity in with its own token', async ({ apiClients }) => {
+      const owner = apiClients.mock(mockServer);
+      const editor = identityClient(apiClients, 'editor', 'mock-editor');
+      const reader = identityClient(apiClients, 'reader', 'mock-reader');
+
+      const tokens = await Promise.all([owner, editor, reader].map(client => client.getAuthToken()));
+
+      expect(new Set(tokens).size).toBe(3);
+      expect(tokens.map(token => mockServer.state.tokens.get(token)?.username)).toEqual(['mock-user', 'mock-editor', 'mock-reader']);
+      expect(reader.identity).toBe('reader');
+      expect(owner.identity).toBeUndefined();
+
+      // Dropping one identity's token leaves the others cached
+      reader.invalidateToken();
+      await reader.entities.list({ take: 1 });
+      await editor.entities.list({ take: 1 });
+      expect(await editor.getAuthToken()).toBe(tokens[1]);
+      expect(await reader.getAuthToken()).not.toBe(tokens[2]);
+    });
+
+    test('should answer operations an identity lacks permission for with 403', async ({ apiClients }) => {
+      const reader = identityClient(apiClients, 'reader', 'mock-reader');
+
+      const refusal = await reader.entities.delete(1000).catch(caught => caught);
+
+      expect(refusal).toBeInstanceOf(ContentHubError);
+      expect(refusal.status).toBe(403);
+      expect(refusal.body).toEqual({ error: 'forbidden', message: "User 'mock-reader' lacks permission 'entities:delete'" });
+      expect(mockServer.state.entities.has(1000)).toBe(true);
+      await expect(reader.jobs.cancel(9003)).rejects.toMatchObject({ status: 403 });
+      expect((await reader.jobs.get(9003)).status).toBe('Running');
+    });
+
+    test('should hide definitions from identities without access to them', async ({ apiClients }) => {
+      const owner = apiClients.mock(mockServer);
+      const reader = identityClient(apiClients, 'reader', 'mock-reader');
+      const article = await owner.entities.create({ identifier: `test-entity-article-${Date.now()}`, definition: 'M.Content' });
+
+      await expect(reader.entities.get(article.id)).rejects.toMatchObject({
+        status: 403,
+        body: { error: 'forbidden', message: "User 'mock-reader' may not access M.Content entities" }
+      });
+      const listed = await reader.entities.list({ take: 100 });
+      expect(listed.items.map(({ definition }) => definition)).not.toContain('M.Content');
+      expect(listed.items).toHaveLength(3);
+      const queried = await reader.entities.query({ query: 'Definition.Name:"M.Content"' });
+      expect(queried.items).toEqual([]);
+      expect((await owner.entities.query({ query: 'Definition.Name:"M.Content"' })).items.map(({ id }) => id)).toEqual([article.id]);
+    });
+
+    test('should answer every call of a disabled identity with 401', async ({ apiClients }) => {
+      const editor = identityClient(apiClients, 'editor', 'mock-editor');
+      await editor.entities.list({ take: 1 });
+
+      mockServer.state.users.get('mock-editor')!.disabled = true;
+
+      await expect(editor.entities.get(1000)).rejects.toMatchObject({
+        status: 401,
+        body: { error: 'unauthorized', message: "User 'mock-editor' is disabled" }
+      });
+      // The client signed in again before giving up, and was refused again
+      expect(mockServer.state.requests.slice(-3).map(({ path, status }) => `${status} ${path}`)).toEqual([
+        '401 /api/entities/1000',
+        '200 /api/oauth/token',
+        '401 /api/entities/1000'
+      ]);
+    });
+
+    test('should report the actual matrix next to the expected one', async ({ apiClients }) => {
+      const reader = identityClient(apiClients, 'reader', 'mock-reader');
+      const editor = identityClient(apiClients, 'editor', 'mock-editor');
+      const operations = OPERATIONS.filter(({ name }) => ['entities.get', 'entities.delete', 'jobs.get'].includes(name));
+      const targets = { asset: { id: 1000 }, disposableAsset: { id: 1001 }, job: 9404 } as AccessTargets;
+
+      const matrix: AccessMatrix = {
+        reader: await probeAccess(reader, operations, targets, allow('entities.get', 'entities.delete', 'jobs.get')),
+        editor: await probeAccess(editor, operations, targets, { ...allow('entities.get'), ...deny('entities.delete') })
+      };
+
+      expect(formatAccessMatrix(matrix)).toBe(
+        [
+          '   operation        reader expected  actual     editor expected  actual',
+          '   entities.get     allow            allow 200  allow            allow 200',
+          '!  entities.delete  allow            deny 403   deny             deny 403',
+          '!  jobs.get         allow            error 404  -                -'
+        ].join('\n')
+      );
+      expect(accessMismatches(matrix)).toEqual({
+        reader: [
+          { operation: 'entities.delete', expected: 'allow', actual: 'deny', status: 403 },
+          { operation: 'jobs.get', expected: 'allow', actual: 'error', status: 404 }
+        ]
+      });
+      await expect(probeAccess(reader, operations, targets, allow('entities.purge'))).rejects.toThrow('No operation named entities.purge');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ApiCallLogOptions, ContentHubClientOptions, formatApiCall, REDACTED, SharedRateLimiter } from '../src';
+import { ApiClients, test, expect } from './support/api-test';
+
+test.describe('API Call Log Tests', () => {
+  let mockServer: MockServer;
+  let logs: string[];
+
+  const createClient = (
+    apiClients: ApiClients,
+    callLog: ApiCallLogOptions = {},
+    options: ContentHubClientOptions = {}
+  ) =>
+    apiClients.mock(mockServer, {
+      callLog,
+      contracts: false,
+      retryPolicy: { baseDelayMs: 10, maxDelayMs: 50 },
+      logger: message => logs.push(message),
+      ...options
+    });
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+    logs = [];
+  });
+
+  test('should log method, URL, params, status and timings of each call', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+
+    await client.get('/api/jobs', { status: 'Completed', take: 2, skip: undefined });
+
+    const [token, jobs] = client.callLog!.entries;
+    expect(token).toMatchObject({ method: 'POST', url: `${mockServer.url}/api/oauth/token`, status: 200, retry: 0 });
+    expect(jobs).toMatchObject({
+      method: 'GET',
+      url: `${mockServer.url}/api/jobs`,
+      params: { status: 'Completed', take: '2' },
+      status: 200,
+      retry: 0
+    });
+    expect(jobs.durationMs).toBeGreaterThanOrEqual(0);
+    expect(jobs.rateLimitWaitMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(jobs.timestamp)).not.toBeNaN();
+    expect(JSON.parse(jobs.responseBody!).items.every((job: { status: string }) => job.status === 'Completed')).toBe(true);
+  });
+
+  test('should redact credentials, tokens and the auth header', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+
+    await client.entities.list({ take: 1 });
+
+    const [token, list] = client.callLog!.entries;
+    const logged = client.callLog!.toNdjson();
+    expect(JSON.parse(token.requestBody!)).toMatchObject({ client_secret: REDACTED, password: REDACTED, username: 'mock-user' });
+    expect(JSON.parse(token.responseBody!)).toMatchObject({ access_token: REDACTED });
+    expect(list.requestHeaders['X-Auth-Token']).toBe(REDACTED);
+    for (const secret of ['mock-client-secret', 'mock-password', ...mockServer.state.tokens.keys()]) {
+      expect(logged).not.toContain(secret);
+    }
+  });
+
+  test('should log each attempt with its retry count', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, times: 2 });
+    const client = createClient(apiClients);
+    await client.getAuthToken();
+
+    await client.get('/api/jobs');
+
+    const attempts = client.callLog!.entries.filter(({ url }) => url.endsWith('/api/jobs'));
+    expect(attempts.map(({ status, retry }) => ({ status, retry }))).toEqual([
+      { status: 503, retry: 0 },
+      { status: 503, retry: 1 },
+      { status: 200, retry: 2 }
+    ]);
+    expect(attempts[0].notes).toBeUndefined();
+    expect(attempts[1].notes).toEqual([expect.stringMatching(/^Retrying GET \/api\/jobs after status 503 \(attempt 2\/\d+\)/)]);
+    expect(attempts[2].notes).toEqual([expect.stringContaining('(attempt 3/')]);
+  });
+
+  test('should log the time spent waiting for the rate limiter', async ({ apiClients }) => {
+    const rateLimiter = new SharedRateLimiter({ limit: 2, windowMs: 1000 });
+    const client = createClient(apiClients, {}, { rateLimiter });
+
+    await client.get('/api/jobs');
+    await client.get('/api/jobs');
+
+    // The token request and the first call fill the window, so the second call waits for it
+    const [token, first, second] = client.callLog!.entries;
+    expect(first.rateLimitWaitMs).toBeLessThan(100);
+    expect(second.rateLimitWaitMs).toBeGreaterThan(0);
+    expect(Date.parse(second.timestamp) - Date.parse(token.timestamp)).toBeGreaterThanOrEqual(990);
+    expect(second.notes).toEqual([expect.stringMatching(/^Rate limit reached, waiting \d+ms/)]);
+  });
+
+  test('should truncate long bodies and describe binary ones', async ({ apiClients }) => {
+    const client = createClient(apiClients, { maxBodyLength: 40 });
+
+    await client.entities.list({ take: 5 });
+    await client.put('/api/upload/chunk/missing', Buffer.alloc(1024, 1));
+
+    const [, list, upload] = client.callLog!.entries;
+    expect(list.responseBody).toMatch(/^.{40}… \(\d+ more characters\)$/s);
+    expect(upload.requestBody).toBe('<binary, 1024 bytes>');
+  });
+
+  test('should log failed requests without a response', async ({ apiClients }) => {
+    const offline = createClient(apiClients, {}, { baseUrl: 'http://127.0.0.1:9', retryPolicy: { maxAttempts: 1 } });
+
+    await expect(offline.get('/api/jobs')).rejects.toThrow();
+
+    const [failed] = offline.callLog!.entries;
+    expect(failed.status).toBeUndefined();
+    expect(failed.error).toContain('ECONNREFUSED');
+    expect(formatApiCall(failed)).toMatch(/^POST http:\/\/127\.0\.0\.1:9\/api\/oauth\/token -> error ".*ECONNREFUSED/);
+  });
+
+  test('should summarise calls on stdout through the logger', async ({ apiClients }) => {
+    const client = createClient(apiClients, { stdout: true });
+
+    await client.get('/api/jobs', { take: 1 });
+
+    expect(logs.filter(message => message.includes(' -> '))).toEqual([
+      expect.stringMatching(/^POST http:\/\/127\.0\.0\.1:\d+\/api\/oauth\/token -> 200 in \d+ms \(rate limit wait \d+ms, retry 0\)$/),
+      expect.stringMatching(/^GET http:\/\/127\.0\.0\.1:\d+\/api\/jobs\?take=1 -> 200 in \d+ms \(rate limit wait \d+ms, retry 0\)$/)
+    ]);
+  });
+
+  test('should keep retry messages off the console without DEBUG_API_CALLS', async ({ apiClients }) => {
+    test.skip(process.env.DEBUG_API_CALLS === 'true', 'DEBUG_API_CALLS prints them on purpose');
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, times: 1 });
+    const client = apiClients.mock(mockServer, {
+      callLog: {},
+      contracts: false,
+      retryPolicy: { baseDelayMs: 10, maxDelayMs: 50 }
+    });
+    const printed: unknown[] = [];
+    const consoleLog = console.log;
+    console.log = (...args: unknown[]) => printed.push(...args);
+
+    try {
+      await client.get('/api/jobs');
+    } finally {
+      console.log = consoleLog;
+    }
+
+    expect(printed).toEqual([]);
+    expect(client.callLog!.entries.flatMap(({ notes }) => notes ?? [])).toEqual([
+      expect.stringContaining('Retrying GET /api/jobs after status 503')
+    ]);
+  });
+
+  test('should append entries to an NDJSON file', async ({ apiClients }, testInfo) => {
+    const file = testInfo.outputPath('logs', 'api-calls.ndjson');
+    const client = createClient(apiClients, { file });
+
+    await client.get('/api/jobs');
+    await client.get('/api/jobs/9001');
+
+    const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual(client.callLog!.entries);
+    expect(logs.some(message => message.includes(' -> '))).toBe(false);
+  });
+
+  test('should not log when turned off', async ({ apiClients }) => {
+    const client = createClient(apiClients, undefined, { callLog: false });
+
+    await client.get('/api/jobs');
+
+    expect(client.callLog).toBeUndefined();
+  });
+});
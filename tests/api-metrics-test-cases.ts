@@ -0,0 +1,236 @@
+import { TestInfo } from '@playwright/test';
+import type { FullConfig, FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import { promises as fs } from 'fs';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import ApiMetricsReporter from '../reporters/api-metrics-reporter';
+import {
+  API_METRICS_ATTACHMENT,
+  ApiCallSample,
+  ApiMetricsReport,
+  compareWithBaseline,
+  endpointTemplate,
+  percentile,
+  summarizeSamples,
+  toJUnitXml
+} from '../src';
+import { test, expect } from './support/api-test';
+
+/**
+ * A sample of `GET /api/entities/{id}` taking `durationMs`
+ */
+const sample = (durationMs: number, overrides: Partial<ApiCallSample> = {}): ApiCallSample => ({
+  method: 'GET',
+  endpoint: '/api/entities/{id}',
+  status: 200,
+  durationMs,
+  rateLimitWaitMs: 0,
+  requestBytes: 0,
+  responseBytes: 100,
+  retry: 0,
+  ...overrides
+});
+
+const reportOf = (tests: { title: string; samples: ApiCallSample[] }[]): ApiMetricsReport => ({
+  generatedAt: new Date().toISOString(),
+  totals: summarizeSamples(tests.flatMap(({ samples }) => samples)),
+  tests: tests.map(({ title, samples }) => ({
+    title,
+    file: 'tests/example-test-cases.ts',
+    project: 'chromium',
+    status: 'passed',
+    ...summarizeSamples(samples)
+  }))
+});
+
+test.describe('API Metrics Tests', () => {
+  let mockServer: MockServer;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  test('should record a sample for every request a client sends', async ({ apiClients }) => {
+    const client = apiClients.mock(mockServer, {
+      contracts: false,
+      retryPolicy: { baseDelayMs: 10, maxDelayMs: 50 },
+      logger: () => {}
+    });
+    const [seeded] = [...mockServer.state.entities.values()];
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, times: 1 });
+
+    const selection = { name: `Test Selection ${Date.now()}` };
+
+    await client.entities.get(seeded.id);
+    await client.post('/api/selections', selection);
+    await client.get('/api/jobs');
+
+    const samples = client.metrics.samples;
+    expect(samples.map(({ method, endpoint, status, retry }) => ({ method, endpoint, status, retry }))).toEqual([
+      { method: 'POST', endpoint: '/api/oauth/token', status: 200, retry: 0 },
+      { method: 'GET', endpoint: '/api/entities/{id}', status: 200, retry: 0 },
+      { method: 'POST', endpoint: '/api/selections', status: 201, retry: 0 },
+      { method: 'GET', endpoint: '/api/jobs', status: 503, retry: 0 },
+      { method: 'GET', endpoint: '/api/jobs', status: 200, retry: 1 }
+    ]);
+    expect(samples[0].requestBytes).toBeGreaterThan(0);
+    expect(samples[1].requestBytes).toBe(0);
+    expect(samples[2].requestBytes).toBe(Buffer.byteLength(JSON.stringify(selection)));
+    for (const { status, responseBytes, durationMs, rateLimitWaitMs } of samples) {
+      // The injected 503 comes without a body
+      expect(responseBytes > 0).toBe(status !== 503);
+      expect(durationMs).toBeGreaterThanOrEqual(0);
+      expect(rateLimitWaitMs).toBeGreaterThanOrEqual(0);
+    }
+    expect(client.metrics.summary()).toMatchObject({ calls: 5, retries: 1 });
+  });
+
+  test('should group endpoints by template', () => {
+    expect(endpointTemplate('/api/entities/1005')).toBe('/api/entities/{id}');
+    expect(endpointTemplate('/api/entitydefinitions/2/members?take=10')).toBe('/api/entitydefinitions/{id}/members');
+    expect(endpointTemplate('/api/upload/progress/upload-1700000000000-x1y2')).toBe('/api/upload/progress/{id}');
+    expect(endpointTemplate('/api/entities/3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe('/api/entities/{id}');
+    expect(endpointTemplate('/api/entities/query')).toBe('/api/entities/query');
+  });
+
+  test('should summarise calls, bytes, waits and latency percentiles', () => {
+    const durations = Array.from({ length: 100 }, (_, i) => i + 1);
+
+    const summary = summarizeSamples([
+      ...durations.map(durationMs => sample(durationMs, { rateLimitWaitMs: 2 })),
+      sample(40, { method: 'DELETE', requestBytes: 0, responseBytes: 0, retry: 1 })
+    ]);
+
+    expect(percentile([], 50)).toBe(0);
+    expect(percentile([30, 10, 20], 50)).toBe(20);
+    expect(summary).toEqual({
+      calls: 101,
+      bytesSent: 0,
+      bytesReceived: 10000,
+      rateLimitWaitMs: 200,
+      retries: 1,
+      endpoints: {
+        'DELETE /api/entities/{id}': { calls: 1, p50: 40, p95: 40, p99: 40 },
+        'GET /api/entities/{id}': { calls: 100, p50: 50, p95: 95, p99: 99 }
+      }
+    });
+  });
+
+  test('should flag slower endpoints and tests making more calls', () => {
+    const baseline = reportOf([
+      { title: 'reads an entity', samples: [sample(100), sample(100)] },
+      { title: 'lists jobs', samples: [sample(10, { endpoint: '/api/jobs' })] }
+    ]);
+    const current = reportOf([
+      { title: 'reads an entity', samples: [sample(100), sample(200), sample(200)] },
+      // Twice as slow, but within the noise floor
+      { title: 'lists jobs', samples: [sample(20, { endpoint: '/api/jobs' })] },
+      { title: 'is new', samples: [sample(900)] }
+    ]);
+
+    expect(compareWithBaseline(current, baseline)).toEqual([
+      { kind: 'latency', subject: 'GET /api/entities/{id}', baseline: 100, current: 900 },
+      { kind: 'calls', subject: 'chromium › reads an entity', baseline: 2, current: 3 }
+    ]);
+    expect(compareWithBaseline(current, baseline, { tolerance: 10 })).toEqual([]);
+  });
+
+  test('should write metrics as JUnit properties', () => {
+    const xml = toJUnitXml(reportOf([{ title: 'reads "quoted" <entities>', samples: [sample(12, { rateLimitWaitMs: 5 })] }]));
+
+    expect(xml).toContain('<testsuite name="tests/example-test-cases.ts" tests="1">');
+    expect(xml).toContain('<testcase name="reads &#34;quoted&#34; &#60;entities&#62;" classname="chromium.tests/example-test-cases.ts">');
+    expect(xml).toContain('<property name="api.calls" value="1"/>');
+    expect(xml).toContain('<property name="api.rateLimitWaitMs" value="5"/>');
+    expect(xml).toContain('<property name="api.latency.GET /api/entities/{id}.p95" value="12"/>');
+  });
+
+  test.describe('Reporter', () => {
+    /**
+     * Run the reporter over one test attaching `samples`, as Playwright would
+     */
+    async function runReporter(testInfo: TestInfo, samples: ApiCallSample[], options: Record<string, unknown>) {
+      const logs: string[] = [];
+      const reporter = new ApiMetricsReporter({
+        outputFile: testInfo.outputPath('api-metrics.json'),
+        junitFile: testInfo.outputPath('api-metrics-junit.xml'),
+        logger: message => logs.push(message),
+        ...options
+      });
+      const testCase = {
+        titlePath: () => ['', 'chromium', 'example-test-cases.ts', 'Example Tests', 'reads an entity'],
+        location: { file: `${process.cwd()}/tests/example-test-cases.ts`, line: 1, column: 1 },
+        parent: { project: () => ({ name: 'chromium' }) }
+      } as unknown as TestCase;
+      const result = {
+        status: 'passed',
+        attachments: [{ name: API_METRICS_ATTACHMENT, contentType: 'application/json', body: Buffer.from(JSON.stringify(samples)) }]
+      } as unknown as TestResult;
+
+      reporter.onBegin({ configFile: `${process.cwd()}/playwright.config.ts`, rootDir: `${process.cwd()}/tests` } as unknown as FullConfig);
+      reporter.onTestEnd(testCase, result);
+      const outcome = await reporter.onEnd({ status: 'passed' } as FullResult);
+      const report: ApiMetricsReport = JSON.parse(await fs.readFile(testInfo.outputPath('api-metrics.json'), 'utf8'));
+      return { outcome, report, logs };
+    }
+
+    test('should write the JSON and JUnit reports', async ({}, testInfo) => {
+      const { report, logs } = await runReporter(testInfo, [sample(10), sample(30, { rateLimitWaitMs: 7 })], {});
+
+      expect(report.tests).toEqual([
+        expect.objectContaining({
+          title: 'Example Tests › reads an entity',
+          file: 'tests/example-test-cases.ts',
+          project: 'chromium',
+          status: 'passed',
+          calls: 2,
+          rateLimitWaitMs: 7
+        })
+      ]);
+      expect(report.totals.endpoints['GET /api/entities/{id}']).toEqual({ calls: 2, p50: 10, p95: 30, p99: 30 });
+      expect(report.trend).toBeUndefined();
+      expect(await fs.readFile(testInfo.outputPath('api-metrics-junit.xml'), 'utf8')).toContain('name="api.calls" value="2"');
+      expect(logs).toEqual([expect.stringMatching(/^API metrics: 2 calls, 0 bytes sent, 200 bytes received, 7ms waiting/)]);
+    });
+
+    test('should store a baseline and fail on regressions against it', async ({}, testInfo) => {
+      const baseline = testInfo.outputPath('baseline', 'api-metrics.json');
+
+      const stored = await runReporter(testInfo, [sample(100)], { baseline, updateBaseline: true });
+      const unchanged = await runReporter(testInfo, [sample(105)], { baseline, failOnRegression: true });
+      const regressed = await runReporter(testInfo, [sample(100), sample(400)], { baseline, failOnRegression: true });
+
+      expect(stored.outcome).toBeUndefined();
+      expect(JSON.parse(await fs.readFile(baseline, 'utf8')).tests[0].calls).toBe(1);
+      expect(unchanged.outcome).toBeUndefined();
+      expect(unchanged.report.trend).toEqual({ baseline, regressions: [] });
+      expect(regressed.outcome).toEqual({ status: 'failed' });
+      expect(regressed.report.trend!.regressions).toEqual([
+        { kind: 'latency', subject: 'GET /api/entities/{id}', baseline: 100, current: 400 },
+        { kind: 'calls', subject: 'chromium › Example Tests › reads an entity', baseline: 1, current: 2 }
+      ]);
+      expect(regressed.logs[1]).toBe(
+        '2 API metric regression(s) against the baseline:\n' +
+          '  GET /api/entities/{id}: p95 100ms -> 400ms\n' +
+          '  chromium › Example Tests › reads an entity: 1 -> 2 calls'
+      );
+    });
+
+    test('should note a missing baseline without failing', async ({}, testInfo) => {
+      const baseline = testInfo.outputPath('missing.json');
+
+      const { outcome, report, logs } = await runReporter(testInfo, [sample(10)], { baseline, failOnRegression: true });
+
+      expect(outcome).toBeUndefined();
+      expect(report.trend).toBeUndefined();
+      expect(logs[0]).toBe(`No API metrics baseline at ${baseline} yet; set CONTENT_HUB_METRICS_UPDATE_BASELINE=true to store this run`);
+    });
+  });
+});
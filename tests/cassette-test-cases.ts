@@ -0,0 +1,167 @@
+import { TestInfo } from '@playwright/test';
+import { promises as fs } from 'fs';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { Cassette, cassetteFile, ContentHubAPIClient, ContentHubCassetteError, Interaction, REDACTED } from '../src';
+import { ApiClients, test, expect } from './support/api-test';
+
+// Nothing listens here: replayed clients must never reach the network
+const UNREACHABLE_URL = 'http://127.0.0.1:9';
+
+test.describe('Cassette Tests', () => {
+  let mockServer: MockServer;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  const cassettePath = (testInfo: TestInfo) => testInfo.outputPath('cassette.json');
+
+  /**
+   * Record `scenario` against the mock and return the written cassette
+   */
+  async function record(
+    apiClients: ApiClients,
+    file: string,
+    scenario: (client: ContentHubAPIClient) => Promise<unknown>
+  ): Promise<string> {
+    const cassette = await Cassette.load(file, { mode: 'record' });
+    await scenario(apiClients.mock(mockServer, { cassette, contracts: false }));
+    await cassette.eject();
+    return fs.readFile(file, 'utf8');
+  }
+
+  async function replayingClient(apiClients: ApiClients, file: string, strict = false) {
+    const cassette = await Cassette.load(file, { mode: 'replay', strict });
+    const client = apiClients.mock(mockServer, { cassette, contracts: false, baseUrl: UNREACHABLE_URL });
+    return { cassette, client };
+  }
+
+  const createEntity = (client: ContentHubAPIClient, timestamp: number) =>
+    client.entities.create({
+      identifier: `test-entity-${timestamp}`,
+      properties: { Title: [{ culture: 'en-US', value: `Cassette ${timestamp}` }] }
+    });
+
+  test('should record token and API calls with secrets redacted', async ({ apiClients }, testInfo) => {
+    const contents = await record(apiClients, cassettePath(testInfo), async client => {
+      const entity = await createEntity(client, Date.now());
+      await client.entities.get(entity.id);
+    });
+    const { interactions } = JSON.parse(contents);
+
+    expect(interactions.map(({ request }: Interaction) => `${request.method} ${request.endpoint}`)).toEqual([
+      'POST /api/oauth/token',
+      'POST /api/entities',
+      expect.stringMatching(/^GET \/api\/entities\/\d+$/)
+    ]);
+    for (const secret of ['mock-client-secret', 'mock-password', ...mockServer.state.tokens.keys()]) {
+      expect(contents).not.toContain(secret);
+    }
+    expect(JSON.parse(interactions[0].request.body)).toMatchObject({ client_secret: REDACTED, password: REDACTED });
+    expect(JSON.parse(interactions[0].response.body)).toMatchObject({ access_token: REDACTED, refresh_token: REDACTED });
+    expect(contents.toLowerCase()).not.toContain('x-auth-token');
+  });
+
+  test('should replay without network access and rewrite Date.now() identifiers', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, async client => {
+      const entity = await createEntity(client, 1700000000000);
+      await client.entities.get(entity.id);
+    });
+
+    const { cassette, client } = await replayingClient(apiClients, file, true);
+    // A run years after the recording, past 2033 when timestamps gain a leading 2
+    const entity = await createEntity(client, 2111111111111);
+    const fetched = await client.entities.get(entity.id);
+    await cassette.eject();
+
+    expect(entity.identifier).toBe('test-entity-2111111111111');
+    expect(fetched.properties.Title[0].value).toBe('Cassette 2111111111111');
+    expect(cassette.unused).toEqual([]);
+  });
+
+  test('should replay repeated requests in recorded order', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, async client => {
+      await client.jobs.get(9003);
+      mockServer.state.jobs.get(9003)!.status = 'Completed';
+      await client.jobs.get(9003);
+    });
+
+    const { client } = await replayingClient(apiClients, file);
+
+    expect((await client.jobs.get(9003)).status).toBe('Running');
+    expect((await client.jobs.get(9003)).status).toBe('Completed');
+    // A lenient replay answers further repeats with the last recorded response
+    expect((await client.jobs.get(9003)).status).toBe('Completed');
+  });
+
+  test('should fail on requests no interaction matches', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, client => client.jobs.get(9001));
+
+    const { client } = await replayingClient(apiClients, file);
+    const error = await client.jobs.get(9002).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubCassetteError);
+    expect(error.message).toBe(`Cannot replay GET /api/jobs/9002 from ${file}: no recorded interaction matches`);
+    expect(error.file).toBe(file);
+  });
+
+  test('should fail a strict replay on repeats beyond the recording', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, client => client.jobs.get(9001));
+
+    const { client } = await replayingClient(apiClients, file, true);
+    await client.jobs.get(9001);
+    const error = await client.jobs.get(9001).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubCassetteError);
+    expect(error.message).toContain('every matching interaction was already used');
+  });
+
+  test('should fail a strict replay that leaves interactions unused', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, async client => {
+      await client.jobs.get(9001);
+      await client.jobs.list({ status: 'Completed' });
+    });
+
+    const { cassette, client } = await replayingClient(apiClients, file, true);
+    await client.jobs.get(9001);
+    const error = await cassette.eject().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubCassetteError);
+    expect(error.message).toBe(`1 recorded interaction(s) of ${file} were not used:\n  GET /api/jobs?status=Completed`);
+  });
+
+  test('should replay error responses as recorded', async ({ apiClients }, testInfo) => {
+    const file = cassettePath(testInfo);
+    await record(apiClients, file, client => client.entities.get(999999).catch(() => undefined));
+
+    const { client } = await replayingClient(apiClients, file, true);
+
+    await expect(client.entities.get(999999)).rejects.toMatchObject({ status: 404 });
+  });
+
+  test('should refuse to replay a missing cassette', async ({}, testInfo) => {
+    const error = await Cassette.load(cassettePath(testInfo), { mode: 'replay' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubCassetteError);
+    expect(error.message).toMatch(/^Cannot replay cassette .*cassette\.json: ENOENT/);
+  });
+
+  test('should name cassettes after the spec file and test titles', async ({}, testInfo) => {
+    expect(cassetteFile(testInfo, 'cassettes')).toBe(
+      'cassettes/cassette-test-cases/cassette-tests-should-name-cassettes-after-the-spec-file-and-test-titles.json'
+    );
+  });
+});
@@ -0,0 +1,251 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  cleanupJournal,
+  ContentHubAPIClient,
+  formatSweepReport,
+  readJournal,
+  sweepTestArtifacts
+} from '../src';
+import { test, expect } from './support/api-test';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+test.describe('Cleanup Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+  let journalDir: string;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    journalDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-hub-cleanup-test-'));
+    // Keep these clients out of the run-wide journal
+    client = apiClients.mock(mockServer, { cleanupJournal: path.join(journalDir, 'journal.ndjson') });
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(journalDir, { recursive: true, force: true });
+  });
+
+  const deletes = () =>
+    mockServer.state.requests.filter(({ method }) => method === 'DELETE').map(({ path }) => path);
+
+  test.describe('Cleanup Registry', () => {
+    test('should track resources created through raw calls and typed resources', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      const response = await client.post('/api/selections', { name: `Test Selection ${Date.now()}` });
+      const selection = await response.json();
+      await client.optionLists.addOption(501, { key: `test-option-${Date.now()}`, labels: {} });
+
+      expect(client.createdResources.pending).toEqual([
+        { kind: 'entity', id: entity.id },
+        { kind: 'selection', id: selection.id },
+        { kind: 'option', optionListId: 501, key: expect.stringMatching(/^test-option-/) }
+      ]);
+    });
+
+    test('should not track failed creates or queries', async () => {
+      await client.post('/api/selections', {});
+      await client.entities.query({ query: 'Definition.Name:"M.Asset"' });
+      expect(client.createdResources.pending).toEqual([]);
+    });
+
+    test('should delete created resources newest first', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      const selection = await client.selections.create({ name: `Test Selection ${Date.now()}`, entities: [entity.id] });
+      const option = await client.optionLists.addOption(501, { key: `test-option-${Date.now()}`, labels: {} });
+
+      const result = await client.deleteCreatedResources();
+
+      expect(result.failed).toEqual([]);
+      expect(result.deleted).toHaveLength(3);
+      expect(deletes()).toEqual([
+        `/api/optionlists/501/options/${option.key}`,
+        `/api/selections/${selection.id}`,
+        `/api/entities/${entity.id}`
+      ]);
+      expect(client.createdResources.pending).toEqual([]);
+      expect(mockServer.state.entities.has(entity.id)).toBe(false);
+    });
+
+    test('should forget resources the test deleted itself', async () => {
+      const kept = await client.entities.create({ identifier: `test-entity-kept-${Date.now()}`, properties: {} });
+      const removed = await client.entities.create({ identifier: `test-entity-removed-${Date.now()}`, properties: {} });
+
+      await client.entities.delete(removed.id);
+      expect(client.createdResources.pending).toEqual([{ kind: 'entity', id: kept.id }]);
+
+      await client.deleteCreatedResources();
+      expect(deletes()).toEqual([`/api/entities/${removed.id}`, `/api/entities/${kept.id}`]);
+    });
+
+    test('should count resources that are already gone as deleted', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      mockServer.state.entities.delete(entity.id);
+
+      const result = await client.deleteCreatedResources();
+
+      expect(result.deleted).toEqual([{ kind: 'entity', id: entity.id }]);
+      expect(result.failed).toEqual([]);
+    });
+
+    test('should report resources that could not be deleted', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      mockServer.injectFault({ method: 'DELETE', path: `/api/entities/${entity.id}`, status: 400 });
+
+      const result = await client.deleteCreatedResources();
+
+      expect(result.deleted).toEqual([]);
+      expect(result.failed).toEqual([{ resource: { kind: 'entity', id: entity.id }, error: 'status 400' }]);
+    });
+  });
+
+  test.describe('Cleanup Journal', () => {
+    test('should list resources created and never deleted', async () => {
+      const journalPath = path.join(journalDir, 'journal.ndjson');
+      const kept = await client.entities.create({ identifier: `test-entity-kept-${Date.now()}`, properties: {} });
+      const removed = await client.entities.create({ identifier: `test-entity-removed-${Date.now()}`, properties: {} });
+      await client.entities.delete(removed.id);
+
+      expect(await readJournal(journalPath, mockServer.url)).toEqual([{ kind: 'entity', id: kept.id }]);
+      expect(await readJournal(journalPath, 'https://other-instance.example')).toEqual([]);
+    });
+
+    test('should delete leftovers recorded by other clients', async ({ apiClients }) => {
+      const journalPath = path.join(journalDir, 'journal.ndjson');
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      const selection = await client.selections.create({ name: `Test Selection ${Date.now()}`, entities: [] });
+
+      // A fresh client stands in for the global teardown
+      const teardownClient = apiClients.mock(mockServer, { cleanupJournal: undefined });
+      const result = await cleanupJournal(teardownClient, journalPath);
+
+      expect(result.deleted).toEqual([
+        { kind: 'selection', id: selection.id },
+        { kind: 'entity', id: entity.id }
+      ]);
+      expect(mockServer.state.entities.has(entity.id)).toBe(false);
+      expect(mockServer.state.selections.has(selection.id)).toBe(false);
+    });
+
+    test('should treat a missing journal as empty', async () => {
+      expect(await readJournal(path.join(journalDir, 'missing.ndjson'), mockServer.url)).toEqual([]);
+    });
+  });
+
+  test.describe('Test Artifact Sweeper', () => {
+    test('should report old artifacts without deleting them in a dry run', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      const selection = await client.selections.create({ name: `Test Selection ${Date.now()}`, entities: [] });
+      await client.optionLists.addOption(501, { key: `test-option-${Date.now()}`, labels: {} });
+
+      const report = await sweepTestArtifacts(client, {
+        olderThanHours: 24,
+        dryRun: true,
+        now: Date.now() + 48 * HOUR_MS
+      });
+
+      expect(report.result).toBeUndefined();
+      expect(report.candidates.map(({ resource }) => resource.kind)).toEqual(['option', 'selection', 'entity']);
+      expect(mockServer.state.entities.has(entity.id)).toBe(true);
+      expect(mockServer.state.selections.has(selection.id)).toBe(true);
+      expect(deletes()).toEqual([]);
+
+      const text = formatSweepReport(report);
+      expect(text).toContain('(dry run): 3 artifact(s)');
+      expect(text).toContain(`Would delete entity "${entity.identifier}"`);
+    });
+
+    test('should delete old artifacts and leave seed data alone', async () => {
+      const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+
+      const report = await sweepTestArtifacts(client, { olderThanHours: 24, now: Date.now() + 48 * HOUR_MS });
+
+      expect(report.result?.deleted).toEqual([{ kind: 'entity', id: entity.id }]);
+      expect(mockServer.state.entities.has(entity.id)).toBe(false);
+      expect(mockServer.state.entities.has(1000)).toBe(true);
+      expect(mockServer.state.optionLists.get(501)?.options.map(({ key }) => key)).toEqual(['approved', 'rejected']);
+    });
+
+    test('should keep artifacts younger than the cutoff', async () => {
+      await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+
+      const report = await sweepTestArtifacts(client, { olderThanHours: 24 });
+
+      expect(report.candidates).toEqual([]);
+      expect(report.result?.deleted).toEqual([]);
+    });
+
+    test('should date artifacts by the timestamp in their name when created_on is missing', async () => {
+      const twoDaysAgo = Date.now() - 48 * HOUR_MS;
+      await client.optionLists.addOption(501, { key: `test-option-${twoDaysAgo}`, labels: {} });
+      await client.optionLists.addOption(501, { key: 'test-option-undated', labels: {} });
+
+      const report = await sweepTestArtifacts(client, { olderThanHours: 24, dryRun: true });
+
+      expect(report.candidates).toEqual([
+        {
+          resource: { kind: 'option', optionListId: 501, key: `test-option-${twoDaysAgo}` },
+          label: `test-option-${twoDaysAgo}`,
+          createdAt: new Date(twoDaysAgo)
+        }
+      ]);
+    });
+
+    test('should skip entities without an identifier', async ({ apiClients }) => {
+      // The contract requires identifiers; the sweeper must cope with an instance that drops them anyway
+      const lenient = apiClients.mock(mockServer, { contracts: false, cleanupJournal: path.join(journalDir, 'journal.ndjson') });
+      const twoDaysAgo = new Date(Date.now() - 48 * HOUR_MS).toISOString();
+      mockServer.injectFault({
+        method: 'POST',
+        path: '/api/entities/scroll',
+        status: 200,
+        body: { items: [{ id: 4242, definition: 'M.Asset', properties: {}, created_on: twoDaysAgo }], total_items: 1 },
+        times: 1
+      });
+
+      const report = await sweepTestArtifacts(lenient, { olderThanHours: 24, dryRun: true });
+
+      expect(report.candidates).toEqual([]);
+    });
+
+    test('should only match the configured prefixes', async () => {
+      await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+      const other = await client.entities.create({ identifier: `perf-run-${Date.now()}`, properties: {} });
+
+      const report = await sweepTestArtifacts(client, {
+        olderThanHours: 24,
+        dryRun: true,
+        prefixes: { entities: ['perf-run-'] },
+        now: Date.now() + 48 * HOUR_MS
+      });
+
+      expect(report.candidates.map(({ resource }) => resource)).toEqual([{ kind: 'entity', id: other.id }]);
+    });
+
+    test('should page through every list', async () => {
+      for (let i = 0; i < 5; i++) {
+        await client.entities.create({ identifier: `test-entity-${i}-${Date.now()}`, properties: {} });
+      }
+
+      const report = await sweepTestArtifacts(client, {
+        olderThanHours: 24,
+        dryRun: true,
+        pageSize: 2,
+        now: Date.now() + 48 * HOUR_MS
+      });
+
+      expect(report.candidates).toHaveLength(5);
+    });
+  });
+});
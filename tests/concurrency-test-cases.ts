@@ -0,0 +1,188 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubConflictError, Entity, getPropertyValue, setPropertyValue } from '../src';
+import { test, expect } from './support/api-test';
+
+const WRITERS = 5;
+
+const title = (entity: Entity) => getPropertyValue<string>(entity.properties, 'Title', 'en-US');
+
+/**
+ * The input that appends ` <tag>` to the entity's title, as a writer reading it would send
+ */
+const appendToTitle = (entity: Entity, tag: string) => ({
+  identifier: entity.identifier,
+  properties: setPropertyValue(entity.properties, 'Title', `${title(entity)} ${tag}`, 'en-US')
+});
+
+test.describe('Concurrency Tests', () => {
+  test.describe('with the configured instance', () => {
+    test('should refuse an update against a stale version', { tag: '@destructive' }, async ({ apiClients }) => {
+      const client = apiClients.configured();
+
+      try {
+        const entity = await client.entities.create({
+          identifier: `test-entity-concurrency-${Date.now()}`,
+          definition: 'M.Asset',
+          properties: setPropertyValue({}, 'Title', 'Original', 'en-US')
+        });
+        test.skip(entity.version === undefined, 'The instance does not report entity versions');
+
+        const updated = await client.entities.update(entity.id, appendToTitle(entity, 'first'), {
+          expectedVersion: entity.version
+        });
+        expect(updated.version).toBeGreaterThan(entity.version!);
+
+        const stale = await client.entities
+          .update(entity.id, appendToTitle(entity, 'second'), { expectedVersion: entity.version })
+          .catch(caught => caught);
+        expect(stale).toBeInstanceOf(ContentHubConflictError);
+        expect(title(await client.entities.get(entity.id))).toBe('Original first');
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let client: ContentHubAPIClient;
+    let entity: Entity;
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false, jobDurationMs: 20 });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      client = apiClients.mock(mockServer);
+      entity = await client.entities.create({
+        identifier: `test-entity-contended-${Date.now()}`,
+        definition: 'M.Asset',
+        properties: setPropertyValue({}, 'Title', 'Draft', 'en-US')
+      });
+    });
+
+    test('should send the version as an ETag and raise it with every change', async () => {
+      expect(entity.version).toBe(1);
+
+      const updated = await client.entities.update(entity.id, appendToTitle(entity, 'edited'));
+      expect(updated.version).toBe(2);
+      const response = await client.get(`/api/entities/${entity.id}`);
+      expect(response.headers().etag).toBe('"2"');
+
+      const { job_id } = await client.entities.bulkUpdate({
+        entity_ids: [entity.id],
+        properties: setPropertyValue({}, 'FileName', 'bulk.jpg')
+      });
+      await client.jobs.waitForJob(job_id, { interval: 10 });
+      expect((await client.entities.get(entity.id)).version).toBe(3);
+    });
+
+    test('should let exactly one of concurrent updates against the same version win', async () => {
+      const outcomes = await Promise.allSettled(
+        Array.from({ length: WRITERS }, (_, writer) =>
+          client.entities.update(entity.id, appendToTitle(entity, `writer-${writer}`), { expectedVersion: entity.version })
+        )
+      );
+
+      const won = outcomes.filter(outcome => outcome.status === 'fulfilled') as PromiseFulfilledResult<Entity>[];
+      const lost = outcomes.filter(outcome => outcome.status === 'rejected') as PromiseRejectedResult[];
+      expect(won).toHaveLength(1);
+      expect(lost).toHaveLength(WRITERS - 1);
+      for (const { reason } of lost) {
+        expect(reason).toBeInstanceOf(ContentHubConflictError);
+        expect(reason).toMatchObject({ status: 412, currentVersion: 2 });
+        expect(reason.body.message).toBe(`Entity ${entity.id} is at version 2, not "1"`);
+      }
+      const stored = await client.entities.get(entity.id);
+      expect(stored.version).toBe(2);
+      expect(title(stored)).toBe(title(won[0].value));
+    });
+
+    test('should lose all but one change when concurrent writers update blindly', async () => {
+      const readers = await Promise.all(Array.from({ length: WRITERS }, () => client.entities.get(entity.id)));
+
+      await Promise.all(
+        readers.map((read, writer) => client.entities.update(entity.id, appendToTitle(read, `writer-${writer}`)))
+      );
+
+      // Every update was accepted, yet only the last one's change survives
+      const stored = await client.entities.get(entity.id);
+      expect(stored.version).toBe(1 + WRITERS);
+      expect(title(stored)).toMatch(/^Draft writer-\d$/);
+    });
+
+    test('should keep every change when concurrent writers modify the entity', async () => {
+      const changes: string[] = [];
+      // Every writer reads the first version before any of them updates
+      let allRead: () => void;
+      const barrier = new Promise<void>(resolve => (allRead = resolve));
+
+      const results = await Promise.all(
+        Array.from({ length: WRITERS }, (_, writer) =>
+          client.entities.modify(entity.id, async read => {
+            changes.push(`writer-${writer}`);
+            if (changes.length === WRITERS) {
+              allRead();
+            }
+            await barrier;
+            return appendToTitle(read, `writer-${writer}`);
+          })
+        )
+      );
+
+      const stored = await client.entities.get(entity.id);
+      expect(stored.version).toBe(1 + WRITERS);
+      const tags = title(stored)!.split(' ').slice(1);
+      expect(tags.sort()).toEqual(Array.from({ length: WRITERS }, (_, writer) => `writer-${writer}`));
+      expect(results.map(({ version }) => version).sort()).toEqual([2, 3, 4, 5, 6]);
+      // Losing writers read again and redid their change on the newer version
+      expect(changes.length).toBeGreaterThanOrEqual(2 * WRITERS - 1);
+    });
+
+    test('should give up with the last conflict once the attempts are spent', async () => {
+      let attempts = 0;
+
+      const conflict = await client.entities
+        .modify(
+          entity.id,
+          read => {
+            attempts++;
+            // Another writer saves between every read and update
+            mockServer.state.entities.get(entity.id)!.version++;
+            return appendToTitle(read, 'late');
+          },
+          { maxAttempts: 3 }
+        )
+        .catch(caught => caught);
+
+      expect(conflict).toBeInstanceOf(ContentHubConflictError);
+      expect(conflict.currentVersion).toBe(4);
+      expect(attempts).toBe(3);
+      expect(title(await client.entities.get(entity.id))).toBe('Draft');
+    });
+
+    test('should check the version in the body and If-Match tags', async () => {
+      await client.entities.update(entity.id, appendToTitle(entity, 'edited'));
+
+      const stale = await client.entities
+        .update(entity.id, { ...appendToTitle(entity, 'stale'), version: 1 })
+        .catch(caught => caught);
+      expect(stale).toBeInstanceOf(ContentHubConflictError);
+      expect(stale).toMatchObject({ status: 409, currentVersion: 2 });
+
+      const put = (ifMatch: string) =>
+        client.put(`/api/entities/${entity.id}`, { identifier: entity.identifier }, { headers: { 'If-Match': ifMatch } });
+      // Strong comparison: a weak tag does not match even the current version
+      expect((await put('W/"2"')).status()).toBe(412);
+      expect((await put('"1", "2"')).status()).toBe(200);
+      expect((await put('*')).status()).toBe(200);
+      expect((await put('"3"')).status()).toBe(412);
+      expect(title(await client.entities.get(entity.id))).toBe('Draft edited');
+    });
+  });
+});
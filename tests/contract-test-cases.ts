@@ -0,0 +1,297 @@
+import { startMockServer, MockProperties, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  CONTRACT_CATALOGS,
+  ContentHubAPIClient,
+  ContentHubContractError,
+  contractOptionsFromEnv,
+  ContractValidator,
+  formatViolations,
+  validateEntityMembers,
+  validateSchema
+} from '../src';
+import { test, expect } from './support/api-test';
+
+const catalog = CONTRACT_CATALOGS.v1;
+
+test.describe('Contract Validation Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    client = apiClients.mock(mockServer, { contracts: {} });
+  });
+
+  /**
+   * Seed an M.Asset with the given properties straight into the mock
+   */
+  function seedAsset(properties: MockProperties): number {
+    const id = mockServer.state.nextId++;
+    const now = new Date().toISOString();
+    mockServer.state.entities.set(id, {
+      id,
+      identifier: `contract-asset-${id}`,
+      definition: 'M.Asset',
+      properties,
+      created_on: now,
+      modified_on: now,
+      version: 1
+    });
+    return id;
+  }
+
+  test('should report renamed and retyped fields with their paths', () => {
+    const violations = validateSchema(
+      { items: [{ id: '1001', identifer: 'renamed', properties: {} }], total_items: 1 },
+      { $ref: 'EntityPage' },
+      catalog
+    );
+
+    expect(violations).toEqual([
+      { path: '$.items[0].id', expected: 'integer', actual: '"1001" (string)' },
+      { path: '$.items[0].identifier', expected: 'string', actual: 'missing' }
+    ]);
+  });
+
+  test('should report enum, format and nested violations', () => {
+    const violations = validateSchema(
+      { id: 5, status: 'Done', created_on: 'yesterday' },
+      { $ref: 'Job' },
+      catalog
+    );
+    const option = validateSchema({ key: 'approved', labels: { 'en-US': 1 } }, { $ref: 'Option' }, catalog);
+
+    expect(violations).toEqual([
+      {
+        path: '$.status',
+        expected: 'one of "Pending" | "Running" | "Completed" | "Failed" | "Cancelled"',
+        actual: '"Done" (string)'
+      },
+      { path: '$.created_on', expected: 'string (date-time)', actual: '"yesterday" (string)' }
+    ]);
+    expect(option).toEqual([{ path: '$.labels["en-US"]', expected: 'string', actual: '1 (integer)' }]);
+  });
+
+  test('should accept fields the contract does not know about', () => {
+    const violations = validateSchema(
+      { id: 1, name: 'M.Asset', is_system_owned: true, labels: { 'en-US': 'Asset' } },
+      { $ref: 'EntityDefinition' },
+      catalog
+    );
+
+    expect(violations).toEqual([]);
+  });
+
+  test('should format violations as a path-level diff', () => {
+    expect(
+      formatViolations([
+        { path: '$.items[0].id', expected: 'integer', actual: '"1001" (string)' },
+        { path: '$.total_items', expected: 'integer', actual: 'missing' }
+      ])
+    ).toBe(
+      ['  $.items[0].id', '    - integer', '    + "1001" (string)', '  $.total_items', '    - integer', '    + missing'].join('\n')
+    );
+  });
+
+  test('should check entity properties against member definitions', () => {
+    const members = [
+      { name: 'Title', type: 'String', is_multilanguage: true, is_required: true },
+      { name: 'FileSize', type: 'Long', is_multilanguage: false, is_required: false },
+      { name: 'ApprovedOn', type: 'DateTime', is_multilanguage: false, is_required: false }
+    ];
+
+    const violations = validateEntityMembers(
+      {
+        id: 1,
+        identifier: 'asset',
+        definition: 'M.Asset',
+        properties: {
+          FileSize: [{ culture: 'en-US', value: '2048' }],
+          ApprovedOn: [{ culture: null, value: 'soon' }],
+          Colour: [{ culture: null, value: 'red' }]
+        }
+      },
+      members
+    );
+
+    expect(violations).toEqual([
+      { path: '$.properties.FileSize[0].culture', expected: 'null (member is not multilanguage)', actual: '"en-US" (string)' },
+      { path: '$.properties.FileSize[0].value', expected: 'integer (Long member)', actual: '"2048" (string)' },
+      { path: '$.properties.ApprovedOn[0].value', expected: 'string (DateTime member)', actual: '"soon" (string)' },
+      { path: '$.properties.Colour', expected: 'no such member of M.Asset', actual: '[{"culture":null,"value":"red"}] (array)' },
+      { path: '$.properties.Title', expected: 'String (required member)', actual: 'missing' }
+    ]);
+  });
+
+  test('should throw ContentHubContractError for a retyped field in a response', async () => {
+    const [seeded] = [...mockServer.state.entities.values()];
+    mockServer.injectFault({
+      method: 'GET',
+      path: `/api/entities/${seeded.id}`,
+      status: 200,
+      body: { ...seeded, id: String(seeded.id) }
+    });
+
+    const error = await client.entities.get(seeded.id).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubContractError);
+    expect(error.contract).toBe('Entity@v1');
+    expect(error.status).toBe(200);
+    expect(error.message).toBe(
+      `GET /api/entities/${seeded.id} response violates contract Entity@v1 (1 violation):\n` +
+        `  $.id\n    - integer\n    + "${seeded.id}" (string)`
+    );
+  });
+
+  test('should throw for entity properties that disagree with their members', async () => {
+    const id = seedAsset({
+      Title: [{ culture: null, value: 'No culture' }],
+      FileName: [{ culture: 'en-US', value: 'file.png' }],
+      FileSize: [{ culture: null, value: 12.5 }]
+    });
+
+    const error = await client.get('/api/entities/query', { query: `id:${id}` }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubContractError);
+    expect(error.violations.map(({ path }: { path: string }) => path)).toEqual([
+      '$.items[0].properties.Title[0].culture',
+      '$.items[0].properties.FileName[0].culture',
+      '$.items[0].properties.FileSize[0].value'
+    ]);
+  });
+
+  test('should report required members without a value', async () => {
+    mockServer.state.entityDefinitions.get(1)!.members.find(({ name }) => name === 'FileName')!.is_required = true;
+    const id = seedAsset({ Title: [{ culture: 'en-US', value: 'Nameless' }] });
+
+    const error = await client.entities.get(id).catch(caught => caught);
+
+    expect(error.violations).toEqual([
+      { path: '$.properties.FileName', expected: 'String (required member)', actual: 'missing' }
+    ]);
+  });
+
+  test('should report entities of unknown definitions', async () => {
+    const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, definition: 'M.Unknown' }).catch(
+      caught => caught
+    );
+
+    expect(entity).toBeInstanceOf(ContentHubContractError);
+    expect(entity.violations).toEqual([
+      { path: '$.definition', expected: 'a known entity definition', actual: '"M.Unknown" (string)' }
+    ]);
+  });
+
+  test('should look member definitions up once per definition and base URL', async ({ apiClients }) => {
+    const other = apiClients.mock(mockServer, { contracts: {} });
+
+    await client.entities.list();
+    await client.entities.list();
+    await other.entities.list();
+
+    const lookups = mockServer.state.requests.filter(({ path }) => path.startsWith('/api/entitydefinitions'));
+    expect(lookups.map(({ path }) => path)).toEqual(['/api/entitydefinitions', '/api/entitydefinitions/1/members']);
+
+    // Until the definitions are forgotten, as the next client of a reset mock does
+    await apiClients.mock(mockServer, { contracts: {} }).entities.list();
+    expect(mockServer.state.requests.filter(({ path }) => path.startsWith('/api/entitydefinitions'))).toHaveLength(4);
+  });
+
+  test('should look member definitions up separately for each identity', async ({ apiClients }) => {
+    const editor = apiClients.mock(mockServer, {
+      contracts: {},
+      identity: { name: 'editor', username: 'mock-editor', password: 'mock-editor-password' }
+    });
+
+    await client.entities.list();
+    await editor.entities.list();
+
+    const lookups = mockServer.state.requests.filter(({ path }) => path.startsWith('/api/entitydefinitions'));
+    expect(lookups.map(({ path }) => path)).toEqual([
+      '/api/entitydefinitions',
+      '/api/entitydefinitions/1/members',
+      '/api/entitydefinitions',
+      '/api/entitydefinitions/1/members'
+    ]);
+  });
+
+  test('should record failed member lookups as unverified instead of failing the request', async () => {
+    mockServer.injectFault({ method: 'GET', path: '/api/entitydefinitions/1/members', status: 403, body: { error: 'forbidden' } });
+
+    const { items } = await client.entities.list();
+
+    expect(items.length).toBeGreaterThan(0);
+    expect([...client.contracts!.unverified.keys()]).toEqual(['M.Asset']);
+    expect(client.contracts!.unverified.get('M.Asset')).toContain('403');
+    expect(client.contracts!.reports).toEqual([]);
+  });
+
+  test('should throw under the mock and record against an instance unless configured', () => {
+    const env = { ...process.env };
+    try {
+      delete process.env.CONTENT_HUB_CONTRACTS;
+      process.env.CONTENT_HUB_MOCK = 'false';
+      expect(contractOptionsFromEnv()).toMatchObject({ mode: 'record' });
+      expect(contractOptionsFromEnv('throw')).toMatchObject({ mode: 'throw' });
+      process.env.CONTENT_HUB_MOCK = 'true';
+      expect(contractOptionsFromEnv()).toMatchObject({ mode: 'throw' });
+      process.env.CONTENT_HUB_CONTRACTS = 'off';
+      expect(contractOptionsFromEnv('throw')).toBe(false);
+    } finally {
+      process.env = env;
+    }
+  });
+
+  test('should record violations instead of throwing in record mode', async ({ apiClients }) => {
+    const recording = apiClients.mock(mockServer, { contracts: { mode: 'record' } });
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 200, body: { items: [{ id: 1 }] } });
+
+    const response = await recording.get('/api/jobs');
+
+    expect(response.status()).toBe(200);
+    expect(recording.contracts!.reports).toEqual([
+      {
+        method: 'GET',
+        endpoint: '/api/jobs',
+        contract: 'JobPage@v1',
+        violations: [
+          { path: '$.items[0].status', expected: 'one of "Pending" | "Running" | "Completed" | "Failed" | "Cancelled"', actual: 'missing' },
+          { path: '$.total_items', expected: 'integer', actual: 'missing' }
+        ]
+      }
+    ]);
+  });
+
+  test('should not validate error responses or uncatalogued routes', async () => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, body: { unexpected: true }, times: 1 });
+
+    const response = await client.get('/api/jobs', {}, { retry: false });
+    const progress = await client.get('/api/upload/progress/missing');
+
+    expect(response.status()).toBe(503);
+    expect(progress.status()).toBe(404);
+    expect(client.contracts!.contractFor('GET', '/api/upload/progress/abc')).toBeUndefined();
+  });
+
+  test('should skip validation when contracts are off', async ({ apiClients }) => {
+    const unchecked = apiClients.mock(mockServer, { contracts: false });
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 200, body: { items: 'none' } });
+
+    const response = await unchecked.get('/api/jobs');
+
+    expect(unchecked.contracts).toBeUndefined();
+    expect(await response.json()).toEqual({ items: 'none' });
+  });
+
+  test('should refuse unknown catalog versions', () => {
+    expect(() => new ContractValidator({ version: 'v0' })).toThrow("Unknown contract catalog version 'v0' (known: v1)");
+  });
+});
@@ -0,0 +1,155 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  ContentHubAPIClient,
+  ContentHubReadOnlyError,
+  DEFAULT_REQUESTS_PER_SECOND,
+  isMutatingRequest,
+  profileVariable,
+  resolveProfile
+} from '../src';
+
+test.describe('Environment Profile Tests', () => {
+  let mockServer: MockServer;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  /**
+   * Settings of `profile` pointing at the mock with its default credentials
+   */
+  function mockEnv(profile: string | undefined, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+    return {
+      [profileVariable(profile, 'BASE_URL')]: mockServer.url,
+      [profileVariable(profile, 'CLIENT_ID')]: 'mock-client-id',
+      [profileVariable(profile, 'CLIENT_SECRET')]: 'mock-client-secret',
+      [profileVariable(profile, 'USERNAME')]: 'mock-user',
+      [profileVariable(profile, 'PASSWORD')]: 'mock-password',
+      ...extra
+    };
+  }
+
+  const profileClient = (request: APIRequestContext, profile: string, extra?: Record<string, string>) =>
+    new ContentHubAPIClient(request, { profile: resolveProfile(profile, mockEnv(profile, extra)), contracts: false });
+
+  test('should read a named profile from its own variables only', () => {
+    const profile = resolveProfile('qa', {
+      CONTENT_HUB_BASE_URL: 'https://prod.example.com',
+      CONTENT_HUB_CLIENT_ID: 'prod-client',
+      CONTENT_HUB_QA_BASE_URL: 'https://qa.example.com',
+      CONTENT_HUB_QA_RATE_LIMIT: '5',
+      CONTENT_HUB_QA_GRANT_TYPE: 'client_credentials'
+    });
+
+    expect(profile).toMatchObject({
+      name: 'qa',
+      baseUrl: 'https://qa.example.com',
+      clientId: 'your-client-id',
+      grantType: 'client_credentials',
+      requestsPerSecond: 5,
+      readOnly: false
+    });
+  });
+
+  test('should fall back to the plain variables without a profile', () => {
+    const profile = resolveProfile(undefined, { CONTENT_HUB_BASE_URL: 'https://instance.example.com' });
+
+    expect(profile).toMatchObject({
+      name: 'default',
+      baseUrl: 'https://instance.example.com',
+      requestsPerSecond: DEFAULT_REQUESTS_PER_SECOND,
+      readOnly: false
+    });
+  });
+
+  test('should make prod read-only unless overridden', () => {
+    expect(resolveProfile('prod', mockEnv('prod')).readOnly).toBe(true);
+    expect(resolveProfile('prod', mockEnv('prod', { CONTENT_HUB_PROD_READ_ONLY: 'false' })).readOnly).toBe(false);
+    expect(resolveProfile('staging', mockEnv('staging', { CONTENT_HUB_STAGING_READ_ONLY: 'true' })).readOnly).toBe(true);
+    expect(resolveProfile('prod', mockEnv('prod', { CONTENT_HUB_PROD_READ_ONLY: 'FALSE' })).readOnly).toBe(false);
+    expect(resolveProfile('dev', mockEnv('dev', { CONTENT_HUB_DEV_READ_ONLY: 'True' })).readOnly).toBe(true);
+  });
+
+  test('should refuse read-only values other than true and false', () => {
+    for (const value of ['1', 'yes', 'flase', 'TRUE ']) {
+      expect(() => resolveProfile('prod', mockEnv('prod', { CONTENT_HUB_PROD_READ_ONLY: value }))).toThrow(
+        `CONTENT_HUB_PROD_READ_ONLY must be true or false, got '${value}'`
+      );
+    }
+  });
+
+  test('should reject unknown profiles and incomplete settings', () => {
+    expect(() => resolveProfile('production', {})).toThrow(
+      "CONTENT_HUB_PROFILE must be one of dev, qa, staging, prod, got 'production'"
+    );
+    expect(() => resolveProfile('dev', { CONTENT_HUB_BASE_URL: 'https://prod.example.com' })).toThrow(
+      "Profile 'dev' needs CONTENT_HUB_DEV_BASE_URL"
+    );
+    expect(() => resolveProfile('dev', mockEnv('dev', { CONTENT_HUB_DEV_RATE_LIMIT: 'fast' }))).toThrow(
+      "CONTENT_HUB_DEV_RATE_LIMIT must be a positive integer, got 'fast'"
+    );
+  });
+
+  test('should tell mutating routes from reading ones', () => {
+    expect(isMutatingRequest('GET', '/api/entities/1001')).toBe(false);
+    expect(isMutatingRequest('POST', '/api/entities/query')).toBe(false);
+    expect(isMutatingRequest('POST', '/api/entities/scroll?take=10')).toBe(false);
+    expect(isMutatingRequest('POST', '/api/entities')).toBe(true);
+    expect(isMutatingRequest('POST', '/api/optionlists/1/options')).toBe(true);
+    expect(isMutatingRequest('PUT', '/api/entities/1001')).toBe(true);
+    expect(isMutatingRequest('DELETE', '/api/entities/1001')).toBe(true);
+  });
+
+  test('should refuse mutating calls without sending them on a read-only profile', async ({ request }) => {
+    const client = profileClient(request, 'prod');
+    const [seeded] = [...mockServer.state.entities.values()];
+
+    const refusals = await Promise.all([
+      client.post('/api/entities', { identifier: `test-entity-${Date.now()}` }).catch(caught => caught),
+      client.put(`/api/entities/${seeded.id}`, { properties: {} }).catch(caught => caught),
+      client.delete(`/api/entities/${seeded.id}`).catch(caught => caught),
+      client.optionLists.addOption(1, { key: 'test-option', labels: { 'en-US': 'Test' } }).catch(caught => caught)
+    ]);
+
+    for (const refusal of refusals) {
+      expect(refusal).toBeInstanceOf(ContentHubReadOnlyError);
+      expect(refusal.profile).toBe('prod');
+    }
+    expect(refusals[0].message).toBe("Refusing POST /api/entities: profile 'prod' is read-only");
+    expect(refusals[2].request).toEqual({ method: 'DELETE', endpoint: `/api/entities/${seeded.id}` });
+    expect(mockServer.state.requests.filter(({ method }) => method !== 'GET')).toEqual([]);
+    expect(mockServer.state.entities.has(seeded.id)).toBe(true);
+  });
+
+  test('should still read and query on a read-only profile', async ({ request }) => {
+    const client = profileClient(request, 'prod');
+
+    const listed = await client.entities.list({ take: 2 });
+    const queried = await client.entities.query({ query: 'Definition.Name:"M.Asset"', take: 2 });
+
+    expect(client.readOnly).toBe(true);
+    expect(listed.items.length).toBeGreaterThan(0);
+    expect(queried.items.length).toBeGreaterThan(0);
+  });
+
+  test('should let an explicit option lift the read-only flag', async ({ request }) => {
+    const client = new ContentHubAPIClient(request, {
+      profile: resolveProfile('prod', mockEnv('prod')),
+      readOnly: false,
+      contracts: false
+    });
+
+    const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}` });
+
+    expect(mockServer.state.entities.has(entity.id)).toBe(true);
+  });
+});
@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubFixtureError, FixtureFile, FixtureSeeder, loadFixtureFile, seedOrder } from '../src';
+import { test, expect } from './support/api-test';
+import { FIXTURE_DIR } from './support/seeded-test';
+
+test.describe('Fixture Seeder Tests', () => {
+  let mockServer: MockServer;
+
+  const writes = () =>
+    mockServer.state.requests
+      .filter(({ method, path }) => method !== 'GET' && path !== '/api/oauth/token')
+      .map(({ method, path }) => `${method} ${path}`);
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  test('should read YAML fixture files', async ({}, testInfo) => {
+    const file = testInfo.outputPath('hero.yaml');
+    await fs.writeFile(
+      file,
+      [
+        '# comment',
+        'entities:',
+        '  hero:',
+        '    definition: M.Asset   # trailing comment',
+        "    identifier: 'it''s #1'",
+        '    properties:',
+        '      Title: { en-US: Hero, "fr-FR": "Héros: principal" }',
+        '      FileSize: 1024',
+        '      Approved: false',
+        '      Description: ~',
+        '    relations:',
+        '      AssetToCollection: [$summer, 1001]'
+      ].join('\n')
+    );
+
+    expect(await loadFixtureFile(file)).toEqual({
+      entities: {
+        hero: {
+          definition: 'M.Asset',
+          identifier: "it's #1",
+          properties: {
+            Title: { 'en-US': 'Hero', 'fr-FR': 'Héros: principal' },
+            FileSize: 1024,
+            Approved: false,
+            Description: null
+          },
+          relations: { AssetToCollection: ['$summer', 1001] }
+        }
+      }
+    });
+  });
+
+  test('should seed a YAML fixture in dependency order', async ({ apiClients }) => {
+    const client = apiClients.mock(mockServer);
+    const seeder = new FixtureSeeder(client, 1700000000000);
+
+    const seeded = await seeder.seed(path.join(FIXTURE_DIR, 'assets.yaml'));
+
+    // The collection and option before the assets, the assets before the selection of them
+    expect(writes()).toEqual([
+      'POST /api/optionlists/501/options',
+      'POST /api/entities',
+      'POST /api/entities',
+      'POST /api/entities',
+      'POST /api/selections'
+    ]);
+    expect(seeded.keys).toEqual({ draft: 'test-option-draft-1700000000000' });
+    expect(seeded.options.draft).toMatchObject({ optionListId: 501, labels: { 'en-US': 'Draft', 'fr-FR': 'Brouillon' } });
+    expect(seeded.entities.hero.identifier).toBe('test-entity-hero-1700000000000');
+
+    const hero = mockServer.state.entities.get(seeded.ids.hero)!;
+    expect(hero.properties).toEqual({
+      Title: [
+        { culture: 'en-US', value: 'Hero image' },
+        { culture: 'fr-FR', value: 'Image principale' }
+      ],
+      FileName: [{ culture: null, value: 'hero.jpg' }],
+      Status: [{ culture: null, value: 'test-option-draft-1700000000000' }]
+    });
+    expect(hero.relations).toEqual({ AssetToCollection: [seeded.ids.campaign] });
+    expect(mockServer.state.selections.get(seeded.ids.campaignAssets)).toMatchObject({
+      name: 'Test Selection campaignAssets 1700000000000',
+      entities: [seeded.ids.hero, seeded.ids.thumbnail]
+    });
+  });
+
+  test('should resolve references between JSON files of one seed', async ({ apiClients }, testInfo) => {
+    const collections = testInfo.outputPath('collections.json');
+    const assets = testInfo.outputPath('assets.json');
+    await fs.writeFile(collections, JSON.stringify({ entities: { archive: { definition: 'M.Collection', identifier: 'archive' } } }));
+    await fs.writeFile(
+      assets,
+      JSON.stringify({
+        entities: {
+          scan: {
+            definition: 'M.Asset',
+            properties: { Title: [{ culture: 'en-US', value: 'Scan' }] },
+            relations: { AssetToCollection: ['$archive'] }
+          }
+        }
+      })
+    );
+
+    const seeded = await new FixtureSeeder(apiClients.mock(mockServer)).seed(assets, collections);
+
+    expect(seeded.entities.archive.identifier).toMatch(/^archive-\d{13}$/);
+    expect(mockServer.state.entities.get(seeded.ids.scan)!.relations).toEqual({ AssetToCollection: [seeded.ids.archive] });
+    expect(seeded.ids.archive).toBeLessThan(seeded.ids.scan);
+  });
+
+  test('should order fixtures by reference, then by declaration', () => {
+    const fixtures: FixtureFile = {
+      options: { red: { optionList: 'M.Color', labels: { 'en-US': '$literal text is kept' } } },
+      entities: {
+        child: { definition: 'M.Asset', relations: { AssetToCollection: ['$parent'] } },
+        parent: { definition: 'M.Collection', properties: { Color: '$red' } },
+        loner: { definition: 'M.Asset' }
+      },
+      selections: { all: { entities: ['$child', '$loner'] } }
+    };
+
+    expect(seedOrder([{ file: 'inline', fixtures }]).map(({ name }) => name)).toEqual(['red', 'parent', 'child', 'loner', 'all']);
+  });
+
+  test('should reject unknown and circular references before creating anything', async ({ apiClients }) => {
+    const seeder = new FixtureSeeder(apiClients.mock(mockServer));
+
+    const unknown = await seeder
+      .seedFixtures({ file: 'assets.yaml', fixtures: { entities: { hero: { definition: 'M.Asset', relations: { AssetToCollection: ['$summer'] } } } } })
+      .catch(caught => caught);
+    expect(unknown).toBeInstanceOf(ContentHubFixtureError);
+    expect(unknown.message).toBe("assets.yaml: unknown reference '$summer' in entity 'hero'");
+    expect(unknown.file).toBe('assets.yaml');
+
+    await expect(
+      seeder.seedFixtures({
+        file: 'loop.yaml',
+        fixtures: {
+          entities: {
+            first: { definition: 'M.Asset', relations: { AssetToCollection: ['$second'] } },
+            second: { definition: 'M.Collection', relations: { AssetToCollection: ['$first'] } },
+            third: { definition: 'M.Asset' }
+          }
+        }
+      })
+    ).rejects.toThrow('Circular references between $first, $second');
+
+    await expect(
+      seeder.seedFixtures(
+        { file: 'a.yaml', fixtures: { entities: { hero: { definition: 'M.Asset' } } } },
+        { file: 'b.yaml', fixtures: { selections: { hero: {} } } }
+      )
+    ).rejects.toThrow("Fixture 'hero' is declared in a.yaml and again in b.yaml");
+
+    expect(writes()).toEqual([]);
+  });
+
+  test('should reject malformed fixture files', async ({}, testInfo) => {
+    const write = async (name: string, content: string) => {
+      const file = testInfo.outputPath(name);
+      await fs.writeFile(file, content);
+      return file;
+    };
+
+    const sections = await write('sections.yaml', 'assets:\n  hero: {}');
+    await expect(loadFixtureFile(sections)).rejects.toThrow(`${sections}: unknown section 'assets' (expected options, entities or selections)`);
+    const definition = await write('definition.json', '{ "entities": { "hero": { "identifier": "hero" } } }');
+    await expect(loadFixtureFile(definition)).rejects.toThrow(`${definition}: entities.hero.definition must name an entity definition`);
+    const syntax = await write('syntax.yaml', 'entities:\n  hero: [');
+    await expect(loadFixtureFile(syntax)).rejects.toThrow(`${syntax}: `);
+    const duplicate = await write('duplicate.yaml', 'entities:\n  hero: { definition: M.Asset }\n  hero: { definition: M.Asset }');
+    await expect(loadFixtureFile(duplicate)).rejects.toThrow(`${duplicate}: Map keys must be unique at line 3`);
+    await expect(loadFixtureFile(testInfo.outputPath('missing.yaml'))).rejects.toThrow(ContentHubFixtureError);
+  });
+
+  test('should delete seeded data newest first on teardown', async ({ apiClients }) => {
+    const client = apiClients.mock(mockServer);
+    const seeder = new FixtureSeeder(client);
+    const seeded = await seeder.seed(path.join(FIXTURE_DIR, 'assets.yaml'));
+    mockServer.state.requests.length = 0;
+
+    const result = await seeder.teardown();
+
+    expect(result.failed).toEqual([]);
+    expect(writes()).toEqual([
+      `DELETE /api/selections/${seeded.ids.campaignAssets}`,
+      `DELETE /api/entities/${seeded.ids.thumbnail}`,
+      `DELETE /api/entities/${seeded.ids.hero}`,
+      `DELETE /api/entities/${seeded.ids.campaign}`,
+      `DELETE /api/optionlists/501/options/${seeded.keys.draft}`
+    ]);
+    expect(mockServer.state.optionLists.get(501)!.options.map(({ key }) => key)).toEqual(['approved', 'rejected']);
+    // Nothing left to delete the second time
+    expect((await seeder.teardown()).deleted).toEqual([]);
+  });
+
+  test('should tear down what was created before a seed failed', async ({ apiClients }) => {
+    const seeder = new FixtureSeeder(apiClients.mock(mockServer));
+
+    const failure = await seeder
+      .seedFixtures({
+        file: 'colors.yaml',
+        fixtures: {
+          entities: { swatch: { definition: 'M.Asset' } },
+          selections: { swatches: { entities: ['$swatch'] } },
+          options: { red: { optionList: 'M.Color' } }
+        }
+      })
+      .catch(caught => caught);
+
+    expect(failure).toBeInstanceOf(ContentHubFixtureError);
+    expect(failure.message).toBe("colors.yaml: option 'red' refers to unknown option list 'M.Color'");
+    // Options come first, so nothing was created yet
+    expect(writes()).toEqual([]);
+
+    const seeded = seeder.seedFixtures({
+      file: 'broken.yaml',
+      fixtures: {
+        entities: {
+          swatch: { definition: 'M.Asset' },
+          broken: { definition: 'M.Asset', relations: { AssetToCollection: [999999] } }
+        }
+      }
+    });
+    await expect(seeded).rejects.toMatchObject({ status: 400 });
+
+    await seeder.teardown();
+    expect([...mockServer.state.entities.values()].filter(({ identifier }) => identifier.startsWith('test-entity-swatch-'))).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+import { MockEntityDefinition, startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  buildFuzzCases,
+  ContentHubAPIClient,
+  FUZZ_KINDS,
+  formatFuzzReport,
+  fuzzEntityPayloads,
+  fuzzFailures,
+  fuzzOutcome,
+  fuzzRequest,
+  fuzzSeedFromEnv,
+  FuzzSchema,
+  loadFuzzSchema,
+  runFuzzCases,
+  setPropertyValue
+} from '../src';
+import { test, expect } from './support/api-test';
+
+const PRODUCT: MockEntityDefinition = {
+  id: 90,
+  name: 'M.PCM.Product',
+  members: [
+    { name: 'ProductName', type: 'String', is_multilanguage: false, is_required: true },
+    { name: 'ProductLabel', type: 'String', is_multilanguage: true, is_required: false },
+    { name: 'Description', type: 'Text', is_multilanguage: true, is_required: false },
+    { name: 'Price', type: 'Decimal', is_multilanguage: false, is_required: false },
+    { name: 'Stock', type: 'Long', is_multilanguage: false, is_required: false },
+    { name: 'LaunchDate', type: 'DateTime', is_multilanguage: false, is_required: false },
+    { name: 'IsActive', type: 'Boolean', is_multilanguage: false, is_required: false },
+    { name: 'Status', type: 'Option', is_multilanguage: false, is_required: false, option_list: 'M.AssetStatus' }
+  ]
+};
+
+const PRODUCT_SCHEMA: FuzzSchema = {
+  definition: PRODUCT.name,
+  members: PRODUCT.members,
+  cultures: ['en-US', 'fr-FR'],
+  optionKeys: { 'M.AssetStatus': ['approved', 'rejected'] }
+};
+
+test.describe('Payload Fuzzing Tests', () => {
+  test.describe('with the configured instance', () => {
+    test('should refuse invalid M.Asset payloads with structured 4xx errors', { tag: '@destructive' }, async ({ apiClients }) => {
+      const client = apiClients.configured();
+
+      try {
+        const report = await fuzzEntityPayloads(client, 'M.Asset');
+
+        expect(report.results.length).toBeGreaterThan(0);
+        expect(fuzzFailures(report), formatFuzzReport(report)).toEqual([]);
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('generating cases', () => {
+    test('should generate the same cases for the same seed', () => {
+      const cases = buildFuzzCases(PRODUCT_SCHEMA, { seed: 7 });
+
+      expect(buildFuzzCases(PRODUCT_SCHEMA, { seed: 7 })).toEqual(cases);
+      expect(buildFuzzCases(PRODUCT_SCHEMA, { seed: 8 })).not.toEqual(cases);
+      expect(cases.map(({ kind }) => kind)).toEqual(FUZZ_KINDS.flatMap(kind => [kind, kind, kind]));
+    });
+
+    test('should break one rule per case and keep the required members otherwise', () => {
+      const cases = buildFuzzCases(PRODUCT_SCHEMA, { seed: 11, casesPerKind: 10, maxStringLength: 50 });
+
+      for (const fuzzCase of cases.filter(({ payload }) => payload === 'entity')) {
+        const properties = fuzzRequest(fuzzCase).data!.properties as Record<string, unknown>;
+        if (fuzzCase.kind === 'missingRequired') {
+          expect(properties).not.toHaveProperty('ProductName');
+        } else {
+          expect(properties.ProductName, fuzzCase.description).toBeDefined();
+        }
+        expect(Object.keys(fuzzCase.invalid).length, fuzzCase.description).toBeLessThanOrEqual(1);
+        expect(Object.keys(fuzzCase.filler)).not.toContain('ProductName');
+      }
+      const oversize = cases.filter(({ kind }) => kind === 'oversizeString');
+      for (const { invalid } of oversize) {
+        const [[member, [{ value }]]] = Object.entries(invalid) as [string, { value: string }[]][];
+        expect(['ProductName', 'ProductLabel']).toContain(member);
+        expect(value.length).toBeGreaterThan(50);
+      }
+      const paging = cases.filter(({ kind }) => kind === 'pagingOutOfRange');
+      expect(new Set(paging.map(({ method }) => method))).toEqual(new Set(['GET', 'POST']));
+    });
+
+    test('should only generate the kinds a definition allows', () => {
+      const collection: FuzzSchema = {
+        definition: 'M.Collection',
+        members: [{ name: 'Title', type: 'String', is_multilanguage: true, is_required: false }],
+        cultures: ['en-US'],
+        optionKeys: {}
+      };
+
+      const kinds = new Set(buildFuzzCases(collection, { seed: 3 }).map(({ kind }) => kind));
+
+      expect([...kinds]).toEqual(['wrongType', 'oversizeString', 'unknownCulture', 'pagingOutOfRange']);
+    });
+
+    test('should take the seed from CONTENT_HUB_FUZZ_SEED', () => {
+      expect(fuzzSeedFromEnv({})).toBe(1);
+      expect(fuzzSeedFromEnv({ CONTENT_HUB_FUZZ_SEED: '42' })).toBe(42);
+      expect(() => fuzzSeedFromEnv({ CONTENT_HUB_FUZZ_SEED: 'random' })).toThrow(
+        "CONTENT_HUB_FUZZ_SEED must be a non-negative integer, got 'random'"
+      );
+    });
+
+    test('should only count structured 4xx errors as refusals', () => {
+      expect(fuzzOutcome(400, { error: 'invalid_value', message: 'Member Stock takes an integer' })).toBe('rejected');
+      expect(fuzzOutcome(404, { message: 'Entity not found' })).toBe('rejected');
+      expect(fuzzOutcome(400, undefined)).toBe('unstructured');
+      expect(fuzzOutcome(400, { error: 'bad_request' })).toBe('unstructured');
+      expect(fuzzOutcome(302, undefined)).toBe('unstructured');
+      expect(fuzzOutcome(201, { id: 1 })).toBe('accepted');
+      expect(fuzzOutcome(500, { message: 'boom' })).toBe('serverError');
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let client: ContentHubAPIClient;
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false, maxResultWindow: 100 });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      mockServer.state.entityDefinitions.set(PRODUCT.id, structuredClone(PRODUCT));
+      client = apiClients.mock(mockServer);
+    });
+
+    test('should read the schema from the member definitions', async () => {
+      expect(await loadFuzzSchema(client, PRODUCT.name)).toEqual({
+        ...PRODUCT_SCHEMA,
+        cultures: ['en-US', 'fr-FR', 'de-DE']
+      });
+      await expect(loadFuzzSchema(client, 'M.Missing')).rejects.toThrow('No entity definition named M.Missing');
+    });
+
+    test('should have every invalid create refused with a structured 400', async () => {
+      const entities = mockServer.state.entities.size;
+
+      const report = await fuzzEntityPayloads(client, PRODUCT.name, { seed: 5, casesPerKind: 5, maxResultWindow: 100 });
+
+      expect(fuzzFailures(report), formatFuzzReport(report)).toEqual([]);
+      expect(report.results).toHaveLength(30);
+      expect(new Set(report.results.map(({ status }) => status))).toEqual(new Set([400]));
+      expect(new Set(report.results.map(({ body }) => (body as { error: string }).error))).toEqual(
+        new Set([
+          'invalid_value',
+          'invalid_property',
+          'missing_required',
+          'value_too_long',
+          'unknown_culture',
+          'invalid_option',
+          'bad_request',
+          'result_window_exceeded'
+        ])
+      );
+      expect(mockServer.state.entities.size).toBe(entities);
+      expect(formatFuzzReport(report)).toBe('All 30 fuzz cases were refused with a structured 4xx (seed 5)');
+    });
+
+    test('should have every invalid update refused without changing the entity', async () => {
+      const product = await client.entities.create({
+        identifier: `test-entity-product-${Date.now()}`,
+        definition: PRODUCT.name,
+        properties: setPropertyValue({}, 'ProductName', 'Lamp')
+      });
+
+      const report = await fuzzEntityPayloads(client, PRODUCT.name, {
+        seed: 9,
+        kinds: ['wrongType', 'missingRequired', 'oversizeString', 'unknownCulture', 'badOptionKey'],
+        target: product
+      });
+
+      expect(fuzzFailures(report), formatFuzzReport(report)).toEqual([]);
+      expect(new Set(report.results.map(({ case: { method, endpoint } }) => `${method} ${endpoint}`))).toEqual(
+        new Set([`PUT /api/entities/${product.id}`])
+      );
+      expect(await client.entities.get(product.id)).toEqual(product);
+    });
+
+    test('should shrink a payload the server wrongly accepts to a minimal reproduction', async () => {
+      const cases = buildFuzzCases(await loadFuzzSchema(client, PRODUCT.name), { seed: 21, kinds: ['badOptionKey'] });
+      // The server stops checking option keys
+      mockServer.state.entityDefinitions.get(PRODUCT.id)!.members.find(({ name }) => name === 'Status')!.option_list = 'M.Unknown';
+
+      const report = await runFuzzCases(client, cases, { seed: 21 });
+
+      const failures = fuzzFailures(report);
+      expect(failures.map(({ outcome, status }) => [outcome, status])).toEqual([
+        ['accepted', 201],
+        ['accepted', 201],
+        ['accepted', 201]
+      ]);
+      for (const { case: fuzzCase, minimal } of failures) {
+        expect(Object.keys(fuzzCase.filler).length).toBeGreaterThan(0);
+        expect(minimal).toEqual({ ...fuzzCase, filler: {} });
+        expect(Object.keys(fuzzRequest(minimal!).data!.properties as object)).toEqual(['ProductName', 'Status']);
+      }
+      const formatted = formatFuzzReport(report);
+      expect(formatted).toContain(
+        '3 of 3 fuzz cases were not refused with a structured 4xx (seed 21; set CONTENT_HUB_FUZZ_SEED=21 to repeat):'
+      );
+      expect(formatted).toContain(
+        `  badOptionKey  ${failures[0].case.description}\n    accepted 201\n    minimal: POST /api/entities {"identifier":`
+      );
+
+      // What the server accepted is cleaned up like anything else the client created
+      expect(client.createdResources.pending.length).toBeGreaterThanOrEqual(3);
+      expect((await client.deleteCreatedResources()).failed).toEqual([]);
+    });
+
+    test('should shrink server errors and cut oversize strings to one character past the limit', async () => {
+      mockServer.injectFault({ method: 'POST', path: '/api/entities', status: 500, body: { error: 'internal_error', message: 'boom' } });
+
+      const report = await fuzzEntityPayloads(client, PRODUCT.name, { seed: 4, kinds: ['oversizeString'], maxStringLength: 200 });
+
+      const failures = fuzzFailures(report);
+      expect(failures).toHaveLength(3);
+      for (const { outcome, minimal } of failures) {
+        expect(outcome).toBe('serverError');
+        expect(minimal!.filler).toEqual({});
+        const [[, [{ value }]]] = Object.entries(minimal!.invalid) as [string, { value: string }[]][];
+        expect(value).toHaveLength(201);
+      }
+    });
+
+    test('should report out-of-range paging answered without an error body', async () => {
+      mockServer.injectFault({ method: 'GET', path: '/api/entities', status: 400 });
+
+      const report = await fuzzEntityPayloads(client, PRODUCT.name, { seed: 2, kinds: ['pagingOutOfRange'], casesPerKind: 8 });
+
+      const outcomes = report.results.map(({ case: { method }, outcome }) => [method, outcome]);
+      expect(outcomes).toContainEqual(['GET', 'unstructured']);
+      expect(outcomes).toContainEqual(['POST', 'rejected']);
+      expect(outcomes.every(([method, outcome]) => outcome === (method === 'GET' ? 'unstructured' : 'rejected'))).toBe(true);
+      // Shrinking leaves only the out-of-range parameters
+      for (const { minimal } of fuzzFailures(report)) {
+        expect(minimal!.filler).toEqual({});
+      }
+    });
+  });
+});
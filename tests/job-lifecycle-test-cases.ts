@@ -0,0 +1,177 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubError, ContentHubJobError, SharedRateLimiter } from '../src';
+import { test, expect } from './support/api-test';
+
+test.describe('Job Lifecycle Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+
+  test.beforeAll(async () => {
+    // Long enough for a cancel to land before bulk updates complete
+    mockServer = await startMockServer({ rateLimit: false, jobDurationMs: 400 });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    // Job schedules run on the wall clock, so polls must not queue behind the run-wide limiter
+    client = apiClients.mock(mockServer, {
+      rateLimiter: new SharedRateLimiter({ limit: 100, windowMs: 1000 })
+    });
+    await client.getAuthToken();
+  });
+
+  const statuses = (error: ContentHubJobError) => error.transitions.map(({ status }) => status);
+
+  test('should return every status transition up to completion', async () => {
+    const job = mockServer.scheduleJob('Processing', [
+      { status: 'Running', afterMs: 300 },
+      { status: 'Completed', afterMs: 600 }
+    ]);
+
+    const { job: finished, transitions } = await client.jobs.waitForJob(job.id, { interval: 20 });
+
+    expect(finished.status).toBe('Completed');
+    expect(transitions.map(({ status }) => status)).toEqual(['Pending', 'Running', 'Completed']);
+    expect(transitions[1].elapsedMs).toBeGreaterThanOrEqual(200);
+    expect(transitions[2].elapsedMs).toBeGreaterThan(transitions[1].elapsedMs);
+    expect(transitions[2].observedAt.getTime()).toBeGreaterThan(transitions[0].observedAt.getTime());
+  });
+
+  test('should wait for the job of a bulk update and see its effect', async () => {
+    const [first, second] = await Promise.all(
+      [1, 2].map(i => client.entities.create({ identifier: `test-entity-bulk-${i}-${Date.now()}`, properties: {} }))
+    );
+
+    const { job_id } = await client.entities.bulkUpdate({
+      entity_ids: [first.id, second.id],
+      properties: { Title: [{ culture: 'en-US', value: 'Bulk Title' }] }
+    });
+    const { job } = await client.jobs.waitForJob(job_id, { interval: 20 });
+
+    expect(job.type).toBe('BulkUpdate');
+    for (const { id } of [first, second]) {
+      expect((await client.entities.get(id)).properties.Title[0].value).toBe('Bulk Title');
+    }
+  });
+
+  test('should wait for the processing job of an upload', async () => {
+    const upload = await client.uploads.initiate({ filename: 'notes.txt', filesize: 5, content_type: 'text/plain' });
+    await client.uploads.uploadChunk(upload, 0, Buffer.from('hello'));
+    const { job_id } = await client.uploads.finalize(upload);
+
+    const { transitions } = await client.jobs.waitForJob(job_id!, { interval: 20 });
+
+    expect(transitions[transitions.length - 1].status).toBe('Completed');
+    const progress = await client.uploads.progress(upload.upload_identifier);
+    expect(progress.status).toBe('Completed');
+    expect(progress.asset_id).toEqual(expect.any(Number));
+  });
+
+  test('should report a failed job with its reason and history', async () => {
+    const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+    const { job_id } = await client.entities.bulkUpdate({
+      entity_ids: [entity.id, 999999],
+      properties: { Title: [{ culture: 'en-US', value: 'Never Applied' }] }
+    });
+
+    const error = await client.jobs.waitForJob(job_id, { interval: 20 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubJobError);
+    expect(error.message).toMatch(/^Job \d+ \(BulkUpdate\) failed: Entities 999999 not found \(.*Failed\)$/);
+    expect(error.job.status).toBe('Failed');
+    expect(statuses(error)[statuses(error).length - 1]).toBe('Failed');
+    expect((await client.entities.get(entity.id)).properties.Title).toBeUndefined();
+  });
+
+  test('should return a failed job when failure is the awaited outcome', async () => {
+    const job = mockServer.scheduleJob('Processing', [{ status: 'Failed', afterMs: 0, message: 'Corrupt file' }]);
+
+    const { job: failed } = await client.jobs.waitForJob(job.id, { until: ['Failed', 'Cancelled'], interval: 20 });
+
+    expect(failed.status_message).toBe('Corrupt file');
+  });
+
+  test('should accept a predicate as the awaited condition', async () => {
+    const job = mockServer.scheduleJob('Processing', [
+      { status: 'Running', afterMs: 50 },
+      { status: 'Completed', afterMs: 5000 }
+    ]);
+
+    const { job: running } = await client.jobs.waitForJob(job.id, {
+      until: ({ status }) => status !== 'Pending',
+      interval: 20
+    });
+
+    expect(running.status).toBe('Running');
+  });
+
+  test('should cancel a running job and report the cancellation to waiters', async () => {
+    const job = mockServer.scheduleJob('Processing', [
+      { status: 'Running', afterMs: 0 },
+      { status: 'Completed', afterMs: 5000 }
+    ]);
+    await client.jobs.waitForJob(job.id, { until: 'Running', interval: 20 });
+
+    const cancelled = await client.jobs.cancel(job.id);
+    const error = await client.jobs.waitForJob(job.id, { interval: 20 }).catch(caught => caught);
+
+    expect(cancelled.status).toBe('Cancelled');
+    expect(error).toBeInstanceOf(ContentHubJobError);
+    expect(error.message).toMatch(/^Job \d+ \(Processing\) cancelled: Cancelled by request/);
+  });
+
+  test('should not apply a bulk update whose job was cancelled', async () => {
+    const entity = await client.entities.create({ identifier: `test-entity-${Date.now()}`, properties: {} });
+    const { job_id } = await client.entities.bulkUpdate({
+      entity_ids: [entity.id],
+      properties: { Title: [{ culture: 'en-US', value: 'Cancelled Title' }] }
+    });
+
+    await client.jobs.cancel(job_id);
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect((await client.jobs.get(job_id)).status).toBe('Cancelled');
+    expect((await client.entities.get(entity.id)).properties.Title).toBeUndefined();
+  });
+
+  test('should refuse to cancel a finished job', async () => {
+    const job = mockServer.scheduleJob('Processing', [{ status: 'Completed', afterMs: 0 }]);
+
+    const error = await client.jobs.cancel(job.id).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubError);
+    expect(error.status).toBe(400);
+    expect(error.body).toMatchObject({ error: 'job_not_cancellable' });
+  });
+
+  test('should time out with the status history when the job does not finish', async () => {
+    const job = mockServer.scheduleJob('Processing', [
+      { status: 'Running', afterMs: 0 },
+      { status: 'Completed', afterMs: 10000 }
+    ]);
+    const startTime = Date.now();
+
+    const error = await client.jobs.waitForJob(job.id, { timeout: 200, interval: 20 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubJobError);
+    expect(error.message).toBe(`Job ${job.id} (Processing) still Running after 200ms (Running)`);
+    expect(Date.now() - startTime).toBeLessThan(2000);
+  });
+
+  test('should fail when the job completes without reaching the awaited status', async () => {
+    const job = mockServer.scheduleJob('Processing', [{ status: 'Completed', afterMs: 0 }]);
+
+    const error = await client.jobs.waitForJob(job.id, { until: 'Running', interval: 20 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubJobError);
+    expect(error.message).toContain('completed without reaching the awaited status');
+  });
+
+  test('should raise ContentHubNotFoundError for unknown jobs', async () => {
+    await expect(client.jobs.waitForJob(999999)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,233 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  arrivalTimes,
+  ContentHubClientOptions,
+  ContentHubReadOnlyError,
+  ContentHubSloError,
+  formatLoadResult,
+  LoadRequest,
+  runLoadProfile,
+  SharedRateLimiter,
+  sloFromEnv,
+  weightedSequence
+} from '../src';
+import { ApiClients, test, expect } from './support/api-test';
+
+test.describe('Load Profile Tests', () => {
+  let mockServer: MockServer;
+
+  const listEntities: LoadRequest = { name: 'list entities', method: 'GET', endpoint: '/api/entities', params: { take: 1 } };
+  const queryAssets: LoadRequest = {
+    name: 'query assets',
+    method: 'POST',
+    endpoint: '/api/entities/query',
+    body: { query: 'Definition.Name:"M.Asset"', take: 1 }
+  };
+
+  // A limiter of its own, so the load neither waits for nor delays other workers
+  const createClient = (apiClients: ApiClients, options: ContentHubClientOptions = {}) =>
+    apiClients.mock(mockServer, {
+      contracts: false,
+      rateLimiter: new SharedRateLimiter({ limit: 13, windowMs: 1000 }),
+      logger: () => {},
+      ...options
+    });
+
+  const sentTo = (path: string) => mockServer.state.requests.filter(record => record.path === path);
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  test('should schedule constant and ramping phases deterministically', () => {
+    expect(arrivalTimes([{ kind: 'constant', durationMs: 1000, rate: 4 }])).toEqual([0, 250, 500, 750]);
+    // From 0 to 4 requests per second over 2s: the k-th request starts after √k seconds
+    expect(arrivalTimes([{ kind: 'ramp', durationMs: 2000, fromRate: 0, toRate: 4 }])).toEqual([0, 1000, 1414, 1732]);
+    expect(
+      arrivalTimes(
+        [
+          { kind: 'constant', durationMs: 500, rate: 'throttle' },
+          { kind: 'constant', durationMs: 500, rate: 2 }
+        ],
+        6
+      )
+    ).toEqual([0, 167, 333, 500]);
+
+    expect(() => arrivalTimes([{ kind: 'constant', durationMs: 1000, rate: 20 }], 13)).toThrow(
+      'Phase 1 asks for 20 requests per second; rates go from 0 to the throttle of 13'
+    );
+    expect(() => arrivalTimes([{ kind: 'ramp', durationMs: 0, fromRate: 1, toRate: 2 }])).toThrow(
+      'Phase 1 needs a positive durationMs, got 0'
+    );
+  });
+
+  test('should spread the mix evenly by weight', () => {
+    const heavy: LoadRequest = { ...listEntities, name: 'heavy', weight: 3 };
+    const light: LoadRequest = { ...listEntities, name: 'light' };
+
+    expect(weightedSequence([heavy, light], 8).map(({ name }) => name)).toEqual([
+      'heavy', 'heavy', 'light', 'heavy', 'heavy', 'heavy', 'light', 'heavy'
+    ]);
+    expect(() => weightedSequence([{ ...light, weight: 0 }], 1)).toThrow("Request 'light' needs a positive weight, got 0");
+  });
+
+  test('should measure throughput, statuses and latency of a ramp', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+
+    const result = await runLoadProfile(client, {
+      name: 'ramp to steady',
+      phases: [
+        { kind: 'ramp', durationMs: 1000, fromRate: 2, toRate: 10 },
+        { kind: 'constant', durationMs: 500, rate: 10 }
+      ],
+      mix: [{ ...listEntities, weight: 2 }, queryAssets],
+      slo: { maxErrorRate: 0, p95Ms: 5000 }
+    });
+
+    expect(result).toMatchObject({ scenario: 'ramp to steady', requests: 11, errors: 0, errorRate: 0, statuses: { 200: 11 } });
+    expect(result.operations['list entities'].requests).toBe(7);
+    expect(result.operations['query assets'].requests).toBe(4);
+    expect(result.histogram.counts.reduce((sum, count) => sum + count, 0)).toBe(11);
+    expect(result.histogram.counts).toHaveLength(result.histogram.bucketsMs.length + 1);
+    expect(result.durationMs).toBeGreaterThanOrEqual(1400);
+    expect(result.throughput).toBeCloseTo(11 / (result.durationMs / 1000), 1);
+    expect(result.latency.p50).toBeLessThanOrEqual(result.latency.p95);
+    expect(result.latency.p95).toBeLessThanOrEqual(result.latency.max);
+    expect(sentTo('/api/entities')).toHaveLength(7);
+    expect(sentTo('/api/entities/query')).toHaveLength(4);
+    expect(formatLoadResult(result)).toMatch(/^Load scenario 'ramp to steady': [\d.]+ requests\/s over \d+ms, 11 requests, 0 errors \(0%\)/);
+  });
+
+  test('should count failures as errors without retrying them', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, times: 3 });
+    const client = createClient(apiClients);
+
+    const failure = await runLoadProfile(client, {
+      name: 'jobs',
+      phases: [{ kind: 'constant', durationMs: 1000, rate: 10 }],
+      mix: [{ name: 'list jobs', method: 'GET', endpoint: '/api/jobs' }],
+      slo: { maxErrorRate: 0.1 }
+    }).catch(caught => caught);
+
+    expect(failure).toBeInstanceOf(ContentHubSloError);
+    expect(failure.message).toBe("Load scenario 'jobs' missed its SLOs:\n  maxErrorRate 0.3 > 0.1");
+    expect(failure.violations).toEqual([{ metric: 'maxErrorRate', threshold: 0.1, actual: 0.3 }]);
+    expect(failure.result).toMatchObject({ requests: 10, errors: 3, statuses: { 200: 7, 503: 3 } });
+    expect(sentTo('/api/jobs')).toHaveLength(10);
+  });
+
+  test('should fail latency SLOs against a slow endpoint', async ({ apiClients }) => {
+    mockServer.injectLatency({ method: 'POST', path: '/api/entities/query', delayMs: 150 });
+    const client = createClient(apiClients);
+
+    const failure = await runLoadProfile(client, {
+      name: 'slow queries',
+      phases: [{ kind: 'constant', durationMs: 1000, rate: 8 }],
+      mix: [{ ...listEntities, weight: 3 }, queryAssets],
+      slo: { p95Ms: 100 }
+    }).catch(caught => caught);
+
+    expect(failure).toBeInstanceOf(ContentHubSloError);
+    expect(failure.violations).toEqual([{ metric: 'p95Ms', threshold: 100, actual: expect.any(Number) }]);
+    expect(failure.violations[0].actual).toBeGreaterThanOrEqual(150);
+    const queries = failure.result.operations['query assets'];
+    expect(queries.requests).toBe(2);
+    expect(queries.latency.p50).toBeGreaterThanOrEqual(150);
+    // Nothing in the buckets up to 100ms
+    expect(queries.histogram.counts.slice(0, 4)).toEqual([0, 0, 0, 0]);
+  });
+
+  test('should hold a constant rate at the throttle without being throttled', async ({ apiClients }) => {
+    const throttled = await startMockServer({ rateLimit: { limit: 13, windowMs: 1000, scope: 'instance' } });
+    try {
+      const client = apiClients.mock(throttled, {
+        contracts: false,
+        rateLimiter: new SharedRateLimiter({ limit: 13, windowMs: 1000 }),
+        logger: () => {}
+      });
+
+      const result = await runLoadProfile(client, {
+        name: 'at the throttle',
+        phases: [{ kind: 'constant', durationMs: 2000, rate: 'throttle' }],
+        mix: [listEntities],
+        slo: { maxErrorRate: 0 }
+      });
+
+      expect(result.requests).toBe(2 * client.profile.requestsPerSecond);
+      expect(result.statuses).toEqual({ 200: result.requests });
+      expect(result.throughput).toBeLessThanOrEqual(client.profile.requestsPerSecond + 1);
+      expect(throttled.state.requests.some(record => record.status === 429)).toBe(false);
+    } finally {
+      await throttled.close();
+    }
+  });
+
+  test('should refuse rates above the throttle before sending anything', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+
+    await expect(
+      runLoadProfile(client, { name: 'too fast', phases: [{ kind: 'constant', durationMs: 1000, rate: 50 }], mix: [listEntities] })
+    ).rejects.toThrow(`Phase 1 asks for 50 requests per second; rates go from 0 to the throttle of ${client.profile.requestsPerSecond}`);
+    expect(mockServer.state.requests).toEqual([]);
+  });
+
+  test('should send writes of a mix and leave them to cleanup', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+    const stamp = Date.now();
+
+    const result = await runLoadProfile(client, {
+      name: 'read and write',
+      phases: [{ kind: 'constant', durationMs: 500, rate: 8 }],
+      mix: [
+        listEntities,
+        {
+          name: 'create entity',
+          method: 'POST',
+          endpoint: '/api/entities',
+          body: (sequence: number) => ({ identifier: `test-entity-load-${stamp}-${sequence}`, definition: 'M.Asset' })
+        }
+      ]
+    });
+
+    expect(result.operations['create entity']).toMatchObject({ requests: 2, errors: 0, statuses: { 201: 2 } });
+    const created = [...mockServer.state.entities.values()].filter(({ identifier }) => identifier.startsWith(`test-entity-load-${stamp}-`));
+    expect(created.map(({ identifier }) => identifier).sort()).toEqual([`test-entity-load-${stamp}-1`, `test-entity-load-${stamp}-3`]);
+
+    await client.deleteCreatedResources();
+    expect(created.some(({ id }) => mockServer.state.entities.has(id))).toBe(false);
+  });
+
+  test('should refuse a mix with writes on a read-only profile', async ({ apiClients }) => {
+    const client = createClient(apiClients, { readOnly: true });
+
+    const refusal = await runLoadProfile(client, {
+      name: 'writes',
+      phases: [{ kind: 'constant', durationMs: 500, rate: 4 }],
+      mix: [listEntities, { name: 'delete entity', method: 'DELETE', endpoint: '/api/entities/1001' }]
+    }).catch(caught => caught);
+
+    expect(refusal).toBeInstanceOf(ContentHubReadOnlyError);
+    expect(refusal.request).toEqual({ method: 'DELETE', endpoint: '/api/entities/1001' });
+    expect(mockServer.state.requests).toEqual([]);
+  });
+
+  test('should let the environment override SLO thresholds', () => {
+    const slo = sloFromEnv(
+      { maxErrorRate: 0, p95Ms: 2000 },
+      { CONTENT_HUB_SLO_P95_MS: '800', CONTENT_HUB_SLO_MIN_THROUGHPUT: '5' }
+    );
+
+    expect(slo).toEqual({ maxErrorRate: 0, p95Ms: 800, minThroughput: 5 });
+    expect(() => sloFromEnv({}, { CONTENT_HUB_SLO_P99_MS: 'fast' })).toThrow(
+      "CONTENT_HUB_SLO_P99_MS must be a non-negative number, got 'fast'"
+    );
+  });
+});
@@ -0,0 +1,260 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  ContentHubAPIClient,
+  ContentHubError,
+  Entity,
+  EntityProperties,
+  getPropertyValue,
+  localizedValue,
+  propertyCultures,
+  q,
+  setPropertyValue
+} from '../src';
+import { test, expect } from './support/api-test';
+
+test.describe('Localization Tests', () => {
+  /**
+   * An asset titled `<name> (<culture>)` in each of `titleCultures`
+   */
+  const createAsset = (client: ContentHubAPIClient, name: string, titleCultures: string[]): Promise<Entity> => {
+    let properties: EntityProperties = setPropertyValue({}, 'FileName', `${name}.jpg`);
+    for (const culture of titleCultures) {
+      properties = setPropertyValue(properties, 'Title', `${name} (${culture})`, culture);
+    }
+    return client.entities.create({ identifier: `test-entity-${name}-${Date.now()}`, definition: 'M.Asset', properties });
+  };
+
+  test.describe('with the configured instance', () => {
+    let client: ContentHubAPIClient;
+    let cultures: string[];
+    let defaultCulture: string;
+
+    test.beforeEach(async ({ apiClients }) => {
+      client = apiClients.configured();
+      // Whatever the instance holds, not a hard-coded list
+      const { items } = await client.cultures.list();
+      cultures = items.map(({ name }) => name);
+      defaultCulture = (items.find(({ is_default }) => is_default) ?? items[0]).name;
+    });
+
+    test('should store and read a value in every culture of the instance', { tag: '@destructive' }, async () => {
+      try {
+        const asset = await createAsset(client, 'multilingual', cultures);
+
+        const fetched = await client.entities.get(asset.id);
+        expect([...propertyCultures(fetched.properties, 'Title')].sort()).toEqual([...cultures].sort());
+        for (const culture of cultures) {
+          expect(getPropertyValue(fetched.properties, 'Title', culture)).toBe(`multilingual (${culture})`);
+          const inCulture = await client.entities.get(asset.id, { culture });
+          expect(getPropertyValue(inCulture.properties, 'Title', culture)).toBe(`multilingual (${culture})`);
+        }
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+
+    test('should fall back to the default culture for missing translations', { tag: '@destructive' }, async () => {
+      const missing = cultures.find(culture => culture !== defaultCulture);
+      test.skip(!missing, `The instance holds no culture besides ${defaultCulture}`);
+      try {
+        const asset = await createAsset(client, 'partial', [defaultCulture]);
+
+        const inMissing = await client.entities.get(asset.id, { culture: missing! });
+
+        expect(getPropertyValue(inMissing.properties, 'Title', missing!)).toBeUndefined();
+        expect(localizedValue(inMissing.properties, 'Title', missing!, defaultCulture)).toBe(`partial (${defaultCulture})`);
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+
+    test('should query in each culture of the instance', { tag: '@destructive' }, async () => {
+      try {
+        const asset = await createAsset(client, 'queried', cultures);
+
+        for (const culture of cultures) {
+          const query = q.definition('M.Asset').prop('Title', culture).equals(`queried (${culture})`).culture(culture);
+          // The instance indexes new entities with a delay
+          await expect
+            .poll(async () => (await client.entities.query(query.toBody())).items.map(({ id }) => id), { timeout: 30000 })
+            .toContain(asset.id);
+          const { items } = await client.entities.query(query.toBody());
+          expect(items.find(({ id }) => id === asset.id)!.properties.Title).toEqual([{ culture, value: `queried (${culture})` }]);
+        }
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+
+    test('should reject culture-qualified values on members that are not culture sensitive', { tag: '@destructive' }, async () => {
+      try {
+        for (const culture of cultures) {
+          const refusal = await client.entities
+            .create({
+              identifier: `test-entity-cultured-${Date.now()}`,
+              definition: 'M.Asset',
+              properties: setPropertyValue({}, 'FileName', 'cultured.jpg', culture)
+            })
+            .catch(caught => caught);
+          expect(refusal).toBeInstanceOf(ContentHubError);
+          expect(refusal.status).toBeGreaterThanOrEqual(400);
+          expect(refusal.status).toBeLessThan(500);
+        }
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let client: ContentHubAPIClient;
+    let cultures: string[];
+    let defaultCulture: string;
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      client = apiClients.mock(mockServer);
+      // Whatever the instance holds, not a hard-coded list
+      cultures = (await client.cultures.list()).items.map(({ name }) => name);
+      defaultCulture = await client.cultures.defaultCulture();
+    });
+
+    test('should read and write one culture at a time', () => {
+      const english = setPropertyValue(undefined, 'Title', 'Hero', 'en-US');
+      const both = setPropertyValue(english, 'Title', 'Héros', 'fr-FR');
+      const renamed = setPropertyValue(both, 'Title', 'Hero image', 'en-US');
+      const withFile = setPropertyValue(renamed, 'FileName', 'hero.jpg');
+
+      expect(english).toEqual({ Title: [{ culture: 'en-US', value: 'Hero' }] });
+      expect(renamed.Title).toEqual([
+        { culture: 'fr-FR', value: 'Héros' },
+        { culture: 'en-US', value: 'Hero image' }
+      ]);
+      expect(getPropertyValue(withFile, 'Title', 'en-US')).toBe('Hero image');
+      expect(getPropertyValue(withFile, 'Title', 'de-DE')).toBeUndefined();
+      expect(getPropertyValue(withFile, 'Title')).toBeUndefined();
+      expect(getPropertyValue(withFile, 'FileName')).toBe('hero.jpg');
+      expect(propertyCultures(withFile, 'Title')).toEqual(['fr-FR', 'en-US']);
+      expect(propertyCultures(withFile, 'FileName')).toEqual([]);
+      expect(propertyCultures(withFile)).toEqual(['fr-FR', 'en-US']);
+      expect(localizedValue(withFile, 'Title', 'de-DE', 'en-US')).toBe('Hero image');
+    });
+
+    test('should take the supported cultures from the instance', async () => {
+      expect(cultures).toEqual(['en-US', 'fr-FR', 'de-DE']);
+      expect(defaultCulture).toBe('en-US');
+
+      mockServer.state.cultures = [
+        { name: 'nl-NL', is_default: true },
+        { name: 'en-GB', is_default: false }
+      ];
+
+      expect(await client.cultures.defaultCulture()).toBe('nl-NL');
+    });
+
+    test('should store a value in every culture of the instance', async () => {
+      const asset = await createAsset(client, 'multilingual', cultures);
+
+      const fetched = await client.entities.get(asset.id);
+
+      expect(propertyCultures(fetched.properties, 'Title')).toEqual(cultures);
+      for (const culture of cultures) {
+        expect(getPropertyValue(fetched.properties, 'Title', culture)).toBe(`multilingual (${culture})`);
+      }
+
+      // Updating one culture leaves the others alone
+      const [, secondCulture] = cultures;
+      const updated = await client.entities.update(asset.id, {
+        identifier: asset.identifier,
+        properties: { Title: setPropertyValue(fetched.properties, 'Title', 'Retitled', secondCulture).Title }
+      });
+      expect(getPropertyValue(updated.properties, 'Title', secondCulture)).toBe('Retitled');
+      expect(getPropertyValue(updated.properties, 'Title', defaultCulture)).toBe(`multilingual (${defaultCulture})`);
+    });
+
+    test('should return each culture when reading and querying in it', async () => {
+      const asset = await createAsset(client, 'per-culture', cultures);
+
+      for (const culture of cultures) {
+        const fetched = await client.entities.get(asset.id, { culture });
+        expect(fetched.properties.Title).toEqual([{ culture, value: `per-culture (${culture})` }]);
+        // Members that are not culture sensitive come back whatever the culture
+        expect(getPropertyValue(fetched.properties, 'FileName')).toBe('per-culture.jpg');
+
+        const query = q.definition('M.Asset').prop('Title', culture).equals(`per-culture (${culture})`).culture(culture);
+        const queried = await client.entities.query(query.toBody());
+        expect(queried.items.map(({ id }) => id)).toEqual([asset.id]);
+        expect(queried.items[0].properties.Title).toEqual([{ culture, value: `per-culture (${culture})` }]);
+
+        const listed = await client.entities.list({ query: `Identifier:"${asset.identifier}"`, culture });
+        expect(listed.items[0].properties.Title).toEqual([{ culture, value: `per-culture (${culture})` }]);
+      }
+    });
+
+    test('should fall back to the default culture for missing translations', async () => {
+      const [, translated, missing] = cultures;
+      const asset = await createAsset(client, 'partial', [defaultCulture, translated]);
+
+      const inTranslated = await client.entities.get(asset.id, { culture: translated });
+      const inMissing = await client.entities.get(asset.id, { culture: missing });
+
+      expect(getPropertyValue(inTranslated.properties, 'Title', translated)).toBe(`partial (${translated})`);
+      // The fallback keeps its own culture, so it can be told apart from a translation
+      expect(inMissing.properties.Title).toEqual([{ culture: defaultCulture, value: `partial (${defaultCulture})` }]);
+      expect(getPropertyValue(inMissing.properties, 'Title', missing)).toBeUndefined();
+      expect(localizedValue(inMissing.properties, 'Title', missing, defaultCulture)).toBe(`partial (${defaultCulture})`);
+
+      // Without any value there is nothing to fall back to
+      const untitled = await createAsset(client, 'untitled', []);
+      expect((await client.entities.get(untitled.id, { culture: missing })).properties.Title).toBeUndefined();
+    });
+
+    test('should reject culture-qualified values on members that are not culture sensitive', async () => {
+      const asset = await createAsset(client, 'plain', [defaultCulture]);
+
+      for (const member of ['FileName', 'FileSize', 'Status']) {
+        const refusal = await client.entities
+          .create({
+            identifier: `test-entity-cultured-${Date.now()}`,
+            definition: 'M.Asset',
+            properties: { [member]: [{ culture: defaultCulture, value: member === 'FileSize' ? 1 : 'x' }] }
+          })
+          .catch(caught => caught);
+        expect(refusal).toBeInstanceOf(ContentHubError);
+        expect(refusal.status).toBe(400);
+        expect(refusal.body).toEqual({
+          error: 'invalid_culture',
+          message: `Member '${member}' of M.Asset is not culture sensitive; its values take culture null`
+        });
+      }
+
+      await expect(
+        client.entities.update(asset.id, {
+          identifier: asset.identifier,
+          properties: setPropertyValue(undefined, 'FileName', 'renamed.jpg', cultures[1])
+        })
+      ).rejects.toMatchObject({ status: 400, body: { error: 'invalid_culture' } });
+      expect(getPropertyValue((await client.entities.get(asset.id)).properties, 'FileName')).toBe('plain.jpg');
+    });
+
+    test('should reject cultures the instance does not hold', async () => {
+      const asset = await createAsset(client, 'known', [defaultCulture]);
+
+      await expect(createAsset(client, 'unknown', ['nl-NL'])).rejects.toMatchObject({
+        status: 400,
+        body: { error: 'unknown_culture', message: "Culture 'nl-NL' is not one of the instance's cultures" }
+      });
+      await expect(client.entities.get(asset.id, { culture: 'nl-NL' })).rejects.toMatchObject({ status: 400 });
+      await expect(client.entities.query({ query: 'Definition.Name:"M.Asset"', culture: 'nl-NL' })).rejects.toMatchObject({ status: 400 });
+    });
+  });
+});
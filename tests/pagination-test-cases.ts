@@ -0,0 +1,155 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubError, ContentHubNotFoundError, Entity, SharedRateLimiter } from '../src';
+import { test, expect } from './support/api-test';
+
+const MAX_RESULT_WINDOW = 50;
+const PAGED_QUERY = { query: 'Definition.Name:"M.Content"' };
+
+test.describe('Pagination Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false, maxResultWindow: MAX_RESULT_WINDOW });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    client = apiClients.mock(mockServer, {
+      rateLimiter: new SharedRateLimiter({ limit: 1000, windowMs: 1000 })
+    });
+  });
+
+  /**
+   * Seed `count` M.Content entities straight into the mock, titled so that they sort in creation order
+   */
+  function seedEntities(count: number, titlePrefix = 'Page Entity'): number[] {
+    const now = new Date().toISOString();
+    return Array.from({ length: count }, (_, i) => {
+      const id = mockServer.state.nextId++;
+      mockServer.state.entities.set(id, {
+        id,
+        identifier: `page-entity-${id}`,
+        definition: 'M.Content',
+        properties: { Title: [{ culture: 'en-US', value: `${titlePrefix} ${String(i).padStart(4, '0')}` }] },
+        created_on: now,
+        modified_on: now,
+        version: 1
+      });
+      return id;
+    });
+  }
+
+  async function collect<T>(iterator: AsyncIterable<T>, onItem?: (item: T, index: number) => void): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      onItem?.(item, items.length);
+      items.push(item);
+    }
+    return items;
+  }
+
+  const queryRequests = () =>
+    mockServer.state.requests.filter(({ method, path }) => method === 'POST' && path === '/api/entities/query');
+
+  for (const pageSize of [1, 7, 10, 47, MAX_RESULT_WINDOW]) {
+    test(`should yield every item once across pages of ${pageSize}`, async () => {
+      const ids = seedEntities(47);
+
+      const entities = await collect(client.iterate<Entity>('/api/entities/query', PAGED_QUERY, { pageSize }));
+
+      expect(entities.map(({ id }) => id)).toEqual(ids);
+      expect(queryRequests()).toHaveLength(Math.ceil(47 / pageSize));
+    });
+  }
+
+  test('should stop after an empty result set', async () => {
+    const entities = await collect(client.iterate('/api/entities/query', { query: 'Identifier:"missing"' }, { pageSize: 10 }));
+
+    expect(entities).toEqual([]);
+    expect(queryRequests()).toHaveLength(1);
+  });
+
+  test('should page GET collections through the resource iterators', async () => {
+    for (let i = 0; i < 5; i++) {
+      await client.selections.create({ name: `Test Selection ${i}-${Date.now()}`, entities: [] });
+    }
+
+    const jobs = await collect(client.jobs.iterate({ status: 'Completed' }, { pageSize: 1 }));
+    const selections = await collect(client.selections.iterate({ pageSize: 2 }));
+    const optionLists = await collect(client.optionLists.iterate({ pageSize: 1 }));
+
+    expect(jobs.map(({ id }) => id)).toEqual([9001, 9004]);
+    expect(selections).toHaveLength(5);
+    expect(new Set(selections.map(({ id }) => id)).size).toBe(5);
+    expect(optionLists.map(({ id }) => id)).toEqual([501]);
+  });
+
+  test('should not skip items when items already read are removed mid-walk', async () => {
+    const ids = seedEntities(30);
+
+    const walk = client.iterate<Entity>('/api/entities/query', PAGED_QUERY, { pageSize: 10 });
+    const entities = await collect(walk, (_, index) => {
+      // After the first page, delete three of the entities it returned
+      if (index === 9) {
+        ids.slice(2, 5).forEach(id => mockServer.state.entities.delete(id));
+      }
+    });
+
+    expect(entities.map(({ id }) => id)).toEqual(ids);
+  });
+
+  test('should not repeat items when items are inserted ahead of the walk', async () => {
+    const ids = seedEntities(30);
+    const sorted = { ...PAGED_QUERY, sort: [{ field: 'Title', direction: 'Asc' as const }] };
+
+    const walk = client.iterate<Entity>('/api/entities/query', sorted, { pageSize: 10 });
+    const entities = await collect(walk, (_, index) => {
+      // New entities that sort first push everything already read onto later pages
+      if (index === 9) {
+        seedEntities(4, 'Early Entity');
+      }
+    });
+
+    const seededIds = entities.map(({ id }) => id).filter(id => ids.includes(id));
+    expect(seededIds).toEqual(ids);
+    expect(new Set(entities.map(({ id }) => id)).size).toBe(entities.length);
+  });
+
+  test('should hit the skip limit in skip mode and reach past it by scrolling', async () => {
+    const ids = seedEntities(MAX_RESULT_WINDOW * 2 + 5);
+
+    const error = await collect(client.iterate('/api/entities/query', PAGED_QUERY, { pageSize: 20 })).catch(
+      caught => caught
+    );
+    const entities = await collect(client.entities.iterate(PAGED_QUERY, { pageSize: 20, mode: 'scroll' }));
+
+    expect(error).toBeInstanceOf(ContentHubError);
+    expect(error.body).toMatchObject({ error: 'result_window_exceeded' });
+    expect(entities.map(({ id }) => id)).toEqual(ids);
+  });
+
+  test('should skip entities deleted while a scroll is open', async () => {
+    const ids = seedEntities(25);
+
+    const walk = client.entities.iterate(PAGED_QUERY, { pageSize: 10, mode: 'scroll' });
+    const entities = await collect(walk, (_, index) => {
+      if (index === 0) {
+        mockServer.state.entities.delete(ids[15]);
+      }
+    });
+
+    expect(entities.map(({ id }) => id)).toEqual(ids.filter(id => id !== ids[15]));
+  });
+
+  test('should raise ContentHubNotFoundError for an expired scroll', async () => {
+    const walk = client.iterate('/api/entities/scroll', { scroll_id: 'scroll-expired' }, { mode: 'scroll' });
+    const error = await collect(walk).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubNotFoundError);
+  });
+});
@@ -0,0 +1,233 @@
+import { startMockServer, MockProperties, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubError, Entity, q, QueryBuilder } from '../src';
+import { test, expect } from './support/api-test';
+
+test.describe('Query Builder Tests', () => {
+  test('should build the query from the example chain', () => {
+    const query = q.definition('M.Asset').prop('Title', 'en-US').contains('Test');
+
+    expect(query.toQueryString()).toBe('Definition.Name:"M.Asset" AND Title.en-US:"Test"');
+    expect(String(query)).toBe(query.toQueryString());
+  });
+
+  test('should match everything when no clauses are added', () => {
+    expect(q.toQueryString()).toBe('*');
+    expect(q.take(5).toBody()).toEqual({ query: '*', take: 5 });
+  });
+
+  test('should escape quotes and backslashes in values', () => {
+    expect(q.prop('Title').contains('Say "hi" \\ bye').toQueryString()).toBe('Title:"Say \\"hi\\" \\\\ bye"');
+    expect(q.identifier('a"b').toQueryString()).toBe('Identifier:"a\\"b"');
+    expect(q.prop('Title', 'en-US').contains('AND OR (x)').toQueryString()).toBe('Title.en-US:"AND OR (x)"');
+  });
+
+  test('should format exact matches by value type', () => {
+    expect(q.prop('Title', 'fr-FR').equals('Égalité').toQueryString()).toBe('Title.fr-FR=="Égalité"');
+    expect(q.prop('FileSize').equals(2048).toQueryString()).toBe('FileSize==2048');
+    expect(q.prop('IsPublic').equals(false).toQueryString()).toBe('IsPublic==false');
+    expect(q.prop('ApprovedOn').equals(new Date('2024-05-01T12:00:00Z')).toQueryString()).toBe(
+      'ApprovedOn=="2024-05-01T12:00:00.000Z"'
+    );
+  });
+
+  test('should build inclusive, exclusive and open ranges', () => {
+    expect(q.prop('FileSize').between(100, 200).toQueryString()).toBe('FileSize:[100 TO 200]');
+    expect(q.prop('FileSize').between(100, 200, { minInclusive: false }).toQueryString()).toBe('FileSize:{100 TO 200]');
+    expect(q.prop('FileSize').atLeast(100).toQueryString()).toBe('FileSize:[100 TO *]');
+    expect(q.prop('FileSize').atMost(100).toQueryString()).toBe('FileSize:[* TO 100]');
+    expect(q.prop('FileSize').greaterThan(100).toQueryString()).toBe('FileSize:{100 TO *]');
+    expect(q.prop('FileSize').lessThan(100).toQueryString()).toBe('FileSize:[* TO 100}');
+    expect(q.createdOn().between(new Date('2024-01-01T00:00:00Z'), new Date('2024-02-01T00:00:00Z')).toQueryString()).toBe(
+      'CreatedOn:["2024-01-01T00:00:00.000Z" TO "2024-02-01T00:00:00.000Z"]'
+    );
+  });
+
+  test('should build relation and id filters', () => {
+    expect(q.relation('AssetToCollection').to(1234).toQueryString()).toBe('Relation.AssetToCollection:1234');
+    expect(q.id(42).toQueryString()).toBe('id:42');
+  });
+
+  test('should group OR inside AND and flatten repeated operators', () => {
+    const title = (text: string) => q.prop('Title', 'en-US').contains(text);
+
+    expect(q.definition('M.Asset').and(title('a').or(title('b'))).toQueryString()).toBe(
+      'Definition.Name:"M.Asset" AND (Title.en-US:"a" OR Title.en-US:"b")'
+    );
+    expect(title('a').or(title('b')).or(title('c')).toQueryString()).toBe(
+      'Title.en-US:"a" OR Title.en-US:"b" OR Title.en-US:"c"'
+    );
+    expect(q.definition('M.Asset').identifier('x').or(q.definition('M.Content')).toQueryString()).toBe(
+      '(Definition.Name:"M.Asset" AND Identifier:"x") OR Definition.Name:"M.Content"'
+    );
+    expect(q.id(1).where('id:2 OR id:3').toQueryString()).toBe('id:1 AND (id:2 OR id:3)');
+    expect(q.id(1).where('Title:"x OR y"').toQueryString()).toBe('id:1 AND Title:"x OR y"');
+  });
+
+  test('should leave the builder it extends unchanged', () => {
+    const assets = q.definition('M.Asset').take(10);
+
+    const recent = assets.sort('CreatedOn', 'Desc').skip(20);
+
+    expect(assets.toBody()).toEqual({ query: 'Definition.Name:"M.Asset"', take: 10 });
+    expect(recent.toBody()).toEqual({
+      query: 'Definition.Name:"M.Asset"',
+      sort: [{ field: 'CreatedOn', direction: 'Desc' }],
+      take: 10,
+      skip: 20
+    });
+  });
+
+  test('should produce the POST body and GET params forms', () => {
+    const query = q
+      .definition('M.Asset')
+      .prop('Title', 'en-US')
+      .contains('Test')
+      .sort('CreatedOn', 'Desc')
+      .sort('Title')
+      .culture('en-US')
+      .take(5)
+      .skip(0);
+
+    expect(query.toBody()).toEqual({
+      query: 'Definition.Name:"M.Asset" AND Title.en-US:"Test"',
+      culture: 'en-US',
+      sort: [
+        { field: 'CreatedOn', direction: 'Desc' },
+        { field: 'Title', direction: 'Asc' }
+      ],
+      take: 5,
+      skip: 0
+    });
+    expect(query.toParams()).toEqual({
+      query: 'Definition.Name:"M.Asset" AND Title.en-US:"Test"',
+      culture: 'en-US',
+      sort: 'CreatedOn:Desc,Title:Asc',
+      take: 5,
+      skip: 0
+    });
+  });
+
+  test('should reject names, cultures and numbers that cannot be expressed', () => {
+    expect(() => q.prop('Title:"x"')).toThrow("Invalid property name 'Title:\"x\"'");
+    expect(() => q.prop('Title', 'en US')).toThrow("Invalid culture 'en US'");
+    expect(() => q.relation('Asset To Collection')).toThrow("Invalid relation name 'Asset To Collection'");
+    expect(() => q.sort('Title en-US')).toThrow("Invalid sort field 'Title en-US'");
+    expect(() => q.sort('Title.en-US.x')).toThrow("Invalid sort field 'Title.en-US.x'");
+    expect(() => q.take(-1)).toThrow(RangeError);
+    expect(() => q.skip(1.5)).toThrow(RangeError);
+    expect(() => q.prop('FileSize').equals(Number.NaN)).toThrow(RangeError);
+    expect(() => q.prop('FileSize').between(undefined, undefined)).toThrow(RangeError);
+  });
+});
+
+test.describe('Query Builder Mock Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    client = apiClients.mock(mockServer);
+  });
+
+  /**
+   * Seed an entity straight into the mock
+   */
+  function seed(identifier: string, definition: string, properties: MockProperties, relations?: Record<string, number[]>) {
+    const id = mockServer.state.nextId++;
+    const now = new Date().toISOString();
+    mockServer.state.entities.set(id, {
+      id,
+      identifier,
+      definition,
+      properties,
+      relations,
+      created_on: now,
+      modified_on: now,
+      version: 1
+    });
+    return id;
+  }
+
+  const identifiers = (entities: Entity[]) => entities.map(({ identifier }) => identifier);
+
+  test('should run the same query as a POST body and as GET params', async () => {
+    seed('qb-small', 'M.Asset', { Title: [{ culture: 'en-US', value: 'Test Small' }], FileSize: [{ culture: null, value: 10 }] });
+    seed('qb-large', 'M.Asset', { Title: [{ culture: 'en-US', value: 'Test Large' }], FileSize: [{ culture: null, value: 5000 }] });
+    seed('qb-other', 'M.Content', { Title: [{ culture: 'en-US', value: 'Test Other' }] });
+    const query = q.definition('M.Asset').prop('Title', 'en-US').contains('test').sort('FileSize', 'Desc');
+
+    const posted = await client.entities.query(query.toBody());
+    const response = await client.get('/api/entities/query', query.toParams());
+
+    expect(identifiers(posted.items)).toEqual(['qb-large', 'qb-small']);
+    expect(response.status()).toBe(200);
+    expect(identifiers((await response.json()).items)).toEqual(['qb-large', 'qb-small']);
+  });
+
+  test('should match values containing quotes, backslashes and operators', async () => {
+    seed('qb-quoted', 'M.Content', { Title: [{ culture: 'en-US', value: 'Say "hi" \\ AND (bye)' }] });
+    seed('qb-plain', 'M.Content', { Title: [{ culture: 'en-US', value: 'Say hi' }] });
+
+    const page = await client.entities.query(q.prop('Title', 'en-US').equals('Say "hi" \\ AND (bye)').toBody());
+
+    expect(identifiers(page.items)).toEqual(['qb-quoted']);
+  });
+
+  test('should filter by culture, range and relation', async () => {
+    const collection = seed('qb-collection', 'M.Collection', {});
+    seed('qb-english', 'M.Asset', { Title: [{ culture: 'en-US', value: 'Brochure' }], FileSize: [{ culture: null, value: 100 }] });
+    seed('qb-french', 'M.Asset', { Title: [{ culture: 'fr-FR', value: 'Brochure' }], FileSize: [{ culture: null, value: 200 }] });
+    seed(
+      'qb-related',
+      'M.Asset',
+      { Title: [{ culture: 'en-US', value: 'Poster' }], FileSize: [{ culture: null, value: 300 }] },
+      { AssetToCollection: [collection] }
+    );
+    const run = async (query: QueryBuilder) => identifiers((await client.entities.query(query.toBody())).items);
+
+    expect(await run(q.prop('Title', 'fr-FR').contains('brochure'))).toEqual(['qb-french']);
+    expect(await run(q.prop('FileSize').between(100, 300, { maxInclusive: false }))).toEqual(['qb-english', 'qb-french']);
+    expect(await run(q.prop('FileSize').greaterThan(100))).toEqual(['qb-french', 'qb-related']);
+    expect(await run(q.relation('AssetToCollection').to(collection))).toEqual(['qb-related']);
+    expect(
+      await run(q.definition('M.Asset').and(q.prop('Title', 'fr-FR').contains('brochure').or(q.prop('Title', 'en-US').equals('Poster'))))
+    ).toEqual(['qb-french', 'qb-related']);
+  });
+
+  test('should page with take and skip', async () => {
+    for (let i = 0; i < 5; i++) {
+      seed(`qb-page-${i}`, 'M.Content', { Title: [{ culture: 'en-US', value: `Page ${i}` }] });
+    }
+
+    const page = await client.entities.query(q.definition('M.Content').sort('Title', 'Desc').skip(1).take(2).toBody());
+
+    expect(page.total_items).toBe(5);
+    expect(identifiers(page.items)).toEqual(['qb-page-3', 'qb-page-2']);
+  });
+
+  test('should sort by a member in one culture and by system fields', async () => {
+    seed('qb-sort-a', 'M.Content', { Title: [{ culture: 'en-US', value: 'Apple' }, { culture: 'fr-FR', value: 'Pomme' }] });
+    seed('qb-sort-b', 'M.Content', { Title: [{ culture: 'en-US', value: 'Banana' }, { culture: 'fr-FR', value: 'Banane' }] });
+    const byTitle = (culture: string) => q.identifier('qb-sort-a').or(q.identifier('qb-sort-b')).sort(`Title.${culture}`);
+
+    expect(identifiers((await client.entities.query(byTitle('en-US').toBody())).items)).toEqual(['qb-sort-a', 'qb-sort-b']);
+    expect(identifiers((await client.entities.query(byTitle('fr-FR').toBody())).items)).toEqual(['qb-sort-b', 'qb-sort-a']);
+    expect(byTitle('en-US').sort('Definition.Name', 'Desc').toParams().sort).toBe('Title.en-US:Asc,Definition.Name:Desc');
+  });
+
+  test('should reject malformed query syntax with invalid_query', async () => {
+    const error = await client.entities.query({ query: 'Title.en-US:"unterminated' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubError);
+    expect(error.status).toBe(400);
+    expect(error.body).toMatchObject({ error: 'invalid_query' });
+  });
+});
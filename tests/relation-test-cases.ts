@@ -0,0 +1,230 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubConflictError, ContentHubError, ContentHubReadOnlyError, Entity, q } from '../src';
+import { test, expect } from './support/api-test';
+
+test.describe('Entity Relation Tests', () => {
+  test.describe('with the configured instance', () => {
+    test('should link and unlink entities on both sides and drop the links of a deleted one', { tag: '@destructive' }, async ({ apiClients }) => {
+      const client = apiClients.configured();
+      const stamp = Date.now();
+      const relatedIds = async (id: number, name: string) => (await client.entities.relation(id, name)).related;
+
+      try {
+        const summer = await client.entities.create({ identifier: `test-entity-summer-${stamp}`, definition: 'M.Collection' });
+        const hero = await client.entities.create({ identifier: `test-entity-hero-${stamp}`, definition: 'M.Asset' });
+        const thumbnail = await client.entities.create({ identifier: `test-entity-thumbnail-${stamp}`, definition: 'M.Asset' });
+
+        const added = await client.entities.addRelated(summer.id, 'AssetToCollection', [hero.id, thumbnail.id]);
+        expect([...added.related].sort()).toEqual([hero.id, thumbnail.id].sort());
+        expect(await relatedIds(hero.id, 'AssetToCollection')).toEqual([summer.id]);
+        expect(await relatedIds(thumbnail.id, 'AssetToCollection')).toEqual([summer.id]);
+
+        await client.entities.removeRelated(thumbnail.id, 'AssetToCollection', [summer.id]);
+        expect(await relatedIds(thumbnail.id, 'AssetToCollection')).toEqual([]);
+        expect(await relatedIds(summer.id, 'AssetToCollection')).toEqual([hero.id]);
+
+        await client.entities.delete(hero.id);
+        expect(await relatedIds(summer.id, 'AssetToCollection')).toEqual([]);
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let client: ContentHubAPIClient;
+    let stamp: number;
+
+    const create = (definition: string, name: string, relations?: Record<string, number[]>): Promise<Entity> =>
+      client.entities.create({ identifier: `test-entity-${name}-${stamp}`, definition, relations });
+
+    const relatedIds = async (id: number, name: string) => (await client.entities.relation(id, name)).related;
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      client = apiClients.mock(mockServer);
+      stamp = Date.now();
+    });
+
+    test('should link both sides of a relation set on create', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const winter = await create('M.Collection', 'winter');
+      const hero = await create('M.Asset', 'hero', { AssetToCollection: [summer.id, winter.id] });
+
+      expect(hero.relations).toEqual({ AssetToCollection: [summer.id, winter.id] });
+      expect(await client.entities.relations(hero.id)).toEqual([
+        {
+          name: 'AssetToCollection',
+          associated_definition: 'M.Collection',
+          cardinality: 'ManyToMany',
+          role: 'Child',
+          related: [summer.id, winter.id]
+        },
+        { name: 'ContentToAsset', associated_definition: 'M.Content', cardinality: 'OneToMany', role: 'Child', related: [] }
+      ]);
+      expect(await client.entities.relation(summer.id, 'AssetToCollection')).toEqual({
+        name: 'AssetToCollection',
+        associated_definition: 'M.Asset',
+        cardinality: 'ManyToMany',
+        role: 'Parent',
+        related: [hero.id]
+      });
+      expect((await client.entities.related(winter.id, 'AssetToCollection')).map(({ id }) => id)).toEqual([hero.id]);
+
+      // Queries see the link from either side
+      const inSummer = await client.entities.query(q.relation('AssetToCollection').to(summer.id).toBody());
+      expect(inSummer.items.map(({ id }) => id)).toEqual([hero.id]);
+    });
+
+    test('should add and remove many-to-many links on both sides', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const hero = await create('M.Asset', 'hero');
+      const thumbnail = await create('M.Asset', 'thumbnail');
+
+      await client.entities.addRelated(summer.id, 'AssetToCollection', [hero.id]);
+      const added = await client.entities.addRelated(summer.id, 'AssetToCollection', [hero.id, thumbnail.id]);
+
+      expect(added.related).toEqual([hero.id, thumbnail.id]);
+      expect(await relatedIds(hero.id, 'AssetToCollection')).toEqual([summer.id]);
+      expect(await relatedIds(thumbnail.id, 'AssetToCollection')).toEqual([summer.id]);
+
+      const removed = await client.entities.removeRelated(thumbnail.id, 'AssetToCollection', [summer.id]);
+
+      expect(removed.related).toEqual([]);
+      expect(await relatedIds(summer.id, 'AssetToCollection')).toEqual([hero.id]);
+    });
+
+    test('should keep a child of a one-to-many relation with a single parent', async () => {
+      const article = await create('M.Content', 'article');
+      const newsletter = await create('M.Content', 'newsletter');
+      const hero = await create('M.Asset', 'hero');
+      const thumbnail = await create('M.Asset', 'thumbnail');
+
+      await client.entities.setRelation(article.id, 'ContentToAsset', [hero.id, thumbnail.id]);
+
+      expect((await client.entities.parent(hero.id, 'ContentToAsset'))?.id).toBe(article.id);
+      expect((await client.entities.related(article.id, 'ContentToAsset')).map(({ id }) => id)).toEqual([hero.id, thumbnail.id]);
+
+      // Given to another parent, the child leaves its previous one
+      await client.entities.addRelated(newsletter.id, 'ContentToAsset', [hero.id]);
+
+      expect((await client.entities.parent(hero.id, 'ContentToAsset'))?.id).toBe(newsletter.id);
+      expect(await relatedIds(article.id, 'ContentToAsset')).toEqual([thumbnail.id]);
+
+      // From the child's side, a second parent is refused
+      const refusal = await client.entities.addRelated(thumbnail.id, 'ContentToAsset', [newsletter.id]).catch(caught => caught);
+      expect(refusal).toBeInstanceOf(ContentHubError);
+      expect(refusal.status).toBe(400);
+      expect(refusal.body).toMatchObject({ error: 'relation_cardinality' });
+      expect(await relatedIds(thumbnail.id, 'ContentToAsset')).toEqual([article.id]);
+
+      await client.entities.setRelation(thumbnail.id, 'ContentToAsset', []);
+      expect(await client.entities.parent(thumbnail.id, 'ContentToAsset')).toBeUndefined();
+      expect(await relatedIds(article.id, 'ContentToAsset')).toEqual([]);
+
+      await expect(client.entities.parent(article.id, 'ContentToAsset')).rejects.toThrow(
+        `Relation 'ContentToAsset' is OneToMany with entity ${article.id} as Parent; it has no single parent`
+      );
+    });
+
+    test('should traverse relations hop by hop', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const winter = await create('M.Collection', 'winter');
+      const hero = await create('M.Asset', 'hero', { AssetToCollection: [summer.id] });
+      const thumbnail = await create('M.Asset', 'thumbnail', { AssetToCollection: [summer.id, winter.id] });
+      const article = await create('M.Content', 'article', { ContentToAsset: [hero.id, thumbnail.id] });
+
+      const collections = await client.entities.traverse(article.id, 'ContentToAsset', 'AssetToCollection');
+      expect(collections.map(({ id }) => id)).toEqual([summer.id, winter.id]);
+
+      // And back: every asset sharing a collection with the article's assets
+      const siblings = await client.entities.traverse(article.id, 'ContentToAsset', 'AssetToCollection', 'AssetToCollection');
+      expect(siblings.map(({ id }) => id).sort()).toEqual([hero.id, thumbnail.id].sort());
+    });
+
+    test('should remove the links of a deleted entity', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const hero = await create('M.Asset', 'hero', { AssetToCollection: [summer.id] });
+      const article = await create('M.Content', 'article', { ContentToAsset: [hero.id] });
+
+      await client.entities.delete(hero.id);
+
+      expect(await relatedIds(summer.id, 'AssetToCollection')).toEqual([]);
+      expect(await relatedIds(article.id, 'ContentToAsset')).toEqual([]);
+      const inSummer = await client.entities.query(q.relation('AssetToCollection').to(summer.id).toBody());
+      expect(inSummer.items).toEqual([]);
+    });
+
+    test('should reject unknown relations and entities of the wrong definition', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const other = await create('M.Collection', 'other');
+
+      const wrongDefinition = await create('M.Asset', 'hero', { AssetToCollection: [summer.id, 999999] }).catch(caught => caught);
+      expect(wrongDefinition.status).toBe(400);
+      expect(wrongDefinition.body).toMatchObject({ error: 'invalid_relation' });
+
+      await expect(client.entities.setRelation(summer.id, 'AssetToCollection', [other.id])).rejects.toMatchObject({
+        status: 400,
+        body: { error: 'invalid_relation', message: "Relation 'AssetToCollection' must list ids of existing M.Asset entities" }
+      });
+      await expect(client.entities.relation(summer.id, 'ContentToAsset')).rejects.toMatchObject({ status: 404 });
+      await expect(create('M.Collection', 'tagged', { ContentToAsset: [] })).rejects.toMatchObject({
+        status: 400,
+        body: { error: 'invalid_relation', message: "M.Collection has no relation 'ContentToAsset'" }
+      });
+    });
+
+    test('should keep every link when concurrent writers add and remove them', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const assets = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(name => create('M.Asset', name)));
+      const [kept, ...added] = assets;
+      await client.entities.setRelation(summer.id, 'AssetToCollection', [kept.id]);
+
+      await Promise.all([
+        ...added.map(asset => client.entities.addRelated(summer.id, 'AssetToCollection', [asset.id])),
+        client.entities.removeRelated(summer.id, 'AssetToCollection', [kept.id])
+      ]);
+
+      expect([...(await relatedIds(summer.id, 'AssetToCollection'))].sort()).toEqual(added.map(({ id }) => id).sort());
+      for (const asset of added) {
+        expect(await relatedIds(asset.id, 'AssetToCollection')).toEqual([summer.id]);
+      }
+      expect(await relatedIds(kept.id, 'AssetToCollection')).toEqual([]);
+    });
+
+    test('should refuse a relation change against a stale version', async () => {
+      const summer = await create('M.Collection', 'summer');
+      const hero = await create('M.Asset', 'hero');
+      await client.entities.addRelated(summer.id, 'AssetToCollection', [hero.id]);
+
+      const stale = await client.entities
+        .setRelation(summer.id, 'AssetToCollection', [], { expectedVersion: summer.version })
+        .catch(caught => caught);
+      expect(stale).toBeInstanceOf(ContentHubConflictError);
+      expect(stale).toMatchObject({ status: 412, currentVersion: summer.version! + 1 });
+      expect(await relatedIds(summer.id, 'AssetToCollection')).toEqual([hero.id]);
+
+      // Unlinking from the other side changes the version too
+      const response = await client.get(`/api/entities/${summer.id}`);
+      expect(response.headers().etag).toBe(`"${summer.version! + 1}"`);
+      await client.entities.setRelation(hero.id, 'AssetToCollection', []);
+      expect((await client.entities.get(summer.id)).version).toBe(summer.version! + 2);
+    });
+
+    test('should refuse to change relations from a read-only client', async ({ apiClients }) => {
+      const readOnly = apiClients.mock(mockServer, { readOnly: true });
+
+      await expect(readOnly.entities.setRelation(1000, 'AssetToCollection', [])).rejects.toThrow(ContentHubReadOnlyError);
+      expect(mockServer.state.requests.filter(({ method }) => method === 'PUT')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubError, ContentHubNotFoundError, readDownload, sha256Hex } from '../src';
+import { test, expect } from './support/api-test';
+
+const CHUNK_SIZE = 64 * 1024;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Write a PNG-signed file of `size` bytes with deterministic content
+ */
+async function writeFile(filePath: string, size: number): Promise<string> {
+  const content = Buffer.alloc(size, 0);
+  PNG_SIGNATURE.copy(content);
+  for (let i = PNG_SIGNATURE.length; i < size; i++) {
+    content[i] = i % 251;
+  }
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+test.describe('Rendition and Public Link Tests', () => {
+  test.describe('with the configured instance', () => {
+    const title = 'should download an upload through a public link until it is revoked';
+    test(title, { tag: '@destructive' }, async ({ request, apiClients }, testInfo) => {
+      const client = apiClients.configured();
+
+      const filePath = await writeFile(testInfo.outputPath(`test-rendition-${Date.now()}.png`), 4096);
+      try {
+        const assetId = await client.uploads.uploadFile(filePath);
+        const link = await client.assets.createPublicLink({ asset_id: assetId, rendition: 'downloadOriginal' });
+
+        const published = await readDownload(await request.get(link.url));
+        expect(published.contentType).toBe('image/png');
+        expect(published.size).toBe(4096);
+        expect(await sha256Hex([published.body])).toBe(await sha256Hex(createReadStream(filePath)));
+
+        await client.assets.revokePublicLink(link.id);
+        const revoked = await request.get(link.url);
+        expect(revoked.status()).toBeGreaterThanOrEqual(400);
+        expect(revoked.status()).toBeLessThan(500);
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let client: ContentHubAPIClient;
+    let fileDir: string;
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false, uploadChunkSize: CHUNK_SIZE, jobDurationMs: 20 });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      fileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-hub-rendition-test-'));
+      client = apiClients.mock(mockServer);
+    });
+
+    test.afterEach(async () => {
+      await fs.rm(fileDir, { recursive: true, force: true });
+    });
+
+    const upload = async (name: string, size: number) => {
+      const filePath = await writeFile(path.join(fileDir, name), size);
+      return { filePath, assetId: await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 }) };
+    };
+
+    test('should list the renditions of an uploaded asset', async () => {
+      const { assetId } = await upload('listed.png', 3000);
+      const bare = await client.entities.create({ identifier: `test-entity-bare-${Date.now()}`, definition: 'M.Asset' });
+
+      const { items, total_items } = await client.assets.renditions(assetId);
+
+      expect(total_items).toBe(2);
+      expect(items).toEqual([
+        {
+          name: 'downloadOriginal',
+          content_type: 'image/png',
+          filesize: 3000,
+          href: `${mockServer.url}/api/entities/${assetId}/renditions/downloadOriginal`
+        },
+        expect.objectContaining({ name: 'thumbnail', content_type: 'image/png' })
+      ]);
+      // Only uploads have files to render
+      expect(await client.assets.renditions(bare.id)).toEqual({ items: [], total_items: 0 });
+    });
+
+    test('should download the original byte for byte', async () => {
+      const { filePath, assetId } = await upload('original.png', CHUNK_SIZE * 2 + 500);
+
+      const original = await client.assets.downloadOriginal(assetId);
+
+      expect(original).toMatchObject({
+        contentType: 'image/png',
+        size: CHUNK_SIZE * 2 + 500,
+        declaredSize: CHUNK_SIZE * 2 + 500,
+        filename: 'original.png'
+      });
+      expect(original.body.length).toBe(CHUNK_SIZE * 2 + 500);
+      expect(await sha256Hex([original.body])).toBe(await sha256Hex(createReadStream(filePath)));
+    });
+
+    test('should download a generated rendition with its own content type', async () => {
+      const { assetId } = await upload('photo.png', 2048);
+      const { items } = await client.assets.renditions(assetId);
+
+      const thumbnail = await client.assets.download(assetId, 'thumbnail');
+
+      const listed = items.find(({ name }) => name === 'thumbnail')!;
+      expect(thumbnail.contentType).toBe(listed.content_type);
+      expect(thumbnail.size).toBe(listed.filesize);
+      expect(thumbnail.filename).toBe('photo-thumbnail.png');
+      expect(thumbnail.body.subarray(0, PNG_SIGNATURE.length)).toEqual(PNG_SIGNATURE);
+
+      const missing = await client.assets.download(assetId, 'preview').catch(caught => caught);
+      expect(missing).toBeInstanceOf(ContentHubNotFoundError);
+      expect(missing.body.message).toBe(`Rendition 'preview' of entity ${assetId} not found`);
+    });
+
+    test('should serve a public link anonymously until it is revoked', async ({ request }) => {
+      const { filePath, assetId } = await upload('published.png', 5000);
+
+      const link = await client.assets.createPublicLink({ asset_id: assetId, rendition: 'downloadOriginal' });
+      expect(link).toMatchObject({ asset_id: assetId, rendition: 'downloadOriginal', status: 'Active' });
+      expect(link.url).toMatch(new RegExp(`^${mockServer.url}/api/public/content/\\w+$`));
+
+      // No access token needed
+      const published = await readDownload(await request.get(link.url));
+      expect(published.contentType).toBe('image/png');
+      expect(published.size).toBe(5000);
+      expect(await sha256Hex([published.body])).toBe(await sha256Hex(createReadStream(filePath)));
+
+      await client.assets.revokePublicLink(link.id);
+
+      const revoked = await request.get(link.url);
+      expect(revoked.status()).toBe(410);
+      expect(await revoked.json()).toEqual({ error: 'link_revoked', message: `Public link ${link.id} was revoked` });
+      expect(await client.assets.getPublicLink(link.id)).toMatchObject({ status: 'Revoked', revoked_on: expect.any(String) });
+      const { items: links } = await client.assets.publicLinks(assetId);
+      expect(links.map(({ id, status }) => [id, status])).toEqual([[link.id, 'Revoked']]);
+      await expect(client.assets.revokePublicLink(link.id)).rejects.toBeInstanceOf(ContentHubNotFoundError);
+      // Revoking is deleting, so there is nothing left to clean up
+      expect(client.createdResources.pending).toEqual([{ kind: 'entity', id: assetId }]);
+    });
+
+    test('should stop serving an expired public link', async ({ request }) => {
+      const { assetId } = await upload('expiring.png', 1024);
+      const expiresOn = new Date(Date.now() + 60000).toISOString();
+
+      const link = await client.assets.createPublicLink({ asset_id: assetId, rendition: 'thumbnail', expires_on: expiresOn });
+      expect(link.expires_on).toBe(expiresOn);
+      expect((await request.get(link.url)).status()).toBe(200);
+
+      mockServer.state.publicLinks.get(link.id)!.expires_on = new Date(Date.now() - 1000).toISOString();
+
+      const expired = await request.get(link.url);
+      expect(expired.status()).toBe(410);
+      expect((await expired.json()).error).toBe('link_expired');
+    });
+
+    test('should refuse public links to renditions that do not exist', async () => {
+      const { assetId } = await upload('refused.png', 1024);
+      const bare = await client.entities.create({ identifier: `test-entity-bare-${Date.now()}`, definition: 'M.Asset' });
+
+      const refusal = (input: Parameters<ContentHubAPIClient['assets']['createPublicLink']>[0]) =>
+        client.assets.createPublicLink(input).then(
+          () => undefined,
+          (error: ContentHubError) => [error.status, (error.body as { error: string }).error]
+        );
+
+      expect(await refusal({ asset_id: assetId, rendition: 'preview' })).toEqual([400, 'invalid_rendition']);
+      expect(await refusal({ asset_id: bare.id, rendition: 'downloadOriginal' })).toEqual([400, 'invalid_asset']);
+      expect(
+        await refusal({ asset_id: assetId, rendition: 'downloadOriginal', expires_on: new Date(Date.now() - 1000).toISOString() })
+      ).toEqual([400, 'invalid_expiry']);
+      expect(mockServer.state.publicLinks.size).toBe(0);
+    });
+
+    test('should clean up public links before the asset they publish', async ({ request }) => {
+      const { assetId } = await upload('cleaned.png', 1024);
+      const link = await client.assets.createPublicLink({ asset_id: assetId, rendition: 'downloadOriginal' });
+      expect(client.createdResources.pending).toEqual([
+        { kind: 'entity', id: assetId },
+        { kind: 'publicLink', id: link.id }
+      ]);
+
+      const { deleted, failed } = await client.deleteCreatedResources();
+
+      expect(failed).toEqual([]);
+      expect(deleted).toEqual([
+        { kind: 'publicLink', id: link.id },
+        { kind: 'entity', id: assetId }
+      ]);
+      expect((await request.get(link.url)).status()).toBe(404);
+      expect(mockServer.state.files.has(assetId)).toBe(false);
+    });
+  });
+});
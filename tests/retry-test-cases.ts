@@ -0,0 +1,98 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { RetryPolicy } from '../src';
+import { ApiClients, test, expect } from './support/api-test';
+
+test.describe('Retry Tests', () => {
+  let mockServer: MockServer;
+  let logs: string[];
+
+  const createClient = (apiClients: ApiClients, retryPolicy: Partial<RetryPolicy> = {}) =>
+    apiClients.mock(mockServer, {
+      retryPolicy: { baseDelayMs: 10, maxDelayMs: 50, ...retryPolicy },
+      logger: message => logs.push(message)
+    });
+
+  const callsTo = (path: string) => mockServer.state.requests.filter(record => record.path === path);
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+    logs = [];
+  });
+
+  test('should retry a GET after transient 503 responses', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 503, times: 2 });
+
+    const response = await createClient(apiClients).get('/api/jobs');
+
+    expect(response.status()).toBe(200);
+    expect(callsTo('/api/jobs').map(record => record.status)).toEqual([503, 503, 200]);
+  });
+
+  test('should wait for Retry-After before retrying a 429', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 429, headers: { 'Retry-After': '1' }, times: 1 });
+    const client = createClient(apiClients);
+    await client.getAuthToken();
+
+    const startTime = Date.now();
+    const response = await client.get('/api/jobs');
+
+    expect(response.status()).toBe(200);
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(1000);
+    expect(logs.some(message => message.includes('status 429') && message.includes('waiting 1000ms'))).toBe(true);
+  });
+
+  test('should not retry a POST unless opted in', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'POST', path: '/api/selections', status: 503, times: 1 });
+    const client = createClient(apiClients);
+
+    const response = await client.post('/api/selections', { name: `Test Selection ${Date.now()}` });
+
+    expect(response.status()).toBe(503);
+    expect(callsTo('/api/selections')).toHaveLength(1);
+  });
+
+  test('should retry a POST when opted in', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'POST', path: '/api/entities/query', status: 503, times: 1 });
+    const client = createClient(apiClients);
+
+    const response = await client.post('/api/entities/query', { query: '*', take: 1 }, { retry: true });
+
+    expect(response.status()).toBe(200);
+    expect(callsTo('/api/entities/query').map(record => record.status)).toEqual([503, 200]);
+  });
+
+  test('should give up after the maximum number of attempts', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'DELETE', path: /^\/api\/entities\/\d+$/, status: 503 });
+
+    const response = await createClient(apiClients, { maxAttempts: 3 }).delete('/api/entities/1000');
+
+    expect(response.status()).toBe(503);
+    expect(callsTo('/api/entities/1000')).toHaveLength(3);
+    expect(logs.filter(message => message.startsWith('Retrying DELETE /api/entities/1000'))).toHaveLength(2);
+  });
+
+  test('should give up when Retry-After exceeds the elapsed time budget', async ({ apiClients }) => {
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 429, headers: { 'Retry-After': '60' } });
+
+    const response = await createClient(apiClients, { maxElapsedMs: 5000 }).get('/api/jobs');
+
+    expect(response.status()).toBe(429);
+    expect(callsTo('/api/jobs')).toHaveLength(1);
+    expect(logs.filter(message => message.startsWith('Retrying'))).toHaveLength(0);
+  });
+
+  test('should not retry client errors', async ({ apiClients }) => {
+    const response = await createClient(apiClients).get('/api/entities/99999999');
+
+    expect(response.status()).toBe(404);
+    expect(callsTo('/api/entities/99999999')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,199 @@
+import { TestInfo } from '@playwright/test';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  captureSchema,
+  diffSchemas,
+  formatSchemaDiff,
+  loadSchemaSnapshot,
+  resolveProfile,
+  saveSchemaSnapshot,
+  SchemaDiff
+} from '../src';
+import { test, expect } from './support/api-test';
+
+const USE_MOCK_SERVER = process.env.CONTENT_HUB_MOCK === 'true';
+// `dev:qa` compares the schema of two profiles
+const SCHEMA_COMPARE = process.env.CONTENT_HUB_SCHEMA_COMPARE;
+// The mock's seed schema is held to a committed snapshot unless another baseline is named
+const SCHEMA_BASELINE = process.env.CONTENT_HUB_SCHEMA_BASELINE || (USE_MOCK_SERVER ? 'schema-snapshots/mock.json' : undefined);
+const UPDATE_SCHEMA_BASELINE = process.env.CONTENT_HUB_SCHEMA_UPDATE_BASELINE === 'true';
+
+test.describe('Schema Drift Tests', () => {
+  let source: MockServer;
+  let target: MockServer;
+
+  test.beforeAll(async () => {
+    [source, target] = await Promise.all([startMockServer({ rateLimit: false }), startMockServer({ rateLimit: false })]);
+  });
+
+  test.afterAll(async () => {
+    await Promise.all([source.close(), target.close()]);
+  });
+
+  test.beforeEach(() => {
+    source.reset();
+    target.reset();
+  });
+
+  /**
+   * Attach the diff as JSON and as a readable report, which is returned
+   */
+  async function publish(diff: SchemaDiff, testInfo: TestInfo): Promise<string> {
+    const json = `${JSON.stringify(diff, null, 2)}\n`;
+    const report = formatSchemaDiff(diff);
+    await testInfo.attach('schema-drift.json', { body: json, contentType: 'application/json' });
+    await testInfo.attach('schema-drift.txt', { body: report, contentType: 'text/plain' });
+    return report;
+  }
+
+  test('should capture cultures, definitions, members and option lists by name', async ({ apiClients }) => {
+    const snapshot = await captureSchema(apiClients.mock(source));
+
+    expect(snapshot.cultures).toEqual(['en-US', 'de-DE', 'fr-FR']);
+    expect(Object.keys(snapshot.definitions)).toEqual(['M.Asset', 'M.Collection', 'M.Content']);
+    expect(snapshot.definitions['M.Asset'].members.Status).toEqual({
+      type: 'Option',
+      is_multilanguage: false,
+      is_required: false,
+      option_list: 'M.AssetStatus'
+    });
+    expect(snapshot.definitions['M.Collection'].members.AssetToCollection.relation).toEqual({
+      associated_definition: 'M.Asset',
+      cardinality: 'ManyToMany',
+      role: 'Parent'
+    });
+    expect(snapshot.optionLists['M.AssetStatus'].options).toEqual({
+      approved: { 'en-US': 'Approved' },
+      rejected: { 'en-US': 'Rejected' }
+    });
+  });
+
+  test('should leave out options created by tests', async ({ apiClients }) => {
+    const client = apiClients.mock(source);
+    await client.optionLists.addOption(501, { key: `test-option-${Date.now()}`, labels: { 'en-US': 'Test' } });
+
+    const snapshot = await captureSchema(client);
+
+    expect(Object.keys(snapshot.optionLists['M.AssetStatus'].options)).toEqual(['approved', 'rejected']);
+  });
+
+  test('should find no drift between identical instances', async ({ apiClients }) => {
+    const [before, after] = await Promise.all([
+      captureSchema(apiClients.mock(source)),
+      captureSchema(apiClients.mock(target))
+    ]);
+
+    const diff = diffSchemas(before, after, { source: 'dev', target: 'qa' });
+
+    expect(diff).toEqual({ source: 'dev', target: 'qa', differences: [] });
+    expect(formatSchemaDiff(diff)).toBe('No schema drift from dev to qa');
+  });
+
+  test('should report missing, extra and changed schema', async ({ apiClients }) => {
+    const { state } = target;
+    const asset = state.entityDefinitions.get(1)!;
+    asset.members = asset.members.filter(({ name }) => name !== 'Description');
+    asset.members.find(({ name }) => name === 'FileSize')!.is_required = true;
+    state.entityDefinitions.get(2)!.members.find(({ name }) => name === 'Title')!.type = 'Text';
+    state.entityDefinitions.get(3)!.members.find(({ name }) => name === 'AssetToCollection')!.relation!.cardinality = 'OneToMany';
+    state.entityDefinitions.set(4, { id: 4, name: 'M.Brand', members: [] });
+    state.cultures = [...state.cultures.filter(({ name }) => name !== 'de-DE'), { name: 'nl-NL', is_default: false }];
+    const status = state.optionLists.get(501)!;
+    status.options = [{ key: 'approved', labels: { 'en-US': 'Approved', 'fr-FR': 'Approuvé' } }];
+    state.optionLists.set(502, { id: 502, name: 'M.Color', options: [] });
+
+    const diff = diffSchemas(
+      await captureSchema(apiClients.mock(source)),
+      await captureSchema(apiClients.mock(target)),
+      { source: 'dev', target: 'qa' }
+    );
+
+    expect(diff.differences).toEqual([
+      { kind: 'culture', subject: 'de-DE', change: 'missing' },
+      { kind: 'culture', subject: 'nl-NL', change: 'extra' },
+      { kind: 'member', subject: 'M.Asset.Description', change: 'missing' },
+      { kind: 'member', subject: 'M.Asset.FileSize', change: 'changed', field: 'is_required', source: false, target: true },
+      { kind: 'definition', subject: 'M.Brand', change: 'extra' },
+      {
+        kind: 'member',
+        subject: 'M.Collection.AssetToCollection',
+        change: 'changed',
+        field: 'relation.cardinality',
+        source: 'ManyToMany',
+        target: 'OneToMany'
+      },
+      { kind: 'member', subject: 'M.Content.Title', change: 'changed', field: 'type', source: 'String', target: 'Text' },
+      { kind: 'option', subject: 'M.AssetStatus.approved', change: 'changed', field: 'labels.fr-FR', source: undefined, target: 'Approuvé' },
+      { kind: 'option', subject: 'M.AssetStatus.rejected', change: 'missing' },
+      { kind: 'option list', subject: 'M.Color', change: 'extra' }
+    ]);
+    expect(formatSchemaDiff(diff)).toBe(
+      [
+        'Schema drift from dev to qa (10 differences):',
+        '  culture de-DE: missing on qa',
+        '  culture nl-NL: only on qa',
+        '  member M.Asset.Description: missing on qa',
+        '  member M.Asset.FileSize: is_required false on dev, true on qa',
+        '  definition M.Brand: only on qa',
+        '  member M.Collection.AssetToCollection: relation.cardinality "ManyToMany" on dev, "OneToMany" on qa',
+        '  member M.Content.Title: type "String" on dev, "Text" on qa',
+        '  option M.AssetStatus.approved: labels.fr-FR unset on dev, "Approuvé" on qa',
+        '  option M.AssetStatus.rejected: missing on qa',
+        '  option list M.Color: only on qa'
+      ].join('\n')
+    );
+  });
+
+  test('should report a changed default culture', async ({ apiClients }) => {
+    target.state.cultures = target.state.cultures.map(culture => ({ ...culture, is_default: culture.name === 'fr-FR' }));
+
+    const diff = diffSchemas(
+      await captureSchema(apiClients.mock(source)),
+      await captureSchema(apiClients.mock(target))
+    );
+
+    expect(diff.differences).toEqual([{ kind: 'culture', subject: 'default', change: 'changed', source: 'en-US', target: 'fr-FR' }]);
+  });
+
+  test('should save and load snapshots', async ({ apiClients }, testInfo) => {
+    const file = testInfo.outputPath('snapshots', 'schema.json');
+    const snapshot = await captureSchema(apiClients.mock(source));
+
+    expect(await loadSchemaSnapshot(file)).toBeUndefined();
+    await saveSchemaSnapshot(file, snapshot);
+
+    expect(await loadSchemaSnapshot(file)).toEqual(snapshot);
+  });
+
+  // `npm run schema:capture` and `npm run schema:diff` run these two
+  test('should match the baseline schema snapshot', { tag: '@schema-baseline' }, async ({ apiClients }, testInfo) => {
+    test.skip(!SCHEMA_BASELINE, 'Set CONTENT_HUB_SCHEMA_BASELINE to compare the schema with a snapshot');
+
+    // Against the mock its seed schema is what the snapshot holds, not whatever parallel tests changed
+    const client = USE_MOCK_SERVER ? apiClients.mock(source) : apiClients.configured();
+    const current = await captureSchema(client);
+    if (UPDATE_SCHEMA_BASELINE) {
+      await saveSchemaSnapshot(SCHEMA_BASELINE!, current);
+      return;
+    }
+
+    const baseline = await loadSchemaSnapshot(SCHEMA_BASELINE!);
+    expect(baseline, `No schema snapshot at ${SCHEMA_BASELINE}; set CONTENT_HUB_SCHEMA_UPDATE_BASELINE=true to store one`).toBeDefined();
+    const diff = diffSchemas(baseline!, current, { source: SCHEMA_BASELINE!, target: client.profile.name });
+    const report = await publish(diff, testInfo);
+    expect(diff.differences, report).toEqual([]);
+  });
+
+  test('should match the schema of two profiles', { tag: '@schema-compare' }, async ({ apiClients }, testInfo) => {
+    test.skip(!SCHEMA_COMPARE, 'Set CONTENT_HUB_SCHEMA_COMPARE=<profile>:<profile> to compare two instances');
+
+    const [sourceProfile, targetProfile] = SCHEMA_COMPARE!.split(':').map(name => resolveProfile(name));
+    const [before, after] = await Promise.all(
+      [sourceProfile, targetProfile].map(profile => captureSchema(apiClients.configured({ profile })))
+    );
+
+    const diff = diffSchemas(before, after, { source: sourceProfile.name, target: targetProfile.name });
+    const report = await publish(diff, testInfo);
+    expect(diff.differences, report).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubError, ContentHubNotFoundError } from '../src';
+import { test, expect } from './support/api-test';
+
+test.describe('SDK Resource Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    client = apiClients.mock(mockServer);
+  });
+
+  test('should create, read, update and delete entities', async () => {
+    const created = await client.entities.create({
+      identifier: `test-entity-sdk-${Date.now()}`,
+      properties: { Title: [{ culture: 'en-US', value: 'Original Title' }] }
+    });
+    expect(created.id).toEqual(expect.any(Number));
+
+    const updated = await client.entities.update(created.id, {
+      identifier: created.identifier,
+      properties: { Title: [{ culture: 'en-US', value: 'Updated Title' }] }
+    });
+    expect(updated.properties.Title[0].value).toBe('Updated Title');
+    expect((await client.entities.get(created.id)).identifier).toBe(created.identifier);
+
+    await client.entities.delete(created.id);
+    await expect(client.entities.get(created.id)).rejects.toThrow(ContentHubNotFoundError);
+  });
+
+  test('should return paged results from list, query and search', async () => {
+    const listed = await client.entities.list({ take: 2 });
+    expect(listed.items).toHaveLength(2);
+    expect(listed.total_items).toBe(3);
+
+    const queried = await client.entities.query({
+      query: 'Definition.Name:"M.Asset"',
+      take: 10,
+      sort: [{ field: 'id', direction: 'Desc' }]
+    });
+    const ids = queried.items.map(entity => entity.id);
+    expect(ids).toEqual([...ids].sort((a, b) => b - a));
+
+    const searched = await client.entities.search('seed content asset 2');
+    expect(searched.items.map(entity => entity.identifier)).toEqual(['seed-asset-2']);
+  });
+
+  test('should filter jobs and fetch job details', async () => {
+    const failed = await client.jobs.list({ status: 'Failed' });
+    expect(failed.items.every(job => job.status === 'Failed')).toBe(true);
+
+    const job = await client.jobs.get(failed.items[0].id);
+    expect(job.id).toBe(failed.items[0].id);
+  });
+
+  test('should manage selections', async () => {
+    const selection = await client.selections.create({ name: `Test Selection ${Date.now()}` });
+    const { items: [entity] } = await client.entities.list({ take: 1 });
+
+    await client.selections.addEntities(selection.id, [entity.id]);
+
+    expect((await client.selections.get(selection.id)).entities).toEqual([entity.id]);
+    expect((await client.selections.list()).items.map(item => item.id)).toContain(selection.id);
+  });
+
+  test('should read option lists and add options', async () => {
+    const { items: [optionList] } = await client.optionLists.list({ take: 1 });
+    const key = `test-option-${Date.now()}`;
+
+    const option = await client.optionLists.addOption(optionList.id, { key, labels: { 'en-US': 'Test Option' } });
+
+    expect(option.key).toBe(key);
+    expect((await client.optionLists.get(optionList.id)).options.map(item => item.key)).toContain(key);
+  });
+
+  test('should read entity definitions and their members', async () => {
+    const { items: definitions } = await client.entityDefinitions.list();
+    const asset = definitions.find(definition => definition.name === 'M.Asset')!;
+
+    expect((await client.entityDefinitions.get(asset.id)).name).toBe('M.Asset');
+    const members = await client.entityDefinitions.members(asset.id);
+    expect(members.items.map(member => member.name)).toContain('Title');
+  });
+
+  test('should initiate uploads and report progress', async () => {
+    const upload = await client.uploads.initiate({ filename: 'test-image.jpg', filesize: 1024, content_type: 'image/jpeg' });
+
+    const progress = await client.uploads.progress(upload.upload_identifier);
+
+    expect(upload.upload_configuration.name).toBeTruthy();
+    expect(progress.status).toBe('Pending');
+  });
+
+  test('should raise ContentHubError with the status, body and request', async () => {
+    const error = await client.entities.list({ take: -1 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubError);
+    expect(error).not.toBeInstanceOf(ContentHubNotFoundError);
+    expect(error.status).toBe(400);
+    expect(error.body).toMatchObject({ error: 'bad_request' });
+    expect(error.request).toEqual({ method: 'GET', endpoint: '/api/entities' });
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSharedRateLimiter, SharedRateLimiter } from '../src/shared-rate-limiter';
+
+const LIMIT = 10;
+const WINDOW_MS = 500;
+
+/**
+ * Largest number of grants that fall inside any single window
+ */
+function maxGrantsPerWindow(grants: number[], windowMs: number): number {
+  const sorted = [...grants].sort((a, b) => a - b);
+  let max = 0;
+  for (let start = 0, end = 0; end < sorted.length; end++) {
+    while (sorted[end] - sorted[start] >= windowMs) {
+      start++;
+    }
+    max = Math.max(max, end - start + 1);
+  }
+  return max;
+}
+
+test.describe('Shared Rate Limiter Tests', () => {
+  let stateDir: string;
+  let statePath: string;
+
+  test.beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limiter-test-'));
+    statePath = path.join(stateDir, 'grants.json');
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  test('should hold the limit for concurrent acquires on one limiter', async () => {
+    const limiter = new SharedRateLimiter({ limit: LIMIT, windowMs: WINDOW_MS, statePath });
+
+    const grants = await Promise.all(Array.from({ length: 30 }, () => limiter.acquire()));
+
+    expect(grants).toHaveLength(30);
+    expect(maxGrantsPerWindow(grants, WINDOW_MS)).toBeLessThanOrEqual(LIMIT);
+    expect(Math.max(...grants) - Math.min(...grants)).toBeGreaterThanOrEqual(2 * WINDOW_MS);
+  });
+
+  test('should hold the limit across limiters sharing a state file', async () => {
+    // Separate instances share nothing but the state file, like clients in different workers
+    const limiters = Array.from({ length: 3 }, () => new SharedRateLimiter({ limit: LIMIT, windowMs: WINDOW_MS, statePath }));
+
+    const grants = await Promise.all(
+      limiters.flatMap(limiter => Array.from({ length: 10 }, () => limiter.acquire()))
+    );
+
+    expect(maxGrantsPerWindow(grants, WINDOW_MS)).toBeLessThanOrEqual(LIMIT);
+    const recorded: number[] = JSON.parse(await fs.readFile(statePath, 'utf8'));
+    expect(recorded.length).toBeLessThanOrEqual(LIMIT);
+  });
+
+  test('should hold the limit in memory when no state file is given', async () => {
+    const limiter = new SharedRateLimiter({ limit: LIMIT, windowMs: WINDOW_MS });
+
+    const grants = await Promise.all(Array.from({ length: 25 }, () => limiter.acquire()));
+
+    expect(maxGrantsPerWindow(grants, WINDOW_MS)).toBeLessThanOrEqual(LIMIT);
+  });
+
+  test('should keep a separate budget per state file', async () => {
+    const instance = getSharedRateLimiter(2, 60000, statePath);
+    const mock = getSharedRateLimiter(2, 60000, path.join(stateDir, 'grants-4011.json'));
+    expect(getSharedRateLimiter(2, 60000, statePath)).toBe(instance);
+
+    await instance.acquire();
+    await instance.acquire();
+
+    // A private mock's clients are not throttled by what the instance's clients spent
+    const startTime = Date.now();
+    await mock.acquire();
+    expect(Date.now() - startTime).toBeLessThan(1000);
+  });
+
+  test('should report the wait once the budget is exhausted', async () => {
+    const limiter = new SharedRateLimiter({ limit: 2, windowMs: WINDOW_MS, statePath });
+    const waits: number[] = [];
+
+    await limiter.acquire(delay => waits.push(delay));
+    await limiter.acquire(delay => waits.push(delay));
+    expect(waits).toHaveLength(0);
+
+    await limiter.acquire(delay => waits.push(delay));
+    expect(waits).toHaveLength(1);
+    expect(waits[0]).toBeGreaterThan(0);
+    expect(waits[0]).toBeLessThanOrEqual(WINDOW_MS);
+  });
+
+  test('should free the budget on reset', async () => {
+    const limiter = new SharedRateLimiter({ limit: 2, windowMs: 60000, statePath });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    await limiter.reset();
+
+    const startTime = Date.now();
+    await limiter.acquire();
+    expect(Date.now() - startTime).toBeLessThan(1000);
+  });
+
+  test('should recover from a lock abandoned by a crashed process', async () => {
+    const lockPath = `${statePath}.lock`;
+    await fs.writeFile(lockPath, '');
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, past, past);
+
+    const limiter = new SharedRateLimiter({ limit: LIMIT, windowMs: WINDOW_MS, statePath, lockStaleMs: 1000 });
+    const startTime = Date.now();
+    await limiter.acquire();
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    await expect(fs.stat(lockPath)).rejects.toThrow();
+  });
+
+  test('should let only one worker break an abandoned lock', async () => {
+    const lockPath = `${statePath}.lock`;
+    await fs.writeFile(lockPath, '');
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(lockPath, past, past);
+
+    // Every limiter finds the same abandoned lock; breaking it must not also break the lock one of them takes next
+    const limiters = Array.from(
+      { length: 5 },
+      () => new SharedRateLimiter({ limit: LIMIT, windowMs: WINDOW_MS, statePath, lockStaleMs: 1000 })
+    );
+    const grants = await Promise.all(limiters.flatMap(limiter => Array.from({ length: 6 }, () => limiter.acquire())));
+
+    expect(maxGrantsPerWindow(grants, WINDOW_MS)).toBeLessThanOrEqual(LIMIT);
+    expect((await fs.readdir(stateDir)).sort()).toEqual(['grants.json']);
+  });
+});
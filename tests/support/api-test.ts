@@ -0,0 +1,55 @@
+import { test as base } from '@playwright/test';
+import { MockServer } from '../../mock-server/content-hub-mock-server';
+import { attachApiMetrics, ContentHubAPIClient, ContentHubClientOptions, resolveProfile } from '../../src';
+import { createMockClient } from './mock-client';
+
+export { expect } from '@playwright/test';
+
+/**
+ * Builds the clients of a test, so that what they send is attached to its result
+ */
+export interface ApiClients {
+  /** A client of the selected profile, as `new ContentHubAPIClient(request, options)` */
+  configured(options?: ContentHubClientOptions): ContentHubAPIClient;
+  /** A client of a test-owned mock, as `createMockClient(request, mockServer, options)` */
+  mock(mockServer: MockServer, options?: ContentHubClientOptions): ContentHubAPIClient;
+}
+
+/**
+ * `test` with an automatic `apiClients` fixture. Tests tagged `@destructive` create, change or
+ * delete data on the configured instance and are skipped when its profile is read-only.
+ *
+ * After the test, the calls, bytes, rate limit waits and latencies of every client it built are
+ * attached for the API metrics reporter, and with DEBUG_API_CALLS or DEBUG_API_CALLS_FILE set,
+ * their redacted calls as `api-calls`.
+ */
+export const test = base.extend<{ apiClients: ApiClients }>({
+  apiClients: [
+    async ({ request }, use, testInfo) => {
+      if (testInfo.tags.includes('@destructive')) {
+        const profile = resolveProfile();
+        testInfo.skip(profile.readOnly, `Profile '${profile.name}' is read-only`);
+      }
+
+      const clients: ContentHubAPIClient[] = [];
+      const track = (client: ContentHubAPIClient) => {
+        clients.push(client);
+        return client;
+      };
+
+      await use({
+        configured: options => track(new ContentHubAPIClient(request, options)),
+        mock: (mockServer, options) => track(createMockClient(request, mockServer, options))
+      });
+
+      if (clients.length > 0) {
+        await attachApiMetrics(testInfo, ...clients);
+      }
+      const calls = clients.map(client => client.callLog?.toNdjson() ?? '').join('');
+      if (calls) {
+        await testInfo.attach('api-calls', { body: calls, contentType: 'application/x-ndjson' });
+      }
+    },
+    { auto: true }
+  ]
+});
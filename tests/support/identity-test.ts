@@ -0,0 +1,28 @@
+import { ContentHubAPIClient, deleteResources, resolveIdentities } from '../../src';
+import { test as base } from './api-test';
+
+export { expect } from './api-test';
+
+/**
+ * `test` with an `identities` fixture: a client per identity of CONTENT_HUB_IDENTITIES, keyed by
+ * name. Each signs in on its own and keeps its own token cache. What a client creates is deleted
+ * after the test by the profile's own client, as the identity itself may not be allowed to.
+ */
+export const test = base.extend<{ identities: Record<string, ContentHubAPIClient> }>({
+  identities: async ({ apiClients }, use) => {
+    const clients = Object.fromEntries(
+      resolveIdentities().map(identity => [identity.name, apiClients.configured({ identity })])
+    );
+    try {
+      await use(clients);
+    } finally {
+      const owner = apiClients.configured();
+      for (const client of Object.values(clients)) {
+        const { deleted } = await deleteResources(owner, client.createdResources.pending.reverse());
+        for (const resource of deleted) {
+          await client.createdResources.forget(resource);
+        }
+      }
+    }
+  }
+});
@@ -0,0 +1,40 @@
+import { APIRequestContext } from '@playwright/test';
+import * as path from 'path';
+import { MockServer } from '../../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubClientOptions, contractOptionsFromEnv, forgetEntityDefinitions } from '../../src';
+
+/**
+ * Rate limiter state of the mock's own, next to the run's, so that suites on private mocks
+ * do not draw from the configured instance's budget
+ */
+function mockRateLimitState(mockServer: MockServer): string | undefined {
+  const runState = process.env.CONTENT_HUB_RATE_LIMIT_STATE;
+  return runState && path.join(path.dirname(runState), `grants-${new URL(mockServer.url).port}.json`);
+}
+
+/**
+ * A client pointed at a test-owned mock server with its default credentials.
+ * The mock is never a shared instance, so it is writable whatever profile is selected.
+ * Its responses follow the contract catalog exactly, so violations throw whatever instance is
+ * configured; definitions cached from before the mock was last reset are forgotten.
+ */
+export function createMockClient(
+  request: APIRequestContext,
+  mockServer: MockServer,
+  options: ContentHubClientOptions = {}
+): ContentHubAPIClient {
+  forgetEntityDefinitions(mockServer.url);
+  return new ContentHubAPIClient(request, {
+    baseUrl: mockServer.url,
+    clientId: 'mock-client-id',
+    clientSecret: 'mock-client-secret',
+    username: 'mock-user',
+    password: 'mock-password',
+    grantType: 'password',
+    refreshToken: undefined,
+    readOnly: false,
+    rateLimitState: mockRateLimitState(mockServer),
+    contracts: contractOptionsFromEnv('throw'),
+    ...options
+  });
+}
@@ -0,0 +1,34 @@
+import * as path from 'path';
+import { FixtureSeeder, SeededFixtures } from '../../src';
+import { test as base } from './api-test';
+
+export { expect } from './api-test';
+
+/** Fixture files are named relative to this directory */
+export const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures');
+
+export interface SeedOptions {
+  /** Files under tests/fixtures to seed, e.g. `test.use({ fixtureFiles: ['assets.yaml'] })` */
+  fixtureFiles: string[];
+}
+
+/**
+ * `test` with a `seeded` fixture: the data of `fixtureFiles`, created before the test and
+ * deleted after it whether it passed or not. Seeding writes, so tests using it are tagged
+ * `@destructive`, and it is always live, so they are skipped when replaying cassettes.
+ */
+export const test = base.extend<SeedOptions & { seeded: SeededFixtures }>({
+  fixtureFiles: [[], { option: true }],
+
+  seeded: async ({ apiClients, fixtureFiles }, use, testInfo) => {
+    const client = apiClients.configured();
+    testInfo.skip(process.env.CONTENT_HUB_CASSETTE === 'replay', 'Seeded data is created live');
+
+    const seeder = new FixtureSeeder(client);
+    try {
+      await use(await seeder.seed(...fixtureFiles.map(file => path.resolve(FIXTURE_DIR, file))));
+    } finally {
+      await seeder.teardown();
+    }
+  }
+});
@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+import { resolveProfile, startWebhookReceiver, WebhookReceiver } from '../../src';
+import { test as base } from './api-test';
+
+export { expect } from './api-test';
+
+/** Header carrying the shared secret of callbacks */
+export const WEBHOOK_SECRET_HEADER = 'X-Webhook-Secret';
+
+/**
+ * `test` with a `webhooks` fixture: a receiver recording the callbacks of entity changes.
+ *
+ * In mock mode the receiver listens on an ephemeral port and subscribes to the mock, which signs
+ * callbacks and sends a shared secret unique to the test. Against an instance it listens on
+ * CONTENT_HUB_WEBHOOK_PORT, where a trigger's API call action must reach it, and checks the
+ * CONTENT_HUB_WEBHOOK_SECRET header when one is set; tests using it are skipped without a port.
+ * Only one receiver can hold that port, so those tests run in the first project only, and their
+ * describe block must be serial.
+ */
+export const test = base.extend<{ webhooks: WebhookReceiver }>({
+  webhooks: async ({ request }, use, testInfo) => {
+    testInfo.skip(process.env.CONTENT_HUB_CASSETTE === 'replay', 'Callbacks are received live');
+
+    if (process.env.CONTENT_HUB_MOCK !== 'true') {
+      const port = process.env.CONTENT_HUB_WEBHOOK_PORT;
+      testInfo.skip(!port, 'Set CONTENT_HUB_WEBHOOK_PORT to receive callbacks from the instance');
+      const [first] = testInfo.config.projects;
+      testInfo.skip(testInfo.project.name !== first.name, `Callbacks from the instance are received in project '${first.name}' only`);
+      const value = process.env.CONTENT_HUB_WEBHOOK_SECRET;
+      const receiver = await startWebhookReceiver({
+        host: '0.0.0.0',
+        port: Number(port),
+        sharedSecret: value ? { header: WEBHOOK_SECRET_HEADER, value } : undefined
+      });
+      try {
+        await use(receiver);
+      } finally {
+        await receiver.close();
+      }
+      return;
+    }
+
+    const secret = randomBytes(16).toString('hex');
+    const receiver = await startWebhookReceiver({ secret, sharedSecret: { header: WEBHOOK_SECRET_HEADER, value: secret } });
+    const mockUrl = resolveProfile().baseUrl;
+    const subscription = await request.post(`${mockUrl}/__mock/webhooks`, {
+      data: { url: receiver.url, secret, headers: { [WEBHOOK_SECRET_HEADER]: secret } }
+    });
+    const { id } = await subscription.json();
+    try {
+      await use(receiver);
+    } finally {
+      await request.delete(`${mockUrl}/__mock/webhooks/${id}`);
+      await receiver.close();
+    }
+  }
+});
@@ -0,0 +1,132 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAuthError, ContentHubClientOptions } from '../src';
+import { ApiClients, test, expect } from './support/api-test';
+
+test.describe('Token Lifecycle Tests', () => {
+  let mockServer: MockServer;
+
+  // Contract checks would add member definition lookups to the calls these tests time and count
+  const createClient = (apiClients: ApiClients, options: ContentHubClientOptions = {}) =>
+    apiClients.mock(mockServer, { tokenRefreshMarginSeconds: 1, contracts: false, ...options });
+
+  const tokenRequests = () => mockServer.state.requests.filter(record => record.path === '/api/oauth/token');
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false, tokenTtlSeconds: 2 });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(() => {
+    mockServer.reset();
+  });
+
+  test('should reuse a cached token for sequential and concurrent calls', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+
+    await client.get('/api/entities');
+    await Promise.all(Array.from({ length: 5 }, () => client.get('/api/jobs')));
+
+    expect(tokenRequests()).toHaveLength(1);
+  });
+
+  test('should refresh the token ahead of expiry with the refresh token', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+    const firstToken = await client.getAuthToken();
+    const [firstRefreshToken] = mockServer.state.refreshTokens;
+
+    // Past the refresh point (expires_in minus the margin) but before the token actually expires
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const response = await client.get('/api/entities');
+    expect(response.status()).toBe(200);
+    expect(await client.getAuthToken()).not.toBe(firstToken);
+    // The refresh token grant rotates the refresh token
+    expect(mockServer.state.refreshTokens.has(firstRefreshToken)).toBe(false);
+    expect(mockServer.state.requests.some(record => record.status === 401)).toBe(false);
+  });
+
+  test('should re-authenticate once the token has expired', async ({ apiClients }) => {
+    const client = createClient(apiClients, { tokenRefreshMarginSeconds: 0 });
+    const firstToken = await client.getAuthToken();
+
+    await new Promise(resolve => setTimeout(resolve, 2100));
+
+    const response = await client.get('/api/entities');
+    expect(response.status()).toBe(200);
+    expect(await client.getAuthToken()).not.toBe(firstToken);
+  });
+
+  test('should re-authenticate and retry once when the token is revoked', async ({ apiClients }) => {
+    const client = createClient(apiClients, { tokenRefreshMarginSeconds: 0 });
+    const revokedToken = await client.getAuthToken();
+    mockServer.revokeTokens(revokedToken);
+
+    const response = await client.get('/api/entities');
+
+    expect(response.status()).toBe(200);
+    expect(await client.getAuthToken()).not.toBe(revokedToken);
+    const entityCalls = mockServer.state.requests.filter(record => record.path === '/api/entities');
+    expect(entityCalls.map(record => record.status)).toEqual([401, 200]);
+  });
+
+  test('should fall back to the primary grant when the refresh token is revoked', async ({ apiClients }) => {
+    const client = createClient(apiClients, { tokenRefreshMarginSeconds: 0 });
+    await client.getAuthToken();
+    mockServer.revokeTokens();
+
+    const response = await client.delete('/api/entities/99999999');
+
+    expect(response.status()).toBe(404);
+    expect(tokenRequests().map(record => record.status)).toEqual([200, 400, 200]);
+  });
+
+  test('should return the 401 when re-authentication does not help', async ({ apiClients }) => {
+    const client = createClient(apiClients);
+    mockServer.injectFault({ method: 'GET', path: '/api/jobs', status: 401 });
+
+    const response = await client.get('/api/jobs');
+
+    expect(response.status()).toBe(401);
+    expect(mockServer.state.requests.filter(record => record.path === '/api/jobs')).toHaveLength(2);
+  });
+
+  test('should authenticate with the client_credentials grant', async ({ apiClients }) => {
+    const client = createClient(apiClients, { grantType: 'client_credentials' });
+
+    const response = await client.get('/api/entities');
+
+    expect(response.status()).toBe(200);
+    expect(mockServer.state.refreshTokens.size).toBe(0);
+  });
+
+  test('should authenticate with the refresh_token grant', async ({ apiClients }) => {
+    await createClient(apiClients).getAuthToken();
+    const [refreshToken] = mockServer.state.refreshTokens;
+
+    const client = createClient(apiClients, { grantType: 'refresh_token', refreshToken });
+    const response = await client.get('/api/entities');
+
+    expect(response.status()).toBe(200);
+    expect(mockServer.state.refreshTokens.has(refreshToken)).toBe(false);
+  });
+
+  test('should raise ContentHubAuthError for rejected credentials', async ({ apiClients }) => {
+    const client = createClient(apiClients, { password: 'wrong-password' });
+
+    const error = await client.getAuthToken().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubAuthError);
+    expect(error.status).toBe(400);
+    expect(error.grantType).toBe('password');
+    expect(error.body).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  test('should raise ContentHubAuthError when a refresh_token grant is rejected', async ({ apiClients }) => {
+    const client = createClient(apiClients, { grantType: 'refresh_token', refreshToken: 'revoked-refresh-token' });
+
+    await expect(client.get('/api/entities')).rejects.toThrow(ContentHubAuthError);
+  });
+});
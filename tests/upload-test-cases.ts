@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import { ContentHubAPIClient, ContentHubUploadError } from '../src';
+import { test, expect } from './support/api-test';
+
+const CHUNK_SIZE = 1024;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+test.describe('Chunked Upload Tests', () => {
+  let mockServer: MockServer;
+  let client: ContentHubAPIClient;
+  let fileDir: string;
+
+  test.beforeAll(async () => {
+    mockServer = await startMockServer({ rateLimit: false, uploadChunkSize: CHUNK_SIZE });
+  });
+
+  test.afterAll(async () => {
+    await mockServer.close();
+  });
+
+  test.beforeEach(async ({ apiClients }) => {
+    mockServer.reset();
+    fileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-hub-upload-test-'));
+    client = apiClients.mock(mockServer);
+  });
+
+  test.afterEach(async () => {
+    await fs.rm(fileDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a PNG-signed file of `size` bytes with deterministic content
+   */
+  async function writeFile(name: string, size: number): Promise<string> {
+    const content = Buffer.alloc(size, 0);
+    PNG_SIGNATURE.copy(content);
+    for (let i = PNG_SIGNATURE.length; i < size; i++) {
+      content[i] = i % 251;
+    }
+    const filePath = path.join(fileDir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  }
+
+  const chunkRequests = () =>
+    mockServer.state.requests
+      .filter(({ method, path }) => method === 'PUT' && path.includes('/chunks/'))
+      .map(({ path }) => Number(path.split('/').pop()));
+
+  test('should upload a multi-chunk file and create the M.Asset', async () => {
+    const filePath = await writeFile('multi-chunk.png', CHUNK_SIZE * 3 + 100);
+
+    const assetId = await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 });
+
+    expect(chunkRequests()).toEqual([0, 1, 2, 3]);
+    const asset = await client.entities.get(assetId);
+    expect(asset.definition).toBe('M.Asset');
+    expect(asset.properties.FileName[0].value).toBe('multi-chunk.png');
+    expect(asset.properties.FileSize[0].value).toBe(CHUNK_SIZE * 3 + 100);
+    expect(asset.properties.MimeType[0].value).toBe('image/png');
+    expect(client.createdResources.pending).toContainEqual({ kind: 'entity', id: assetId });
+  });
+
+  test('should upload a file that fits in a single chunk', async () => {
+    const filePath = await writeFile('single-chunk.png', CHUNK_SIZE);
+
+    const assetId = await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 });
+
+    expect(chunkRequests()).toEqual([0]);
+    expect(mockServer.state.entities.get(assetId)?.definition).toBe('M.Asset');
+  });
+
+  test('should resume an interrupted upload without resending received chunks', async () => {
+    const filePath = await writeFile('interrupted.png', CHUNK_SIZE * 4);
+    mockServer.injectFault({ method: 'PUT', path: /\/chunks\/2$/, status: 500, times: 1 });
+
+    const error = await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.status).toBe(500);
+    const progress = await client.uploads.progress(error.uploadIdentifier);
+    expect(progress.status).toBe('Pending');
+    expect(progress.received_chunks).toEqual([0, 1]);
+
+    const assetId = await client.uploads.uploadFile(filePath, {
+      uploadIdentifier: error.uploadIdentifier,
+      pollIntervalMs: 10
+    });
+
+    expect(chunkRequests()).toEqual([0, 1, 2, 2, 3]);
+    expect(mockServer.state.entities.get(assetId)?.properties.FileSize[0].value).toBe(CHUNK_SIZE * 4);
+  });
+
+  test('should return the asset when resuming an upload that already completed', async () => {
+    const filePath = await writeFile('completed.png', CHUNK_SIZE + 1);
+    const assetId = await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 });
+    const uploadIdentifier = [...mockServer.state.uploads.keys()][0];
+
+    const resumedAssetId = await client.uploads.uploadFile(filePath, { uploadIdentifier, pollIntervalMs: 10 });
+
+    expect(resumedAssetId).toBe(assetId);
+    expect(chunkRequests()).toEqual([0, 1]);
+  });
+
+  test('should reject the upload when the checksum does not match', async () => {
+    const filePath = await writeFile('corrupted.png', CHUNK_SIZE * 2);
+    const upload = await client.uploads.initiate({
+      filename: 'corrupted.png',
+      filesize: CHUNK_SIZE * 2,
+      content_type: 'image/png'
+    });
+    // A chunk damaged in transit before the upload was interrupted
+    const corrupted = (await fs.readFile(filePath)).subarray(0, CHUNK_SIZE);
+    corrupted[CHUNK_SIZE - 1] ^= 0xff;
+    await client.uploads.uploadChunk(upload, 0, corrupted);
+    const entityIds = [...mockServer.state.entities.keys()];
+
+    const error = await client.uploads
+      .uploadFile(filePath, { uploadIdentifier: upload.upload_identifier, pollIntervalMs: 10 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.status).toBe(400);
+    expect(error.code).toBe('checksum_mismatch');
+    expect(error.message).toContain(createHash('sha256').update(await fs.readFile(filePath)).digest('hex'));
+    const progress = await client.uploads.progress(upload.upload_identifier);
+    expect(progress.status).toBe('Failed');
+    // No asset came of the upload
+    expect(progress.asset_id).toBeUndefined();
+    expect([...mockServer.state.entities.keys()]).toEqual(entityIds);
+  });
+
+  test('should reject content that disagrees with the declared content type', async () => {
+    const filePath = await writeFile('not-a-jpeg.jpg', CHUNK_SIZE);
+
+    const error = await client.uploads.uploadFile(filePath, { pollIntervalMs: 10 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.code).toBe('content_type_mismatch');
+    expect(error.message).toContain('image/jpeg');
+  });
+
+  test('should reject chunks beyond the filesize declared at initiate', async () => {
+    const filePath = await writeFile('larger.png', CHUNK_SIZE * 2);
+    const upload = await client.uploads.initiate({
+      filename: 'larger.png',
+      filesize: CHUNK_SIZE + 10,
+      content_type: 'image/png'
+    });
+
+    const error = await client.uploads
+      .uploadFile(filePath, { uploadIdentifier: upload.upload_identifier, pollIntervalMs: 10 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.code).toBe('filesize_exceeded');
+    expect(error.uploadIdentifier).toBe(upload.upload_identifier);
+  });
+
+  test('should reject a file smaller than the filesize declared at initiate', async () => {
+    const filePath = await writeFile('smaller.png', CHUNK_SIZE);
+    const upload = await client.uploads.initiate({
+      filename: 'smaller.png',
+      filesize: CHUNK_SIZE * 2,
+      content_type: 'image/png'
+    });
+
+    const error = await client.uploads
+      .uploadFile(filePath, { uploadIdentifier: upload.upload_identifier, pollIntervalMs: 10 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.code).toBe('filesize_mismatch');
+  });
+
+  test('should time out when processing does not finish', async () => {
+    const filePath = await writeFile('slow.png', CHUNK_SIZE);
+    mockServer.injectFault({
+      method: 'GET',
+      path: /^\/api\/upload\/progress\//,
+      status: 200,
+      body: { status: 'Processing' }
+    });
+
+    const error = await client.uploads
+      .uploadFile(filePath, { pollIntervalMs: 10, timeoutMs: 100 })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ContentHubUploadError);
+    expect(error.message).toMatch(/still Processing after 100ms/);
+  });
+});
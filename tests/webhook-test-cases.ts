@@ -0,0 +1,197 @@
+import { startMockServer, MockServer } from '../mock-server/content-hub-mock-server';
+import {
+  ContentHubAPIClient,
+  ContentHubWebhookError,
+  setPropertyValue,
+  signWebhookBody,
+  startWebhookReceiver,
+  WebhookReceiver
+} from '../src';
+import { test, expect, WEBHOOK_SECRET_HEADER } from './support/webhook-test';
+
+test.describe('Webhook Tests', () => {
+  test.describe('with the configured instance', () => {
+    // One receiver on CONTENT_HUB_WEBHOOK_PORT at a time
+    test.describe.configure({ mode: 'serial' });
+
+    test('should be called back when an entity is created, updated and deleted', { tag: '@destructive' }, async ({ apiClients, webhooks }) => {
+      const client = apiClients.configured();
+
+      try {
+        const entity = await client.entities.create({
+          identifier: `test-entity-webhook-${Date.now()}`,
+          definition: 'M.Asset',
+          properties: setPropertyValue({}, 'FileName', 'webhook.jpg')
+        });
+        const created = await webhooks.expectEvent({ entityId: entity.id, type: 'EntityCreated' }, 10000);
+        expect(created).toMatchObject({ definition: 'M.Asset', identifier: entity.identifier });
+
+        await client.entities.update(entity.id, {
+          identifier: entity.identifier,
+          properties: setPropertyValue({}, 'FileName', 'renamed.jpg')
+        });
+        const updated = await webhooks.expectEvent({ entityId: entity.id, type: 'EntityUpdated' }, 10000);
+        expect(updated.body.saveEntityMessage.ChangeSet?.PropertyChanges).toContainEqual(
+          expect.objectContaining({ Property: 'FileName', OriginalValue: 'webhook.jpg', NewValue: 'renamed.jpg' })
+        );
+
+        await client.entities.delete(entity.id);
+        await webhooks.expectEvent({ entityId: entity.id, type: 'EntityDeleted' }, 10000);
+      } finally {
+        await client.deleteCreatedResources();
+      }
+    });
+  });
+
+  test.describe('against the mock', () => {
+    let mockServer: MockServer;
+    let receiver: WebhookReceiver;
+    let client: ContentHubAPIClient;
+
+    const create = (definition: string, name: string) =>
+      client.entities.create({ identifier: `test-entity-${name}-${Date.now()}`, definition });
+
+    test.beforeAll(async () => {
+      mockServer = await startMockServer({ rateLimit: false, jobDurationMs: 20 });
+    });
+
+    test.afterAll(async () => {
+      await mockServer.close();
+    });
+
+    test.beforeEach(async ({ apiClients }) => {
+      mockServer.reset();
+      receiver = await startWebhookReceiver({ secret: 'webhook-secret', sharedSecret: { header: WEBHOOK_SECRET_HEADER, value: 'shared' } });
+      client = apiClients.mock(mockServer);
+    });
+
+    test.afterEach(async () => {
+      await receiver.close();
+    });
+
+    const subscribe = (options: Partial<Parameters<MockServer['addWebhook']>[0]> = {}) =>
+      mockServer.addWebhook({ url: receiver.url, secret: 'webhook-secret', headers: { [WEBHOOK_SECRET_HEADER]: 'shared' }, ...options });
+
+    test('should deliver signed callbacks in the order entities changed', async () => {
+      const webhook = subscribe();
+
+      const hero = await client.entities.create({
+        identifier: `test-entity-hero-${Date.now()}`,
+        definition: 'M.Asset',
+        properties: setPropertyValue({}, 'Title', 'Hero', 'en-US')
+      });
+      await client.entities.update(hero.id, {
+        identifier: hero.identifier,
+        properties: setPropertyValue(hero.properties, 'Title', 'Héros', 'fr-FR')
+      });
+      await client.entities.delete(hero.id);
+
+      const deleted = await receiver.expectEvent({ entityId: hero.id, type: 'EntityDeleted' });
+      expect(receiver.events.map(({ type }) => type)).toEqual(['EntityCreated', 'EntityUpdated', 'EntityDeleted']);
+      const [created, updated] = receiver.events;
+      expect(created.body.saveEntityMessage).toMatchObject({
+        EventType: 'EntityCreated',
+        IsNew: true,
+        TargetDefinition: 'M.Asset',
+        TargetId: hero.id,
+        TargetIdentifier: hero.identifier,
+        ChangeSet: { PropertyChanges: [{ Property: 'Title', Culture: 'en-US', OriginalValue: null, NewValue: 'Hero' }] }
+      });
+      // Only what changed is listed
+      expect(updated.body.saveEntityMessage.ChangeSet).toEqual({
+        PropertyChanges: [{ Property: 'Title', Culture: 'fr-FR', OriginalValue: null, NewValue: 'Héros' }],
+        Cultures: ['fr-FR'],
+        RelationChanges: []
+      });
+      expect(deleted.headers[WEBHOOK_SECRET_HEADER.toLowerCase()]).toBe('shared');
+      expect(deleted.headers['x-signature-256']).toBe(signWebhookBody(JSON.stringify(deleted.body), 'webhook-secret'));
+
+      await mockServer.flushWebhooks();
+      expect(mockServer.state.deliveries.map(({ webhookId, status }) => [webhookId, status])).toEqual([
+        [webhook.id, 204],
+        [webhook.id, 204],
+        [webhook.id, 204]
+      ]);
+    });
+
+    test('should reject callbacks with a wrong signature or shared secret', async ({ request }) => {
+      subscribe({ secret: 'other-secret' });
+      subscribe({ headers: {} });
+
+      const asset = await create('M.Asset', 'unsigned');
+
+      await mockServer.flushWebhooks();
+      expect(mockServer.state.deliveries.map(({ status }) => status)).toEqual([401, 401]);
+      expect(receiver.rejected.map(({ reason }) => reason)).toEqual([
+        'Missing or invalid X-Signature-256 signature',
+        `Missing or wrong ${WEBHOOK_SECRET_HEADER} header`
+      ]);
+      await receiver.expectNoEvent({ entityId: asset.id }, 100);
+
+      // Signed and carrying the secret, but not a message about an entity
+      const body = JSON.stringify({ hello: 'world' });
+      const response = await request.post(receiver.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Signature-256': signWebhookBody(body, 'webhook-secret'),
+          [WEBHOOK_SECRET_HEADER]: 'shared'
+        },
+        data: body
+      });
+      expect(response.status()).toBe(400);
+      expect(receiver.rejected.at(-1)?.reason).toBe('Body is not a saveEntityMessage');
+    });
+
+    test('should only call back for the subscribed events and definitions', async () => {
+      subscribe({ events: ['EntityCreated'], definitions: ['M.Collection'] });
+
+      const asset = await create('M.Asset', 'asset');
+      const collection = await create('M.Collection', 'collection');
+      await client.entities.delete(collection.id);
+
+      await receiver.expectEvent({ entityId: collection.id, type: 'EntityCreated', definition: 'M.Collection' });
+      await receiver.expectNoEvent({ entityId: asset.id }, 100);
+      await receiver.expectNoEvent({ type: 'EntityDeleted' }, 100);
+      expect(receiver.events).toHaveLength(1);
+    });
+
+    test('should call back for changes made by jobs', async () => {
+      subscribe({ events: ['EntityUpdated'] });
+      const [first, second] = await Promise.all([create('M.Asset', 'first'), create('M.Asset', 'second')]);
+
+      const { job_id } = await client.entities.bulkUpdate({
+        entity_ids: [first.id, second.id],
+        properties: setPropertyValue({}, 'FileName', 'bulk.jpg')
+      });
+      await client.jobs.waitForJob(job_id, { interval: 10 });
+
+      for (const { id } of [first, second]) {
+        const event = await receiver.expectEvent({ entityId: id, type: 'EntityUpdated' });
+        expect(event.body.saveEntityMessage.ChangeSet?.PropertyChanges).toEqual([
+          { Property: 'FileName', Culture: null, OriginalValue: null, NewValue: 'bulk.jpg' }
+        ]);
+      }
+    });
+
+    test('should report the callbacks received when an expected one does not arrive', async () => {
+      subscribe();
+      const asset = await create('M.Asset', 'late');
+      await receiver.expectEvent({ entityId: asset.id });
+
+      const missing = await receiver.expectEvent({ entityId: asset.id, type: 'EntityDeleted' }, 100).catch(caught => caught);
+
+      expect(missing).toBeInstanceOf(ContentHubWebhookError);
+      expect(missing.message).toBe(
+        `EntityDeleted callback for entity ${asset.id} not received within 100ms; received: EntityCreated M.Asset ${asset.id}`
+      );
+      expect(missing.received).toHaveLength(1);
+      await expect(receiver.expectNoEvent({ type: 'EntityCreated' }, 100)).rejects.toThrow(
+        `Unexpected EntityCreated callback for M.Asset ${asset.id}`
+      );
+
+      // Subscriptions end with the rest of the mock state
+      mockServer.reset();
+      expect(mockServer.state.webhooks.size).toBe(0);
+    });
+  });
+});